@@ -0,0 +1,532 @@
+"use client";
+
+import { UserButton, useAuth } from "@clerk/nextjs";
+import AccountTransfers from "@/components/AccountTransfers";
+import EquityCurveChart from "@/components/EquityCurveChart";
+import {
+  createAccount,
+  createTransfer,
+  deleteAccount,
+  deleteTransfer,
+  updateAccount,
+} from "@/lib/accountApi";
+import {
+  Account,
+  AccountDraft,
+  AccountTransfer,
+  AccountTransferDraft,
+  calculateAccountPerformance,
+  getAccountLabel,
+  sortAccounts,
+  validateAccountDraft,
+} from "@/lib/accounts";
+import {
+  CurrencySettings,
+  createDefaultCurrencySettings,
+  loadCurrencySettings,
+} from "@/lib/currency";
+import { formatCurrency, formatPnL } from "@/lib/format";
+import { loadOfflineTrades } from "@/lib/offlineSync";
+import { buildFilteredHref, createDefaultFilters } from "@/lib/tradeFilters";
+import { Trade } from "@/lib/trades";
+import { FormEvent, useEffect, useMemo, useState } from "react";
+import { ArrowLeft, Edit3, Trash2, Wallet, X } from "lucide-react";
+import type { Route } from "next";
+import Link from "next/link";
+
+type AccountFormData = {
+  name: string;
+  exchange: string;
+  baseCurrency: string;
+  startingBalance: string;
+};
+
+const createEmptyAccountForm = (): AccountFormData => ({
+  name: "",
+  exchange: "",
+  baseCurrency: "USD",
+  startingBalance: "0",
+});
+
+const inputClassName =
+  "rounded-lg border border-white/10 bg-slate-900/60 px-3 py-2 text-sm normal-case tracking-normal text-white focus:border-emerald-500 focus:outline-none focus:ring-2 focus:ring-emerald-500/40";
+
+const formatReturn = (value: number | null) =>
+  value === null ? "—" : `${value >= 0 ? "+" : ""}${(value * 100).toFixed(2)}%`;
+
+export default function AccountsPage() {
+  const { userId, isLoaded } = useAuth();
+  const [trades, setTrades] = useState<Trade[]>([]);
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [transfers, setTransfers] = useState<AccountTransfer[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [currencySettings, setCurrencySettings] = useState<CurrencySettings>(
+    () => createDefaultCurrencySettings(),
+  );
+  const [formData, setFormData] = useState<AccountFormData>(() =>
+    createEmptyAccountForm(),
+  );
+  const [editingAccountId, setEditingAccountId] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [busyAccountId, setBusyAccountId] = useState<string | null>(null);
+
+  useEffect(() => {
+    setCurrencySettings(loadCurrencySettings());
+  }, []);
+
+  useEffect(() => {
+    if (!isLoaded) {
+      return;
+    }
+
+    if (!userId) {
+      setTrades([]);
+      setAccounts([]);
+      setTransfers([]);
+      return;
+    }
+
+    const loadAccounts = async () => {
+      try {
+        setIsLoading(true);
+        const journal = await loadOfflineTrades(userId);
+        setTrades(journal.trades);
+        setAccounts(journal.accounts);
+        setTransfers(journal.transfers);
+        setError(null);
+      } catch (fetchErr) {
+        console.error(fetchErr);
+        setError(
+          fetchErr instanceof Error
+            ? fetchErr.message
+            : "Failed to load accounts.",
+        );
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadAccounts();
+  }, [isLoaded, userId]);
+
+  const performances = useMemo(
+    () =>
+      accounts.map((account) =>
+        calculateAccountPerformance(account, trades, transfers, currencySettings),
+      ),
+    [accounts, currencySettings, trades, transfers],
+  );
+  const unassignedCount = trades.filter((trade) => !trade.accountId).length;
+
+  const resetForm = () => {
+    setFormData(createEmptyAccountForm());
+    setEditingAccountId(null);
+  };
+
+  const startEditing = (account: Account) => {
+    setEditingAccountId(account.id);
+    setFormData({
+      name: account.name,
+      exchange: account.exchange,
+      baseCurrency: account.baseCurrency,
+      startingBalance: account.startingBalance.toString(),
+    });
+  };
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!userId) {
+      alert("You must be signed in to manage accounts.");
+      return;
+    }
+
+    const draft: AccountDraft = {
+      name: formData.name,
+      exchange: formData.exchange,
+      baseCurrency: formData.baseCurrency.trim().toUpperCase(),
+      startingBalance: formData.startingBalance.trim()
+        ? parseFloat(formData.startingBalance)
+        : 0,
+    };
+    const validationError = validateAccountDraft(draft, accounts, editingAccountId);
+    if (validationError) {
+      alert(validationError);
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      const saved = editingAccountId
+        ? await updateAccount(editingAccountId, draft)
+        : await createAccount(draft);
+      setAccounts((prev) =>
+        sortAccounts([
+          ...prev.filter((account) => account.id !== saved.id),
+          saved,
+        ]),
+      );
+      resetForm();
+    } catch (saveErr) {
+      console.error(saveErr);
+      alert(
+        saveErr instanceof Error
+          ? saveErr.message
+          : "Failed to save account. Please try again.",
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDeleteAccount = async (account: Account, tradeCount: number) => {
+    if (!userId) {
+      alert("You must be signed in to manage accounts.");
+      return;
+    }
+    if (
+      !window.confirm(
+        `Delete ${account.name} and its transfers? Its ${tradeCount} trade(s) stay in the journal without an account.`,
+      )
+    ) {
+      return;
+    }
+
+    try {
+      setBusyAccountId(account.id);
+      await deleteAccount(account.id);
+      setAccounts((prev) => prev.filter((entry) => entry.id !== account.id));
+      setTransfers((prev) =>
+        prev.filter((transfer) => transfer.accountId !== account.id),
+      );
+      setTrades((prev) =>
+        prev.map((trade) =>
+          trade.accountId === account.id ? { ...trade, accountId: null } : trade,
+        ),
+      );
+      if (editingAccountId === account.id) {
+        resetForm();
+      }
+    } catch (deleteErr) {
+      console.error(deleteErr);
+      alert(
+        deleteErr instanceof Error
+          ? deleteErr.message
+          : "Failed to delete account. Please try again.",
+      );
+    } finally {
+      setBusyAccountId(null);
+    }
+  };
+
+  const handleAddTransfer = async (
+    accountId: string,
+    draft: Omit<AccountTransferDraft, "accountId">,
+  ) => {
+    if (!userId) {
+      alert("You must be signed in to record transfers.");
+      return false;
+    }
+
+    try {
+      setBusyAccountId(accountId);
+      const created = await createTransfer({ ...draft, accountId });
+      setTransfers((prev) =>
+        [...prev, created].sort((a, b) => a.date.localeCompare(b.date)),
+      );
+      return true;
+    } catch (transferErr) {
+      console.error(transferErr);
+      alert(
+        transferErr instanceof Error
+          ? transferErr.message
+          : "Failed to record the transfer. Please try again.",
+      );
+      return false;
+    } finally {
+      setBusyAccountId(null);
+    }
+  };
+
+  const handleDeleteTransfer = async (transfer: AccountTransfer) => {
+    if (!userId) {
+      alert("You must be signed in to record transfers.");
+      return;
+    }
+
+    try {
+      setBusyAccountId(transfer.accountId);
+      await deleteTransfer(transfer.id);
+      setTransfers((prev) => prev.filter((entry) => entry.id !== transfer.id));
+    } catch (transferErr) {
+      console.error(transferErr);
+      alert(
+        transferErr instanceof Error
+          ? transferErr.message
+          : "Failed to delete the transfer. Please try again.",
+      );
+    } finally {
+      setBusyAccountId(null);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-950 font-sans text-slate-50">
+      <main className="mx-auto flex w-full max-w-6xl flex-col gap-8 px-4 pb-20 pt-8 sm:px-6 sm:pb-24 sm:pt-12">
+        <header className="flex flex-col justify-between gap-6 rounded-2xl border border-white/5 bg-gradient-to-r from-slate-900 via-slate-900 to-slate-800 p-5 shadow-2xl shadow-slate-900/50 sm:rounded-3xl sm:p-8 md:flex-row md:items-center">
+          <div>
+            <p className="flex items-center gap-2 text-sm font-medium uppercase tracking-[0.2em] text-slate-400">
+              <Wallet className="h-4 w-4 text-emerald-400" />
+              Accounts
+            </p>
+            <h1 className="mt-3 text-4xl font-semibold leading-tight tracking-tight text-white">
+              Balances &amp; Returns
+            </h1>
+            <p className="mt-2 max-w-2xl text-sm text-slate-400">
+              Each account keeps its own balance in its base currency. Returns
+              are time-weighted, so deposits and withdrawals move the balance
+              without counting as gains or losses.
+            </p>
+          </div>
+          <div className="flex flex-wrap items-center gap-3">
+            <Link
+              href="/"
+              className="inline-flex items-center gap-2 rounded-full border border-white/10 px-5 py-2.5 text-sm font-semibold text-slate-200 transition hover:bg-white/10"
+            >
+              <ArrowLeft className="h-4 w-4" />
+              Journal
+            </Link>
+            <UserButton
+              appearance={{
+                elements: {
+                  avatarBox: "h-10 w-10",
+                },
+              }}
+            />
+          </div>
+        </header>
+
+        <section className="rounded-2xl border border-white/5 bg-slate-900/60 p-5 backdrop-blur sm:p-6">
+          <h2 className="text-lg font-semibold text-white">
+            {editingAccountId ? "Edit Account" : "New Account"}
+          </h2>
+          <form
+            className="mt-4 grid gap-3 sm:grid-cols-2 lg:grid-cols-[1fr_1fr_8rem_10rem_auto]"
+            onSubmit={handleSubmit}
+          >
+            <label className="flex flex-col gap-1 text-xs uppercase tracking-[0.2em] text-slate-500">
+              Name
+              <input
+                value={formData.name}
+                onChange={(event) =>
+                  setFormData((prev) => ({ ...prev, name: event.target.value }))
+                }
+                placeholder="e.g. Main"
+                className={inputClassName}
+                required
+              />
+            </label>
+            <label className="flex flex-col gap-1 text-xs uppercase tracking-[0.2em] text-slate-500">
+              Exchange
+              <input
+                value={formData.exchange}
+                onChange={(event) =>
+                  setFormData((prev) => ({ ...prev, exchange: event.target.value }))
+                }
+                placeholder="e.g. Binance"
+                className={inputClassName}
+              />
+            </label>
+            <label className="flex flex-col gap-1 text-xs uppercase tracking-[0.2em] text-slate-500">
+              Base Currency
+              <input
+                value={formData.baseCurrency}
+                onChange={(event) =>
+                  setFormData((prev) => ({
+                    ...prev,
+                    baseCurrency: event.target.value.toUpperCase(),
+                  }))
+                }
+                className={inputClassName}
+                required
+              />
+            </label>
+            <label className="flex flex-col gap-1 text-xs uppercase tracking-[0.2em] text-slate-500">
+              Starting Balance
+              <input
+                type="number"
+                min="0"
+                step="any"
+                value={formData.startingBalance}
+                onChange={(event) =>
+                  setFormData((prev) => ({
+                    ...prev,
+                    startingBalance: event.target.value,
+                  }))
+                }
+                className={inputClassName}
+              />
+            </label>
+            <div className="flex items-end gap-2">
+              <button
+                type="submit"
+                disabled={isSaving}
+                className="inline-flex items-center gap-2 rounded-full bg-emerald-500 px-5 py-2.5 text-sm font-semibold text-slate-950 transition hover:bg-emerald-400 disabled:cursor-not-allowed disabled:opacity-60"
+              >
+                {isSaving ? "Saving…" : editingAccountId ? "Save" : "Add Account"}
+              </button>
+              {editingAccountId ? (
+                <button
+                  type="button"
+                  onClick={resetForm}
+                  className="rounded-full p-2.5 text-slate-400 transition hover:bg-white/10 hover:text-white"
+                  aria-label="Cancel editing"
+                >
+                  <X className="h-4 w-4" />
+                </button>
+              ) : null}
+            </div>
+          </form>
+          <p className="mt-3 text-xs text-slate-500">
+            Trades are converted into the account&apos;s base currency with the
+            rates in the journal&apos;s currency settings.
+            {unassignedCount > 0
+              ? ` ${unassignedCount} trade(s) have no account and are left out of these figures.`
+              : ""}
+          </p>
+          {error ? (
+            <div className="mt-4 rounded-lg border border-rose-500/30 bg-rose-500/10 px-4 py-3 text-sm text-rose-200">
+              Unable to load accounts right now: {error}
+            </div>
+          ) : null}
+        </section>
+
+        {performances.length === 0 ? (
+          <section className="rounded-2xl border border-white/5 bg-slate-900/60 p-5 text-sm text-slate-400 backdrop-blur sm:p-6">
+            {isLoading
+              ? "Loading accounts…"
+              : "No accounts yet. Add one, then pick it on your trades."}
+          </section>
+        ) : null}
+
+        {performances.map((performance) => {
+          const { account } = performance;
+          const currency = account.baseCurrency;
+          const stats = [
+            {
+              label: "Starting Balance",
+              value: formatCurrency(account.startingBalance, currency),
+            },
+            { label: "Deposits", value: formatCurrency(performance.deposits, currency) },
+            {
+              label: "Withdrawals",
+              value: formatCurrency(performance.withdrawals, currency),
+            },
+            { label: "Net PnL", value: formatPnL(performance.netPnl, currency) },
+            { label: "Balance", value: formatCurrency(performance.balance, currency) },
+            { label: "Return", value: formatReturn(performance.timeWeightedReturn) },
+            {
+              label: "Max Drawdown",
+              value: formatCurrency(performance.maxDrawdown, currency),
+            },
+          ];
+
+          return (
+            <section
+              key={account.id}
+              className="rounded-2xl border border-white/5 bg-slate-900/60 p-5 backdrop-blur sm:p-6"
+            >
+              <div className="flex flex-wrap items-start justify-between gap-3">
+                <div>
+                  <h2 className="text-lg font-semibold text-white">
+                    {getAccountLabel(account)}
+                  </h2>
+                  <p className="text-sm text-slate-400">
+                    {currency} · {performance.tradeCount} trade
+                    {performance.tradeCount === 1 ? "" : "s"}
+                  </p>
+                </div>
+                <div className="flex flex-wrap items-center gap-2">
+                  <Link
+                    href={
+                      buildFilteredHref("/", {
+                        ...createDefaultFilters(),
+                        accountId: account.id,
+                      }) as Route
+                    }
+                    className="rounded-full border border-white/10 px-4 py-1.5 text-xs font-semibold text-slate-200 transition hover:bg-white/10"
+                  >
+                    View Trades
+                  </Link>
+                  <button
+                    type="button"
+                    onClick={() => startEditing(account)}
+                    className="rounded-full p-2 text-slate-400 transition hover:bg-white/10 hover:text-white"
+                    aria-label={`Edit ${account.name}`}
+                  >
+                    <Edit3 className="h-4 w-4" />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleDeleteAccount(account, performance.tradeCount)}
+                    disabled={busyAccountId === account.id}
+                    className="rounded-full p-2 text-slate-400 transition hover:bg-white/10 hover:text-rose-300 disabled:cursor-not-allowed disabled:opacity-50"
+                    aria-label={`Delete ${account.name}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+              </div>
+
+              <div className="mt-4 grid gap-3 sm:grid-cols-2 lg:grid-cols-4 xl:grid-cols-7">
+                {stats.map((stat) => (
+                  <div
+                    key={stat.label}
+                    className="rounded-xl border border-white/5 bg-slate-950/40 p-3"
+                  >
+                    <p className="text-xs uppercase tracking-[0.2em] text-slate-500">
+                      {stat.label}
+                    </p>
+                    <p className="mt-2 text-lg font-semibold leading-tight text-white">
+                      {stat.value}
+                    </p>
+                  </div>
+                ))}
+              </div>
+
+              {performance.missingRates.length > 0 ? (
+                <p className="mt-3 rounded-lg border border-amber-500/30 bg-amber-500/10 px-4 py-3 text-sm text-amber-200">
+                  No USD rate for {performance.missingRates.join(", ")}:{" "}
+                  {performance.unconvertedCount}{" "}
+                  {performance.unconvertedCount === 1 ? "trade is" : "trades are"}{" "}
+                  unconverted and left out of the balance. Set the rates in the
+                  journal&apos;s currency settings.
+                </p>
+              ) : null}
+
+              <div className="mt-4">
+                {performance.curve.length > 0 ? (
+                  <EquityCurveChart curve={performance.curve} currency={currency} />
+                ) : (
+                  <p className="text-sm text-slate-400">
+                    The balance curve starts with the first trade or transfer.
+                  </p>
+                )}
+              </div>
+
+              <AccountTransfers
+                transfers={transfers.filter(
+                  (transfer) => transfer.accountId === account.id,
+                )}
+                currency={currency}
+                isBusy={busyAccountId === account.id}
+                onAdd={(draft) => handleAddTransfer(account.id, draft)}
+                onDelete={handleDeleteTransfer}
+              />
+            </section>
+          );
+        })}
+      </main>
+    </div>
+  );
+}
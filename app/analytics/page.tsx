@@ -0,0 +1,406 @@
+"use client";
+
+import { UserButton, useAuth } from "@clerk/nextjs";
+import EquityCurveChart from "@/components/EquityCurveChart";
+import TradeFiltersBar from "@/components/TradeFiltersBar";
+import { Account } from "@/lib/accounts";
+import {
+  CurrencySettings,
+  convertTradesToReporting,
+  createDefaultCurrencySettings,
+  loadCurrencySettings,
+} from "@/lib/currency";
+import { buildEquityCurve, calculateDrawdownStats } from "@/lib/equity";
+import { formatCurrency, formatDate, formatPnL } from "@/lib/format";
+import { loadOfflineTrades } from "@/lib/offlineSync";
+import {
+  ReportPeriod,
+  reportPeriodOptions,
+  reportRequestToSearchParams,
+} from "@/lib/report";
+import { Tag } from "@/lib/tags";
+import {
+  TradeFilters,
+  buildFilteredHref,
+  createDefaultFilters,
+  filterTrades,
+  filtersFromSearchParams,
+  hasActiveFilters,
+} from "@/lib/tradeFilters";
+import { Trade } from "@/lib/trades";
+import { ChangeEvent, useEffect, useMemo, useState } from "react";
+import {
+  ArrowDownRight,
+  ArrowLeft,
+  ArrowUpRight,
+  FileText,
+  LineChart,
+} from "lucide-react";
+import type { Route } from "next";
+import Link from "next/link";
+
+const formatDays = (days: number) => `${days} day${days === 1 ? "" : "s"}`;
+
+export default function AnalyticsPage() {
+  const { userId, isLoaded } = useAuth();
+  const [trades, setTrades] = useState<Trade[]>([]);
+  const [tags, setTags] = useState<Tag[]>([]);
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [filters, setFilters] = useState<TradeFilters>(() =>
+    createDefaultFilters(),
+  );
+  const [currencySettings, setCurrencySettings] = useState<CurrencySettings>(
+    () => createDefaultCurrencySettings(),
+  );
+  const [reportPeriod, setReportPeriod] = useState<ReportPeriod>("month");
+  const [reportMonth, setReportMonth] = useState(() =>
+    new Date().toISOString().slice(0, 7),
+  );
+
+  useEffect(() => {
+    setCurrencySettings(loadCurrencySettings());
+    setFilters(
+      filtersFromSearchParams(new URLSearchParams(window.location.search)),
+    );
+  }, []);
+
+  useEffect(() => {
+    if (!isLoaded) {
+      return;
+    }
+
+    if (!userId) {
+      setTrades([]);
+      setTags([]);
+      return;
+    }
+
+    const loadTrades = async () => {
+      try {
+        setIsLoading(true);
+        const journal = await loadOfflineTrades(userId);
+        setTrades(journal.trades);
+        setTags(journal.tags);
+        setAccounts(journal.accounts);
+        setError(null);
+      } catch (fetchErr) {
+        console.error(fetchErr);
+        setError(
+          fetchErr instanceof Error
+            ? fetchErr.message
+            : "Failed to load trades.",
+        );
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadTrades();
+  }, [isLoaded, userId]);
+
+  const { trades: filteredTrades, unconvertedCount } = useMemo(
+    () => convertTradesToReporting(filterTrades(trades, filters), currencySettings),
+    [currencySettings, filters, trades],
+  );
+  const currency = currencySettings.reportingCurrency;
+  const curve = useMemo(() => buildEquityCurve(filteredTrades), [filteredTrades]);
+  const drawdown = useMemo(() => calculateDrawdownStats(curve), [curve]);
+
+  const isFiltered = hasActiveFilters(filters);
+  const lastPoint = curve.length > 0 ? curve[curve.length - 1] : null;
+  const maxPeriod = drawdown.maxDrawdownPeriod;
+
+  const updateFilters = (nextFilters: TradeFilters) => {
+    setFilters(nextFilters);
+    window.history.replaceState(
+      null,
+      "",
+      buildFilteredHref(window.location.pathname, nextFilters),
+    );
+  };
+
+  const handleFilterChange = (
+    event: ChangeEvent<HTMLInputElement | HTMLSelectElement>,
+  ) => {
+    const { name, value } = event.target;
+    updateFilters({ ...filters, [name]: value });
+  };
+
+  const resetFilters = () => {
+    setFilters(createDefaultFilters());
+    window.history.replaceState(null, "", window.location.pathname);
+  };
+
+  const stats = [
+    {
+      label: "Net Equity",
+      value: formatPnL(lastPoint?.equity ?? 0, currency),
+      change: `${curve.length} trading day${curve.length === 1 ? "" : "s"}`,
+      positive: (lastPoint?.equity ?? 0) >= 0,
+    },
+    {
+      label: "High-Water Mark",
+      value: formatCurrency(lastPoint?.highWaterMark ?? 0, currency),
+      change: "Peak cumulative net PnL",
+      positive: true,
+    },
+    {
+      label: "Max Drawdown",
+      value: formatCurrency(drawdown.maxDrawdown, currency),
+      change:
+        drawdown.maxDrawdownPercent !== null
+          ? `${drawdown.maxDrawdownPercent.toFixed(1)}% off the peak`
+          : "No drawdown from a profit peak",
+      positive: drawdown.maxDrawdown === 0,
+    },
+    {
+      label: "Current Drawdown",
+      value: formatCurrency(drawdown.currentDrawdown, currency),
+      change:
+        drawdown.currentDrawdown > 0
+          ? "Below the high-water mark"
+          : "At the high-water mark",
+      positive: drawdown.currentDrawdown === 0,
+    },
+    {
+      label: "Longest Drawdown",
+      value: formatDays(drawdown.longestDrawdownDays),
+      change: "Peak to recovery or today",
+      positive: drawdown.longestDrawdownDays === 0,
+    },
+    {
+      label: "Max DD Recovery",
+      value:
+        maxPeriod?.recoveryDays != null
+          ? formatDays(maxPeriod.recoveryDays)
+          : maxPeriod
+            ? "Ongoing"
+            : "—",
+      change: maxPeriod
+        ? `Trough on ${formatDate(maxPeriod.troughDate)}`
+        : "Trough to new high",
+      positive: !maxPeriod || maxPeriod.recoveryDate !== null,
+    },
+  ];
+
+  return (
+    <div className="min-h-screen bg-slate-950 font-sans text-slate-50">
+      <main className="mx-auto flex w-full max-w-6xl flex-col gap-8 px-4 pb-20 pt-8 sm:px-6 sm:pb-24 sm:pt-12">
+        <header className="flex flex-col justify-between gap-6 rounded-2xl border border-white/5 bg-gradient-to-r from-slate-900 via-slate-900 to-slate-800 p-5 shadow-2xl shadow-slate-900/50 sm:rounded-3xl sm:p-8 md:flex-row md:items-center">
+          <div>
+            <p className="flex items-center gap-2 text-sm font-medium uppercase tracking-[0.2em] text-slate-400">
+              <LineChart className="h-4 w-4 text-emerald-400" />
+              Analytics
+            </p>
+            <h1 className="mt-3 text-4xl font-semibold leading-tight tracking-tight text-white">
+              Equity &amp; Drawdown
+            </h1>
+            <p className="mt-2 max-w-2xl text-sm text-slate-400">
+              Cumulative net PnL per trading day in {currency}, measured against
+              its running high-water mark.
+            </p>
+          </div>
+          <div className="flex flex-wrap items-center gap-3">
+            <Link
+              href={buildFilteredHref("/", filters) as Route}
+              className="inline-flex items-center gap-2 rounded-full border border-white/10 px-5 py-2.5 text-sm font-semibold text-slate-200 transition hover:bg-white/10"
+            >
+              <ArrowLeft className="h-4 w-4" />
+              Journal
+            </Link>
+            <UserButton
+              appearance={{
+                elements: {
+                  avatarBox: "h-10 w-10",
+                },
+              }}
+            />
+          </div>
+        </header>
+
+        <section className="rounded-2xl border border-white/5 bg-slate-900/60 p-5 backdrop-blur sm:p-6">
+          <h2 className="text-lg font-semibold text-white">Filters</h2>
+          <p className="text-sm text-slate-400">
+            Shared with the journal, so both views show the same trades.
+          </p>
+          <TradeFiltersBar
+            filters={filters}
+            tags={tags}
+            accounts={accounts}
+            onChange={handleFilterChange}
+            onTagIdsChange={(tagIds) => updateFilters({ ...filters, tagIds })}
+          />
+          <div className="mt-3 flex flex-wrap items-center justify-between gap-3 text-xs text-slate-400">
+            <p>
+              {filteredTrades.length} trade{filteredTrades.length === 1 ? "" : "s"} included
+              {isFiltered ? " (filters applied)" : ""}
+              {unconvertedCount > 0
+                ? `; ${unconvertedCount} left out as unconverted (no USD rate)`
+                : ""}
+              .
+            </p>
+            <button
+              type="button"
+              onClick={resetFilters}
+              disabled={!isFiltered}
+              className="inline-flex items-center gap-2 rounded-full border border-white/10 px-4 py-1.5 text-[11px] font-semibold uppercase tracking-[0.2em] text-slate-200 transition hover:bg-white/10 disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              Clear Filters
+            </button>
+          </div>
+          {error ? (
+            <div className="mt-4 rounded-lg border border-rose-500/30 bg-rose-500/10 px-4 py-3 text-sm text-rose-200">
+              Unable to load trades right now: {error}
+            </div>
+          ) : null}
+        </section>
+
+        <section className="grid gap-4 sm:gap-5 md:grid-cols-2 xl:grid-cols-3">
+          {stats.map((stat) => (
+            <div
+              key={stat.label}
+              className="rounded-2xl border border-white/5 bg-slate-900/60 p-5 backdrop-blur"
+            >
+              <p className="text-xs uppercase tracking-[0.2em] text-slate-500">
+                {stat.label}
+              </p>
+              <div className="mt-3 flex flex-col gap-3">
+                <span className="text-3xl font-semibold text-white leading-tight">
+                  {stat.value}
+                </span>
+                <span
+                  className={`inline-flex items-center gap-1 rounded-full px-2.5 py-1 text-xs font-semibold ${
+                    stat.positive
+                      ? "bg-emerald-500/10 text-emerald-300"
+                      : "bg-rose-500/10 text-rose-300"
+                  }`}
+                >
+                  {stat.positive ? (
+                    <ArrowUpRight className="h-4 w-4" />
+                  ) : (
+                    <ArrowDownRight className="h-4 w-4" />
+                  )}
+                  {stat.change}
+                </span>
+              </div>
+            </div>
+          ))}
+        </section>
+
+        <section className="rounded-2xl border border-white/5 bg-slate-900/60 p-5 backdrop-blur sm:p-6">
+          <h2 className="text-lg font-semibold text-white">Equity Curve</h2>
+          <p className="mb-4 text-sm text-slate-400">
+            Shaded areas show time spent below the high-water mark.
+          </p>
+          {isLoading ? (
+            <div className="flex h-64 items-center justify-center text-sm text-slate-400">
+              Loading trades…
+            </div>
+          ) : (
+            <EquityCurveChart curve={curve} currency={currency} />
+          )}
+        </section>
+
+        <section className="rounded-2xl border border-white/5 bg-slate-900/60 p-5 backdrop-blur sm:p-6">
+          <h2 className="text-lg font-semibold text-white">Drawdown Periods</h2>
+          {drawdown.periods.length === 0 ? (
+            <p className="mt-2 text-sm text-slate-400">
+              No drawdowns in this selection.
+            </p>
+          ) : (
+            <div className="mt-4 overflow-x-auto">
+              <table className="min-w-full divide-y divide-white/5 text-sm">
+                <thead className="text-left text-xs uppercase tracking-[0.2em] text-slate-500">
+                  <tr>
+                    <th className="px-3 py-2 font-medium">Peak</th>
+                    <th className="px-3 py-2 font-medium">Trough</th>
+                    <th className="px-3 py-2 font-medium">Recovered</th>
+                    <th className="px-3 py-2 font-medium">Depth</th>
+                    <th className="px-3 py-2 font-medium">Duration</th>
+                    <th className="px-3 py-2 font-medium">Recovery</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-white/5 text-slate-300">
+                  {[...drawdown.periods]
+                    .sort((a, b) => b.depth - a.depth)
+                    .map((period) => (
+                      <tr key={period.peakDate}>
+                        <td className="px-3 py-2">{formatDate(period.peakDate)}</td>
+                        <td className="px-3 py-2">{formatDate(period.troughDate)}</td>
+                        <td className="px-3 py-2">
+                          {period.recoveryDate
+                            ? formatDate(period.recoveryDate)
+                            : "Ongoing"}
+                        </td>
+                        <td className="px-3 py-2 text-rose-300">
+                          −{formatCurrency(period.depth, currency)}
+                        </td>
+                        <td className="px-3 py-2">{formatDays(period.durationDays)}</td>
+                        <td className="px-3 py-2">
+                          {period.recoveryDays !== null
+                            ? formatDays(period.recoveryDays)
+                            : "—"}
+                        </td>
+                      </tr>
+                    ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </section>
+
+        <section className="rounded-2xl border border-white/5 bg-slate-900/60 p-5 backdrop-blur sm:p-6">
+          <h2 className="text-lg font-semibold text-white">Performance Report</h2>
+          <p className="text-sm text-slate-400">
+            A printable PDF of one month or quarter: summary stats, equity curve,
+            setup and pair breakdowns, and the best and worst trades with their
+            notes. The filters above apply, except for dates.
+          </p>
+          <div className="mt-4 flex flex-wrap items-end gap-3">
+            <label className="flex flex-col gap-1 text-xs uppercase tracking-[0.2em] text-slate-500">
+              Period
+              <select
+                value={reportPeriod}
+                onChange={(event) =>
+                  setReportPeriod(event.target.value as ReportPeriod)
+                }
+                className="rounded-lg border border-white/10 bg-slate-900/60 px-3 py-2 text-sm normal-case tracking-normal text-white focus:border-emerald-500 focus:outline-none focus:ring-2 focus:ring-emerald-500/40"
+              >
+                {reportPeriodOptions.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="flex flex-col gap-1 text-xs uppercase tracking-[0.2em] text-slate-500">
+              {reportPeriod === "month" ? "Month" : "Any month in the quarter"}
+              <input
+                type="month"
+                value={reportMonth}
+                onChange={(event) => setReportMonth(event.target.value)}
+                className="rounded-lg border border-white/10 bg-slate-900/60 px-3 py-2 text-sm normal-case tracking-normal text-white focus:border-emerald-500 focus:outline-none focus:ring-2 focus:ring-emerald-500/40"
+              />
+            </label>
+            {reportMonth ? (
+              <a
+                href={`/api/reports?${reportRequestToSearchParams(
+                  reportPeriod,
+                  `${reportMonth}-01`,
+                  filters,
+                  currencySettings,
+                ).toString()}`}
+                className="inline-flex items-center gap-2 rounded-full bg-emerald-500 px-5 py-2.5 text-sm font-semibold text-emerald-950 transition hover:bg-emerald-400"
+              >
+                <FileText className="h-4 w-4" />
+                Download PDF
+              </a>
+            ) : null}
+          </div>
+        </section>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,69 @@
+import {
+  deleteAccount,
+  fetchAccountsForUser,
+  updateAccount,
+} from "@/lib/accountQueries";
+import { parseAccountDraft, validateAccountDraft } from "@/lib/accounts";
+import {
+  handleRouteError,
+  jsonError,
+  readJsonBody,
+  unauthorized,
+} from "@/lib/apiRoute";
+import { getRequestSupabase } from "@/lib/supabaseServer";
+import { NextResponse } from "next/server";
+
+type AccountRouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+const accountNotFound = () => jsonError(404, "Account not found.");
+
+// Accepts an AccountDraft that replaces the account's fields.
+export const PATCH = async (request: Request, { params }: AccountRouteContext) => {
+  const session = await getRequestSupabase();
+  if (!session) {
+    return unauthorized();
+  }
+  const { userId, client } = session;
+
+  const body = await readJsonBody(request);
+  const draft = parseAccountDraft(body.ok ? body.value : undefined);
+  if (!draft.ok) {
+    return jsonError(400, "Invalid account payload.", draft.errors);
+  }
+
+  try {
+    const { id } = await params;
+    const validationError = validateAccountDraft(
+      draft.value,
+      await fetchAccountsForUser(userId, client),
+      id,
+    );
+    if (validationError) {
+      return jsonError(400, "Invalid account payload.", [validationError]);
+    }
+
+    const account = await updateAccount(userId, id, draft.value, client);
+    return account ? NextResponse.json({ account }) : accountNotFound();
+  } catch (routeError) {
+    return handleRouteError(routeError);
+  }
+};
+
+// Deletes the account and its transfers; its trades stay, unassigned.
+export const DELETE = async (_request: Request, { params }: AccountRouteContext) => {
+  const session = await getRequestSupabase();
+  if (!session) {
+    return unauthorized();
+  }
+  const { userId, client } = session;
+
+  try {
+    const { id } = await params;
+    const deleted = await deleteAccount(userId, id, client);
+    return deleted ? new NextResponse(null, { status: 204 }) : accountNotFound();
+  } catch (routeError) {
+    return handleRouteError(routeError);
+  }
+};
@@ -0,0 +1,63 @@
+import {
+  createAccount,
+  fetchAccountsForUser,
+  fetchTransfersForUser,
+} from "@/lib/accountQueries";
+import { parseAccountDraft, validateAccountDraft } from "@/lib/accounts";
+import {
+  handleRouteError,
+  jsonError,
+  readJsonBody,
+  unauthorized,
+} from "@/lib/apiRoute";
+import { getRequestSupabase } from "@/lib/supabaseServer";
+import { NextResponse } from "next/server";
+
+// The accounts with every transfer, oldest first.
+export const GET = async () => {
+  const session = await getRequestSupabase();
+  if (!session) {
+    return unauthorized();
+  }
+  const { userId, client } = session;
+
+  try {
+    const [accounts, transfers] = await Promise.all([
+      fetchAccountsForUser(userId, client),
+      fetchTransfersForUser(userId, client),
+    ]);
+    return NextResponse.json({ accounts, transfers });
+  } catch (routeError) {
+    return handleRouteError(routeError);
+  }
+};
+
+// Accepts an AccountDraft.
+export const POST = async (request: Request) => {
+  const session = await getRequestSupabase();
+  if (!session) {
+    return unauthorized();
+  }
+  const { userId, client } = session;
+
+  const body = await readJsonBody(request);
+  const draft = parseAccountDraft(body.ok ? body.value : undefined);
+  if (!draft.ok) {
+    return jsonError(400, "Invalid account payload.", draft.errors);
+  }
+
+  try {
+    const validationError = validateAccountDraft(
+      draft.value,
+      await fetchAccountsForUser(userId, client),
+    );
+    if (validationError) {
+      return jsonError(400, "Invalid account payload.", [validationError]);
+    }
+
+    const account = await createAccount(userId, draft.value, client);
+    return NextResponse.json({ account }, { status: 201 });
+  } catch (routeError) {
+    return handleRouteError(routeError);
+  }
+};
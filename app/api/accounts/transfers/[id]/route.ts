@@ -0,0 +1,26 @@
+import { deleteTransfer } from "@/lib/accountQueries";
+import { handleRouteError, jsonError, unauthorized } from "@/lib/apiRoute";
+import { getRequestSupabase } from "@/lib/supabaseServer";
+import { NextResponse } from "next/server";
+
+type TransferRouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+export const DELETE = async (_request: Request, { params }: TransferRouteContext) => {
+  const session = await getRequestSupabase();
+  if (!session) {
+    return unauthorized();
+  }
+  const { userId, client } = session;
+
+  try {
+    const { id } = await params;
+    const deleted = await deleteTransfer(userId, id, client);
+    return deleted
+      ? new NextResponse(null, { status: 204 })
+      : jsonError(404, "Transfer not found.");
+  } catch (routeError) {
+    return handleRouteError(routeError);
+  }
+};
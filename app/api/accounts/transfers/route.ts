@@ -0,0 +1,39 @@
+import { createTransfer, fetchAccountsForUser } from "@/lib/accountQueries";
+import { parseTransferDraft } from "@/lib/accounts";
+import {
+  handleRouteError,
+  jsonError,
+  readJsonBody,
+  unauthorized,
+} from "@/lib/apiRoute";
+import { getRequestSupabase } from "@/lib/supabaseServer";
+import { NextResponse } from "next/server";
+
+// Accepts an AccountTransferDraft for one of the user's accounts.
+export const POST = async (request: Request) => {
+  const session = await getRequestSupabase();
+  if (!session) {
+    return unauthorized();
+  }
+  const { userId, client } = session;
+
+  const body = await readJsonBody(request);
+  const draft = parseTransferDraft(body.ok ? body.value : undefined);
+  if (!draft.ok) {
+    return jsonError(400, "Invalid transfer payload.", draft.errors);
+  }
+
+  try {
+    const accounts = await fetchAccountsForUser(userId, client);
+    if (!accounts.some((account) => account.id === draft.value.accountId)) {
+      return jsonError(400, "Invalid transfer payload.", [
+        `${draft.value.accountId} is not one of your accounts.`,
+      ]);
+    }
+
+    const transfer = await createTransfer(userId, draft.value, client);
+    return NextResponse.json({ transfer }, { status: 201 });
+  } catch (routeError) {
+    return handleRouteError(routeError);
+  }
+};
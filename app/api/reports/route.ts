@@ -0,0 +1,56 @@
+import { fetchAccountsForUser, fetchTransfersForUser } from "@/lib/accountQueries";
+import { getTradingCapital } from "@/lib/accounts";
+import { handleRouteError, jsonError, unauthorized } from "@/lib/apiRoute";
+import {
+  buildPerformanceReport,
+  getReportFileName,
+  parseReportParams,
+} from "@/lib/report";
+import { renderPerformanceReportPdf } from "@/lib/reportPdf";
+import { getRequestSupabase } from "@/lib/supabaseServer";
+import { fetchTagsForUser } from "@/lib/tagQueries";
+import { fetchTradesForUser } from "@/lib/tradeQueries";
+import { NextResponse } from "next/server";
+
+// Renders the monthly or quarterly performance report as a PDF. Takes the
+// journal's filter parameters plus `period` (month or quarter), `date` (any
+// day in the period), `currency` and `rates` in the format the trade search
+// uses, since currency settings live in the browser.
+export const GET = async (request: Request) => {
+  const session = await getRequestSupabase();
+  if (!session) {
+    return unauthorized();
+  }
+  const { userId, client } = session;
+
+  const reportRequest = parseReportParams(new URL(request.url).searchParams);
+  if (!reportRequest.ok) {
+    return jsonError(400, "Invalid report request.", reportRequest.errors);
+  }
+
+  try {
+    const [trades, tags, accounts, transfers] = await Promise.all([
+      fetchTradesForUser(userId, client),
+      fetchTagsForUser(userId, client),
+      fetchAccountsForUser(userId, client),
+      fetchTransfersForUser(userId, client),
+    ]);
+    const { filters, settings } = reportRequest.value;
+    const report = buildPerformanceReport(
+      trades,
+      tags,
+      reportRequest.value,
+      getTradingCapital(accounts, transfers, settings, filters.accountId),
+    );
+
+    return new NextResponse(renderPerformanceReportPdf(report), {
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `attachment; filename="${getReportFileName(report.range)}"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (routeError) {
+    return handleRouteError(routeError);
+  }
+};
@@ -0,0 +1,44 @@
+import {
+  handleRouteError,
+  jsonError,
+  readJsonBody,
+  unauthorized,
+} from "@/lib/apiRoute";
+import { getRequestSupabase } from "@/lib/supabaseServer";
+import { fetchTagsForUser, mergeTags } from "@/lib/tagQueries";
+import { NextResponse } from "next/server";
+
+type MergeRouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+// Accepts { targetTagId } and merges this tag into it.
+export const POST = async (request: Request, { params }: MergeRouteContext) => {
+  const session = await getRequestSupabase();
+  if (!session) {
+    return unauthorized();
+  }
+  const { userId, client } = session;
+
+  const body = await readJsonBody(request);
+  const targetTagId =
+    body.ok && typeof body.value === "object" && body.value !== null
+      ? (body.value as { targetTagId?: unknown }).targetTagId
+      : undefined;
+  if (typeof targetTagId !== "string") {
+    return jsonError(400, "Body must be { targetTagId }.");
+  }
+
+  try {
+    const { id } = await params;
+    const tags = await fetchTagsForUser(userId, client);
+    if (![id, targetTagId].every((tagId) => tags.some((tag) => tag.id === tagId))) {
+      return jsonError(404, "Tag not found.");
+    }
+
+    await mergeTags(id, targetTagId, client);
+    return new NextResponse(null, { status: 204 });
+  } catch (routeError) {
+    return handleRouteError(routeError);
+  }
+};
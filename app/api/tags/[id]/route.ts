@@ -0,0 +1,56 @@
+import {
+  handleRouteError,
+  jsonError,
+  readJsonBody,
+  unauthorized,
+} from "@/lib/apiRoute";
+import { getRequestSupabase } from "@/lib/supabaseServer";
+import { deleteTag, renameTag } from "@/lib/tagQueries";
+import { parseTagRename } from "@/lib/tags";
+import { NextResponse } from "next/server";
+
+type TagRouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+const tagNotFound = () => jsonError(404, "Tag not found.");
+
+// Accepts { name }.
+export const PATCH = async (request: Request, { params }: TagRouteContext) => {
+  const session = await getRequestSupabase();
+  if (!session) {
+    return unauthorized();
+  }
+  const { userId, client } = session;
+
+  const body = await readJsonBody(request);
+  const name = parseTagRename(body.ok ? body.value : undefined);
+  if (!name.ok) {
+    return jsonError(400, "Invalid tag payload.", name.errors);
+  }
+
+  try {
+    const { id } = await params;
+    const tag = await renameTag(userId, id, name.value, client);
+    return tag ? NextResponse.json({ tag }) : tagNotFound();
+  } catch (routeError) {
+    return handleRouteError(routeError);
+  }
+};
+
+// Removes the tag from every trade that carries it, then the tag itself.
+export const DELETE = async (_request: Request, { params }: TagRouteContext) => {
+  const session = await getRequestSupabase();
+  if (!session) {
+    return unauthorized();
+  }
+  const { client } = session;
+
+  try {
+    const { id } = await params;
+    const deleted = await deleteTag(id, client);
+    return deleted ? new NextResponse(null, { status: 204 }) : tagNotFound();
+  } catch (routeError) {
+    return handleRouteError(routeError);
+  }
+};
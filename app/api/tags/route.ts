@@ -0,0 +1,47 @@
+import {
+  handleRouteError,
+  jsonError,
+  readJsonBody,
+  unauthorized,
+} from "@/lib/apiRoute";
+import { getRequestSupabase } from "@/lib/supabaseServer";
+import { createTags, fetchTagsForUser } from "@/lib/tagQueries";
+import { parseTagDrafts } from "@/lib/tags";
+import { NextResponse } from "next/server";
+
+export const GET = async () => {
+  const session = await getRequestSupabase();
+  if (!session) {
+    return unauthorized();
+  }
+  const { userId, client } = session;
+
+  try {
+    return NextResponse.json({ tags: await fetchTagsForUser(userId, client) });
+  } catch (routeError) {
+    return handleRouteError(routeError);
+  }
+};
+
+// Accepts { tags: [{ name, category }] }, so an import creates every tag it
+// is missing in one request.
+export const POST = async (request: Request) => {
+  const session = await getRequestSupabase();
+  if (!session) {
+    return unauthorized();
+  }
+  const { userId, client } = session;
+
+  const body = await readJsonBody(request);
+  const drafts = parseTagDrafts(body.ok ? body.value : undefined);
+  if (!drafts.ok) {
+    return jsonError(400, "Invalid tag payload.", drafts.errors);
+  }
+
+  try {
+    const tags = await createTags(userId, drafts.value, client);
+    return NextResponse.json({ tags }, { status: 201 });
+  } catch (routeError) {
+    return handleRouteError(routeError);
+  }
+};
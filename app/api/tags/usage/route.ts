@@ -0,0 +1,19 @@
+import { handleRouteError, unauthorized } from "@/lib/apiRoute";
+import { getRequestSupabase } from "@/lib/supabaseServer";
+import { fetchTagUsage } from "@/lib/tagQueries";
+import { NextResponse } from "next/server";
+
+// Returns { usage }: how many trades carry each tag, by tag id.
+export const GET = async () => {
+  const session = await getRequestSupabase();
+  if (!session) {
+    return unauthorized();
+  }
+  const { client } = session;
+
+  try {
+    return NextResponse.json({ usage: await fetchTagUsage(client) });
+  } catch (routeError) {
+    return handleRouteError(routeError);
+  }
+};
@@ -0,0 +1,26 @@
+import { handleRouteError, jsonError, unauthorized } from "@/lib/apiRoute";
+import { getRequestSupabase } from "@/lib/supabaseServer";
+import { restoreTrade } from "@/lib/tradeQueries";
+import { NextResponse } from "next/server";
+
+type RestoreRouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+export const POST = async (_request: Request, { params }: RestoreRouteContext) => {
+  const session = await getRequestSupabase();
+  if (!session) {
+    return unauthorized();
+  }
+  const { userId, client } = session;
+
+  try {
+    const { id } = await params;
+    const trade = await restoreTrade(userId, id, client);
+    return trade
+      ? NextResponse.json({ trade })
+      : jsonError(404, "Trade not found in the trash.");
+  } catch (routeError) {
+    return handleRouteError(routeError);
+  }
+};
@@ -0,0 +1,126 @@
+import {
+  handleRouteError,
+  jsonError,
+  readJsonBody,
+  unauthorized,
+} from "@/lib/apiRoute";
+import { getRequestSupabase } from "@/lib/supabaseServer";
+import {
+  TradeWriteResult,
+  deleteTrade,
+  fetchTradeById,
+  updateTrade,
+} from "@/lib/tradeQueries";
+import { applyTradePatch, parseTradePatch } from "@/lib/tradeSchema";
+import { Trade } from "@/lib/trades";
+import { NextResponse } from "next/server";
+
+type TradeRouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+const tradeNotFound = () => jsonError(404, "Trade not found.");
+
+// Clients that edited a known version (offline edits, mostly) send its
+// updatedAt as If-Match. The write only lands while the row still has that
+// version; without the header it always wins.
+const readExpectedVersion = (request: Request) => request.headers.get("If-Match");
+
+const tradeConflict = (trade: Trade) =>
+  NextResponse.json(
+    { error: "This trade was changed on another device.", trade },
+    { status: 409 },
+  );
+
+const respondToWrite = (
+  result: TradeWriteResult,
+  respondToSaved: (trade: Trade) => Response,
+) => {
+  if (result.kind === "conflict") {
+    return tradeConflict(result.trade);
+  }
+  return result.kind === "saved" ? respondToSaved(result.trade) : tradeNotFound();
+};
+
+export const GET = async (_request: Request, { params }: TradeRouteContext) => {
+  const session = await getRequestSupabase();
+  if (!session) {
+    return unauthorized();
+  }
+  const { userId, client } = session;
+
+  try {
+    const { id } = await params;
+    const trade = await fetchTradeById(userId, id, client);
+    return trade ? NextResponse.json({ trade }) : tradeNotFound();
+  } catch (routeError) {
+    return handleRouteError(routeError);
+  }
+};
+
+export const PATCH = async (request: Request, { params }: TradeRouteContext) => {
+  const session = await getRequestSupabase();
+  if (!session) {
+    return unauthorized();
+  }
+  const { userId, client } = session;
+
+  const body = await readJsonBody(request);
+  if (!body.ok) {
+    return jsonError(400, "Body must be valid JSON.");
+  }
+  const patch = parseTradePatch(body.value);
+  if (!patch.ok) {
+    return jsonError(400, "Invalid trade payload.", patch.errors);
+  }
+
+  try {
+    const { id } = await params;
+    const previous = await fetchTradeById(userId, id, client);
+    if (!previous) {
+      return tradeNotFound();
+    }
+    const expected = readExpectedVersion(request);
+    if (expected !== null && expected !== previous.updatedAt) {
+      return tradeConflict(previous);
+    }
+
+    const merged = applyTradePatch(previous, patch.value);
+    if (!merged.ok) {
+      return jsonError(400, "Invalid trade payload.", merged.errors);
+    }
+
+    const result = await updateTrade(
+      userId,
+      previous,
+      patch.value,
+      expected,
+      client,
+    );
+    return respondToWrite(result, (trade) => NextResponse.json({ trade }));
+  } catch (routeError) {
+    return handleRouteError(routeError);
+  }
+};
+
+// Moves the trade to the trash; see app/api/trades/trash for the rest.
+export const DELETE = async (request: Request, { params }: TradeRouteContext) => {
+  const session = await getRequestSupabase();
+  if (!session) {
+    return unauthorized();
+  }
+  const { userId, client } = session;
+
+  try {
+    const { id } = await params;
+    const result = await deleteTrade(
+      userId,
+      id,
+      readExpectedVersion(request),
+      client,
+    );
+    return respondToWrite(result, () => new NextResponse(null, { status: 204 }));
+  } catch (routeError) {
+    return handleRouteError(routeError);
+  }
+};
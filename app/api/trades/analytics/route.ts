@@ -0,0 +1,29 @@
+import { handleRouteError, jsonError, unauthorized } from "@/lib/apiRoute";
+import { getRequestSupabase } from "@/lib/supabaseServer";
+import { parseTradeAnalyticsParams } from "@/lib/tradeAnalytics";
+import { fetchTradeAnalytics } from "@/lib/tradeQueries";
+import { NextResponse } from "next/server";
+
+// The journal's stats panels for every trade matching the filters, in the
+// reporting currency. See lib/tradeAnalytics.ts for the shape.
+export const GET = async (request: Request) => {
+  const session = await getRequestSupabase();
+  if (!session) {
+    return unauthorized();
+  }
+  const { client } = session;
+
+  const analyticsRequest = parseTradeAnalyticsParams(
+    new URL(request.url).searchParams,
+  );
+  if (!analyticsRequest.ok) {
+    return jsonError(400, "Invalid analytics request.", analyticsRequest.errors);
+  }
+
+  try {
+    const analytics = await fetchTradeAnalytics(analyticsRequest.value, client);
+    return NextResponse.json({ analytics });
+  } catch (routeError) {
+    return handleRouteError(routeError);
+  }
+};
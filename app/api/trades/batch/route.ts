@@ -0,0 +1,67 @@
+import {
+  handleRouteError,
+  jsonError,
+  readJsonBody,
+  unauthorized,
+} from "@/lib/apiRoute";
+import { getRequestSupabase } from "@/lib/supabaseServer";
+import { fetchTagsForUser } from "@/lib/tagQueries";
+import {
+  getBatchTagIds,
+  maxTradeBatchSize,
+  parseTradeBatchRequest,
+} from "@/lib/tradeBatch";
+import { applyTradeBatch, findFilteredTradeIds } from "@/lib/tradeQueries";
+import { NextResponse } from "next/server";
+
+// Accepts { tradeIds, operation } or { filters, operation } and returns
+// { trades, deletedIds, failures }. Unlike single-trade writes there is no
+// If-Match: the batch applies to whatever version of each trade is current.
+export const POST = async (request: Request) => {
+  const session = await getRequestSupabase();
+  if (!session) {
+    return unauthorized();
+  }
+  const { userId, client } = session;
+
+  const body = await readJsonBody(request);
+  const batch = parseTradeBatchRequest(body.ok ? body.value : undefined);
+  if (!batch.ok) {
+    return jsonError(400, "Invalid batch request.", batch.errors);
+  }
+
+  try {
+    const tags = await fetchTagsForUser(userId, client);
+    const unknownTagIds = getBatchTagIds(batch.value.operation).filter(
+      (tagId) => !tags.some((tag) => tag.id === tagId),
+    );
+    if (unknownTagIds.length > 0) {
+      return jsonError(
+        400,
+        "Invalid batch request.",
+        unknownTagIds.map((tagId) => `${tagId} is not one of your tags.`),
+      );
+    }
+
+    const { operation } = batch.value;
+    const tradeIds =
+      "filters" in batch.value
+        ? await findFilteredTradeIds(
+            batch.value.filters,
+            maxTradeBatchSize + 1,
+            client,
+          )
+        : batch.value.tradeIds;
+    if (tradeIds.length > maxTradeBatchSize) {
+      return jsonError(400, "Invalid batch request.", [
+        `A batch can change at most ${maxTradeBatchSize} trades; narrow the filters.`,
+      ]);
+    }
+
+    return NextResponse.json(
+      await applyTradeBatch(userId, tradeIds, operation, client),
+    );
+  } catch (routeError) {
+    return handleRouteError(routeError);
+  }
+};
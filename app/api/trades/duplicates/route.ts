@@ -0,0 +1,44 @@
+import {
+  handleRouteError,
+  jsonError,
+  readJsonBody,
+  unauthorized,
+} from "@/lib/apiRoute";
+import { getRequestSupabase } from "@/lib/supabaseServer";
+import { findExistingFingerprints } from "@/lib/tradeQueries";
+import { getFingerprintDate } from "@/lib/trades";
+import { NextResponse } from "next/server";
+
+// Accepts { fingerprints } (getTradeFingerprint of each trade in an import)
+// and returns { fingerprints } with those already in the journal, so the
+// import preview can skip them without loading the journal.
+export const POST = async (request: Request) => {
+  const session = await getRequestSupabase();
+  if (!session) {
+    return unauthorized();
+  }
+  const { userId, client } = session;
+
+  const body = await readJsonBody(request);
+  const fingerprints =
+    body.ok && typeof body.value === "object" && body.value !== null
+      ? (body.value as { fingerprints?: unknown }).fingerprints
+      : undefined;
+  if (
+    !Array.isArray(fingerprints) ||
+    !fingerprints.every(
+      (fingerprint) =>
+        typeof fingerprint === "string" && getFingerprintDate(fingerprint),
+    )
+  ) {
+    return jsonError(400, "Body must be { fingerprints: [...] } of trade fingerprints.");
+  }
+
+  try {
+    return NextResponse.json({
+      fingerprints: await findExistingFingerprints(userId, fingerprints, client),
+    });
+  } catch (routeError) {
+    return handleRouteError(routeError);
+  }
+};
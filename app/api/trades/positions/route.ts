@@ -0,0 +1,31 @@
+import { handleRouteError, jsonError, unauthorized } from "@/lib/apiRoute";
+import { getRequestSupabase } from "@/lib/supabaseServer";
+import { parseOpenPositionsParams } from "@/lib/tradeAnalytics";
+import { fetchOpenPositions } from "@/lib/tradeQueries";
+import { NextResponse } from "next/server";
+
+// Open trades matching the filters and their unrealized PnL at the mark
+// prices in `marks`. Returns { positions, unrealizedPnl, unmarkedCount,
+// unconvertedCount }.
+export const GET = async (request: Request) => {
+  const session = await getRequestSupabase();
+  if (!session) {
+    return unauthorized();
+  }
+  const { userId, client } = session;
+
+  const positionsRequest = parseOpenPositionsParams(
+    new URL(request.url).searchParams,
+  );
+  if (!positionsRequest.ok) {
+    return jsonError(400, "Invalid positions request.", positionsRequest.errors);
+  }
+
+  try {
+    return NextResponse.json(
+      await fetchOpenPositions(userId, positionsRequest.value, client),
+    );
+  } catch (routeError) {
+    return handleRouteError(routeError);
+  }
+};
@@ -0,0 +1,98 @@
+import {
+  handleRouteError,
+  jsonError,
+  readJsonBody,
+  unauthorized,
+} from "@/lib/apiRoute";
+import { getRequestSupabase } from "@/lib/supabaseServer";
+import { parseTradeSearchParams } from "@/lib/tradeFilters";
+import {
+  createTrades,
+  fetchTradeChunk,
+  searchTrades,
+  tradeChunkSize,
+} from "@/lib/tradeQueries";
+import { TradePayload, parseTradePayload } from "@/lib/tradeSchema";
+import { NextResponse } from "next/server";
+
+// With `limit` in the query string this returns one page of the filtered,
+// sorted journal as { trades, nextCursor, remainingCount }. Without it, the
+// whole journal is returned newest first in chunks for the offline cache:
+// pass `offset` (default 0) and follow `nextOffset` until it is null.
+export const GET = async (request: Request) => {
+  const session = await getRequestSupabase();
+  if (!session) {
+    return unauthorized();
+  }
+  const { userId, client } = session;
+
+  const params = new URL(request.url).searchParams;
+  if (params.has("limit")) {
+    const search = parseTradeSearchParams(params);
+    if (!search.ok) {
+      return jsonError(400, "Invalid trade search.", search.errors);
+    }
+    try {
+      return NextResponse.json(await searchTrades(userId, search.value, client));
+    } catch (routeError) {
+      return handleRouteError(routeError);
+    }
+  }
+
+  const offset = Number(params.get("offset") ?? 0);
+  if (!Number.isInteger(offset) || offset < 0) {
+    return jsonError(400, "Invalid trade search.", [
+      "offset must be a whole number of 0 or more.",
+    ]);
+  }
+  try {
+    const trades = await fetchTradeChunk(userId, offset, client);
+    return NextResponse.json({
+      trades,
+      nextOffset: trades.length === tradeChunkSize ? offset + trades.length : null,
+    });
+  } catch (routeError) {
+    return handleRouteError(routeError);
+  }
+};
+
+// Accepts { trades: TradePayload[] } so the journal form and CSV import share
+// one endpoint. Nothing is written unless every trade is valid, and the
+// trades are saved in one transaction. Returns the created trades in order.
+export const POST = async (request: Request) => {
+  const session = await getRequestSupabase();
+  if (!session) {
+    return unauthorized();
+  }
+  const { userId, client } = session;
+
+  const body = await readJsonBody(request);
+  const items =
+    body.ok && typeof body.value === "object" && body.value !== null
+      ? (body.value as { trades?: unknown }).trades
+      : undefined;
+  if (!Array.isArray(items) || items.length === 0) {
+    return jsonError(400, "Body must be { trades: [...] } with at least one trade.");
+  }
+
+  const payloads: TradePayload[] = [];
+  const details: string[] = [];
+  items.forEach((item, index) => {
+    const result = parseTradePayload(item);
+    if (result.ok) {
+      payloads.push(result.value);
+    } else {
+      details.push(...result.errors.map((message) => `trades[${index}]: ${message}`));
+    }
+  });
+  if (details.length > 0) {
+    return jsonError(400, "Invalid trade payload.", details);
+  }
+
+  try {
+    const trades = await createTrades(userId, payloads, client);
+    return NextResponse.json({ trades }, { status: 201 });
+  } catch (routeError) {
+    return handleRouteError(routeError);
+  }
+};
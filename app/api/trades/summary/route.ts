@@ -0,0 +1,27 @@
+import { handleRouteError, jsonError, unauthorized } from "@/lib/apiRoute";
+import { getRequestSupabase } from "@/lib/supabaseServer";
+import { parseTradeFilterParams } from "@/lib/tradeFilters";
+import { fetchTradeSummary } from "@/lib/tradeQueries";
+import { NextResponse } from "next/server";
+
+// Headline totals for every trade matching the journal filters, grouped by
+// quote asset. See lib/tradeSummary.ts for how the browser combines them.
+export const GET = async (request: Request) => {
+  const session = await getRequestSupabase();
+  if (!session) {
+    return unauthorized();
+  }
+  const { client } = session;
+
+  const filters = parseTradeFilterParams(new URL(request.url).searchParams);
+  if (!filters.ok) {
+    return jsonError(400, "Invalid trade filters.", filters.errors);
+  }
+
+  try {
+    const groups = await fetchTradeSummary(filters.value, client);
+    return NextResponse.json({ groups });
+  } catch (routeError) {
+    return handleRouteError(routeError);
+  }
+};
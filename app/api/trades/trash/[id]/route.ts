@@ -0,0 +1,27 @@
+import { handleRouteError, jsonError, unauthorized } from "@/lib/apiRoute";
+import { getRequestSupabase } from "@/lib/supabaseServer";
+import { purgeTrade } from "@/lib/tradeQueries";
+import { NextResponse } from "next/server";
+
+type TrashRouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+// Only trades already in the trash can be deleted for good.
+export const DELETE = async (_request: Request, { params }: TrashRouteContext) => {
+  const session = await getRequestSupabase();
+  if (!session) {
+    return unauthorized();
+  }
+  const { userId, client } = session;
+
+  try {
+    const { id } = await params;
+    const purged = await purgeTrade(userId, id, client);
+    return purged
+      ? new NextResponse(null, { status: 204 })
+      : jsonError(404, "Trade not found in the trash.");
+  } catch (routeError) {
+    return handleRouteError(routeError);
+  }
+};
@@ -0,0 +1,20 @@
+import { handleRouteError, unauthorized } from "@/lib/apiRoute";
+import { getRequestSupabase } from "@/lib/supabaseServer";
+import { fetchDeletedTrades } from "@/lib/tradeQueries";
+import { NextResponse } from "next/server";
+
+export const GET = async () => {
+  const session = await getRequestSupabase();
+  if (!session) {
+    return unauthorized();
+  }
+  const { userId, client } = session;
+
+  try {
+    return NextResponse.json({
+      trades: await fetchDeletedTrades(userId, client),
+    });
+  } catch (routeError) {
+    return handleRouteError(routeError);
+  }
+};
@@ -1,180 +1,275 @@
 "use client";
 
 import { UserButton, useAuth } from "@clerk/nextjs";
-import { supabase } from "@/lib/supabaseClient";
-import { ChangeEvent, FormEvent, useEffect, useMemo, useState } from "react";
+import FillsEditor, {
+  FillFormData,
+  createEmptyFill,
+  mapFillToFormData,
+  parseFillFormData,
+} from "@/components/FillsEditor";
+import CalendarHeatmap from "@/components/CalendarHeatmap";
+import CurrencySettingsPanel from "@/components/CurrencySettingsPanel";
+import ImportTradesModal from "@/components/ImportTradesModal";
+import OpenPositions from "@/components/OpenPositions";
+import PerformanceBreakdown from "@/components/PerformanceBreakdown";
+import PerformanceStats from "@/components/PerformanceStats";
+import RDistribution from "@/components/RDistribution";
+import SyncStatusBanner from "@/components/SyncStatusBanner";
+import TagManager from "@/components/TagManager";
+import TagPicker from "@/components/TagPicker";
+import TimeOfTradeStats from "@/components/TimeOfTradeStats";
+import TradeBatchBar, { TradeBatchSummary } from "@/components/TradeBatchBar";
+import TradeCostsFields, {
+  TradeCostFormData,
+  createEmptyCostFormData,
+  mapCostInputsToFormData,
+  parseCostFormData,
+} from "@/components/TradeCostsFields";
+import TradeFillsTable from "@/components/TradeFillsTable";
+import TradeFiltersBar from "@/components/TradeFiltersBar";
+import TradeMarginFields, {
+  TradeMarginFormData,
+  createEmptyMarginFormData,
+  mapMarginInputsToFormData,
+  parseMarginFormData,
+} from "@/components/TradeMarginFields";
+import TradeMarginSummary from "@/components/TradeMarginSummary";
+import TradeRiskSummary from "@/components/TradeRiskSummary";
+import TradeTags from "@/components/TradeTags";
+import UndoToast from "@/components/UndoToast";
+import { Account, getAccountLabel } from "@/lib/accounts";
+import {
+  CurrencySettings,
+  getTradeQuoteUsdRate,
+  createDefaultCurrencySettings,
+  getQuoteAsset,
+  getValidUsdRates,
+  isUsdPegged,
+  loadCurrencySettings,
+  saveCurrencySettings,
+} from "@/lib/currency";
+import { formatCurrency, formatDate, formatPnL, formatR } from "@/lib/format";
+import { createEmptyJournal } from "@/lib/journal";
+import {
+  calculateReturnOnMargin,
+  estimateLiquidationPrice,
+  getInitialMargin,
+  isLeveragedInstrument,
+} from "@/lib/margin";
+import {
+  MarkPrices,
+  loadMarkPrices,
+  saveMarkPrices,
+  setMarkPrice,
+} from "@/lib/markPrices";
+import {
+  PendingMutation,
+  TradeChange,
+  applyPendingMutations,
+  cacheTradeLog,
+  createLocalTradeId,
+  discardLocalChange,
+  isLocalTradeId,
+  isOfflineError,
+  keepLocalChange,
+  loadCachedTradeLog,
+  loadOfflineJournal,
+  queueTradeMutation,
+} from "@/lib/offlineSync";
+import {
+  loadTradeChanges,
+  mergeTradeChanges,
+  subscribeToTradeChanges,
+} from "@/lib/realtimeTrades";
+import {
+  calculateInitialRisk,
+  calculatePlannedRewardToRisk,
+  validateRiskPlan,
+} from "@/lib/risk";
+import {
+  createTags,
+  deleteTag,
+  fetchTagUsage,
+  fetchTags,
+  mergeTags,
+  renameTag,
+} from "@/lib/tagApi";
+import {
+  Tag,
+  TagCategory,
+  findMissingTags,
+  findTagByName,
+  getTagNamesInCategory,
+  getTagsById,
+  sortTags,
+} from "@/lib/tags";
+import {
+  applyTradeBatch,
+  createTrades,
+  deleteTrade,
+  fetchOpenPositions,
+  fetchTradeAnalytics,
+  fetchTradeSummary,
+  findExistingFingerprints,
+  restoreTrade,
+  searchAllTrades,
+  searchTrades,
+  updateTrade,
+} from "@/lib/tradeApi";
+import { OpenPositionsSummary, TradeAnalytics } from "@/lib/tradeAnalytics";
+import { TradeBatchOperation, describeTradeBatch } from "@/lib/tradeBatch";
+import {
+  ImportedTrade,
+  buildTradesCsv,
+  buildTradesJson,
+  downloadTextFile,
+} from "@/lib/tradeExport";
+import {
+  SortKey,
+  TradeFilters,
+  TradePage,
+  buildFilteredHref,
+  createDefaultFilters,
+  defaultSortKey,
+  filterTrades,
+  filtersFromSearchParams,
+  hasActiveFilters,
+  sortKeyFromSearchParams,
+  sortOptions,
+  sortTrades,
+} from "@/lib/tradeFilters";
+import { TradePayload, mapTradeToFormPatch } from "@/lib/tradeSchema";
+import {
+  TradeSummaryGroup,
+  combineTradeSummary,
+  getSummaryMissingRateAssets,
+  getSummaryQuoteAssets,
+} from "@/lib/tradeSummary";
+import {
+  Trade,
+  TradeDirection,
+  TradeFillDraft,
+  TradeStatus,
+  calculatePnL,
+  getOpenQuantity,
+  getTradeCosts,
+  summarizeFills,
+} from "@/lib/trades";
+import {
+  ChangeEvent,
+  FormEvent,
+  Fragment,
+  useCallback,
+  useEffect,
+  useMemo,
+  useState,
+} from "react";
 import {
   Activity,
   ArrowDownRight,
   ArrowUpRight,
+  BookOpen,
+  ChevronDown,
+  CloudOff,
+  Download,
   Edit3,
+  Layers,
+  LineChart,
   PlusCircle,
+  Receipt,
+  Tags,
+  Trash,
   Trash2,
+  Upload,
+  Wallet,
   X,
 } from "lucide-react";
+import type { Route } from "next";
+import Link from "next/link";
+
+type TradeFormData = TradeCostFormData &
+  TradeMarginFormData & {
+    pair: string;
+    direction: TradeDirection;
+    tagIds: string[];
+    status: TradeStatus;
+    entryPrice: string;
+    exitPrice: string;
+    stopLoss: string;
+    takeProfit: string;
+    positionSize: string;
+    date: string;
+    sentiment: string;
+    quoteUsdRate: string;
+    // Empty for no account.
+    accountId: string;
+    fills: FillFormData[];
+  };
 
-type TradeDirection = "Long" | "Short";
-
-type Trade = {
-  id: string;
-  userId: string;
-  pair: string;
-  direction: TradeDirection;
-  strategy: string;
-  entryPrice: number;
-  exitPrice: number;
-  pnl: number;
-  date: string;
-  sentiment: string;
-  positionSize: number;
-};
-
-type TradeFormData = {
-  pair: string;
-  direction: TradeDirection;
-  strategy: string;
-  entryPrice: string;
-  exitPrice: string;
-  positionSize: string;
-  date: string;
-  sentiment: string;
-};
-
-type DirectionFilter = TradeDirection | "All";
-
-type TradeFilters = {
-  pair: string;
-  direction: DirectionFilter;
-  strategy: string;
-  startDate: string;
-  endDate: string;
+// The last edit or delete that reached the server, offered back in a toast.
+type UndoAction = {
+  message: string;
+  undo: () => Promise<void>;
 };
 
-type SortKey =
-  | "date-desc"
-  | "date-asc"
-  | "pnl-desc"
-  | "pnl-asc"
-  | "size-desc"
-  | "size-asc";
-
-type TradeRow = {
-  id: string;
-  user_id: string;
-  pair: string;
-  direction: TradeDirection;
-  strategy: string;
-  entry_price: string | number | null;
-  exit_price: string | number | null;
-  pnl: string | number | null;
-  position_size: string | number | null;
-  sentiment: string | null;
-  trade_date: string;
-};
+const parseOptionalNumber = (value: string) =>
+  value.trim() ? parseFloat(value) : null;
 
-const parseNumericField = (value: string | number | null) => {
-  if (typeof value === "number") {
-    return value;
-  }
-  if (typeof value === "string") {
-    const parsed = parseFloat(value);
-    return Number.isFinite(parsed) ? parsed : 0;
-  }
-  return 0;
+const emptyOpenPositions: OpenPositionsSummary = {
+  positions: [],
+  unrealizedPnl: 0,
+  unmarkedCount: 0,
+  unconvertedCount: 0,
 };
 
-const mapRowToTrade = (row: TradeRow): Trade => ({
-  id: row.id,
-  userId: row.user_id,
-  pair: row.pair,
-  direction: row.direction,
-  strategy: row.strategy,
-  entryPrice: parseNumericField(row.entry_price),
-  exitPrice: parseNumericField(row.exit_price),
-  pnl: parseNumericField(row.pnl),
-  date: row.trade_date,
-  sentiment: row.sentiment ?? "",
-  positionSize: parseNumericField(row.position_size),
-});
-
-const createDefaultFilters = (): TradeFilters => ({
-  pair: "",
-  direction: "All",
-  strategy: "",
-  startDate: "",
-  endDate: "",
-});
-
-const sortSelectOptions: { label: string; value: SortKey }[] = [
-  { label: "Newest first", value: "date-desc" },
-  { label: "Oldest first", value: "date-asc" },
-  { label: "PnL high → low", value: "pnl-desc" },
-  { label: "PnL low → high", value: "pnl-asc" },
-  { label: "Size high → low", value: "size-desc" },
-  { label: "Size low → high", value: "size-asc" },
-];
-
-const sortTradesByDateDesc = (entries: Trade[]) =>
-  [...entries].sort(
-    (a, b) => new Date(b.date).getTime() - new Date(a.date).getTime(),
+// The server sends trades filtered and sorted. Changes queued on this device
+// are not on the server yet, and trades changed elsewhere arrive one by one,
+// so both are put on top and the result filtered and sorted again to place
+// them. PnL ranks as trade_sort_value ranks it on the server: by USD value,
+// and a trade without a rate by its quote amount, which only moves it in the
+// order and is never added to a total.
+const arrangeTrades = (
+  trades: Trade[],
+  pendingMutations: PendingMutation[],
+  filters: TradeFilters,
+  sortKey: SortKey,
+  settings: CurrencySettings,
+) =>
+  sortTrades(
+    filterTrades(
+      pendingMutations.length > 0
+        ? applyPendingMutations(trades, pendingMutations)
+        : trades,
+      filters,
+    ),
+    sortKey,
+    (trade) => trade.netPnl * (getTradeQuoteUsdRate(trade, settings) ?? 1),
   );
 
-const calculatePnL = (
-  direction: TradeDirection,
-  entry: number,
-  exit: number,
-  size: number,
-) => {
-  if (!Number.isFinite(entry) || !Number.isFinite(exit) || !Number.isFinite(size)) {
-    return 0;
-  }
-
-  const difference =
-    direction === "Long" ? exit - entry : entry - exit;
-
-  return difference * size;
-};
-
 const createEmptyFormState = (): TradeFormData => ({
   pair: "",
   direction: "Long",
-  strategy: "",
+  tagIds: [],
+  status: "Closed",
   entryPrice: "",
   exitPrice: "",
+  stopLoss: "",
+  takeProfit: "",
   positionSize: "",
   date: new Date().toISOString().slice(0, 10),
   sentiment: "",
+  quoteUsdRate: "",
+  accountId: "",
+  fills: [],
+  ...createEmptyCostFormData(),
+  ...createEmptyMarginFormData(),
 });
 
-const currencyFormatter = new Intl.NumberFormat("en-US", {
-  style: "currency",
-  currency: "USD",
-  minimumFractionDigits: 2,
-  maximumFractionDigits: 2,
-});
-
-const formatCurrency = (value: number) => currencyFormatter.format(value);
-
-const formatPnL = (value: number) => {
-  const prefix = value >= 0 ? "+" : "-";
-  return `${prefix}${formatCurrency(Math.abs(value))}`;
-};
-
-const formatDate = (value: string) => {
-  const parsed = new Date(value);
-  if (Number.isNaN(parsed.getTime())) {
-    return value;
-  }
-  return parsed.toLocaleDateString("en-US", {
-    month: "short",
-    day: "numeric",
-    year: "numeric",
-  });
-};
-
 export default function Home() {
   const { userId, isLoaded } = useAuth();
-  const [trades, setTrades] = useState<Trade[]>([]);
+  const [tags, setTags] = useState<Tag[]>([]);
+  const [tagUsage, setTagUsage] = useState<Record<string, number>>({});
+  const [accounts, setAccounts] = useState<Account[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [isModalOpen, setIsModalOpen] = useState(false);
@@ -182,13 +277,55 @@ export default function Home() {
   const [formData, setFormData] = useState<TradeFormData>(() =>
     createEmptyFormState(),
   );
-  const [showAllTrades, setShowAllTrades] = useState(false);
+  const [serverLog, setServerLog] = useState<TradePage | null>(null);
+  // The log's last first page, shown while offline before any page loads.
+  const [cachedLogTrades, setCachedLogTrades] = useState<Trade[]>([]);
+  // Bumped after every change to reload the stats and panels.
+  const [journalVersion, setJournalVersion] = useState(0);
+  const [summaryGroups, setSummaryGroups] = useState<
+    TradeSummaryGroup[] | null
+  >(null);
+  const [serverAnalytics, setServerAnalytics] = useState<TradeAnalytics | null>(
+    null,
+  );
+  const [serverPositions, setServerPositions] =
+    useState<OpenPositionsSummary | null>(null);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
   const [pageSize, setPageSize] = useState(5);
   const [filters, setFilters] = useState<TradeFilters>(() =>
     createDefaultFilters(),
   );
-  const [sortKey, setSortKey] = useState<SortKey>("date-desc");
+  const [sortKey, setSortKey] = useState<SortKey>(defaultSortKey);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [isTagManagerOpen, setIsTagManagerOpen] = useState(false);
+  const [markPrices, setMarkPrices] = useState<MarkPrices>({});
+  const [currencySettings, setCurrencySettings] = useState<CurrencySettings>(
+    () => createDefaultCurrencySettings(),
+  );
+  const [expandedTradeIds, setExpandedTradeIds] = useState<Set<string>>(
+    () => new Set(),
+  );
+  const [pendingMutations, setPendingMutations] = useState<PendingMutation[]>(
+    [],
+  );
+  const [isOffline, setIsOffline] = useState(false);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [syncRequest, setSyncRequest] = useState(0);
+  const [undoAction, setUndoAction] = useState<UndoAction | null>(null);
+  const [selectedTradeIds, setSelectedTradeIds] = useState<Set<string>>(
+    () => new Set(),
+  );
+  const [lastSelectedTradeId, setLastSelectedTradeId] = useState<string | null>(
+    null,
+  );
+  // Every trade matching the filters, loaded or not. The batch then names
+  // the filters instead of the ids.
+  const [isAllFilteredSelected, setIsAllFilteredSelected] = useState(false);
+  const [isBatchWorking, setIsBatchWorking] = useState(false);
+  const [batchSummary, setBatchSummary] = useState<TradeBatchSummary | null>(
+    null,
+  );
 
   useEffect(() => {
     if (!isLoaded) {
@@ -196,25 +333,23 @@ export default function Home() {
     }
 
     if (!userId) {
-      setTrades([]);
+      setServerLog(null);
+      setCachedLogTrades([]);
+      setTags([]);
       return;
     }
 
-    const fetchTrades = async () => {
+    const loadJournal = async () => {
       try {
-        setIsLoading(true);
-        const { data, error: fetchError } = await supabase
-          .from("trades")
-          .select("*")
-          .eq("user_id", userId)
-          .order("trade_date", { ascending: false });
-
-        if (fetchError) {
-          throw fetchError;
+        setIsSyncing(true);
+        const journal = await loadOfflineJournal(userId);
+        setTags(journal.tags);
+        setAccounts(journal.accounts);
+        setPendingMutations(journal.pendingMutations);
+        setIsOffline(journal.isOffline);
+        if (journal.isOffline) {
+          setCachedLogTrades(await loadCachedTradeLog(userId));
         }
-
-        const mappedTrades = (data as TradeRow[] | null)?.map(mapRowToTrade) ?? [];
-        setTrades(sortTradesByDateDesc(mappedTrades));
         setError(null);
       } catch (fetchErr) {
         console.error(fetchErr);
@@ -225,116 +360,308 @@ export default function Home() {
         );
       } finally {
         setIsLoading(false);
+        setIsSyncing(false);
       }
     };
 
-    fetchTrades();
-  }, [isLoaded, userId]);
+    loadJournal();
+  }, [isLoaded, userId, syncRequest]);
 
-  const filteredTrades = useMemo(() => {
-    return trades.filter((trade) => {
-      if (
-        filters.pair &&
-        !trade.pair.toLowerCase().includes(filters.pair.trim().toLowerCase())
-      ) {
-        return false;
-      }
+  useEffect(() => {
+    if (!userId) {
+      return;
+    }
 
-      if (
-        filters.strategy &&
-        !trade.strategy
-          .toLowerCase()
-          .includes(filters.strategy.trim().toLowerCase())
-      ) {
-        return false;
+    return subscribeToTradeChanges(userId, async (event) => {
+      try {
+        const changes = await loadTradeChanges(event);
+        setServerLog(
+          (prev) =>
+            prev && { ...prev, trades: mergeTradeChanges(prev.trades, changes) },
+        );
+        setJournalVersion((prev) => prev + 1);
+      } catch (syncErr) {
+        console.error(syncErr);
       }
+    });
+  }, [userId]);
+
+  useEffect(() => {
+    const handleOnline = () => setSyncRequest((prev) => prev + 1);
+    const handleOffline = () => setIsOffline(true);
+    window.addEventListener("online", handleOnline);
+    window.addEventListener("offline", handleOffline);
+    return () => {
+      window.removeEventListener("online", handleOnline);
+      window.removeEventListener("offline", handleOffline);
+    };
+  }, []);
+
+  useEffect(() => {
+    setMarkPrices(loadMarkPrices());
+    setCurrencySettings(loadCurrencySettings());
+    const params = new URLSearchParams(window.location.search);
+    setFilters(filtersFromSearchParams(params));
+    setSortKey(sortKeyFromSearchParams(params));
+  }, []);
+
+  const usdRates = useMemo(
+    () => getValidUsdRates(currencySettings),
+    [currencySettings],
+  );
+  // Batch changes wait for queued offline changes, so the server sees every
+  // change to a trade in order.
+  const isSynced = !isOffline && pendingMutations.length === 0;
+
+  // A failed server read marks the journal offline when the network is down,
+  // and shows the error otherwise.
+  const handleServerError = useCallback((fetchErr: unknown) => {
+    console.error(fetchErr);
+    if (isOfflineError(fetchErr)) {
+      setIsOffline(true);
+    } else {
+      setError(
+        fetchErr instanceof Error ? fetchErr.message : "Failed to load trades.",
+      );
+    }
+  }, []);
 
-      if (filters.direction !== "All" && trade.direction !== filters.direction) {
-        return false;
+  // The trade log, headline stats and panels come from the server, so they
+  // cover the whole filtered journal without loading it here. They wait
+  // while queued offline changes sync, and reload after. Saved changes are
+  // applied to the loaded log in place (applySavedTrades), so pages already
+  // loaded stay; the stats reload when journalVersion is bumped.
+  useEffect(() => {
+    if (!userId || isLoading || isSyncing || isOffline) {
+      return;
+    }
+
+    let isCurrent = true;
+    const loadServerLog = async () => {
+      try {
+        const page = await searchTrades({
+          filters,
+          sortKey,
+          usdRates,
+          cursor: null,
+          limit: pageSize,
+        });
+        if (isCurrent) {
+          setServerLog(page);
+          setIsAllFilteredSelected(false);
+          await cacheTradeLog(userId, page.trades);
+        }
+      } catch (fetchErr) {
+        if (isCurrent) {
+          handleServerError(fetchErr);
+        }
       }
+    };
+
+    loadServerLog();
+    return () => {
+      isCurrent = false;
+    };
+  }, [
+    filters,
+    handleServerError,
+    isLoading,
+    isOffline,
+    isSyncing,
+    pageSize,
+    sortKey,
+    usdRates,
+    userId,
+  ]);
+
+  useEffect(() => {
+    if (!userId || isLoading || isSyncing || isOffline) {
+      return;
+    }
 
-      if (filters.startDate) {
-        const startTime = new Date(filters.startDate).getTime();
-        if (!Number.isNaN(startTime) && new Date(trade.date).getTime() < startTime) {
-          return false;
+    let isCurrent = true;
+    const loadSummary = async () => {
+      try {
+        const groups = await fetchTradeSummary(filters);
+        if (isCurrent) {
+          setSummaryGroups(groups);
+        }
+      } catch (fetchErr) {
+        if (isCurrent) {
+          handleServerError(fetchErr);
         }
       }
+    };
+
+    loadSummary();
+    return () => {
+      isCurrent = false;
+    };
+  }, [
+    filters,
+    handleServerError,
+    isLoading,
+    isOffline,
+    isSyncing,
+    journalVersion,
+    userId,
+  ]);
 
-      if (filters.endDate) {
-        const endTime = new Date(filters.endDate).getTime();
-        if (!Number.isNaN(endTime) && new Date(trade.date).getTime() > endTime) {
-          return false;
+  useEffect(() => {
+    if (!userId || isLoading || isSyncing || isOffline) {
+      return;
+    }
+
+    let isCurrent = true;
+    const loadAnalytics = async () => {
+      try {
+        const result = await fetchTradeAnalytics(filters, currencySettings);
+        if (isCurrent) {
+          setServerAnalytics(result);
+        }
+      } catch (fetchErr) {
+        if (isCurrent) {
+          handleServerError(fetchErr);
         }
       }
+    };
 
-      return true;
-    });
-  }, [filters, trades]);
-
-  const sortedTrades = useMemo(() => {
-    const entries = [...filteredTrades];
-    entries.sort((a, b) => {
-      const getDate = (value: string) => new Date(value).getTime();
-      switch (sortKey) {
-        case "date-asc":
-          return getDate(a.date) - getDate(b.date);
-        case "pnl-desc":
-          return b.pnl - a.pnl;
-        case "pnl-asc":
-          return a.pnl - b.pnl;
-        case "size-desc":
-          return b.positionSize - a.positionSize;
-        case "size-asc":
-          return a.positionSize - b.positionSize;
-        case "date-desc":
-        default:
-          return getDate(b.date) - getDate(a.date);
+    loadAnalytics();
+    return () => {
+      isCurrent = false;
+    };
+  }, [
+    currencySettings,
+    filters,
+    handleServerError,
+    isLoading,
+    isOffline,
+    isSyncing,
+    journalVersion,
+    userId,
+  ]);
+
+  // Mark prices change as they are typed, so the request waits for a pause.
+  useEffect(() => {
+    if (!userId || isLoading || isSyncing || isOffline) {
+      return;
+    }
+
+    let isCurrent = true;
+    const loadPositions = async () => {
+      try {
+        const result = await fetchOpenPositions(
+          filters,
+          currencySettings,
+          markPrices,
+        );
+        if (isCurrent) {
+          setServerPositions(result);
+        }
+      } catch (fetchErr) {
+        if (isCurrent) {
+          handleServerError(fetchErr);
+        }
       }
-    });
-    return entries;
-  }, [filteredTrades, sortKey]);
-
-  const hasActiveFilters =
-    filters.direction !== "All" ||
-    Boolean(filters.pair.trim()) ||
-    Boolean(filters.strategy.trim()) ||
-    Boolean(filters.startDate) ||
-    Boolean(filters.endDate);
-
-  const totalPnL = filteredTrades.reduce((acc, trade) => acc + trade.pnl, 0);
-  const totalTrades = filteredTrades.length;
-  const winningTrades = filteredTrades.filter((trade) => trade.pnl > 0).length;
-  const avgPnl = totalTrades > 0 ? totalPnL / totalTrades : 0;
-  const longTrades = filteredTrades.filter((trade) => trade.direction === "Long").length;
-  const shortTrades = totalTrades - longTrades;
-  const losingTrades = totalTrades - winningTrades;
-  const winRate =
-    totalTrades > 0 ? Math.round((winningTrades / totalTrades) * 100) : 0;
+    };
+
+    const timeout = window.setTimeout(loadPositions, 300);
+    return () => {
+      isCurrent = false;
+      window.clearTimeout(timeout);
+    };
+  }, [
+    currencySettings,
+    filters,
+    handleServerError,
+    isLoading,
+    isOffline,
+    isSyncing,
+    journalVersion,
+    markPrices,
+    userId,
+  ]);
+
+  const logTrades = serverLog?.trades ?? cachedLogTrades;
+  const visibleTrades = useMemo(
+    () =>
+      arrangeTrades(
+        logTrades,
+        pendingMutations,
+        filters,
+        sortKey,
+        currencySettings,
+      ),
+    [currencySettings, filters, logTrades, pendingMutations, sortKey],
+  );
+  const hasMoreTrades = !isOffline && Boolean(serverLog?.nextCursor);
+
+  const isFiltered = hasActiveFilters(filters);
+
+  const reportingCurrency = currencySettings.reportingCurrency;
+  const quoteAssets = useMemo(
+    () => getSummaryQuoteAssets(summaryGroups ?? []),
+    [summaryGroups],
+  );
+  const missingRateAssets = useMemo(
+    () => getSummaryMissingRateAssets(summaryGroups ?? [], currencySettings),
+    [currencySettings, summaryGroups],
+  );
+
+  const summary = combineTradeSummary(summaryGroups ?? [], currencySettings);
+  const openPositions = serverPositions ?? emptyOpenPositions;
+  const selectedDate =
+    filters.startDate && filters.startDate === filters.endDate
+      ? filters.startDate
+      : null;
 
   const stats = [
     {
-      label: "Net PnL",
-      value: formatPnL(totalPnL),
-      change: totalPnL >= 0 ? "Above breakeven" : "Below breakeven",
-      positive: totalPnL >= 0,
+      label: "Net Realized PnL",
+      value: formatPnL(summary.realizedPnl, reportingCurrency),
+      change: summary.realizedPnl >= 0 ? "Above breakeven" : "Below breakeven",
+      positive: summary.realizedPnl >= 0,
+    },
+    {
+      label: "Gross PnL / Costs",
+      value: formatPnL(summary.grossPnl, reportingCurrency),
+      change: `${formatCurrency(summary.totalCosts, reportingCurrency)} fees & funding`,
+      positive: summary.grossPnl >= 0,
+    },
+    {
+      label: "Unrealized PnL",
+      value: formatPnL(openPositions.unrealizedPnl, reportingCurrency),
+      change:
+        openPositions.positions.length === 0
+          ? "No open positions"
+          : `${openPositions.positions.length} open${
+              openPositions.unmarkedCount > 0
+                ? ` · ${openPositions.unmarkedCount} unmarked`
+                : ""
+            }${
+              openPositions.unconvertedCount > 0
+                ? ` · ${openPositions.unconvertedCount} unconverted`
+                : ""
+            }`,
+      positive: openPositions.unrealizedPnl >= 0,
     },
     {
       label: "Win Rate",
-      value: `${winRate}%`,
-      change: `${winningTrades} wins · ${losingTrades} losses`,
-      positive: winRate >= 50,
+      value: `${summary.winRate}%`,
+      change: `${summary.winningCount} wins · ${summary.losingCount} losses`,
+      positive: summary.winRate >= 50,
     },
     {
       label: "Trades Logged",
-      value: `${totalTrades}`,
-      change: `${longTrades} long · ${shortTrades} short`,
-      positive: totalTrades > 0,
+      value: `${summary.tradeCount}`,
+      change: `${summary.longCount} long · ${summary.shortCount} short`,
+      positive: summary.tradeCount > 0,
     },
     {
-      label: "Avg PnL / Trade",
-      value: formatPnL(avgPnl),
-      change: avgPnl >= 0 ? "Profitable setups" : "Review exits",
-      positive: avgPnl >= 0,
+      label: "Avg Net PnL / Trade",
+      value: formatPnL(summary.avgNetPnl, reportingCurrency),
+      change: summary.avgNetPnl >= 0 ? "Profitable setups" : "Review exits",
+      positive: summary.avgNetPnl >= 0,
     },
   ];
 
@@ -349,12 +676,20 @@ export default function Home() {
     setFormData({
       pair: trade.pair,
       direction: trade.direction,
-      strategy: trade.strategy,
+      tagIds: trade.tagIds,
+      status: trade.status,
       entryPrice: trade.entryPrice.toString(),
-      exitPrice: trade.exitPrice.toString(),
+      exitPrice: trade.exitPrice?.toString() ?? "",
+      stopLoss: trade.stopLoss?.toString() ?? "",
+      takeProfit: trade.takeProfit?.toString() ?? "",
       positionSize: trade.positionSize.toString(),
       date: trade.date,
       sentiment: trade.sentiment,
+      quoteUsdRate: trade.quoteUsdRate?.toString() ?? "",
+      accountId: trade.accountId ?? "",
+      fills: trade.fills.map(mapFillToFormData),
+      ...mapCostInputsToFormData(trade.costInputs),
+      ...mapMarginInputsToFormData(trade.marginInputs),
     });
     setIsModalOpen(true);
   };
@@ -377,6 +712,51 @@ export default function Home() {
     }));
   };
 
+  const handleFillsChange = (fills: FillFormData[]) => {
+    setFormData((prev) => ({
+      ...prev,
+      fills,
+    }));
+  };
+
+  const enableFillsMode = () => {
+    handleFillsChange([
+      createEmptyFill("Entry", formData.date, {
+        price: formData.entryPrice,
+        quantity: formData.positionSize,
+      }),
+      createEmptyFill("Exit", formData.date, {
+        price: formData.exitPrice,
+        quantity: formData.positionSize,
+      }),
+    ]);
+  };
+
+  const handleCurrencySettingsChange = (settings: CurrencySettings) => {
+    setCurrencySettings(settings);
+    saveCurrencySettings(settings);
+  };
+
+  const handleMarkPriceChange = (pair: string, value: string) => {
+    setMarkPrices((prev) => {
+      const next = setMarkPrice(prev, pair, value);
+      saveMarkPrices(next);
+      return next;
+    });
+  };
+
+  const toggleTradeExpanded = (id: string) => {
+    setExpandedTradeIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
   const handleFilterChange = (
     event: ChangeEvent<HTMLInputElement | HTMLSelectElement>,
   ) => {
@@ -385,12 +765,134 @@ export default function Home() {
       ...prev,
       [name]: value,
     }));
-    setShowAllTrades(false);
+  };
+
+  const handleTagFilterChange = (tagIds: string[]) => {
+    setFilters((prev) => ({ ...prev, tagIds }));
+  };
+
+  const applyPairFilter = (pair: string) => {
+    setFilters((prev) => ({ ...prev, pair: prev.pair === pair ? "" : pair }));
+  };
+
+  const applySetupFilter = (name: string) => {
+    const tag = findTagByName(tags, name, "Setup");
+    if (!tag) {
+      return;
+    }
+    setFilters((prev) => ({
+      ...prev,
+      tagIds: prev.tagIds.includes(tag.id)
+        ? prev.tagIds.filter((tagId) => tagId !== tag.id)
+        : [...prev.tagIds, tag.id],
+    }));
+  };
+
+  const handleSelectDate = (date: string) => {
+    const nextDate = date === selectedDate ? "" : date;
+    setFilters((prev) => ({ ...prev, startDate: nextDate, endDate: nextDate }));
   };
 
   const resetFilters = () => {
     setFilters(createDefaultFilters());
-    setShowAllTrades(false);
+  };
+
+  const pendingTradeIds = useMemo(
+    () => new Set(pendingMutations.map((mutation) => mutation.tradeId)),
+    [pendingMutations],
+  );
+
+  const queueOfflineChange = async (
+    change: TradeChange,
+  ) => {
+    if (!userId) {
+      return;
+    }
+    const mutations = await queueTradeMutation(userId, change);
+    setPendingMutations(mutations);
+    if (navigator.onLine) {
+      setSyncRequest((prev) => prev + 1);
+    }
+  };
+
+  // Trades with queued offline changes keep queueing until those sync, so
+  // the server sees every change to a trade in order.
+  const sendOrQueue = async (
+    change: TradeChange,
+    send: () => Promise<void>,
+  ) => {
+    if (navigator.onLine && !pendingTradeIds.has(change.tradeId)) {
+      try {
+        await send();
+        return;
+      } catch (sendErr) {
+        if (!isOfflineError(sendErr)) {
+          throw sendErr;
+        }
+      }
+    }
+    await queueOfflineChange(change);
+  };
+
+  const handleResolveConflict = async (
+    mutation: PendingMutation,
+    keepLocal: boolean,
+  ) => {
+    try {
+      await (keepLocal
+        ? keepLocalChange(mutation)
+        : discardLocalChange(mutation));
+      setSyncRequest((prev) => prev + 1);
+    } catch (resolveErr) {
+      console.error(resolveErr);
+      alert(
+        resolveErr instanceof Error
+          ? resolveErr.message
+          : "Failed to resolve the sync conflict. Please try again.",
+      );
+    }
+  };
+
+  // Puts trades saved from this session into the loaded log, where
+  // arrangeTrades places them, and reloads the stats.
+  const applySavedTrades = (savedTrades: Trade[], removedIds: string[] = []) => {
+    setServerLog(
+      (prev) =>
+        prev && {
+          ...prev,
+          trades: mergeTradeChanges(prev.trades, {
+            updated: savedTrades,
+            removedIds,
+          }),
+        },
+    );
+    setJournalVersion((prev) => prev + 1);
+  };
+
+  // The trade being edited may come from the log or the open positions.
+  const findLoadedTrade = (id: string) =>
+    visibleTrades.find((trade) => trade.id === id) ??
+    openPositions.positions.find((trade) => trade.id === id);
+
+  const dismissUndo = useCallback(() => setUndoAction(null), []);
+
+  // Undo is refused (409) if the trade changed again since, e.g. on another
+  // device, rather than overwriting that change.
+  const handleUndo = async () => {
+    if (!undoAction) {
+      return;
+    }
+    setUndoAction(null);
+    try {
+      await undoAction.undo();
+    } catch (undoErr) {
+      console.error(undoErr);
+      alert(
+        undoErr instanceof Error
+          ? undoErr.message
+          : "Failed to undo. Please try again.",
+      );
+    }
   };
 
   const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
@@ -406,84 +908,182 @@ export default function Home() {
       return;
     }
 
-    if (!formData.strategy.trim()) {
-      alert("Please enter a strategy name.");
+    if (getTagNamesInCategory(tags, formData.tagIds, "Setup").length === 0) {
+      alert("Please add at least one setup tag.");
       return;
     }
 
-    const parsedEntry = parseFloat(formData.entryPrice);
-    const parsedExit = parseFloat(formData.exitPrice);
-    const parsedSize = parseFloat(formData.positionSize);
+    const costInputs = parseCostFormData(formData);
+    if (typeof costInputs === "string") {
+      alert(costInputs);
+      return;
+    }
+
+    const marginInputs = parseMarginFormData(formData);
+    if (typeof marginInputs === "string") {
+      alert(marginInputs);
+      return;
+    }
+
+    const isClosed = formData.status === "Closed";
+    let entryPrice: number;
+    let exitPrice: number | null;
+    let positionSize: number;
+    let fills: TradeFillDraft[] = [];
+
+    if (formData.fills.length > 0) {
+      const parsedFills = parseFillFormData(formData.fills, formData.date);
+      if (typeof parsedFills === "string") {
+        alert(parsedFills);
+        return;
+      }
+
+      const summary = summarizeFills(formData.direction, parsedFills);
+      if (summary.entryQuantity <= 0) {
+        alert("Please add at least one entry fill.");
+        return;
+      }
+
+      if (summary.exitQuantity - summary.entryQuantity > 1e-9) {
+        alert("Exit fills cannot close more than the quantity entered.");
+        return;
+      }
+
+      if (isClosed && summary.openQuantity > 1e-9) {
+        alert("Exit fills must close the full quantity, or mark the trade as open.");
+        return;
+      }
 
-    const entryPrice = Number.isFinite(parsedEntry) ? parsedEntry : 0;
-    const exitPrice = Number.isFinite(parsedExit) ? parsedExit : 0;
-    const positionSize = Number.isFinite(parsedSize) ? parsedSize : 0;
+      if (formData.status === "Open" && summary.openQuantity <= 1e-9) {
+        alert("This position is fully closed. Mark the trade as closed instead.");
+        return;
+      }
 
-    if (!Number.isFinite(parsedEntry) || !Number.isFinite(parsedExit)) {
-      alert("Please enter valid numeric values for entry and exit price.");
+      fills = parsedFills;
+      entryPrice = summary.avgEntryPrice;
+      exitPrice = summary.exitQuantity > 0 ? summary.avgExitPrice : null;
+      positionSize = summary.entryQuantity;
+    } else {
+      const parsedEntry = parseFloat(formData.entryPrice);
+      const parsedExit = parseFloat(formData.exitPrice);
+      const parsedSize = parseFloat(formData.positionSize);
+
+      entryPrice = Number.isFinite(parsedEntry) ? parsedEntry : 0;
+      exitPrice = isClosed && Number.isFinite(parsedExit) ? parsedExit : null;
+      positionSize = Number.isFinite(parsedSize) ? parsedSize : 0;
+
+      if (!Number.isFinite(parsedEntry) || (isClosed && !Number.isFinite(parsedExit))) {
+        alert(
+          isClosed
+            ? "Please enter valid numeric values for entry and exit price."
+            : "Please enter a valid numeric entry price.",
+        );
+        return;
+      }
+
+      if (!Number.isFinite(parsedSize) || parsedSize <= 0) {
+        alert("Please enter a position size greater than zero.");
+        return;
+      }
+    }
+
+    const stopLoss = parseOptionalNumber(formData.stopLoss);
+    const takeProfit = parseOptionalNumber(formData.takeProfit);
+    const quoteUsdRate = isUsdPegged(getQuoteAsset(formData.pair))
+      ? null
+      : parseOptionalNumber(formData.quoteUsdRate);
+
+    if (
+      quoteUsdRate !== null &&
+      (!Number.isFinite(quoteUsdRate) || quoteUsdRate <= 0)
+    ) {
+      alert("Please enter a conversion rate greater than zero.");
       return;
     }
 
-    if (!Number.isFinite(parsedSize) || parsedSize <= 0) {
-      alert("Please enter a position size greater than zero.");
+    if (
+      (stopLoss !== null && !Number.isFinite(stopLoss)) ||
+      (takeProfit !== null && !Number.isFinite(takeProfit))
+    ) {
+      alert("Please enter valid numeric values for stop loss and take profit.");
       return;
     }
 
-    const pnl = calculatePnL(formData.direction, entryPrice, exitPrice, positionSize);
-    const payload = {
+    const riskError = validateRiskPlan({
+      direction: formData.direction,
+      entryPrice,
+      stopLoss,
+      takeProfit,
+      positionSize,
+    });
+    if (riskError) {
+      alert(riskError);
+      return;
+    }
+
+    const payload: Omit<TradePayload, "journal"> = {
       pair: formData.pair,
       direction: formData.direction,
-      strategy: formData.strategy,
-      entry_price: entryPrice,
-      exit_price: exitPrice,
-      position_size: positionSize,
-      pnl,
-      sentiment: formData.sentiment.trim() ? formData.sentiment : null,
-      trade_date: formData.date,
-      user_id: userId,
+      strategy: "",
+      status: formData.status,
+      entryPrice,
+      exitPrice,
+      stopLoss,
+      takeProfit,
+      positionSize,
+      sentiment: formData.sentiment,
+      date: formData.date,
+      costInputs,
+      marginInputs,
+      quoteUsdRate,
+      accountId: formData.accountId || null,
+      fills,
+      tagIds: formData.tagIds,
     };
 
     setIsSubmitting(true);
 
     try {
       if (editingTradeId) {
-        const { data, error: updateError } = await supabase
-          .from("trades")
-          .update(payload)
-          .eq("id", editingTradeId)
-          .eq("user_id", userId)
-          .select()
-          .single();
-
-        if (updateError) {
-          throw updateError;
-        }
-
-        if (data) {
-          const updatedTrade = mapRowToTrade(data as TradeRow);
-          setTrades((prev) =>
-            sortTradesByDateDesc(
-              prev.map((trade) =>
-                trade.id === editingTradeId ? updatedTrade : trade,
-              ),
-            ),
-          );
-        }
+        const previousTrade = findLoadedTrade(editingTradeId);
+        await sendOrQueue(
+          {
+            tradeId: editingTradeId,
+            kind: "update",
+            patch: payload,
+            baseUpdatedAt: previousTrade?.updatedAt ?? null,
+          },
+          async () => {
+            const updatedTrade = await updateTrade(editingTradeId, payload);
+            applySavedTrades([updatedTrade]);
+            if (previousTrade) {
+              setUndoAction({
+                message: `Saved changes to ${updatedTrade.pair}.`,
+                undo: async () =>
+                  applySavedTrades([
+                    await updateTrade(
+                      updatedTrade.id,
+                      mapTradeToFormPatch(previousTrade),
+                      updatedTrade.updatedAt,
+                    ),
+                  ]),
+              });
+            }
+          },
+        );
       } else {
-        const { data, error: insertError } = await supabase
-          .from("trades")
-          .insert(payload)
-          .select()
-          .single();
-
-        if (insertError) {
-          throw insertError;
-        }
-
-        if (data) {
-          const createdTrade = mapRowToTrade(data as TradeRow);
-          setTrades((prev) => sortTradesByDateDesc([createdTrade, ...prev]));
-        }
+        const createPayload = { ...payload, journal: createEmptyJournal() };
+        await sendOrQueue(
+          {
+            tradeId: createLocalTradeId(),
+            kind: "create",
+            patch: createPayload,
+            baseUpdatedAt: null,
+          },
+          async () => {
+            applySavedTrades(await createTrades([createPayload]));
+          },
+        );
       }
 
       closeModal();
@@ -499,33 +1099,182 @@ export default function Home() {
     }
   };
 
-  const handleDelete = async (id: string) => {
+  // Tags named in a journal export are matched by name, and created when the
+  // journal does not have them yet.
+  const handleImport = async (importedTrades: ImportedTrade[]) => {
+    if (!userId) {
+      throw new Error("You must be signed in to import trades.");
+    }
+
+    const knownTags = [
+      ...tags,
+      ...(await createTags(
+        findMissingTags(
+          tags,
+          importedTrades.flatMap((trade) => trade.tags),
+        ),
+      )),
+    ];
+    const createdTrades = await createTrades(
+      importedTrades.map(({ tags: tagNames, ...trade }) => ({
+        ...trade,
+        accountId: null,
+        tagIds: tagNames.flatMap(
+          (tag) => findTagByName(knownTags, tag.name, tag.category)?.id ?? [],
+        ),
+      })),
+    );
+    setTags(await fetchTags());
+    applySavedTrades(createdTrades);
+  };
+
+  const handleCreateTag = async (name: string, category: TagCategory) => {
+    if (!userId) {
+      alert("You must be signed in to create tags.");
+      return null;
+    }
+
+    try {
+      const [createdTag] = await createTags([{ name, category }]);
+      setTags((prev) => sortTags([...prev, createdTag]));
+      return createdTag;
+    } catch (tagErr) {
+      console.error(tagErr);
+      alert(
+        tagErr instanceof Error
+          ? tagErr.message
+          : "Failed to create tag. Please try again.",
+      );
+      return null;
+    }
+  };
+
+  const removeTagFromState = (tagId: string, replacementId?: string) => {
+    setServerLog(
+      (prev) =>
+        prev && {
+          ...prev,
+          trades: prev.trades.map((trade) =>
+            trade.tagIds.includes(tagId)
+              ? {
+                  ...trade,
+                  tagIds: [
+                    ...new Set(
+                      trade.tagIds
+                        .map((id) => (id === tagId ? replacementId : id))
+                        .filter((id): id is string => id !== undefined),
+                    ),
+                  ],
+                }
+              : trade,
+          ),
+        },
+    );
+    setJournalVersion((prev) => prev + 1);
+    setTags((prev) => prev.filter((tag) => tag.id !== tagId));
+    setFilters((prev) => ({
+      ...prev,
+      tagIds: prev.tagIds.filter((id) => id !== tagId),
+    }));
+  };
+
+  const openTagManager = async () => {
+    setIsTagManagerOpen(true);
+    try {
+      setTagUsage(await fetchTagUsage());
+    } catch (tagErr) {
+      console.error(tagErr);
+      alert(
+        tagErr instanceof Error
+          ? tagErr.message
+          : "Failed to load how often each tag is used.",
+      );
+    }
+  };
+
+  const handleRenameTag = async (tagId: string, name: string) => {
     if (!userId) {
-      alert("You must be signed in to delete trades.");
       return;
     }
 
-    const trade = trades.find((item) => item.id === id);
-    const confirmationMessage = trade
-      ? `Delete trade ${trade.pair} on ${formatDate(trade.date)}? This cannot be undone.`
-      : "Delete this trade? This cannot be undone.";
+    try {
+      const renamedTag = await renameTag(tagId, name);
+      setTags((prev) =>
+        sortTags(prev.map((tag) => (tag.id === tagId ? renamedTag : tag))),
+      );
+    } catch (tagErr) {
+      console.error(tagErr);
+      alert(
+        tagErr instanceof Error
+          ? tagErr.message
+          : "Failed to rename tag. Please try again.",
+      );
+    }
+  };
 
-    if (!window.confirm(confirmationMessage)) {
+  const handleMergeTags = async (sourceTagId: string, targetTagId: string) => {
+    if (!userId) {
       return;
     }
 
     try {
-      const { error: deleteError } = await supabase
-        .from("trades")
-        .delete()
-        .eq("id", id)
-        .eq("user_id", userId);
-
-      if (deleteError) {
-        throw deleteError;
-      }
+      await mergeTags(sourceTagId, targetTagId);
+      removeTagFromState(sourceTagId, targetTagId);
+      setTagUsage(await fetchTagUsage());
+    } catch (tagErr) {
+      console.error(tagErr);
+      alert(
+        tagErr instanceof Error
+          ? tagErr.message
+          : "Failed to merge tags. Please try again.",
+      );
+    }
+  };
+
+  const handleDeleteTag = async (tagId: string) => {
+    if (!userId) {
+      return;
+    }
+
+    try {
+      await deleteTag(tagId);
+      removeTagFromState(tagId);
+      setTagUsage(await fetchTagUsage());
+    } catch (tagErr) {
+      console.error(tagErr);
+      alert(
+        tagErr instanceof Error
+          ? tagErr.message
+          : "Failed to delete tag. Please try again.",
+      );
+    }
+  };
 
-      setTrades((prev) => prev.filter((item) => item.id !== id));
+  const handleDelete = async (id: string) => {
+    if (!userId) {
+      alert("You must be signed in to delete trades.");
+      return;
+    }
+
+    const trade = findLoadedTrade(id);
+
+    try {
+      await sendOrQueue(
+        {
+          tradeId: id,
+          kind: "delete",
+          patch: {},
+          baseUpdatedAt: trade?.updatedAt ?? null,
+        },
+        async () => {
+          await deleteTrade(id);
+          applySavedTrades([], [id]);
+          setUndoAction({
+            message: `Moved ${trade?.pair ?? "the trade"} to the trash.`,
+            undo: async () => applySavedTrades([await restoreTrade(id)]),
+          });
+        },
+      );
     } catch (deleteErr) {
       console.error(deleteErr);
       alert(
@@ -536,7 +1285,21 @@ export default function Home() {
     }
   };
 
+  const formQuoteAsset = getQuoteAsset(formData.pair);
+
   const calculatedPnL = useMemo(() => {
+    if (formData.fills.length > 0) {
+      const parsedFills = parseFillFormData(formData.fills, formData.date);
+      if (typeof parsedFills === "string") {
+        return null;
+      }
+      return summarizeFills(formData.direction, parsedFills).realizedPnl;
+    }
+
+    if (formData.status !== "Closed") {
+      return null;
+    }
+
     const parsedEntry = parseFloat(formData.entryPrice);
     const parsedExit = parseFloat(formData.exitPrice);
     const parsedSize = parseFloat(formData.positionSize);
@@ -551,16 +1314,335 @@ export default function Home() {
     }
 
     return calculatePnL(formData.direction, parsedEntry, parsedExit, parsedSize);
-  }, [formData.direction, formData.entryPrice, formData.exitPrice, formData.positionSize]);
+  }, [
+    formData.direction,
+    formData.entryPrice,
+    formData.exitPrice,
+    formData.positionSize,
+    formData.fills,
+    formData.date,
+    formData.status,
+  ]);
+
+  const calculatedCosts = useMemo(() => {
+    const costInputs = parseCostFormData(formData);
+    const parsedFills =
+      formData.fills.length > 0
+        ? parseFillFormData(formData.fills, formData.date)
+        : [];
+    if (typeof costInputs === "string" || typeof parsedFills === "string") {
+      return null;
+    }
 
-  const hasMoreTrades = sortedTrades.length > pageSize;
-  const visibleTrades = useMemo(
-    () =>
-      showAllTrades || !hasMoreTrades
-        ? sortedTrades
-        : sortedTrades.slice(0, pageSize),
-    [showAllTrades, hasMoreTrades, sortedTrades, pageSize],
+    const toNumber = (value: string) => {
+      const parsed = parseFloat(value);
+      return Number.isFinite(parsed) ? parsed : 0;
+    };
+
+    return getTradeCosts(
+      {
+        status: formData.status,
+        costInputs,
+        direction: formData.direction,
+        entryPrice: toNumber(formData.entryPrice),
+        exitPrice:
+          formData.status === "Closed" ? toNumber(formData.exitPrice) : null,
+        positionSize: toNumber(formData.positionSize),
+      },
+      parsedFills,
+    ).total;
+  }, [formData]);
+
+  const marginPreview = useMemo(() => {
+    const marginInputs = parseMarginFormData(formData);
+    const parsedFills =
+      formData.fills.length > 0
+        ? parseFillFormData(formData.fills, formData.date)
+        : [];
+    if (
+      typeof marginInputs === "string" ||
+      typeof parsedFills === "string" ||
+      (marginInputs.instrumentType === "Spot" &&
+        marginInputs.initialMargin === null)
+    ) {
+      return null;
+    }
+
+    let entryPrice = parseFloat(formData.entryPrice);
+    let quantity = parseFloat(formData.positionSize);
+    if (parsedFills.length > 0) {
+      const summary = summarizeFills(formData.direction, parsedFills);
+      entryPrice = summary.avgEntryPrice;
+      quantity = summary.entryQuantity;
+    }
+    if (!Number.isFinite(entryPrice) || !Number.isFinite(quantity)) {
+      return null;
+    }
+
+    const initialMargin = getInitialMargin(marginInputs, entryPrice * quantity);
+    return {
+      marginInputs,
+      initialMargin,
+      liquidationPrice: estimateLiquidationPrice({
+        direction: formData.direction,
+        entryPrice,
+        quantity,
+        inputs: marginInputs,
+        initialMargin,
+      }),
+      returnOnMargin:
+        calculatedPnL === null
+          ? null
+          : calculateReturnOnMargin(
+              calculatedPnL - (calculatedCosts ?? 0),
+              initialMargin,
+            ),
+    };
+  }, [calculatedCosts, calculatedPnL, formData]);
+
+  const plannedRisk = useMemo(() => {
+    const stopLoss = parseOptionalNumber(formData.stopLoss);
+    const takeProfit = parseOptionalNumber(formData.takeProfit);
+    let entryPrice = parseFloat(formData.entryPrice);
+    let positionSize = parseFloat(formData.positionSize);
+
+    if (formData.fills.length > 0) {
+      const parsedFills = parseFillFormData(formData.fills, formData.date);
+      if (typeof parsedFills === "string") {
+        return null;
+      }
+      const summary = summarizeFills(formData.direction, parsedFills);
+      entryPrice = summary.avgEntryPrice;
+      positionSize = summary.entryQuantity;
+    }
+
+    if (
+      stopLoss === null ||
+      !Number.isFinite(stopLoss) ||
+      !Number.isFinite(entryPrice) ||
+      !Number.isFinite(positionSize) ||
+      (takeProfit !== null && !Number.isFinite(takeProfit))
+    ) {
+      return null;
+    }
+
+    const plan = {
+      direction: formData.direction,
+      entryPrice,
+      stopLoss,
+      takeProfit,
+      positionSize,
+    };
+    return {
+      error: validateRiskPlan(plan),
+      risk: calculateInitialRisk(plan),
+      rewardToRisk: calculatePlannedRewardToRisk(plan),
+    };
+  }, [formData]);
+
+  // Trades merged in from realtime events can already be on the next page.
+  const handleLoadMore = async () => {
+    const cursor = serverLog?.nextCursor;
+    if (!cursor) {
+      return;
+    }
+
+    try {
+      setIsLoadingMore(true);
+      const page = await searchTrades({
+        filters,
+        sortKey,
+        usdRates,
+        cursor,
+        limit: pageSize,
+      });
+      setServerLog((prev) =>
+        prev && prev.nextCursor === cursor
+          ? {
+              ...page,
+              trades: [
+                ...prev.trades,
+                ...page.trades.filter(
+                  (trade) => !prev.trades.some((loaded) => loaded.id === trade.id),
+                ),
+              ],
+            }
+          : prev,
+      );
+    } catch (loadErr) {
+      console.error(loadErr);
+      alert(
+        loadErr instanceof Error
+          ? loadErr.message
+          : "Failed to load more trades. Please try again.",
+      );
+    } finally {
+      setIsLoadingMore(false);
+    }
+  };
+
+  // Trades still waiting to be created on the server cannot be selected.
+  const selectableTrades = visibleTrades.filter(
+    (trade) => !isLocalTradeId(trade.id),
   );
+  const isTradeSelected = (id: string) =>
+    isAllFilteredSelected || selectedTradeIds.has(id);
+  const selectedTrades = selectableTrades.filter((trade) =>
+    isTradeSelected(trade.id),
+  );
+  const selectedCount = isAllFilteredSelected
+    ? summary.tradeCount
+    : selectedTrades.length;
+  const isAllVisibleSelected =
+    selectableTrades.length > 0 &&
+    selectedTrades.length === selectableTrades.length;
+
+  // Shift-click selects every visible trade between the last one clicked and
+  // this one, matching the new state of the clicked trade. Changing one trade
+  // while every filtered trade is selected keeps the loaded ones selected.
+  const toggleTradeSelected = (id: string, isRange: boolean) => {
+    const selectedIds = new Set(selectedTrades.map((trade) => trade.id));
+    const isSelecting = !selectedIds.has(id);
+    const ids = [id];
+    const fromIndex = visibleTrades.findIndex(
+      (trade) => trade.id === lastSelectedTradeId,
+    );
+    const toIndex = visibleTrades.findIndex((trade) => trade.id === id);
+    if (isRange && fromIndex !== -1 && toIndex !== -1) {
+      ids.push(
+        ...visibleTrades
+          .slice(Math.min(fromIndex, toIndex), Math.max(fromIndex, toIndex) + 1)
+          .filter((trade) => !isLocalTradeId(trade.id))
+          .map((trade) => trade.id),
+      );
+    }
+    ids.forEach((tradeId) =>
+      isSelecting ? selectedIds.add(tradeId) : selectedIds.delete(tradeId),
+    );
+    setSelectedTradeIds(selectedIds);
+    setIsAllFilteredSelected(false);
+    setLastSelectedTradeId(id);
+  };
+
+  const toggleAllVisibleSelected = () => {
+    setSelectedTradeIds(
+      isAllVisibleSelected
+        ? new Set()
+        : new Set(selectableTrades.map((trade) => trade.id)),
+    );
+    setIsAllFilteredSelected(false);
+  };
+
+  const selectAllFiltered = () => setIsAllFilteredSelected(true);
+
+  const clearSelection = () => {
+    setSelectedTradeIds(new Set());
+    setIsAllFilteredSelected(false);
+    setLastSelectedTradeId(null);
+  };
+
+  // Trades that failed stay selected so the batch can be retried on them.
+  const handleBatch = async (operation: TradeBatchOperation) => {
+    if (!isSynced || selectedCount === 0) {
+      return;
+    }
+
+    try {
+      setIsBatchWorking(true);
+      const result = await applyTradeBatch(
+        isAllFilteredSelected
+          ? { filters, operation }
+          : { tradeIds: selectedTrades.map((trade) => trade.id), operation },
+      );
+      applySavedTrades(result.trades, result.deletedIds);
+      setIsAllFilteredSelected(false);
+      setSelectedTradeIds(
+        new Set(result.failures.map((failure) => failure.tradeId)),
+      );
+      const message = describeTradeBatch(
+        operation,
+        result.trades.length + result.deletedIds.length,
+      );
+      setBatchSummary({
+        message,
+        failures: result.failures.map((failure) => {
+          const trade = logTrades.find((item) => item.id === failure.tradeId);
+          return {
+            label: trade ? `${trade.pair} on ${formatDate(trade.date)}` : "Trade",
+            message: failure.message,
+          };
+        }),
+      });
+      if (result.deletedIds.length > 0) {
+        setUndoAction({
+          message,
+          undo: async () => {
+            const restoredTrades: Trade[] = [];
+            for (const tradeId of result.deletedIds) {
+              restoredTrades.push(await restoreTrade(tradeId));
+            }
+            applySavedTrades(restoredTrades);
+          },
+        });
+      }
+    } catch (batchErr) {
+      console.error(batchErr);
+      alert(
+        batchErr instanceof Error
+          ? batchErr.message
+          : "Failed to update the selected trades. Please try again.",
+      );
+    } finally {
+      setIsBatchWorking(false);
+    }
+  };
+
+  const downloadTrades = (exported: Trade[], format: "csv" | "json") => {
+    const fileName = `trades-${new Date().toISOString().slice(0, 10)}.${format}`;
+    if (format === "csv") {
+      downloadTextFile(fileName, buildTradesCsv(exported, tags), "text/csv");
+    } else {
+      downloadTextFile(
+        fileName,
+        buildTradesJson(exported, tags),
+        "application/json",
+      );
+    }
+  };
+
+  // Exports cover every filtered trade, so they page through the server's
+  // results rather than the loaded log.
+  const exportTrades = async (
+    loadTrades: () => Promise<Trade[]>,
+    format: "csv" | "json",
+  ) => {
+    try {
+      downloadTrades(await loadTrades(), format);
+    } catch (exportErr) {
+      console.error(exportErr);
+      alert(
+        exportErr instanceof Error
+          ? exportErr.message
+          : "Failed to export trades. Please try again.",
+      );
+    }
+  };
+
+  const loadFilteredTrades = async () =>
+    arrangeTrades(
+      await searchAllTrades({ filters, sortKey, usdRates }),
+      pendingMutations,
+      filters,
+      sortKey,
+      currencySettings,
+    );
+
+  const handleExportSelected = () =>
+    exportTrades(
+      async () =>
+        isAllFilteredSelected ? loadFilteredTrades() : selectedTrades,
+      "csv",
+    );
 
   return (
     <div className="min-h-screen bg-slate-950 font-sans text-slate-50">
@@ -580,7 +1662,51 @@ export default function Home() {
               analytics, and authentication.
             </p>
           </div>
-          <div className="flex items-center gap-3">
+          <div className="flex flex-wrap items-center gap-3">
+            <Link
+              href={buildFilteredHref("/analytics", filters) as Route}
+              className="inline-flex items-center gap-2 rounded-full border border-white/10 px-5 py-2.5 text-sm font-semibold text-slate-200 transition hover:bg-white/10"
+            >
+              <LineChart className="h-4 w-4" />
+              Analytics
+            </Link>
+            <Link
+              href="/tax"
+              className="inline-flex items-center gap-2 rounded-full border border-white/10 px-5 py-2.5 text-sm font-semibold text-slate-200 transition hover:bg-white/10"
+            >
+              <Receipt className="h-4 w-4" />
+              Taxes
+            </Link>
+            <Link
+              href="/accounts"
+              className="inline-flex items-center gap-2 rounded-full border border-white/10 px-5 py-2.5 text-sm font-semibold text-slate-200 transition hover:bg-white/10"
+            >
+              <Wallet className="h-4 w-4" />
+              Accounts
+            </Link>
+            <button
+              type="button"
+              onClick={() => setIsImportOpen(true)}
+              className="inline-flex items-center gap-2 rounded-full border border-white/10 px-5 py-2.5 text-sm font-semibold text-slate-200 transition hover:bg-white/10"
+            >
+              <Upload className="h-4 w-4" />
+              Import CSV
+            </button>
+            <Link
+              href="/trash"
+              className="inline-flex items-center gap-2 rounded-full border border-white/10 px-5 py-2.5 text-sm font-semibold text-slate-200 transition hover:bg-white/10"
+            >
+              <Trash className="h-4 w-4" />
+              Trash
+            </Link>
+            <button
+              type="button"
+              onClick={openTagManager}
+              className="inline-flex items-center gap-2 rounded-full border border-white/10 px-5 py-2.5 text-sm font-semibold text-slate-200 transition hover:bg-white/10"
+            >
+              <Tags className="h-4 w-4" />
+              Manage Tags
+            </button>
             <button
               type="button"
               onClick={openCreateModal}
@@ -599,7 +1725,15 @@ export default function Home() {
           </div>
         </header>
 
-        <section className="grid gap-4 sm:gap-5 md:grid-cols-2 xl:grid-cols-4">
+        <CurrencySettingsPanel
+          settings={currencySettings}
+          quoteAssets={quoteAssets}
+          missingAssets={missingRateAssets}
+          unconvertedCount={summary.unconvertedCount}
+          onChange={handleCurrencySettingsChange}
+        />
+
+        <section className="grid gap-4 sm:gap-5 md:grid-cols-2 xl:grid-cols-3">
           {stats.map((stat) => (
             <div
               key={stat.label}
@@ -631,6 +1765,60 @@ export default function Home() {
           ))}
         </section>
 
+        {serverAnalytics ? (
+          <>
+            <PerformanceStats
+              stats={serverAnalytics.performance}
+              currency={reportingCurrency}
+            />
+
+            <div className="grid gap-4 sm:gap-5 lg:grid-cols-2">
+              <PerformanceBreakdown
+                title="By Setup"
+                groups={serverAnalytics.setupGroups}
+                currency={reportingCurrency}
+                activeKeys={getTagNamesInCategory(tags, filters.tagIds, "Setup")}
+                onSelect={applySetupFilter}
+              />
+              <PerformanceBreakdown
+                title="By Pair"
+                groups={serverAnalytics.pairGroups}
+                currency={reportingCurrency}
+                activeKeys={[filters.pair]}
+                onSelect={applyPairFilter}
+              />
+            </div>
+
+            <CalendarHeatmap
+              dailyPnl={serverAnalytics.dailyPnl}
+              currency={reportingCurrency}
+              selectedDate={selectedDate}
+              onSelectDate={handleSelectDate}
+            />
+
+            <TimeOfTradeStats
+              weekdays={serverAnalytics.weekdays}
+              hours={serverAnalytics.hours}
+              currency={reportingCurrency}
+            />
+
+            <RDistribution summary={serverAnalytics.rSummary} />
+          </>
+        ) : (
+          <section className="rounded-2xl border border-white/5 bg-slate-900/60 p-5 text-sm text-slate-400 backdrop-blur sm:p-6">
+            {isOffline
+              ? "The stats panels load from the server and will appear when you reconnect."
+              : "Loading stats..."}
+          </section>
+        )}
+
+        <OpenPositions
+          positions={openPositions.positions}
+          markPrices={markPrices}
+          onMarkPriceChange={handleMarkPriceChange}
+          onEdit={openEditModal}
+        />
+
         <section className="rounded-2xl border border-white/5 bg-slate-900/60 p-5 backdrop-blur sm:p-6">
           <div className="flex flex-col gap-3 md:flex-row md:items-center md:justify-between">
             <div>
@@ -649,7 +1837,7 @@ export default function Home() {
                     setSortKey(event.target.value as SortKey)
                   }
                 >
-                  {sortSelectOptions.map((option) => (
+                  {sortOptions.map((option) => (
                     <option key={option.value} value={option.value}>
                       {option.label}
                     </option>
@@ -663,10 +1851,7 @@ export default function Home() {
                     <button
                       key={size}
                       type="button"
-                      onClick={() => {
-                        setPageSize(size);
-                        setShowAllTrades(false);
-                      }}
+                      onClick={() => setPageSize(size)}
                       className={`rounded-full border px-3 py-1 text-xs font-semibold transition ${
                         pageSize === size
                           ? "border-emerald-500/60 bg-emerald-500/10 text-emerald-200"
@@ -680,89 +1865,59 @@ export default function Home() {
               </div>
               <button
                 type="button"
-                onClick={() => setShowAllTrades((prev) => !prev)}
+                onClick={handleLoadMore}
                 className="inline-flex items-center gap-2 rounded-full border border-white/10 px-4 py-2 text-sm font-semibold text-white transition hover:bg-white/10 disabled:cursor-not-allowed disabled:opacity-50"
-                disabled={!hasMoreTrades && !showAllTrades}
+                disabled={!hasMoreTrades || isLoadingMore}
               >
-                {showAllTrades ? "Collapse" : "View All Trades"}
+                {isLoadingMore ? "Loading..." : "Load More"}
                 <ArrowUpRight className="h-4 w-4" />
               </button>
             </div>
           </div>
-          <div className="mt-4 grid gap-3 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-5">
-            <label className="flex flex-col gap-2 text-xs font-semibold uppercase tracking-[0.2em] text-slate-400">
-              Pair
-              <input
-                type="text"
-                name="pair"
-                value={filters.pair}
-                onChange={handleFilterChange}
-                placeholder="Search pair"
-                className="rounded-lg border border-white/10 bg-slate-900/60 px-3 py-2 text-sm text-white focus:border-emerald-500 focus:outline-none focus:ring-2 focus:ring-emerald-500/40"
-              />
-            </label>
-            <label className="flex flex-col gap-2 text-xs font-semibold uppercase tracking-[0.2em] text-slate-400">
-              Strategy
-              <input
-                type="text"
-                name="strategy"
-                value={filters.strategy}
-                onChange={handleFilterChange}
-                placeholder="Search strategy"
-                className="rounded-lg border border-white/10 bg-slate-900/60 px-3 py-2 text-sm text-white focus:border-emerald-500 focus:outline-none focus:ring-2 focus:ring-emerald-500/40"
-              />
-            </label>
-            <label className="flex flex-col gap-2 text-xs font-semibold uppercase tracking-[0.2em] text-slate-400">
-              Direction
-              <select
-                name="direction"
-                value={filters.direction}
-                onChange={handleFilterChange}
-                className="rounded-lg border border-white/10 bg-slate-900/60 px-3 py-2 text-sm text-white focus:border-emerald-500 focus:outline-none focus:ring-2 focus:ring-emerald-500/40"
-              >
-                <option value="All">All directions</option>
-                <option value="Long">Long</option>
-                <option value="Short">Short</option>
-              </select>
-            </label>
-            <label className="flex flex-col gap-2 text-xs font-semibold uppercase tracking-[0.2em] text-slate-400">
-              Start Date
-              <input
-                type="date"
-                name="startDate"
-                value={filters.startDate}
-                onChange={handleFilterChange}
-                className="rounded-lg border border-white/10 bg-slate-900/60 px-3 py-2 text-sm text-white focus:border-emerald-500 focus:outline-none focus:ring-2 focus:ring-emerald-500/40"
-              />
-            </label>
-            <label className="flex flex-col gap-2 text-xs font-semibold uppercase tracking-[0.2em] text-slate-400">
-              End Date
-              <input
-                type="date"
-                name="endDate"
-                value={filters.endDate}
-                onChange={handleFilterChange}
-                className="rounded-lg border border-white/10 bg-slate-900/60 px-3 py-2 text-sm text-white focus:border-emerald-500 focus:outline-none focus:ring-2 focus:ring-emerald-500/40"
-              />
-            </label>
-          </div>
+          <TradeFiltersBar
+            filters={filters}
+            tags={tags}
+            accounts={accounts}
+            onChange={handleFilterChange}
+            onTagIdsChange={handleTagFilterChange}
+          />
           <div className="mt-3 flex flex-wrap items-center justify-between gap-3 text-xs text-slate-400">
             <p>
-              {filteredTrades.length} trade{filteredTrades.length === 1 ? "" : "s"} shown
-              {hasActiveFilters ? " (filters applied)" : ""}.
+              {summary.tradeCount} trade{summary.tradeCount === 1 ? "" : "s"}
+              {isFiltered ? " match the filters" : " logged"}.
             </p>
-            <button
-              type="button"
-              onClick={resetFilters}
-              disabled={!hasActiveFilters}
-              className="inline-flex items-center gap-2 rounded-full border border-white/10 px-4 py-1.5 text-[11px] font-semibold uppercase tracking-[0.2em] text-slate-200 transition hover:bg-white/10 disabled:cursor-not-allowed disabled:opacity-50"
-            >
-              Clear Filters
-            </button>
+            <div className="flex flex-wrap gap-2">
+              <button
+                type="button"
+                onClick={() => exportTrades(loadFilteredTrades, "csv")}
+                disabled={isOffline || summary.tradeCount === 0}
+                className="inline-flex items-center gap-2 rounded-full border border-white/10 px-4 py-1.5 text-[11px] font-semibold uppercase tracking-[0.2em] text-slate-200 transition hover:bg-white/10 disabled:cursor-not-allowed disabled:opacity-50"
+              >
+                <Download className="h-3.5 w-3.5" />
+                CSV
+              </button>
+              <button
+                type="button"
+                onClick={() => exportTrades(loadFilteredTrades, "json")}
+                disabled={isOffline || summary.tradeCount === 0}
+                className="inline-flex items-center gap-2 rounded-full border border-white/10 px-4 py-1.5 text-[11px] font-semibold uppercase tracking-[0.2em] text-slate-200 transition hover:bg-white/10 disabled:cursor-not-allowed disabled:opacity-50"
+              >
+                <Download className="h-3.5 w-3.5" />
+                JSON
+              </button>
+              <button
+                type="button"
+                onClick={resetFilters}
+                disabled={!isFiltered}
+                className="inline-flex items-center gap-2 rounded-full border border-white/10 px-4 py-1.5 text-[11px] font-semibold uppercase tracking-[0.2em] text-slate-200 transition hover:bg-white/10 disabled:cursor-not-allowed disabled:opacity-50"
+              >
+                Clear Filters
+              </button>
+            </div>
           </div>
-          {!showAllTrades && hasMoreTrades ? (
+          {hasMoreTrades ? (
             <p className="mt-2 text-xs text-slate-500">
-              Showing the latest {pageSize} trades. Use “View All Trades” to expand the full log.
+              Showing {visibleTrades.length} of {summary.tradeCount} trades. Use “Load More” to see the next {pageSize}.
             </p>
           ) : null}
           {error ? (
@@ -770,6 +1925,29 @@ export default function Home() {
               Unable to load trades right now: {error}
             </div>
           ) : null}
+          <div className="mt-4">
+            <SyncStatusBanner
+              isOffline={isOffline}
+              isSyncing={isSyncing}
+              pendingMutations={pendingMutations}
+              trades={logTrades}
+              onKeepLocal={(mutation) => handleResolveConflict(mutation, true)}
+              onDiscard={(mutation) => handleResolveConflict(mutation, false)}
+            />
+          </div>
+          <TradeBatchBar
+            selectedCount={selectedCount}
+            filteredCount={summary.tradeCount}
+            tags={tags}
+            canEdit={isSynced}
+            isWorking={isBatchWorking}
+            summary={batchSummary}
+            onSelectAllFiltered={selectAllFiltered}
+            onClearSelection={clearSelection}
+            onApply={handleBatch}
+            onExport={handleExportSelected}
+            onDismissSummary={() => setBatchSummary(null)}
+          />
           <div className="mt-6 space-y-3 md:hidden">
             {isLoading ? (
               <div className="rounded-2xl border border-white/10 bg-slate-950/40 px-4 py-6 text-center text-sm text-slate-400">
@@ -786,38 +1964,74 @@ export default function Home() {
                   className="rounded-2xl border border-white/10 bg-slate-950/60 p-4 text-sm text-slate-300"
                 >
                   <div className="flex flex-wrap items-center justify-between gap-2">
-                    <div>
-                      <p className="text-base font-semibold text-white">
-                        {trade.pair}
-                      </p>
-                      {trade.sentiment ? (
-                        <p className="text-xs uppercase tracking-[0.2em] text-slate-500">
-                          {trade.sentiment}
+                    <div className="flex items-start gap-3">
+                      {!isLocalTradeId(trade.id) ? (
+                        <input
+                          type="checkbox"
+                          checked={isTradeSelected(trade.id)}
+                          onChange={(event) =>
+                            toggleTradeSelected(
+                              trade.id,
+                              (event.nativeEvent as MouseEvent).shiftKey,
+                            )
+                          }
+                          className="mt-1.5 h-4 w-4 accent-emerald-500"
+                          aria-label={`Select ${trade.pair}`}
+                        />
+                      ) : null}
+                      <div>
+                        <p className="text-base font-semibold text-white">
+                          {trade.pair}
+                          {pendingTradeIds.has(trade.id) ? (
+                            <span className="ml-2 inline-flex items-center gap-1 rounded-full bg-amber-500/10 px-2 py-0.5 text-xs font-medium text-amber-300">
+                              <CloudOff className="h-3 w-3" />
+                              Pending sync
+                            </span>
+                          ) : null}
                         </p>
+                        {trade.sentiment ? (
+                          <p className="text-xs uppercase tracking-[0.2em] text-slate-500">
+                            {trade.sentiment}
+                          </p>
+                        ) : null}
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      {trade.status !== "Closed" ? (
+                        <span className="rounded-full bg-amber-500/10 px-2.5 py-1 text-xs font-semibold text-amber-300">
+                          {trade.status}
+                        </span>
                       ) : null}
+                      <span
+                        className={`inline-flex items-center gap-1 rounded-full px-2.5 py-1 text-xs font-semibold ${
+                          trade.direction === "Long"
+                            ? "bg-emerald-500/10 text-emerald-300"
+                            : "bg-sky-500/10 text-sky-300"
+                        }`}
+                      >
+                        {trade.direction}
+                      </span>
                     </div>
-                    <span
-                      className={`inline-flex items-center gap-1 rounded-full px-2.5 py-1 text-xs font-semibold ${
-                        trade.direction === "Long"
-                          ? "bg-emerald-500/10 text-emerald-300"
-                          : "bg-sky-500/10 text-sky-300"
-                      }`}
-                    >
-                      {trade.direction}
-                    </span>
                   </div>
                   <div className="mt-3 grid grid-cols-2 gap-3">
                     <div>
                       <p className="text-[11px] uppercase tracking-[0.2em] text-slate-500">
-                        Strategy
+                        Tags
                       </p>
-                      <p className="font-medium text-slate-200">{trade.strategy}</p>
+                      <TradeTags tags={getTagsById(tags, trade.tagIds)} />
                     </div>
                     <div className="text-right">
                       <p className="text-[11px] uppercase tracking-[0.2em] text-slate-500">
                         Size
                       </p>
-                      <p className="font-medium text-slate-200">{trade.positionSize}</p>
+                      <p className="font-medium text-slate-200">
+                        {trade.positionSize}
+                        {getOpenQuantity(trade) > 0 ? (
+                          <span className="ml-1 text-xs text-amber-300">
+                            ({getOpenQuantity(trade)} open)
+                          </span>
+                        ) : null}
+                      </p>
                     </div>
                   </div>
                   <div className="mt-3 grid grid-cols-2 gap-3">
@@ -825,13 +2039,17 @@ export default function Home() {
                       <p className="text-[11px] uppercase tracking-[0.2em] text-slate-500">
                         Entry
                       </p>
-                      <p>{formatCurrency(trade.entryPrice)}</p>
+                      <p>{formatCurrency(trade.entryPrice, getQuoteAsset(trade.pair))}</p>
                     </div>
                     <div className="text-right">
                       <p className="text-[11px] uppercase tracking-[0.2em] text-slate-500">
                         Exit
                       </p>
-                      <p>{formatCurrency(trade.exitPrice)}</p>
+                      <p>
+                        {trade.exitPrice === null
+                          ? "—"
+                          : formatCurrency(trade.exitPrice, getQuoteAsset(trade.pair))}
+                      </p>
                     </div>
                   </div>
                   <div className="mt-3 flex items-center justify-between">
@@ -841,15 +2059,56 @@ export default function Home() {
                       </p>
                       <p>{formatDate(trade.date)}</p>
                     </div>
-                    <p
-                      className={`text-base font-semibold ${
-                        trade.pnl >= 0 ? "text-emerald-300" : "text-rose-300"
-                      }`}
-                    >
-                      {formatPnL(trade.pnl)}
-                    </p>
+                    <div className="text-right">
+                      <p
+                        className={`text-base font-semibold ${
+                          trade.netPnl >= 0 ? "text-emerald-300" : "text-rose-300"
+                        }`}
+                      >
+                        {formatPnL(trade.netPnl, getQuoteAsset(trade.pair))}
+                      </p>
+                      {trade.totalCosts !== 0 ? (
+                        <p className="text-[11px] text-slate-500">
+                          Gross {formatPnL(trade.pnl, getQuoteAsset(trade.pair))} · Costs{" "}
+                          {formatCurrency(trade.totalCosts, getQuoteAsset(trade.pair))}
+                        </p>
+                      ) : null}
+                      <TradeRiskSummary trade={trade} />
+                      <TradeMarginSummary trade={trade} />
+                    </div>
                   </div>
+                  {trade.fills.length > 0 && expandedTradeIds.has(trade.id) ? (
+                    <div className="mt-3">
+                      <TradeFillsTable trade={trade} />
+                    </div>
+                  ) : null}
                   <div className="mt-4 flex items-center justify-end gap-2">
+                    {trade.fills.length > 0 ? (
+                      <button
+                        type="button"
+                        onClick={() => toggleTradeExpanded(trade.id)}
+                        className="mr-auto inline-flex items-center gap-1 rounded-full border border-white/10 px-3 py-1.5 text-xs font-semibold text-slate-300 transition hover:bg-white/10"
+                        aria-expanded={expandedTradeIds.has(trade.id)}
+                      >
+                        {trade.fills.length} fills
+                        <ChevronDown
+                          className={`h-4 w-4 transition ${
+                            expandedTradeIds.has(trade.id) ? "rotate-180" : ""
+                          }`}
+                        />
+                      </button>
+                    ) : null}
+                    {!isLocalTradeId(trade.id) ? (
+                      <Link
+                        href={
+                          buildFilteredHref(`/trades/${trade.id}`, filters, sortKey) as Route
+                        }
+                        className="inline-flex items-center justify-center rounded-full border border-white/10 bg-white/5 p-2 text-slate-200 transition hover:bg-white/15"
+                        aria-label="Open trade details"
+                      >
+                        <BookOpen className="h-4 w-4" />
+                      </Link>
+                    ) : null}
                     <button
                       type="button"
                       onClick={() => openEditModal(trade)}
@@ -877,13 +2136,23 @@ export default function Home() {
               <table className="w-full divide-y divide-white/5 text-sm">
                 <thead className="bg-slate-950/60 text-left text-xs uppercase tracking-[0.2em] text-slate-500">
                   <tr>
+                    <th className="w-10 py-3 pl-4">
+                      <input
+                        type="checkbox"
+                        checked={isAllVisibleSelected}
+                        onChange={toggleAllVisibleSelected}
+                        disabled={visibleTrades.length === 0}
+                        className="h-4 w-4 accent-emerald-500"
+                        aria-label="Select all shown trades"
+                      />
+                    </th>
                     <th className="px-4 py-3 font-medium">Pair</th>
                     <th className="px-4 py-3 font-medium">Direction</th>
-                    <th className="px-4 py-3 font-medium">Strategy</th>
+                    <th className="px-4 py-3 font-medium">Tags</th>
                     <th className="px-4 py-3 font-medium text-right">Size</th>
                     <th className="px-4 py-3 font-medium">Entry</th>
                     <th className="px-4 py-3 font-medium">Exit</th>
-                    <th className="px-4 py-3 font-medium text-right">PnL</th>
+                    <th className="px-4 py-3 font-medium text-right">Net PnL</th>
                     <th className="px-4 py-3 font-medium text-right">Logged</th>
                     <th className="px-4 py-3 font-medium text-right">Actions</th>
                   </tr>
@@ -892,7 +2161,7 @@ export default function Home() {
                   {isLoading ? (
                     <tr>
                       <td
-                        colSpan={9}
+                        colSpan={10}
                         className="px-4 py-6 text-center text-sm text-slate-400"
                       >
                         Loading trades...
@@ -901,7 +2170,7 @@ export default function Home() {
                   ) : visibleTrades.length === 0 ? (
                     <tr>
                       <td
-                        colSpan={9}
+                        colSpan={10}
                         className="px-4 py-6 text-center text-sm text-slate-400"
                       >
                         No trades logged yet. Use “Log Trade” to add your first entry.
@@ -909,69 +2178,158 @@ export default function Home() {
                     </tr>
                   ) : (
                     visibleTrades.map((trade) => (
-                      <tr key={trade.id} className="hover:bg-white/5">
-                        <td className="px-4 py-4 font-semibold text-white">
-                          {trade.pair}
-                          {trade.sentiment ? (
-                            <span className="ml-2 rounded-full bg-white/5 px-2 py-0.5 text-xs font-medium uppercase tracking-wide text-slate-400">
-                              {trade.sentiment}
+                      <Fragment key={trade.id}>
+                        <tr
+                          className={
+                            isTradeSelected(trade.id)
+                              ? "bg-emerald-500/5 hover:bg-emerald-500/10"
+                              : "hover:bg-white/5"
+                          }
+                        >
+                          <td className="py-4 pl-4">
+                            {!isLocalTradeId(trade.id) ? (
+                              <input
+                                type="checkbox"
+                                checked={isTradeSelected(trade.id)}
+                                onChange={(event) =>
+                                  toggleTradeSelected(
+                                    trade.id,
+                                    (event.nativeEvent as MouseEvent).shiftKey,
+                                  )
+                                }
+                                className="h-4 w-4 accent-emerald-500"
+                                aria-label={`Select ${trade.pair}`}
+                              />
+                            ) : null}
+                          </td>
+                          <td className="px-4 py-4 font-semibold text-white">
+                            {trade.fills.length > 0 ? (
+                              <button
+                                type="button"
+                                onClick={() => toggleTradeExpanded(trade.id)}
+                                className="mr-2 inline-flex items-center justify-center rounded-full border border-white/10 p-1 text-slate-300 transition hover:bg-white/10"
+                                aria-label={`${
+                                  expandedTradeIds.has(trade.id) ? "Hide" : "Show"
+                                } ${trade.fills.length} fills`}
+                                aria-expanded={expandedTradeIds.has(trade.id)}
+                              >
+                                <ChevronDown
+                                  className={`h-3.5 w-3.5 transition ${
+                                    expandedTradeIds.has(trade.id) ? "rotate-180" : ""
+                                  }`}
+                                />
+                              </button>
+                            ) : null}
+                            {trade.pair}
+                            {pendingTradeIds.has(trade.id) ? (
+                              <span className="ml-2 inline-flex items-center gap-1 rounded-full bg-amber-500/10 px-2 py-0.5 text-xs font-medium text-amber-300">
+                                <CloudOff className="h-3 w-3" />
+                                Pending sync
+                              </span>
+                            ) : null}
+                            {trade.sentiment ? (
+                              <span className="ml-2 rounded-full bg-white/5 px-2 py-0.5 text-xs font-medium uppercase tracking-wide text-slate-400">
+                                {trade.sentiment}
+                              </span>
+                            ) : null}
+                          </td>
+                          <td className="px-4 py-4">
+                            <span
+                              className={`inline-flex items-center gap-1 rounded-full px-2.5 py-1 text-xs font-semibold ${
+                                trade.direction === "Long"
+                                  ? "bg-emerald-500/10 text-emerald-300"
+                                  : "bg-sky-500/10 text-sky-300"
+                              }`}
+                            >
+                              {trade.direction}
                             </span>
-                          ) : null}
-                        </td>
-                        <td className="px-4 py-4">
-                          <span
-                            className={`inline-flex items-center gap-1 rounded-full px-2.5 py-1 text-xs font-semibold ${
-                              trade.direction === "Long"
-                                ? "bg-emerald-500/10 text-emerald-300"
-                                : "bg-sky-500/10 text-sky-300"
+                            {trade.status !== "Closed" ? (
+                              <span className="ml-2 rounded-full bg-amber-500/10 px-2.5 py-1 text-xs font-semibold text-amber-300">
+                                {trade.status}
+                              </span>
+                            ) : null}
+                          </td>
+                          <td className="px-4 py-4 text-sm text-slate-300">
+                            <TradeTags tags={getTagsById(tags, trade.tagIds)} />
+                          </td>
+                          <td className="px-4 py-4 text-right text-sm text-slate-300">
+                            {trade.positionSize}
+                            {getOpenQuantity(trade) > 0 ? (
+                              <span className="block text-xs text-amber-300">
+                                {getOpenQuantity(trade)} open
+                              </span>
+                            ) : null}
+                          </td>
+                          <td className="px-4 py-4 text-sm text-slate-300">
+                            {formatCurrency(trade.entryPrice, getQuoteAsset(trade.pair))}
+                          </td>
+                          <td className="px-4 py-4 text-sm text-slate-300">
+                            {trade.exitPrice === null
+                              ? "—"
+                              : formatCurrency(trade.exitPrice, getQuoteAsset(trade.pair))}
+                          </td>
+                          <td
+                            className={`px-4 py-4 text-right text-sm font-semibold ${
+                              trade.netPnl >= 0 ? "text-emerald-300" : "text-rose-300"
                             }`}
                           >
-                            {trade.direction}
-                          </span>
-                        </td>
-                        <td className="px-4 py-4 text-sm text-slate-300">
-                          {trade.strategy}
-                        </td>
-                        <td className="px-4 py-4 text-right text-sm text-slate-300">
-                          {trade.positionSize}
-                        </td>
-                        <td className="px-4 py-4 text-sm text-slate-300">
-                          {formatCurrency(trade.entryPrice)}
-                        </td>
-                        <td className="px-4 py-4 text-sm text-slate-300">
-                          {formatCurrency(trade.exitPrice)}
-                        </td>
-                        <td
-                          className={`px-4 py-4 text-right text-sm font-semibold ${
-                            trade.pnl >= 0 ? "text-emerald-300" : "text-rose-300"
-                          }`}
-                        >
-                          {formatPnL(trade.pnl)}
-                        </td>
-                        <td className="px-4 py-4 text-right text-sm text-slate-400">
-                          {formatDate(trade.date)}
-                        </td>
-                        <td className="px-4 py-4 text-right">
-                          <div className="flex justify-end gap-2">
-                            <button
-                              type="button"
-                              onClick={() => openEditModal(trade)}
-                              className="inline-flex items-center justify-center rounded-full border border-white/10 bg-white/5 p-2 text-slate-200 transition hover:bg-white/15"
-                              aria-label="Edit trade"
-                            >
-                              <Edit3 className="h-4 w-4" />
-                            </button>
-                            <button
-                              type="button"
-                              onClick={() => handleDelete(trade.id)}
-                              className="inline-flex items-center justify-center rounded-full border border-rose-500/30 bg-rose-500/10 p-2 text-rose-300 transition hover:bg-rose-500/20"
-                              aria-label="Delete trade"
-                            >
-                              <Trash2 className="h-4 w-4" />
-                            </button>
-                          </div>
-                        </td>
-                      </tr>
+                            {formatPnL(trade.netPnl, getQuoteAsset(trade.pair))}
+                            {trade.totalCosts !== 0 ? (
+                              <span className="block text-[11px] font-normal text-slate-500">
+                                Gross {formatPnL(trade.pnl, getQuoteAsset(trade.pair))} · Costs{" "}
+                                {formatCurrency(trade.totalCosts, getQuoteAsset(trade.pair))}
+                              </span>
+                            ) : null}
+                            <TradeRiskSummary trade={trade} />
+                            <TradeMarginSummary trade={trade} />
+                          </td>
+                          <td className="px-4 py-4 text-right text-sm text-slate-400">
+                            {formatDate(trade.date)}
+                          </td>
+                          <td className="px-4 py-4 text-right">
+                            <div className="flex justify-end gap-2">
+                              {!isLocalTradeId(trade.id) ? (
+                                <Link
+                                  href={
+                                    buildFilteredHref(
+                                      `/trades/${trade.id}`,
+                                      filters,
+                                      sortKey,
+                                    ) as Route
+                                  }
+                                  className="inline-flex items-center justify-center rounded-full border border-white/10 bg-white/5 p-2 text-slate-200 transition hover:bg-white/15"
+                                  aria-label="Open trade details"
+                                >
+                                  <BookOpen className="h-4 w-4" />
+                                </Link>
+                              ) : null}
+                              <button
+                                type="button"
+                                onClick={() => openEditModal(trade)}
+                                className="inline-flex items-center justify-center rounded-full border border-white/10 bg-white/5 p-2 text-slate-200 transition hover:bg-white/15"
+                                aria-label="Edit trade"
+                              >
+                                <Edit3 className="h-4 w-4" />
+                              </button>
+                              <button
+                                type="button"
+                                onClick={() => handleDelete(trade.id)}
+                                className="inline-flex items-center justify-center rounded-full border border-rose-500/30 bg-rose-500/10 p-2 text-rose-300 transition hover:bg-rose-500/20"
+                                aria-label="Delete trade"
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </button>
+                            </div>
+                          </td>
+                        </tr>
+                        {trade.fills.length > 0 && expandedTradeIds.has(trade.id) ? (
+                          <tr>
+                            <td colSpan={10} className="px-4 pb-4">
+                              <TradeFillsTable trade={trade} />
+                            </td>
+                          </tr>
+                        ) : null}
+                      </Fragment>
                     ))
                   )}
                 </tbody>
@@ -1022,16 +2380,49 @@ export default function Home() {
                     <option value="Short">Short</option>
                   </select>
                 </label>
+                <div className="flex flex-col gap-2 text-sm text-slate-300 sm:col-span-2">
+                  Tags
+                  <TagPicker
+                    tags={tags}
+                    selectedIds={formData.tagIds}
+                    onChange={(tagIds) =>
+                      setFormData((prev) => ({ ...prev, tagIds }))
+                    }
+                    onCreateTag={handleCreateTag}
+                  />
+                  <span className="text-xs text-slate-500">
+                    Add at least one setup; mistakes, market condition and
+                    timeframe are optional.
+                  </span>
+                </div>
                 <label className="flex flex-col gap-2 text-sm text-slate-300">
-                  Strategy
-                  <input
+                  Status
+                  <select
                     className="rounded-lg border border-white/10 bg-slate-900/60 px-3 py-2 text-sm text-white focus:border-emerald-500 focus:outline-none focus:ring-2 focus:ring-emerald-500/40"
-                    name="strategy"
-                    value={formData.strategy}
+                    name="status"
+                    value={formData.status}
                     onChange={handleInputChange}
-                    placeholder="Setup name"
-                    required
-                  />
+                  >
+                    <option value="Closed">Closed</option>
+                    <option value="Open">Open</option>
+                    <option value="Cancelled">Cancelled</option>
+                  </select>
+                </label>
+                <label className="flex flex-col gap-2 text-sm text-slate-300">
+                  Account
+                  <select
+                    className="rounded-lg border border-white/10 bg-slate-900/60 px-3 py-2 text-sm text-white focus:border-emerald-500 focus:outline-none focus:ring-2 focus:ring-emerald-500/40"
+                    name="accountId"
+                    value={formData.accountId}
+                    onChange={handleInputChange}
+                  >
+                    <option value="">No account</option>
+                    {accounts.map((account) => (
+                      <option key={account.id} value={account.id}>
+                        {getAccountLabel(account)}
+                      </option>
+                    ))}
+                  </select>
                 </label>
                 <label className="flex flex-col gap-2 text-sm text-slate-300">
                   Logged Date
@@ -1044,46 +2435,125 @@ export default function Home() {
                     required
                   />
                 </label>
+                {formData.fills.length === 0 ? (
+                  <>
+                    <label className="flex flex-col gap-2 text-sm text-slate-300">
+                      Entry Price
+                      <input
+                        type="number"
+                        step="0.01"
+                        className="rounded-lg border border-white/10 bg-slate-900/60 px-3 py-2 text-sm text-white focus:border-emerald-500 focus:outline-none focus:ring-2 focus:ring-emerald-500/40"
+                        name="entryPrice"
+                        value={formData.entryPrice}
+                        onChange={handleInputChange}
+                        placeholder="61250"
+                        required
+                      />
+                    </label>
+                    {formData.status === "Closed" ? (
+                      <label className="flex flex-col gap-2 text-sm text-slate-300">
+                        Exit Price
+                        <input
+                          type="number"
+                          step="0.01"
+                          className="rounded-lg border border-white/10 bg-slate-900/60 px-3 py-2 text-sm text-white focus:border-emerald-500 focus:outline-none focus:ring-2 focus:ring-emerald-500/40"
+                          name="exitPrice"
+                          value={formData.exitPrice}
+                          onChange={handleInputChange}
+                          placeholder="63100"
+                          required
+                        />
+                      </label>
+                    ) : null}
+                    <label
+                      className={`flex flex-col gap-2 text-sm text-slate-300 ${
+                        formData.status === "Closed" ? "" : "sm:col-span-2"
+                      }`}
+                    >
+                      Position Size (units)
+                      <input
+                        type="number"
+                        step="0.01"
+                        className="rounded-lg border border-white/10 bg-slate-900/60 px-3 py-2 text-sm text-white focus:border-emerald-500 focus:outline-none focus:ring-2 focus:ring-emerald-500/40"
+                        name="positionSize"
+                        value={formData.positionSize}
+                        onChange={handleInputChange}
+                        placeholder="e.g. 0.5"
+                        required
+                      />
+                    </label>
+                  </>
+                ) : null}
                 <label className="flex flex-col gap-2 text-sm text-slate-300">
-                  Entry Price
+                  Stop Loss
                   <input
                     type="number"
-                    step="0.01"
+                    step="any"
                     className="rounded-lg border border-white/10 bg-slate-900/60 px-3 py-2 text-sm text-white focus:border-emerald-500 focus:outline-none focus:ring-2 focus:ring-emerald-500/40"
-                    name="entryPrice"
-                    value={formData.entryPrice}
+                    name="stopLoss"
+                    value={formData.stopLoss}
                     onChange={handleInputChange}
-                    placeholder="61250"
-                    required
+                    placeholder="Planned invalidation"
                   />
                 </label>
                 <label className="flex flex-col gap-2 text-sm text-slate-300">
-                  Exit Price
+                  Take Profit
                   <input
                     type="number"
-                    step="0.01"
+                    step="any"
                     className="rounded-lg border border-white/10 bg-slate-900/60 px-3 py-2 text-sm text-white focus:border-emerald-500 focus:outline-none focus:ring-2 focus:ring-emerald-500/40"
-                    name="exitPrice"
-                    value={formData.exitPrice}
+                    name="takeProfit"
+                    value={formData.takeProfit}
                     onChange={handleInputChange}
-                    placeholder="63100"
-                    required
+                    placeholder="Planned target"
                   />
                 </label>
-                <label className="flex flex-col gap-2 text-sm text-slate-300 sm:col-span-2">
-                  Position Size (units)
-                  <input
-                    type="number"
-                    step="0.01"
-                    className="rounded-lg border border-white/10 bg-slate-900/60 px-3 py-2 text-sm text-white focus:border-emerald-500 focus:outline-none focus:ring-2 focus:ring-emerald-500/40"
-                    name="positionSize"
-                    value={formData.positionSize}
-                    onChange={handleInputChange}
-                    placeholder="e.g. 0.5"
-                    required
+                {isUsdPegged(formQuoteAsset) ? null : (
+                  <label className="flex flex-col gap-2 text-sm text-slate-300 sm:col-span-2">
+                    1 {formQuoteAsset} in USD (optional)
+                    <input
+                      type="number"
+                      step="any"
+                      className="rounded-lg border border-white/10 bg-slate-900/60 px-3 py-2 text-sm text-white focus:border-emerald-500 focus:outline-none focus:ring-2 focus:ring-emerald-500/40"
+                      name="quoteUsdRate"
+                      value={formData.quoteUsdRate}
+                      onChange={handleInputChange}
+                      placeholder="Uses the rate table when empty"
+                    />
+                  </label>
+                )}
+              </div>
+              <div className="space-y-3">
+                <div className="flex items-center justify-between gap-3">
+                  <p className="flex items-center gap-2 text-sm text-slate-300">
+                    <Layers className="h-4 w-4 text-slate-500" />
+                    {formData.fills.length > 0
+                      ? "Fills (average prices are derived)"
+                      : "Single entry and exit"}
+                  </p>
+                  <button
+                    type="button"
+                    onClick={
+                      formData.fills.length > 0
+                        ? () => handleFillsChange([])
+                        : enableFillsMode
+                    }
+                    className="inline-flex items-center gap-2 rounded-full border border-white/10 px-3 py-1.5 text-xs font-semibold text-slate-200 transition hover:bg-white/10"
+                  >
+                    {formData.fills.length > 0
+                      ? "Use single entry / exit"
+                      : "Scale in / out"}
+                  </button>
+                </div>
+                {formData.fills.length > 0 ? (
+                  <FillsEditor
+                    fills={formData.fills}
+                    onChange={handleFillsChange}
                   />
-                </label>
+                ) : null}
               </div>
+              <TradeMarginFields values={formData} onChange={handleInputChange} />
+              <TradeCostsFields values={formData} onChange={handleInputChange} />
               <label className="flex flex-col gap-2 text-sm text-slate-300">
                 Sentiment / Notes
                 <textarea
@@ -1096,17 +2566,84 @@ export default function Home() {
               </label>
               <div className="rounded-xl border border-white/10 bg-slate-900/40 p-4 text-sm text-slate-300">
                 <p className="text-xs uppercase tracking-[0.2em] text-slate-500">
-                  Calculated PnL
+                  Calculated Net PnL
                 </p>
                 <p className="mt-2 text-lg font-semibold text-white">
                   {calculatedPnL === null
-                    ? "Enter entry, exit, and size"
-                    : formatPnL(calculatedPnL)}
+                    ? formData.fills.length > 0
+                      ? "Enter price and quantity for each fill"
+                      : formData.status === "Closed"
+                        ? "Enter entry, exit, and size"
+                        : `No realized PnL while ${formData.status.toLowerCase()}`
+                    : formatPnL(
+                        calculatedPnL - (calculatedCosts ?? 0),
+                        formQuoteAsset,
+                      )}
                 </p>
+                {calculatedPnL !== null && calculatedCosts ? (
+                  <p className="mt-1 text-xs text-slate-400">
+                    Gross {formatPnL(calculatedPnL, formQuoteAsset)} · Costs{" "}
+                    {formatCurrency(calculatedCosts, formQuoteAsset)}
+                  </p>
+                ) : null}
                 <p className="mt-1 text-xs text-slate-500">
-                  PnL = ({formData.direction === "Long" ? "Exit − Entry" : "Entry − Exit"}) ×
-                  Size
+                  {formData.fills.length > 0 ? "Realized PnL" : "PnL"} = (
+                  {formData.direction === "Long" ? "Exit − Entry" : "Entry − Exit"}) ×{" "}
+                  {formData.fills.length > 0 ? "Closed Qty" : "Size"} − Fees − Funding +
+                  Rebates
                 </p>
+                <div className="mt-3 border-t border-white/10 pt-3">
+                  <p className="text-xs uppercase tracking-[0.2em] text-slate-500">
+                    Planned R:R
+                  </p>
+                  <p className="mt-1 font-semibold text-white">
+                    {plannedRisk === null
+                      ? "Enter a stop loss to size the risk"
+                      : plannedRisk.error ??
+                        (plannedRisk.rewardToRisk === null
+                          ? "Add a take profit to see the planned R:R"
+                          : `1 : ${plannedRisk.rewardToRisk.toFixed(2)}`)}
+                  </p>
+                  {plannedRisk?.risk ? (
+                    <p className="mt-1 text-xs text-slate-500">
+                      Initial risk {formatCurrency(plannedRisk.risk, formQuoteAsset)}
+                      {calculatedPnL !== null
+                        ? ` · Outcome ${formatR(
+                            (calculatedPnL - (calculatedCosts ?? 0)) / plannedRisk.risk,
+                          )}`
+                        : ""}
+                    </p>
+                  ) : null}
+                </div>
+                {marginPreview ? (
+                  <div className="mt-3 border-t border-white/10 pt-3">
+                    <p className="text-xs uppercase tracking-[0.2em] text-slate-500">
+                      Margin
+                    </p>
+                    <p className="mt-1 font-semibold text-white">
+                      {formatCurrency(marginPreview.initialMargin, formQuoteAsset)}
+                      {isLeveragedInstrument(marginPreview.marginInputs.instrumentType)
+                        ? ` at ${marginPreview.marginInputs.leverage}x ${marginPreview.marginInputs.marginMode.toLowerCase()}`
+                        : ""}
+                    </p>
+                    <p className="mt-1 text-xs text-slate-500">
+                      {marginPreview.liquidationPrice !== null
+                        ? `Est. liquidation ${formatCurrency(
+                            marginPreview.liquidationPrice,
+                            formQuoteAsset,
+                          )}`
+                        : marginPreview.marginInputs.marginMode === "Cross" &&
+                            isLeveragedInstrument(
+                              marginPreview.marginInputs.instrumentType,
+                            )
+                          ? "Cross margin liquidation depends on the whole account"
+                          : "No liquidation price"}
+                      {marginPreview.returnOnMargin !== null
+                        ? ` · Return on margin ${(marginPreview.returnOnMargin * 100).toFixed(1)}%`
+                        : ""}
+                    </p>
+                  </div>
+                ) : null}
               </div>
               <div className="flex justify-end gap-3 pt-2">
                 <button
@@ -1128,6 +2665,31 @@ export default function Home() {
           </div>
         </div>
       ) : null}
+
+      {isImportOpen ? (
+        <ImportTradesModal
+          findExistingFingerprints={findExistingFingerprints}
+          onClose={() => setIsImportOpen(false)}
+          onImport={handleImport}
+        />
+      ) : null}
+      {isTagManagerOpen ? (
+        <TagManager
+          tags={tags}
+          usage={tagUsage}
+          onClose={() => setIsTagManagerOpen(false)}
+          onRename={handleRenameTag}
+          onMerge={handleMergeTags}
+          onDelete={handleDeleteTag}
+        />
+      ) : null}
+      {undoAction ? (
+        <UndoToast
+          message={undoAction.message}
+          onUndo={handleUndo}
+          onDismiss={dismissUndo}
+        />
+      ) : null}
     </div>
   );
 }
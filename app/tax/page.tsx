@@ -0,0 +1,457 @@
+"use client";
+
+import { UserButton, useAuth } from "@clerk/nextjs";
+import TaxLotSelector from "@/components/TaxLotSelector";
+import {
+  CurrencySettings,
+  createDefaultCurrencySettings,
+  loadCurrencySettings,
+} from "@/lib/currency";
+import { formatCurrency, formatDate, formatPnL } from "@/lib/format";
+import { loadOfflineTrades } from "@/lib/offlineSync";
+import { fetchTaxLotSelections, saveTaxLotSelection } from "@/lib/taxLotQueries";
+import {
+  CostBasisMethod,
+  TaxLotSelections,
+  buildTaxYearCsv,
+  calculateTaxLots,
+  costBasisMethodOptions,
+  getGainsForTaxYear,
+  getSelectableLots,
+  getTaxYear,
+  getTaxYears,
+  holdingTermLabels,
+  summarizeTaxYear,
+} from "@/lib/taxLots";
+import { downloadTextFile } from "@/lib/tradeExport";
+import { Trade } from "@/lib/trades";
+import { useEffect, useMemo, useState } from "react";
+import { ArrowLeft, Download, Receipt } from "lucide-react";
+import Link from "next/link";
+
+const formatQuantity = (value: number) =>
+  value.toLocaleString("en-US", { maximumFractionDigits: 8 });
+
+const selectClassName =
+  "rounded-lg border border-white/10 bg-slate-900/60 px-3 py-2 text-sm normal-case tracking-normal text-white focus:border-emerald-500 focus:outline-none focus:ring-2 focus:ring-emerald-500/40";
+
+export default function TaxPage() {
+  const { userId, isLoaded } = useAuth();
+  const [trades, setTrades] = useState<Trade[]>([]);
+  const [selections, setSelections] = useState<TaxLotSelections>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [currencySettings, setCurrencySettings] = useState<CurrencySettings>(
+    () => createDefaultCurrencySettings(),
+  );
+  const [method, setMethod] = useState<CostBasisMethod>("FIFO");
+  const [taxYear, setTaxYear] = useState<number | null>(null);
+  const [editingDisposalId, setEditingDisposalId] = useState<string | null>(null);
+  const [savingDisposalId, setSavingDisposalId] = useState<string | null>(null);
+
+  useEffect(() => {
+    setCurrencySettings(loadCurrencySettings());
+  }, []);
+
+  useEffect(() => {
+    if (!isLoaded) {
+      return;
+    }
+
+    if (!userId) {
+      setTrades([]);
+      setSelections({});
+      return;
+    }
+
+    const loadTaxData = async () => {
+      try {
+        setIsLoading(true);
+        const [journal, savedSelections] = await Promise.all([
+          loadOfflineTrades(userId),
+          fetchTaxLotSelections(userId),
+        ]);
+        setTrades(journal.trades);
+        setSelections(savedSelections);
+        setError(null);
+      } catch (fetchErr) {
+        console.error(fetchErr);
+        setError(
+          fetchErr instanceof Error
+            ? fetchErr.message
+            : "Failed to load trades.",
+        );
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadTaxData();
+  }, [isLoaded, userId]);
+
+  const report = useMemo(
+    () => calculateTaxLots(trades, method, currencySettings, selections),
+    [currencySettings, method, selections, trades],
+  );
+  const years = useMemo(() => getTaxYears(report.gains), [report.gains]);
+  const selectedYear = taxYear ?? years[0] ?? new Date().getUTCFullYear();
+  const summary = useMemo(
+    () => summarizeTaxYear(report.gains, selectedYear),
+    [report.gains, selectedYear],
+  );
+  const yearGains = useMemo(
+    () => getGainsForTaxYear(report.gains, selectedYear),
+    [report.gains, selectedYear],
+  );
+  const yearDisposals = report.disposals.filter(
+    (disposal) => getTaxYear(disposal.disposedAt) === selectedYear,
+  );
+  const currency = report.currency;
+
+  const handleExport = () =>
+    downloadTextFile(
+      `realized-gains-${selectedYear}-${method.toLowerCase()}.csv`,
+      buildTaxYearCsv(report, selectedYear),
+      "text/csv",
+    );
+
+  const handleSaveSelection = async (disposalId: string, lotIds: string[]) => {
+    if (!userId) {
+      alert("You must be signed in to choose lots.");
+      return;
+    }
+
+    try {
+      setSavingDisposalId(disposalId);
+      await saveTaxLotSelection(userId, disposalId, lotIds);
+      setSelections((prev) => {
+        const next = { ...prev };
+        if (lotIds.length > 0) {
+          next[disposalId] = lotIds;
+        } else {
+          delete next[disposalId];
+        }
+        return next;
+      });
+      setEditingDisposalId(null);
+    } catch (saveErr) {
+      console.error(saveErr);
+      alert(
+        saveErr instanceof Error
+          ? saveErr.message
+          : "Failed to save lots. Please try again.",
+      );
+    } finally {
+      setSavingDisposalId(null);
+    }
+  };
+
+  const summaryCards = [
+    { label: "Proceeds", value: formatCurrency(summary.proceeds, currency) },
+    { label: "Cost Basis", value: formatCurrency(summary.costBasis, currency) },
+    { label: "Short-Term", value: formatPnL(summary.shortTermGain, currency) },
+    { label: "Long-Term", value: formatPnL(summary.longTermGain, currency) },
+    { label: "Unknown Term", value: formatPnL(summary.unknownTermGain, currency) },
+    { label: "Total Realized", value: formatPnL(summary.totalGain, currency) },
+  ];
+
+  return (
+    <div className="min-h-screen bg-slate-950 font-sans text-slate-50">
+      <main className="mx-auto flex w-full max-w-6xl flex-col gap-8 px-4 pb-20 pt-8 sm:px-6 sm:pb-24 sm:pt-12">
+        <header className="flex flex-col justify-between gap-6 rounded-2xl border border-white/5 bg-gradient-to-r from-slate-900 via-slate-900 to-slate-800 p-5 shadow-2xl shadow-slate-900/50 sm:rounded-3xl sm:p-8 md:flex-row md:items-center">
+          <div>
+            <p className="flex items-center gap-2 text-sm font-medium uppercase tracking-[0.2em] text-slate-400">
+              <Receipt className="h-4 w-4 text-emerald-400" />
+              Taxes
+            </p>
+            <h1 className="mt-3 text-4xl font-semibold leading-tight tracking-tight text-white">
+              Realized Gains
+            </h1>
+            <p className="mt-2 max-w-2xl text-sm text-slate-400">
+              Spot purchases are tracked as lots and matched to each sale by the
+              cost basis method you choose. Shorts and derivatives are reported
+              per closed position. Figures are in {currency}.
+            </p>
+          </div>
+          <div className="flex flex-wrap items-center gap-3">
+            <Link
+              href="/"
+              className="inline-flex items-center gap-2 rounded-full border border-white/10 px-5 py-2.5 text-sm font-semibold text-slate-200 transition hover:bg-white/10"
+            >
+              <ArrowLeft className="h-4 w-4" />
+              Journal
+            </Link>
+            <UserButton
+              appearance={{
+                elements: {
+                  avatarBox: "h-10 w-10",
+                },
+              }}
+            />
+          </div>
+        </header>
+
+        <section className="rounded-2xl border border-white/5 bg-slate-900/60 p-5 backdrop-blur sm:p-6">
+          <div className="flex flex-wrap items-end gap-3">
+            <label className="flex flex-col gap-1 text-xs uppercase tracking-[0.2em] text-slate-500">
+              Tax Year
+              <select
+                value={selectedYear}
+                onChange={(event) => setTaxYear(Number(event.target.value))}
+                className={selectClassName}
+              >
+                {(years.length > 0 ? years : [selectedYear]).map((year) => (
+                  <option key={year} value={year}>
+                    {year}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="flex flex-col gap-1 text-xs uppercase tracking-[0.2em] text-slate-500">
+              Cost Basis
+              <select
+                value={method}
+                onChange={(event) =>
+                  setMethod(event.target.value as CostBasisMethod)
+                }
+                className={selectClassName}
+              >
+                {costBasisMethodOptions.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <button
+              type="button"
+              onClick={handleExport}
+              disabled={yearGains.length === 0}
+              className="inline-flex items-center gap-2 rounded-full border border-white/10 px-5 py-2.5 text-sm font-semibold text-slate-200 transition hover:bg-white/10 disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              <Download className="h-4 w-4" />
+              Export CSV
+            </button>
+          </div>
+          <p className="mt-3 text-xs text-slate-500">
+            Sales held for more than a year are long-term. Tax years follow the
+            calendar year in UTC. Spot pairs quoted in a crypto asset, such as
+            ETH/BTC, also count as sales and purchases of the quote asset.
+          </p>
+          {yearGains.some((gain) => gain.term === "Unknown") ? (
+            <p className="mt-3 rounded-lg border border-amber-500/30 bg-amber-500/10 px-4 py-3 text-sm text-amber-200">
+              Some gains have an unknown term: the trade was logged without
+              fills, so only its trade date is known, or the sale had no lot to
+              match. Add fills with their dates to work out the holding period.
+            </p>
+          ) : null}
+          {report.missingRates.length > 0 ? (
+            <p className="mt-3 rounded-lg border border-amber-500/30 bg-amber-500/10 px-4 py-3 text-sm text-amber-200">
+              No rate on the trade&apos;s date for{" "}
+              {report.missingRates.join(", ")}
+              {summary.unpricedCount > 0
+                ? `: ${summary.unpricedCount} ${
+                    summary.unpricedCount === 1 ? "gain is" : "gains are"
+                  } unpriced and left out of this year's totals`
+                : ""}
+              . Gains are valued at the rate of the day, not the journal&apos;s
+              current rates, so enter the quote&apos;s USD rate on each trade.
+            </p>
+          ) : null}
+          {error ? (
+            <div className="mt-4 rounded-lg border border-rose-500/30 bg-rose-500/10 px-4 py-3 text-sm text-rose-200">
+              Unable to load trades right now: {error}
+            </div>
+          ) : null}
+        </section>
+
+        <section className="grid gap-4 sm:grid-cols-3 xl:grid-cols-6">
+          {summaryCards.map((card) => (
+            <div
+              key={card.label}
+              className="rounded-2xl border border-white/5 bg-slate-900/60 p-5 backdrop-blur"
+            >
+              <p className="text-xs uppercase tracking-[0.2em] text-slate-500">
+                {card.label}
+              </p>
+              <p className="mt-3 text-2xl font-semibold leading-tight text-white">
+                {card.value}
+              </p>
+            </div>
+          ))}
+        </section>
+
+        <section className="rounded-2xl border border-white/5 bg-slate-900/60 p-5 backdrop-blur sm:p-6">
+          <h2 className="text-lg font-semibold text-white">By Asset</h2>
+          {summary.byAsset.length === 0 ? (
+            <p className="mt-2 text-sm text-slate-400">
+              {isLoading ? "Loading trades…" : `No realized gains in ${selectedYear}.`}
+            </p>
+          ) : (
+            <div className="mt-4 overflow-x-auto">
+              <table className="min-w-full divide-y divide-white/5 text-sm">
+                <thead className="text-left text-xs uppercase tracking-[0.2em] text-slate-500">
+                  <tr>
+                    <th className="px-3 py-2 font-medium">Asset</th>
+                    <th className="px-3 py-2 font-medium">Quantity</th>
+                    <th className="px-3 py-2 font-medium">Proceeds</th>
+                    <th className="px-3 py-2 font-medium">Cost Basis</th>
+                    <th className="px-3 py-2 font-medium">Short-Term</th>
+                    <th className="px-3 py-2 font-medium">Long-Term</th>
+                    <th className="px-3 py-2 font-medium">Unknown</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-white/5 text-slate-300">
+                  {summary.byAsset.map((asset) => (
+                    <tr key={asset.asset}>
+                      <td className="px-3 py-2 font-semibold text-white">{asset.asset}</td>
+                      <td className="px-3 py-2">{formatQuantity(asset.quantity)}</td>
+                      <td className="px-3 py-2">{formatCurrency(asset.proceeds, currency)}</td>
+                      <td className="px-3 py-2">{formatCurrency(asset.costBasis, currency)}</td>
+                      <td className="px-3 py-2">{formatPnL(asset.shortTermGain, currency)}</td>
+                      <td className="px-3 py-2">{formatPnL(asset.longTermGain, currency)}</td>
+                      <td className="px-3 py-2">{formatPnL(asset.unknownTermGain, currency)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </section>
+
+        {method === "SpecificId" ? (
+          <section className="rounded-2xl border border-white/5 bg-slate-900/60 p-5 backdrop-blur sm:p-6">
+            <h2 className="text-lg font-semibold text-white">Lot Choices</h2>
+            <p className="text-sm text-slate-400">
+              Sales without a choice are matched first in, first out.
+            </p>
+            {yearDisposals.length === 0 ? (
+              <p className="mt-3 text-sm text-slate-400">
+                No spot sales in {selectedYear}.
+              </p>
+            ) : (
+              <ul className="mt-3 divide-y divide-white/5">
+                {yearDisposals.map((disposal) => (
+                  <li key={disposal.id} className="py-3">
+                    <div className="flex flex-wrap items-center justify-between gap-3 text-sm text-slate-300">
+                      <p>
+                        <span className="font-semibold text-white">
+                          {formatQuantity(disposal.quantity)} {disposal.asset}
+                        </span>{" "}
+                        sold {formatDate(disposal.disposedAt)} ·{" "}
+                        {selections[disposal.id]
+                          ? `${selections[disposal.id].length} lot${
+                              selections[disposal.id].length === 1 ? "" : "s"
+                            } chosen`
+                          : "FIFO"}
+                      </p>
+                      <button
+                        type="button"
+                        onClick={() =>
+                          setEditingDisposalId(
+                            editingDisposalId === disposal.id ? null : disposal.id,
+                          )
+                        }
+                        className="rounded-full border border-white/10 px-4 py-1.5 text-xs font-semibold text-slate-200 transition hover:bg-white/10"
+                      >
+                        Choose Lots
+                      </button>
+                    </div>
+                    {editingDisposalId === disposal.id ? (
+                      <TaxLotSelector
+                        disposal={disposal}
+                        lots={getSelectableLots(report, disposal)}
+                        selectedLotIds={selections[disposal.id] ?? []}
+                        currency={currency}
+                        isSaving={savingDisposalId === disposal.id}
+                        onSave={(lotIds) => handleSaveSelection(disposal.id, lotIds)}
+                        onCancel={() => setEditingDisposalId(null)}
+                      />
+                    ) : null}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+        ) : null}
+
+        <section className="rounded-2xl border border-white/5 bg-slate-900/60 p-5 backdrop-blur sm:p-6">
+          <h2 className="text-lg font-semibold text-white">Realized Gains</h2>
+          {yearGains.length === 0 ? (
+            <p className="mt-2 text-sm text-slate-400">
+              {isLoading ? "Loading trades…" : `No realized gains in ${selectedYear}.`}
+            </p>
+          ) : (
+            <div className="mt-4 overflow-x-auto">
+              <table className="min-w-full divide-y divide-white/5 text-sm">
+                <thead className="text-left text-xs uppercase tracking-[0.2em] text-slate-500">
+                  <tr>
+                    <th className="px-3 py-2 font-medium">Asset</th>
+                    <th className="px-3 py-2 font-medium">Quantity</th>
+                    <th className="px-3 py-2 font-medium">Acquired</th>
+                    <th className="px-3 py-2 font-medium">Sold</th>
+                    <th className="px-3 py-2 font-medium">Term</th>
+                    <th className="px-3 py-2 font-medium">Proceeds</th>
+                    <th className="px-3 py-2 font-medium">Cost Basis</th>
+                    <th className="px-3 py-2 font-medium">Gain</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-white/5 text-slate-300">
+                  {yearGains.map((gain, index) => (
+                    <tr key={`${gain.disposalId}-${gain.lotId ?? index}`}>
+                      <td className="px-3 py-2 font-semibold text-white">
+                        {gain.asset}
+                        {gain.source === "Position" ? (
+                          <span className="ml-2 text-xs font-normal text-slate-500">
+                            position
+                          </span>
+                        ) : null}
+                      </td>
+                      <td className="px-3 py-2">{formatQuantity(gain.quantity)}</td>
+                      <td className="px-3 py-2">
+                        {gain.acquiredAt ? (
+                          formatDate(gain.acquiredAt)
+                        ) : (
+                          <span className="text-amber-300">No lot</span>
+                        )}
+                      </td>
+                      <td className="px-3 py-2">{formatDate(gain.disposedAt)}</td>
+                      <td className="px-3 py-2">
+                        {gain.term === "Unknown" ? (
+                          <span className="text-amber-300">Unknown</span>
+                        ) : (
+                          holdingTermLabels[gain.term]
+                        )}
+                      </td>
+                      {gain.priced ? (
+                        <>
+                          <td className="px-3 py-2">
+                            {formatCurrency(gain.proceeds, currency)}
+                          </td>
+                          <td className="px-3 py-2">
+                            {formatCurrency(gain.costBasis, currency)}
+                          </td>
+                          <td
+                            className={`px-3 py-2 font-semibold ${
+                              gain.gain >= 0 ? "text-emerald-300" : "text-rose-300"
+                            }`}
+                          >
+                            {formatPnL(gain.gain, currency)}
+                          </td>
+                        </>
+                      ) : (
+                        <td colSpan={3} className="px-3 py-2 text-amber-300">
+                          Unpriced
+                        </td>
+                      )}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </section>
+      </main>
+    </div>
+  );
+}
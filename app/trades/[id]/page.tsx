@@ -0,0 +1,336 @@
+"use client";
+
+import { UserButton, useAuth } from "@clerk/nextjs";
+import TradeAttachments from "@/components/TradeAttachments";
+import TradeDetailMetrics from "@/components/TradeDetailMetrics";
+import TradeFillsTable from "@/components/TradeFillsTable";
+import TradeJournalEditor from "@/components/TradeJournalEditor";
+import TradeRevisionHistory from "@/components/TradeRevisionHistory";
+import TradeTags from "@/components/TradeTags";
+import { isApiError } from "@/lib/apiClient";
+import {
+  CurrencySettings,
+  createDefaultCurrencySettings,
+  getQuoteAsset,
+  getValidUsdRates,
+  loadCurrencySettings,
+} from "@/lib/currency";
+import { formatPnL } from "@/lib/format";
+import { TradeJournal } from "@/lib/journal";
+import { fetchTradeRevisions } from "@/lib/revisionQueries";
+import { TradeRevision } from "@/lib/revisions";
+import { fetchTags } from "@/lib/tagApi";
+import { Tag, getTagsById } from "@/lib/tags";
+import {
+  fetchTrade,
+  searchTrades,
+  updateTrade,
+} from "@/lib/tradeApi";
+import {
+  SortKey,
+  TradeFilters,
+  buildFilteredHref,
+  createDefaultFilters,
+  defaultSortKey,
+  filterTrades,
+  filtersFromSearchParams,
+  hasActiveFilters,
+  reverseSortKey,
+  sortKeyFromSearchParams,
+} from "@/lib/tradeFilters";
+import { Trade } from "@/lib/trades";
+import { useEffect, useMemo, useState } from "react";
+import { ArrowLeft, ChevronLeft, ChevronRight, Link2 } from "lucide-react";
+import type { Route } from "next";
+import Link from "next/link";
+import { useParams } from "next/navigation";
+
+type TradeNavigation = {
+  previousTrade: Trade | null;
+  nextTrade: Trade | null;
+  position: number;
+  total: number;
+};
+
+export default function TradeDetailPage() {
+  const { id } = useParams<{ id: string }>();
+  const { userId, isLoaded } = useAuth();
+  const [trade, setTrade] = useState<Trade | null>(null);
+  const [navigation, setNavigation] = useState<TradeNavigation | null>(null);
+  const [tags, setTags] = useState<Tag[]>([]);
+  const [revisions, setRevisions] = useState<TradeRevision[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [filters, setFilters] = useState<TradeFilters>(() =>
+    createDefaultFilters(),
+  );
+  const [sortKey, setSortKey] = useState<SortKey>(defaultSortKey);
+  const [currencySettings, setCurrencySettings] = useState<CurrencySettings>(
+    () => createDefaultCurrencySettings(),
+  );
+
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    setCurrencySettings(loadCurrencySettings());
+    setFilters(filtersFromSearchParams(params));
+    setSortKey(sortKeyFromSearchParams(params));
+  }, []);
+
+  useEffect(() => {
+    if (!isLoaded) {
+      return;
+    }
+
+    if (!userId) {
+      setTrade(null);
+      setTags([]);
+      return;
+    }
+
+    const loadTrade = async () => {
+      try {
+        setIsLoading(true);
+        const [loadedTrade, loadedTags] = await Promise.all([
+          fetchTrade(id).catch((fetchErr: unknown) => {
+            if (isApiError(fetchErr) && fetchErr.status === 404) {
+              return null;
+            }
+            throw fetchErr;
+          }),
+          fetchTags(),
+        ]);
+        setTrade(loadedTrade);
+        setTags(loadedTags);
+        setError(null);
+      } catch (fetchErr) {
+        console.error(fetchErr);
+        setError(
+          fetchErr instanceof Error
+            ? fetchErr.message
+            : "Failed to load trades.",
+        );
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadTrade();
+  }, [id, isLoaded, userId]);
+
+  useEffect(() => {
+    if (!userId) {
+      setRevisions([]);
+      return;
+    }
+
+    const fetchRevisions = async () => {
+      try {
+        setRevisions(await fetchTradeRevisions(userId, id));
+      } catch (fetchErr) {
+        console.error(fetchErr);
+      }
+    };
+
+    fetchRevisions();
+  }, [id, userId]);
+
+  const usdRates = useMemo(
+    () => getValidUsdRates(currencySettings),
+    [currencySettings],
+  );
+  const isInFilteredList =
+    trade !== null && filterTrades([trade], filters).length > 0;
+
+  // Navigation walks the same filtered, sorted list the journal showed when
+  // the trade was opened, so next/previous match what the user was looking at.
+  // The neighbours are the first trade after this one in each direction.
+  useEffect(() => {
+    if (!userId || !isInFilteredList) {
+      setNavigation(null);
+      return;
+    }
+
+    const loadNavigation = async () => {
+      try {
+        const search = { filters, usdRates, cursor: id, limit: 1 };
+        const [after, before] = await Promise.all([
+          searchTrades({ ...search, sortKey }),
+          searchTrades({ ...search, sortKey: reverseSortKey(sortKey) }),
+        ]);
+        setNavigation({
+          previousTrade: before.trades[0] ?? null,
+          nextTrade: after.trades[0] ?? null,
+          position: before.remainingCount + 1,
+          total: before.remainingCount + after.remainingCount + 1,
+        });
+      } catch (fetchErr) {
+        console.error(fetchErr);
+      }
+    };
+
+    loadNavigation();
+  }, [filters, id, isInFilteredList, sortKey, usdRates, userId]);
+
+  const previousTrade = navigation?.previousTrade ?? null;
+  const nextTrade = navigation?.nextTrade ?? null;
+
+  const buildTradeHref = (tradeId: string) =>
+    buildFilteredHref(`/trades/${tradeId}`, filters, sortKey) as Route;
+
+  const handleSaveJournal = async (journal: TradeJournal) => {
+    if (!userId || !trade) {
+      throw new Error("You must be signed in to edit the journal.");
+    }
+
+    setTrade(await updateTrade(trade.id, { journal }));
+    setRevisions(await fetchTradeRevisions(userId, trade.id));
+  };
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(
+        `${window.location.origin}/trades/${id}`,
+      );
+    } catch (copyErr) {
+      console.error(copyErr);
+      alert("Copy failed. Use the address bar to share this trade.");
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-950 font-sans text-slate-50">
+      <main className="mx-auto flex w-full max-w-6xl flex-col gap-8 px-4 pb-20 pt-8 sm:px-6 sm:pb-24 sm:pt-12">
+        <nav className="flex flex-wrap items-center justify-between gap-3">
+          <Link
+            href={buildFilteredHref("/", filters, sortKey) as Route}
+            className="inline-flex items-center gap-2 rounded-full border border-white/10 px-5 py-2.5 text-sm font-semibold text-slate-200 transition hover:bg-white/10"
+          >
+            <ArrowLeft className="h-4 w-4" />
+            Journal
+          </Link>
+          <div className="flex items-center gap-2">
+            {navigation ? (
+              <span className="text-xs text-slate-500">
+                {navigation.position} of {navigation.total}
+                {hasActiveFilters(filters) ? " filtered" : ""}
+              </span>
+            ) : null}
+            {previousTrade ? (
+              <Link
+                href={buildTradeHref(previousTrade.id)}
+                className="inline-flex items-center justify-center rounded-full border border-white/10 p-2 text-slate-300 transition hover:bg-white/10"
+                aria-label="Previous trade"
+              >
+                <ChevronLeft className="h-4 w-4" />
+              </Link>
+            ) : (
+              <span className="inline-flex items-center justify-center rounded-full border border-white/5 p-2 text-slate-700">
+                <ChevronLeft className="h-4 w-4" />
+              </span>
+            )}
+            {nextTrade ? (
+              <Link
+                href={buildTradeHref(nextTrade.id)}
+                className="inline-flex items-center justify-center rounded-full border border-white/10 p-2 text-slate-300 transition hover:bg-white/10"
+                aria-label="Next trade"
+              >
+                <ChevronRight className="h-4 w-4" />
+              </Link>
+            ) : (
+              <span className="inline-flex items-center justify-center rounded-full border border-white/5 p-2 text-slate-700">
+                <ChevronRight className="h-4 w-4" />
+              </span>
+            )}
+            <UserButton
+              appearance={{
+                elements: {
+                  avatarBox: "h-10 w-10",
+                },
+              }}
+            />
+          </div>
+        </nav>
+
+        {error ? (
+          <div className="rounded-xl border border-rose-500/40 bg-rose-500/10 p-4 text-sm text-rose-200">
+            {error}
+          </div>
+        ) : isLoading ? (
+          <p className="text-sm text-slate-400">Loading trade...</p>
+        ) : !trade ? (
+          <div className="rounded-2xl border border-white/5 bg-slate-900/60 p-8 text-center text-sm text-slate-400">
+            This trade does not exist or belongs to another account.
+          </div>
+        ) : (
+          <>
+            <header className="flex flex-col justify-between gap-6 rounded-2xl border border-white/5 bg-gradient-to-r from-slate-900 via-slate-900 to-slate-800 p-5 shadow-2xl shadow-slate-900/50 sm:rounded-3xl sm:p-8 md:flex-row md:items-center">
+              <div>
+                <p className="flex items-center gap-2 text-sm font-medium uppercase tracking-[0.2em] text-slate-400">
+                  <span
+                    className={`rounded-full px-2.5 py-1 text-xs font-semibold ${
+                      trade.direction === "Long"
+                        ? "bg-emerald-500/10 text-emerald-300"
+                        : "bg-sky-500/10 text-sky-300"
+                    }`}
+                  >
+                    {trade.direction}
+                  </span>
+                  {trade.status}
+                </p>
+                <h1 className="mt-3 text-4xl font-semibold leading-tight tracking-tight text-white">
+                  {trade.pair}
+                </h1>
+                <div className="mt-3">
+                  <TradeTags tags={getTagsById(tags, trade.tagIds)} />
+                </div>
+              </div>
+              <div className="flex flex-col items-start gap-3 md:items-end">
+                <span
+                  className={`text-3xl font-semibold ${
+                    trade.netPnl >= 0 ? "text-emerald-400" : "text-rose-400"
+                  }`}
+                >
+                  {formatPnL(trade.netPnl, getQuoteAsset(trade.pair))}
+                </span>
+                <button
+                  type="button"
+                  onClick={handleCopyLink}
+                  className="inline-flex items-center gap-2 rounded-full border border-white/10 px-4 py-2 text-xs font-semibold text-slate-300 transition hover:bg-white/10"
+                >
+                  <Link2 className="h-4 w-4" />
+                  Copy Link
+                </button>
+              </div>
+            </header>
+
+            <TradeDetailMetrics trade={trade} />
+
+            {trade.fills.length > 0 ? <TradeFillsTable trade={trade} /> : null}
+
+            <div className="grid gap-4 lg:grid-cols-[minmax(0,2fr)_minmax(0,1fr)]">
+              <div className="space-y-4">
+                {trade.sentiment ? (
+                  <section className="rounded-xl border border-white/10 bg-slate-900/40 p-4">
+                    <h3 className="text-xs uppercase tracking-[0.2em] text-slate-500">
+                      Notes
+                    </h3>
+                    <p className="mt-2 text-sm text-slate-300">{trade.sentiment}</p>
+                  </section>
+                ) : null}
+                <TradeJournalEditor
+                  key={trade.id}
+                  journal={trade.journal}
+                  onSave={handleSaveJournal}
+                />
+                {userId ? (
+                  <TradeAttachments userId={userId} tradeId={trade.id} />
+                ) : null}
+              </div>
+              <TradeRevisionHistory revisions={revisions} />
+            </div>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,215 @@
+"use client";
+
+import { UserButton, useAuth } from "@clerk/nextjs";
+import { getQuoteAsset } from "@/lib/currency";
+import { formatDate, formatPnL } from "@/lib/format";
+import { deleteAttachmentsForTrade } from "@/lib/journalQueries";
+import { fetchDeletedTrades, purgeTrade, restoreTrade } from "@/lib/tradeApi";
+import { DeletedTrade } from "@/lib/trades";
+import { useEffect, useState } from "react";
+import { ArrowLeft, RotateCcw, Trash, Trash2 } from "lucide-react";
+import Link from "next/link";
+
+const formatDeletedAt = (value: string) => {
+  const parsed = new Date(value);
+  if (Number.isNaN(parsed.getTime())) {
+    return value;
+  }
+  return parsed.toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+};
+
+export default function TrashPage() {
+  const { userId, isLoaded } = useAuth();
+  const [deletedTrades, setDeletedTrades] = useState<DeletedTrade[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [busyTradeId, setBusyTradeId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isLoaded) {
+      return;
+    }
+
+    if (!userId) {
+      setDeletedTrades([]);
+      return;
+    }
+
+    const loadTrash = async () => {
+      try {
+        setIsLoading(true);
+        setDeletedTrades(await fetchDeletedTrades());
+        setError(null);
+      } catch (fetchErr) {
+        console.error(fetchErr);
+        setError(
+          fetchErr instanceof Error
+            ? fetchErr.message
+            : "Failed to load the trash.",
+        );
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadTrash();
+  }, [isLoaded, userId]);
+
+  const removeFromList = (tradeId: string) =>
+    setDeletedTrades((prev) => prev.filter((entry) => entry.trade.id !== tradeId));
+
+  const handleRestore = async (tradeId: string) => {
+    try {
+      setBusyTradeId(tradeId);
+      await restoreTrade(tradeId);
+      removeFromList(tradeId);
+    } catch (restoreErr) {
+      console.error(restoreErr);
+      alert(
+        restoreErr instanceof Error
+          ? restoreErr.message
+          : "Failed to restore trade. Please try again.",
+      );
+    } finally {
+      setBusyTradeId(null);
+    }
+  };
+
+  const handlePurge = async ({ trade }: DeletedTrade) => {
+    if (!userId) {
+      alert("You must be signed in to delete trades.");
+      return;
+    }
+
+    if (
+      !window.confirm(
+        `Delete trade ${trade.pair} on ${formatDate(trade.date)} for good? Its notes, screenshots and history go with it. This cannot be undone.`,
+      )
+    ) {
+      return;
+    }
+
+    try {
+      setBusyTradeId(trade.id);
+      await deleteAttachmentsForTrade(userId, trade.id);
+      await purgeTrade(trade.id);
+      removeFromList(trade.id);
+    } catch (purgeErr) {
+      console.error(purgeErr);
+      alert(
+        purgeErr instanceof Error
+          ? purgeErr.message
+          : "Failed to delete trade. Please try again.",
+      );
+    } finally {
+      setBusyTradeId(null);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-950 font-sans text-slate-50">
+      <main className="mx-auto flex w-full max-w-6xl flex-col gap-8 px-4 pb-20 pt-8 sm:px-6 sm:pb-24 sm:pt-12">
+        <header className="flex flex-col justify-between gap-6 rounded-2xl border border-white/5 bg-gradient-to-r from-slate-900 via-slate-900 to-slate-800 p-5 shadow-2xl shadow-slate-900/50 sm:rounded-3xl sm:p-8 md:flex-row md:items-center">
+          <div>
+            <p className="flex items-center gap-2 text-sm font-medium uppercase tracking-[0.2em] text-slate-400">
+              <Trash className="h-4 w-4 text-emerald-400" />
+              Trash
+            </p>
+            <h1 className="mt-3 text-4xl font-semibold leading-tight tracking-tight text-white">
+              Deleted Trades
+            </h1>
+            <p className="mt-2 max-w-2xl text-sm text-slate-400">
+              Deleted trades stay here with their notes and screenshots until
+              you restore them or delete them for good.
+            </p>
+          </div>
+          <div className="flex flex-wrap items-center gap-3">
+            <Link
+              href="/"
+              className="inline-flex items-center gap-2 rounded-full border border-white/10 px-5 py-2.5 text-sm font-semibold text-slate-200 transition hover:bg-white/10"
+            >
+              <ArrowLeft className="h-4 w-4" />
+              Journal
+            </Link>
+            <UserButton
+              appearance={{
+                elements: {
+                  avatarBox: "h-10 w-10",
+                },
+              }}
+            />
+          </div>
+        </header>
+
+        <section className="rounded-2xl border border-white/5 bg-slate-900/60 p-5 backdrop-blur sm:p-6">
+          {error ? (
+            <div className="rounded-lg border border-rose-500/30 bg-rose-500/10 px-4 py-3 text-sm text-rose-200">
+              Unable to load the trash right now: {error}
+            </div>
+          ) : isLoading ? (
+            <p className="text-sm text-slate-400">Loading trash...</p>
+          ) : deletedTrades.length === 0 ? (
+            <p className="text-sm text-slate-400">The trash is empty.</p>
+          ) : (
+            <ul className="divide-y divide-white/5">
+              {deletedTrades.map((entry) => (
+                <li
+                  key={entry.trade.id}
+                  className="flex flex-col gap-3 py-4 sm:flex-row sm:items-center sm:justify-between"
+                >
+                  <div className="text-sm text-slate-300">
+                    <p className="font-semibold text-white">
+                      {entry.trade.pair}{" "}
+                      <span
+                        className={
+                          entry.trade.direction === "Long"
+                            ? "text-emerald-300"
+                            : "text-sky-300"
+                        }
+                      >
+                        {entry.trade.direction}
+                      </span>
+                    </p>
+                    <p className="text-xs text-slate-500">
+                      {formatDate(entry.trade.date)} ·{" "}
+                      {formatPnL(
+                        entry.trade.netPnl,
+                        getQuoteAsset(entry.trade.pair),
+                      )}{" "}
+                      net · deleted {formatDeletedAt(entry.deletedAt)}
+                    </p>
+                  </div>
+                  <div className="flex gap-2">
+                    <button
+                      type="button"
+                      onClick={() => handleRestore(entry.trade.id)}
+                      disabled={busyTradeId === entry.trade.id}
+                      className="inline-flex items-center gap-2 rounded-full border border-emerald-500/60 bg-emerald-500/10 px-4 py-1.5 text-xs font-semibold text-emerald-300 transition hover:bg-emerald-500/20 hover:text-emerald-100 disabled:cursor-not-allowed disabled:opacity-50"
+                    >
+                      <RotateCcw className="h-4 w-4" />
+                      Restore
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => handlePurge(entry)}
+                      disabled={busyTradeId === entry.trade.id}
+                      className="inline-flex items-center gap-2 rounded-full border border-rose-500/40 px-4 py-1.5 text-xs font-semibold text-rose-300 transition hover:bg-rose-500/10 disabled:cursor-not-allowed disabled:opacity-50"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                      Delete Forever
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+      </main>
+    </div>
+  );
+}
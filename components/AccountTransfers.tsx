@@ -0,0 +1,148 @@
+"use client";
+
+import { FormEvent, useState } from "react";
+import { Plus, Trash2 } from "lucide-react";
+import {
+  AccountTransfer,
+  AccountTransferDraft,
+  TransferKind,
+  transferKinds,
+} from "@/lib/accounts";
+import { formatCurrency, formatDate } from "@/lib/format";
+
+type AccountTransfersProps = {
+  transfers: AccountTransfer[];
+  currency: string;
+  isBusy: boolean;
+  onAdd: (draft: Omit<AccountTransferDraft, "accountId">) => Promise<boolean>;
+  onDelete: (transfer: AccountTransfer) => void;
+};
+
+const inputClassName =
+  "rounded-lg border border-white/10 bg-slate-900/60 px-3 py-2 text-sm text-white focus:border-emerald-500 focus:outline-none focus:ring-2 focus:ring-emerald-500/40";
+
+export default function AccountTransfers({
+  transfers,
+  currency,
+  isBusy,
+  onAdd,
+  onDelete,
+}: AccountTransfersProps) {
+  const [kind, setKind] = useState<TransferKind>("Deposit");
+  const [amount, setAmount] = useState("");
+  const [date, setDate] = useState(() => new Date().toISOString().slice(0, 10));
+  const [note, setNote] = useState("");
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const parsedAmount = parseFloat(amount);
+    if (!Number.isFinite(parsedAmount) || parsedAmount <= 0) {
+      alert("Amount must be a number greater than 0.");
+      return;
+    }
+    if (!date) {
+      alert("Pick the date of the transfer.");
+      return;
+    }
+    if (await onAdd({ kind, amount: parsedAmount, date, note })) {
+      setAmount("");
+      setNote("");
+    }
+  };
+
+  return (
+    <div className="mt-4">
+      <h4 className="text-xs font-semibold uppercase tracking-[0.2em] text-slate-500">
+        Deposits &amp; Withdrawals
+      </h4>
+      {transfers.length === 0 ? (
+        <p className="mt-2 text-sm text-slate-400">No transfers recorded.</p>
+      ) : (
+        <ul className="mt-2 divide-y divide-white/5 text-sm text-slate-300">
+          {[...transfers].reverse().map((transfer) => (
+            <li
+              key={transfer.id}
+              className="flex flex-wrap items-center justify-between gap-3 py-2"
+            >
+              <p>
+                <span
+                  className={`font-semibold ${
+                    transfer.kind === "Deposit" ? "text-emerald-300" : "text-rose-300"
+                  }`}
+                >
+                  {transfer.kind === "Deposit" ? "+" : "−"}
+                  {formatCurrency(transfer.amount, currency)}
+                </span>{" "}
+                {transfer.kind.toLowerCase()} on {formatDate(transfer.date)}
+                {transfer.note ? (
+                  <span className="text-slate-500"> · {transfer.note}</span>
+                ) : null}
+              </p>
+              <button
+                type="button"
+                onClick={() => onDelete(transfer)}
+                disabled={isBusy}
+                className="rounded-full p-1.5 text-slate-400 transition hover:bg-white/10 hover:text-rose-300 disabled:cursor-not-allowed disabled:opacity-50"
+                aria-label={`Delete ${transfer.kind.toLowerCase()} on ${formatDate(transfer.date)}`}
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      <form
+        className="mt-3 grid gap-2 sm:grid-cols-[auto_8rem_10rem_1fr_auto]"
+        onSubmit={handleSubmit}
+      >
+        <select
+          value={kind}
+          onChange={(event) => setKind(event.target.value as TransferKind)}
+          className={inputClassName}
+          aria-label="Transfer type"
+        >
+          {transferKinds.map((option) => (
+            <option key={option} value={option}>
+              {option}
+            </option>
+          ))}
+        </select>
+        <input
+          type="number"
+          min="0"
+          step="any"
+          value={amount}
+          onChange={(event) => setAmount(event.target.value)}
+          placeholder={`Amount (${currency})`}
+          className={inputClassName}
+          aria-label="Amount"
+          required
+        />
+        <input
+          type="date"
+          value={date}
+          onChange={(event) => setDate(event.target.value)}
+          className={inputClassName}
+          aria-label="Date"
+          required
+        />
+        <input
+          type="text"
+          value={note}
+          onChange={(event) => setNote(event.target.value)}
+          placeholder="Note (optional)"
+          className={inputClassName}
+          aria-label="Note"
+        />
+        <button
+          type="submit"
+          disabled={isBusy}
+          className="inline-flex items-center justify-center gap-2 rounded-full border border-white/10 px-4 py-2 text-sm font-semibold text-slate-200 transition hover:bg-white/10 disabled:cursor-not-allowed disabled:opacity-50"
+        >
+          <Plus className="h-4 w-4" />
+          Add
+        </button>
+      </form>
+    </div>
+  );
+}
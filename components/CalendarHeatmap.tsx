@@ -0,0 +1,161 @@
+"use client";
+
+import { DailyPnl, buildCalendarMonth, weekdayLabels } from "@/lib/calendar";
+import { formatPnL } from "@/lib/format";
+import { useMemo, useState } from "react";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+
+type CalendarHeatmapProps = {
+  dailyPnl: DailyPnl[];
+  currency: string;
+  selectedDate: string | null;
+  onSelectDate: (date: string) => void;
+};
+
+const getCellStyle = (pnl: number, maxAbsPnl: number) => {
+  if (pnl === 0 || maxAbsPnl === 0) {
+    return undefined;
+  }
+  const alpha = 0.15 + (Math.abs(pnl) / maxAbsPnl) * 0.55;
+  return {
+    backgroundColor:
+      pnl > 0 ? `rgba(16, 185, 129, ${alpha})` : `rgba(244, 63, 94, ${alpha})`,
+  };
+};
+
+export default function CalendarHeatmap({
+  dailyPnl,
+  currency,
+  selectedDate,
+  onSelectDate,
+}: CalendarHeatmapProps) {
+  const [visibleMonth, setVisibleMonth] = useState(() => {
+    const today = new Date();
+    return { year: today.getFullYear(), month: today.getMonth() };
+  });
+
+  const dailyPnlByDate = useMemo(
+    () => new Map(dailyPnl.map((day) => [day.date, day])),
+    [dailyPnl],
+  );
+  const calendar = useMemo(
+    () =>
+      buildCalendarMonth(visibleMonth.year, visibleMonth.month, dailyPnlByDate),
+    [dailyPnlByDate, visibleMonth],
+  );
+  const maxAbsPnl = Math.max(
+    0,
+    ...calendar.weeks.flatMap((week) =>
+      week.days.map((day) => Math.abs(day?.pnl ?? 0)),
+    ),
+  );
+  const monthLabel = new Date(
+    Date.UTC(visibleMonth.year, visibleMonth.month, 1),
+  ).toLocaleDateString("en-US", { month: "long", year: "numeric", timeZone: "UTC" });
+
+  const shiftMonth = (offset: number) => {
+    setVisibleMonth((prev) => {
+      const next = new Date(prev.year, prev.month + offset, 1);
+      return { year: next.getFullYear(), month: next.getMonth() };
+    });
+  };
+
+  return (
+    <section className="rounded-2xl border border-white/5 bg-slate-900/60 p-5 backdrop-blur sm:p-6">
+      <div className="flex flex-col gap-3 md:flex-row md:items-end md:justify-between">
+        <div>
+          <h2 className="text-lg font-semibold text-white">Daily PnL Calendar</h2>
+          <p className="text-sm text-slate-400">
+            Click a day to show only its trades in the log.
+          </p>
+        </div>
+        <div className="flex items-center gap-3">
+          <button
+            type="button"
+            onClick={() => shiftMonth(-1)}
+            className="rounded-full border border-white/10 p-2 text-slate-300 transition hover:bg-white/10"
+            aria-label="Previous month"
+          >
+            <ChevronLeft className="h-4 w-4" />
+          </button>
+          <div className="min-w-40 text-center">
+            <p className="text-sm font-semibold text-white">{monthLabel}</p>
+            <p
+              className={`text-xs ${
+                calendar.pnl >= 0 ? "text-emerald-300" : "text-rose-300"
+              }`}
+            >
+              {formatPnL(calendar.pnl, currency)} · {calendar.tradeCount} trade
+              {calendar.tradeCount === 1 ? "" : "s"}
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={() => shiftMonth(1)}
+            className="rounded-full border border-white/10 p-2 text-slate-300 transition hover:bg-white/10"
+            aria-label="Next month"
+          >
+            <ChevronRight className="h-4 w-4" />
+          </button>
+        </div>
+      </div>
+      <div className="mt-5 overflow-x-auto">
+        <div className="grid min-w-[640px] grid-cols-8 gap-1.5 text-xs">
+          {[...weekdayLabels, "Week"].map((label) => (
+            <span
+              key={label}
+              className="pb-1 text-center text-[10px] uppercase tracking-[0.2em] text-slate-500"
+            >
+              {label}
+            </span>
+          ))}
+          {calendar.weeks.map((week, weekIndex) => (
+            <div key={weekIndex} className="contents">
+              {week.days.map((day, dayIndex) =>
+                day ? (
+                  <button
+                    key={day.date}
+                    type="button"
+                    onClick={() => onSelectDate(day.date)}
+                    style={getCellStyle(day.pnl, maxAbsPnl)}
+                    className={`flex h-16 flex-col justify-between rounded-lg border p-1.5 text-left transition hover:border-white/30 ${
+                      selectedDate === day.date
+                        ? "border-emerald-400"
+                        : "border-white/5 bg-slate-950/40"
+                    }`}
+                  >
+                    <span className="text-slate-400">{Number(day.date.slice(8))}</span>
+                    {day.tradeCount > 0 ? (
+                      <span className="leading-tight">
+                        <span className="block font-semibold text-white">
+                          {formatPnL(day.pnl, currency)}
+                        </span>
+                        <span className="text-[10px] text-slate-300">
+                          {day.tradeCount} trade{day.tradeCount === 1 ? "" : "s"}
+                        </span>
+                      </span>
+                    ) : null}
+                  </button>
+                ) : (
+                  <span key={`blank-${weekIndex}-${dayIndex}`} />
+                ),
+              )}
+              <div className="flex h-16 flex-col justify-center rounded-lg border border-white/5 bg-slate-900/80 p-1.5 text-right">
+                <span
+                  className={`font-semibold ${
+                    week.pnl >= 0 ? "text-emerald-300" : "text-rose-300"
+                  }`}
+                >
+                  {formatPnL(week.pnl, currency)}
+                </span>
+                <span className="text-[10px] text-slate-500">
+                  {week.tradeCount} trade{week.tradeCount === 1 ? "" : "s"}
+                </span>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,96 @@
+import {
+  CurrencySettings,
+  getUsdRate,
+  reportingCurrencyOptions,
+} from "@/lib/currency";
+
+type CurrencySettingsPanelProps = {
+  settings: CurrencySettings;
+  quoteAssets: string[];
+  missingAssets: string[];
+  // Trades left out of the totals for want of a rate.
+  unconvertedCount: number;
+  onChange: (settings: CurrencySettings) => void;
+};
+
+export default function CurrencySettingsPanel({
+  settings,
+  quoteAssets,
+  missingAssets,
+  unconvertedCount,
+  onChange,
+}: CurrencySettingsPanelProps) {
+  const rateAssets = [
+    ...new Set([...quoteAssets, settings.reportingCurrency, ...missingAssets]),
+  ]
+    .filter((asset) => asset !== "USD")
+    .sort();
+  const currencyOptions = [
+    ...new Set([...reportingCurrencyOptions, ...quoteAssets]),
+  ];
+
+  const handleRateChange = (asset: string, value: string) => {
+    onChange({
+      ...settings,
+      usdRates: { ...settings.usdRates, [asset]: value },
+    });
+  };
+
+  return (
+    <section className="rounded-2xl border border-white/5 bg-slate-900/60 p-5 backdrop-blur sm:p-6">
+      <div className="flex flex-col gap-4 lg:flex-row lg:items-start lg:justify-between">
+        <div>
+          <h2 className="text-lg font-semibold text-white">Reporting Currency</h2>
+          <p className="text-sm text-slate-400">
+            Trade PnL stays in each pair&apos;s quote asset; totals are converted
+            through USD. A rate entered on a trade overrides this table.
+          </p>
+          {missingAssets.length > 0 ? (
+            <p className="mt-2 text-xs text-amber-300">
+              No rate for {missingAssets.join(", ")}: {unconvertedCount}{" "}
+              {unconvertedCount === 1 ? "trade is" : "trades are"} unconverted
+              and left out of the totals and stats.
+            </p>
+          ) : null}
+        </div>
+        <div className="flex flex-wrap items-end gap-3">
+          <label className="flex flex-col gap-2 text-xs font-semibold uppercase tracking-[0.2em] text-slate-400">
+            Report In
+            <select
+              value={settings.reportingCurrency}
+              onChange={(event) =>
+                onChange({ ...settings, reportingCurrency: event.target.value })
+              }
+              className="rounded-lg border border-white/10 bg-slate-900/60 px-3 py-2 text-sm text-white focus:border-emerald-500 focus:outline-none focus:ring-2 focus:ring-emerald-500/40"
+            >
+              {currencyOptions.map((currency) => (
+                <option key={currency} value={currency}>
+                  {currency}
+                </option>
+              ))}
+            </select>
+          </label>
+          {rateAssets.map((asset) => (
+            <label
+              key={asset}
+              className="flex flex-col gap-2 text-xs font-semibold uppercase tracking-[0.2em] text-slate-400"
+            >
+              1 {asset} in USD
+              <input
+                type="number"
+                step="any"
+                value={settings.usdRates[asset] ?? ""}
+                onChange={(event) => handleRateChange(asset, event.target.value)}
+                placeholder={
+                  getUsdRate({ ...settings, usdRates: {} }, asset)?.toString() ??
+                  "Rate"
+                }
+                className="w-32 rounded-lg border border-white/10 bg-slate-900/60 px-3 py-2 text-sm text-white focus:border-emerald-500 focus:outline-none focus:ring-2 focus:ring-emerald-500/40"
+              />
+            </label>
+          ))}
+        </div>
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,107 @@
+import { EquityPoint } from "@/lib/equity";
+import { formatCurrency, formatDate } from "@/lib/format";
+
+type EquityCurveChartProps = {
+  curve: EquityPoint[];
+  currency: string;
+};
+
+const width = 800;
+const height = 260;
+const padding = 12;
+
+export default function EquityCurveChart({
+  curve,
+  currency,
+}: EquityCurveChartProps) {
+  if (curve.length === 0) {
+    return (
+      <div className="flex h-64 items-center justify-center rounded-xl border border-dashed border-white/10 text-sm text-slate-400">
+        No closed trades match these filters yet.
+      </div>
+    );
+  }
+
+  const values = curve.flatMap((point) => [point.equity, point.highWaterMark]);
+  const min = Math.min(0, ...values);
+  const max = Math.max(0, ...values);
+  const range = max - min || 1;
+
+  const x = (index: number) =>
+    curve.length === 1
+      ? width / 2
+      : padding + (index / (curve.length - 1)) * (width - padding * 2);
+  const y = (value: number) =>
+    padding + ((max - value) / range) * (height - padding * 2);
+
+  const toPath = (key: "equity" | "highWaterMark") =>
+    curve
+      .map(
+        (point, index) =>
+          `${index === 0 ? "M" : "L"}${x(index).toFixed(1)},${y(point[key]).toFixed(1)}`,
+      )
+      .join(" ");
+
+  const equityPath = toPath("equity");
+  const highWaterPath = toPath("highWaterMark");
+  const drawdownArea = `${highWaterPath} ${curve
+    .map((point, index) => ({ point, index }))
+    .reverse()
+    .map(({ point, index }) => `L${x(index).toFixed(1)},${y(point.equity).toFixed(1)}`)
+    .join(" ")} Z`;
+  const last = curve[curve.length - 1];
+
+  return (
+    <div>
+      <svg
+        viewBox={`0 0 ${width} ${height}`}
+        className="h-64 w-full"
+        preserveAspectRatio="none"
+        role="img"
+        aria-label="Equity curve"
+      >
+        <line
+          x1={padding}
+          x2={width - padding}
+          y1={y(0)}
+          y2={y(0)}
+          className="stroke-slate-700"
+          strokeDasharray="2 4"
+          vectorEffect="non-scaling-stroke"
+        />
+        <path d={drawdownArea} className="fill-rose-500/20" />
+        <path
+          d={highWaterPath}
+          fill="none"
+          className="stroke-slate-400"
+          strokeDasharray="6 4"
+          strokeWidth={1.5}
+          vectorEffect="non-scaling-stroke"
+        />
+        <path
+          d={equityPath}
+          fill="none"
+          className="stroke-emerald-400"
+          strokeWidth={2}
+          vectorEffect="non-scaling-stroke"
+        />
+      </svg>
+      <div className="mt-2 flex flex-wrap items-center justify-between gap-2 text-xs text-slate-500">
+        <span>{formatDate(curve[0].date)}</span>
+        <span className="flex items-center gap-4">
+          <span className="flex items-center gap-1">
+            <span className="h-0.5 w-4 bg-emerald-400" /> Equity{" "}
+            {formatCurrency(last.equity, currency)}
+          </span>
+          <span className="flex items-center gap-1">
+            <span className="h-0.5 w-4 border-t border-dashed border-slate-400" /> High-water mark
+          </span>
+          <span className="flex items-center gap-1">
+            <span className="h-2 w-4 rounded-sm bg-rose-500/20" /> Drawdown
+          </span>
+        </span>
+        <span>{formatDate(last.date)}</span>
+      </div>
+    </div>
+  );
+}
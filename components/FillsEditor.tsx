@@ -0,0 +1,178 @@
+import { PlusCircle, Trash2 } from "lucide-react";
+import { FillSide, TradeFill, TradeFillDraft } from "@/lib/trades";
+
+export type FillFormData = {
+  side: FillSide;
+  price: string;
+  quantity: string;
+  executedAt: string;
+};
+
+type FillsEditorProps = {
+  fills: FillFormData[];
+  onChange: (fills: FillFormData[]) => void;
+};
+
+const inputClassName =
+  "w-full rounded-lg border border-white/10 bg-slate-900/60 px-3 py-2 text-sm text-white focus:border-emerald-500 focus:outline-none focus:ring-2 focus:ring-emerald-500/40";
+
+const toDateTimeInputValue = (value: string) => {
+  const parsed = new Date(value);
+  if (Number.isNaN(parsed.getTime())) {
+    return "";
+  }
+  const offsetMs = parsed.getTimezoneOffset() * 60_000;
+  return new Date(parsed.getTime() - offsetMs).toISOString().slice(0, 16);
+};
+
+export const createEmptyFill = (
+  side: FillSide,
+  date: string,
+  defaults: Partial<FillFormData> = {},
+): FillFormData => ({
+  side,
+  price: "",
+  quantity: "",
+  executedAt: `${date}T00:00`,
+  ...defaults,
+});
+
+export const mapFillToFormData = (fill: TradeFill): FillFormData => ({
+  side: fill.side,
+  price: fill.price.toString(),
+  quantity: fill.quantity.toString(),
+  executedAt: toDateTimeInputValue(fill.executedAt),
+});
+
+export const parseFillFormData = (
+  fills: FillFormData[],
+  fallbackDate: string,
+): TradeFillDraft[] | string => {
+  const parsed: TradeFillDraft[] = [];
+
+  for (const [index, fill] of fills.entries()) {
+    const price = parseFloat(fill.price);
+    const quantity = parseFloat(fill.quantity);
+    if (!Number.isFinite(price) || price <= 0) {
+      return `Fill ${index + 1}: enter a price greater than zero.`;
+    }
+    if (!Number.isFinite(quantity) || quantity <= 0) {
+      return `Fill ${index + 1}: enter a quantity greater than zero.`;
+    }
+    const executedAt = new Date(fill.executedAt || `${fallbackDate}T00:00`);
+    if (Number.isNaN(executedAt.getTime())) {
+      return `Fill ${index + 1}: enter a valid execution time.`;
+    }
+    parsed.push({
+      side: fill.side,
+      price,
+      quantity,
+      executedAt: executedAt.toISOString(),
+    });
+  }
+
+  return parsed;
+};
+
+export default function FillsEditor({ fills, onChange }: FillsEditorProps) {
+  const updateFill = (index: number, changes: Partial<FillFormData>) => {
+    onChange(
+      fills.map((fill, fillIndex) =>
+        fillIndex === index ? { ...fill, ...changes } : fill,
+      ),
+    );
+  };
+
+  const addFill = (side: FillSide) => {
+    const lastFill = fills[fills.length - 1];
+    onChange([
+      ...fills,
+      {
+        side,
+        price: "",
+        quantity: "",
+        executedAt: lastFill?.executedAt ?? "",
+      },
+    ]);
+  };
+
+  return (
+    <div className="space-y-3">
+      {fills.map((fill, index) => (
+        <div
+          key={index}
+          className="grid grid-cols-2 gap-2 rounded-xl border border-white/10 bg-slate-900/40 p-3 sm:grid-cols-[90px_1fr_1fr_1.5fr_auto] sm:items-center"
+        >
+          <select
+            className={inputClassName}
+            value={fill.side}
+            onChange={(event) =>
+              updateFill(index, { side: event.target.value as FillSide })
+            }
+            aria-label={`Fill ${index + 1} side`}
+          >
+            <option value="Entry">Entry</option>
+            <option value="Exit">Exit</option>
+          </select>
+          <input
+            type="number"
+            step="any"
+            className={inputClassName}
+            value={fill.price}
+            onChange={(event) => updateFill(index, { price: event.target.value })}
+            placeholder="Price"
+            aria-label={`Fill ${index + 1} price`}
+          />
+          <input
+            type="number"
+            step="any"
+            className={inputClassName}
+            value={fill.quantity}
+            onChange={(event) =>
+              updateFill(index, { quantity: event.target.value })
+            }
+            placeholder="Qty"
+            aria-label={`Fill ${index + 1} quantity`}
+          />
+          <input
+            type="datetime-local"
+            className={inputClassName}
+            value={fill.executedAt}
+            onChange={(event) =>
+              updateFill(index, { executedAt: event.target.value })
+            }
+            aria-label={`Fill ${index + 1} time`}
+          />
+          <button
+            type="button"
+            onClick={() =>
+              onChange(fills.filter((_, fillIndex) => fillIndex !== index))
+            }
+            className="inline-flex items-center justify-center justify-self-end rounded-full border border-rose-500/30 bg-rose-500/10 p-2 text-rose-300 transition hover:bg-rose-500/20"
+            aria-label={`Remove fill ${index + 1}`}
+          >
+            <Trash2 className="h-4 w-4" />
+          </button>
+        </div>
+      ))}
+      <div className="flex flex-wrap gap-2">
+        <button
+          type="button"
+          onClick={() => addFill("Entry")}
+          className="inline-flex items-center gap-2 rounded-full border border-white/10 px-3 py-1.5 text-xs font-semibold text-slate-200 transition hover:bg-white/10"
+        >
+          <PlusCircle className="h-4 w-4" />
+          Add entry
+        </button>
+        <button
+          type="button"
+          onClick={() => addFill("Exit")}
+          className="inline-flex items-center gap-2 rounded-full border border-white/10 px-3 py-1.5 text-xs font-semibold text-slate-200 transition hover:bg-white/10"
+        >
+          <PlusCircle className="h-4 w-4" />
+          Add exit
+        </button>
+      </div>
+    </div>
+  );
+}
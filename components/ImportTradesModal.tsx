@@ -0,0 +1,373 @@
+"use client";
+
+import { ChangeEvent, useEffect, useMemo, useState } from "react";
+import { AlertTriangle, Upload, X } from "lucide-react";
+import { getQuoteAsset } from "@/lib/currency";
+import { formatCurrency, formatDate, formatPnL } from "@/lib/format";
+import {
+  ColumnMapping,
+  ImportField,
+  ImportSource,
+  buildImportPreview,
+  importFieldLabels,
+  importSourceOptions,
+} from "@/lib/tradeImport";
+import { ImportedTrade } from "@/lib/tradeExport";
+import { deriveTradeValues, getTradeFingerprint } from "@/lib/trades";
+
+// The server derives PnL on save; the preview shows what it will store.
+const getPreviewPnl = (trade: ImportedTrade) =>
+  deriveTradeValues(trade, trade.fills).pnl;
+
+type ImportTradesModalProps = {
+  // Returns the fingerprints among these that the journal already has.
+  findExistingFingerprints: (fingerprints: string[]) => Promise<string[]>;
+  onClose: () => void;
+  onImport: (trades: ImportedTrade[]) => Promise<void>;
+};
+
+const inputClassName =
+  "rounded-lg border border-white/10 bg-slate-900/60 px-3 py-2 text-sm text-white focus:border-emerald-500 focus:outline-none focus:ring-2 focus:ring-emerald-500/40";
+
+export default function ImportTradesModal({
+  findExistingFingerprints,
+  onClose,
+  onImport,
+}: ImportTradesModalProps) {
+  const [source, setSource] = useState<ImportSource>("binance");
+  const [fileName, setFileName] = useState("");
+  const [csvText, setCsvText] = useState("");
+  const [mappingOverrides, setMappingOverrides] = useState<ColumnMapping | null>(
+    null,
+  );
+  const [defaultStrategy, setDefaultStrategy] = useState("Imported");
+  const [isImporting, setIsImporting] = useState(false);
+  // null while the server is checking the file's trades against the journal.
+  const [existingFingerprints, setExistingFingerprints] = useState<
+    string[] | null
+  >([]);
+
+  const preview = useMemo(() => {
+    if (!csvText) {
+      return null;
+    }
+    return buildImportPreview({
+      csvText,
+      source,
+      mapping: source === "generic" ? mappingOverrides ?? undefined : undefined,
+      defaultStrategy,
+      existingFingerprints: existingFingerprints ?? [],
+    });
+  }, [csvText, source, mappingOverrides, defaultStrategy, existingFingerprints]);
+
+  // Joined into one string so the check only reruns when the file's trades
+  // change, not when its own result marks the duplicates.
+  const fileFingerprints = useMemo(
+    () =>
+      [
+        ...new Set(
+          preview?.rows.flatMap((row) =>
+            row.trade ? [getTradeFingerprint(row.trade)] : [],
+          ) ?? [],
+        ),
+      ].join("\n"),
+    [preview],
+  );
+
+  useEffect(() => {
+    if (!fileFingerprints) {
+      setExistingFingerprints([]);
+      return;
+    }
+
+    let isCurrent = true;
+    const checkDuplicates = async () => {
+      setExistingFingerprints(null);
+      try {
+        const existing = await findExistingFingerprints(
+          fileFingerprints.split("\n"),
+        );
+        if (isCurrent) {
+          setExistingFingerprints(existing);
+        }
+      } catch (checkErr) {
+        console.error(checkErr);
+        if (isCurrent) {
+          alert(
+            checkErr instanceof Error
+              ? checkErr.message
+              : "Failed to check the file for trades already in the journal.",
+          );
+        }
+      }
+    };
+
+    checkDuplicates();
+    return () => {
+      isCurrent = false;
+    };
+  }, [fileFingerprints, findExistingFingerprints]);
+  const isCheckingDuplicates = existingFingerprints === null;
+
+  const acceptedDrafts = useMemo(
+    () =>
+      preview?.rows
+        .filter((row) => row.trade && !row.isDuplicate)
+        .map((row) => row.trade as ImportedTrade) ?? [],
+    [preview],
+  );
+  const invalidCount =
+    preview?.rows.filter((row) => row.errors.length > 0).length ?? 0;
+  const duplicateCount =
+    preview?.rows.filter((row) => row.isDuplicate).length ?? 0;
+
+  const handleFileChange = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) {
+      return;
+    }
+    setFileName(file.name);
+    setMappingOverrides(null);
+    setCsvText(await file.text());
+  };
+
+  const handleMappingChange = (field: ImportField, header: string) => {
+    setMappingOverrides({
+      ...(preview?.mapping ?? {}),
+      [field]: header || undefined,
+    });
+  };
+
+  const handleImport = async () => {
+    if (isCheckingDuplicates || acceptedDrafts.length === 0) {
+      return;
+    }
+    setIsImporting(true);
+    try {
+      await onImport(acceptedDrafts);
+      onClose();
+    } catch (importErr) {
+      console.error(importErr);
+      alert(
+        importErr instanceof Error
+          ? importErr.message
+          : "Failed to import trades. Please try again.",
+      );
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-start justify-center overflow-y-auto bg-black/70 px-4 py-6">
+      <div className="w-full max-w-4xl rounded-2xl border border-white/10 bg-slate-950 p-6 shadow-2xl shadow-black/70 outline-none md:max-h-[92vh] md:overflow-y-auto">
+        <div className="flex items-center justify-between border-b border-white/10 pb-4">
+          <h2 className="text-lg font-semibold text-white">Import Trades</h2>
+          <button
+            type="button"
+            onClick={onClose}
+            className="inline-flex items-center justify-center rounded-full border border-white/10 p-2 text-slate-300 transition hover:bg-white/10"
+            aria-label="Close import"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+
+        <div className="mt-6 grid gap-4 sm:grid-cols-3">
+          <label className="flex flex-col gap-2 text-sm text-slate-300">
+            Source
+            <select
+              className={inputClassName}
+              value={source}
+              onChange={(event) => {
+                setSource(event.target.value as ImportSource);
+                setMappingOverrides(null);
+              }}
+            >
+              {importSourceOptions.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex flex-col gap-2 text-sm text-slate-300">
+            Default Setup Tag
+            <input
+              className={inputClassName}
+              value={defaultStrategy}
+              onChange={(event) => setDefaultStrategy(event.target.value)}
+              placeholder="Used when the file has no setup column"
+              disabled={source === "journal"}
+            />
+          </label>
+          <label className="flex flex-col gap-2 text-sm text-slate-300">
+            {source === "journal" ? "CSV or JSON File" : "CSV File"}
+            <span className="inline-flex cursor-pointer items-center gap-2 rounded-lg border border-dashed border-white/20 px-3 py-2 text-sm text-slate-300 transition hover:bg-white/5">
+              <Upload className="h-4 w-4" />
+              {fileName || "Choose file"}
+              <input
+                type="file"
+                accept={
+                  source === "journal"
+                    ? ".csv,text/csv,.json,application/json"
+                    : ".csv,text/csv"
+                }
+                className="hidden"
+                onChange={handleFileChange}
+              />
+            </span>
+          </label>
+        </div>
+
+        {preview && source === "generic" ? (
+          <div className="mt-5 grid gap-3 rounded-xl border border-white/10 bg-slate-900/40 p-4 sm:grid-cols-2 lg:grid-cols-4">
+            {(Object.keys(importFieldLabels) as ImportField[]).map((field) => (
+              <label
+                key={field}
+                className="flex flex-col gap-2 text-xs font-semibold uppercase tracking-[0.2em] text-slate-400"
+              >
+                {importFieldLabels[field]}
+                <select
+                  className={inputClassName}
+                  value={preview.mapping[field] ?? ""}
+                  onChange={(event) =>
+                    handleMappingChange(field, event.target.value)
+                  }
+                >
+                  <option value="">Not mapped</option>
+                  {preview.headers.map((header) => (
+                    <option key={header} value={header}>
+                      {header}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            ))}
+          </div>
+        ) : null}
+
+        {preview ? (
+          <>
+            <p className="mt-5 text-xs text-slate-400">
+              {preview.rows.length} row{preview.rows.length === 1 ? "" : "s"} parsed ·{" "}
+              {acceptedDrafts.length} ready · {invalidCount} with errors ·{" "}
+              {isCheckingDuplicates
+                ? "checking for duplicates..."
+                : `${duplicateCount} duplicate${duplicateCount === 1 ? "" : "s"} skipped`}
+            </p>
+            <div className="mt-3 max-h-[45vh] overflow-auto rounded-xl border border-white/5">
+              <table className="w-full divide-y divide-white/5 text-sm">
+                <thead className="bg-slate-950/60 text-left text-xs uppercase tracking-[0.2em] text-slate-500">
+                  <tr>
+                    <th className="px-3 py-2 font-medium">Row</th>
+                    <th className="px-3 py-2 font-medium">Pair</th>
+                    <th className="px-3 py-2 font-medium">Direction</th>
+                    <th className="px-3 py-2 font-medium text-right">Size</th>
+                    <th className="px-3 py-2 font-medium">Entry</th>
+                    <th className="px-3 py-2 font-medium">Exit</th>
+                    <th className="px-3 py-2 font-medium text-right">PnL</th>
+                    <th className="px-3 py-2 font-medium text-right">Date</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-white/5 bg-slate-950/40 text-slate-300">
+                  {preview.rows.map((row) =>
+                    row.trade ? (
+                      <tr
+                        key={row.rowNumber}
+                        className={row.isDuplicate ? "opacity-50" : undefined}
+                      >
+                        <td className="px-3 py-2 text-slate-500">
+                          {row.rowNumber}
+                          {row.isDuplicate ? (
+                            <span className="ml-2 rounded-full bg-amber-500/10 px-2 py-0.5 text-[10px] font-semibold uppercase tracking-wide text-amber-300">
+                              Duplicate
+                            </span>
+                          ) : null}
+                        </td>
+                        <td className="px-3 py-2 font-semibold text-white">
+                          {row.trade.pair}
+                        </td>
+                        <td className="px-3 py-2">{row.trade.direction}</td>
+                        <td className="px-3 py-2 text-right">
+                          {row.trade.positionSize}
+                        </td>
+                        <td className="px-3 py-2">
+                          {formatCurrency(
+                            row.trade.entryPrice,
+                            getQuoteAsset(row.trade.pair),
+                          )}
+                        </td>
+                        <td className="px-3 py-2">
+                          {row.trade.exitPrice === null
+                            ? "—"
+                            : formatCurrency(
+                                row.trade.exitPrice,
+                                getQuoteAsset(row.trade.pair),
+                              )}
+                        </td>
+                        <td
+                          className={`px-3 py-2 text-right font-semibold ${
+                            getPreviewPnl(row.trade) >= 0
+                              ? "text-emerald-300"
+                              : "text-rose-300"
+                          }`}
+                        >
+                          {formatPnL(
+                            getPreviewPnl(row.trade),
+                            getQuoteAsset(row.trade.pair),
+                          )}
+                        </td>
+                        <td className="px-3 py-2 text-right text-slate-400">
+                          {formatDate(row.trade.date)}
+                        </td>
+                      </tr>
+                    ) : (
+                      <tr key={row.rowNumber} className="bg-rose-500/5">
+                        <td className="px-3 py-2 text-slate-500">{row.rowNumber}</td>
+                        <td colSpan={7} className="px-3 py-2 text-rose-200">
+                          <span className="inline-flex items-start gap-2">
+                            <AlertTriangle className="mt-0.5 h-4 w-4 shrink-0" />
+                            {row.errors.join(" ")}
+                          </span>
+                        </td>
+                      </tr>
+                    ),
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </>
+        ) : (
+          <p className="mt-6 rounded-xl border border-white/10 bg-slate-900/40 p-4 text-sm text-slate-400">
+            {source === "journal"
+              ? "Choose a CSV or JSON file exported from this journal. Trades come back with their fills, tags and notes."
+              : "Choose an exchange export to preview the trades before importing. PnL is recalculated from entry, exit and size."}
+          </p>
+        )}
+
+        <div className="flex justify-end gap-3 pt-6">
+          <button
+            type="button"
+            onClick={onClose}
+            className="inline-flex items-center gap-2 rounded-full border border-white/15 px-4 py-2 text-sm font-semibold text-slate-200 transition hover:bg-white/10"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={handleImport}
+            disabled={
+              isImporting || isCheckingDuplicates || acceptedDrafts.length === 0
+            }
+            className="inline-flex items-center gap-2 rounded-full bg-emerald-500 px-5 py-2 text-sm font-semibold text-emerald-950 transition hover:bg-emerald-400 disabled:cursor-not-allowed disabled:opacity-60"
+          >
+            {isImporting
+              ? "Importing..."
+              : `Import ${acceptedDrafts.length} Trade${acceptedDrafts.length === 1 ? "" : "s"}`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
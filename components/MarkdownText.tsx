@@ -0,0 +1,78 @@
+import { MarkdownInline, parseMarkdown } from "@/lib/markdown";
+
+type MarkdownTextProps = {
+  source: string;
+};
+
+const headingClassNames = {
+  1: "text-base font-semibold text-white",
+  2: "text-sm font-semibold text-white",
+  3: "text-sm font-semibold text-slate-200",
+};
+
+const renderInline = (tokens: MarkdownInline[]) =>
+  tokens.map((token, index) => {
+    switch (token.type) {
+      case "strong":
+        return (
+          <strong key={index} className="font-semibold text-white">
+            {token.text}
+          </strong>
+        );
+      case "em":
+        return <em key={index}>{token.text}</em>;
+      case "code":
+        return (
+          <code
+            key={index}
+            className="rounded bg-slate-800 px-1 py-0.5 font-mono text-xs text-emerald-200"
+          >
+            {token.text}
+          </code>
+        );
+      case "link":
+        return (
+          <a
+            key={index}
+            href={token.href}
+            target="_blank"
+            rel="noreferrer"
+            className="text-emerald-300 underline underline-offset-2 hover:text-emerald-200"
+          >
+            {token.text}
+          </a>
+        );
+      default:
+        return token.text;
+    }
+  });
+
+export default function MarkdownText({ source }: MarkdownTextProps) {
+  return (
+    <div className="space-y-2 text-sm leading-relaxed text-slate-300">
+      {parseMarkdown(source).map((block, index) => {
+        if (block.type === "heading") {
+          return (
+            <p key={index} className={headingClassNames[block.level]}>
+              {renderInline(block.content)}
+            </p>
+          );
+        }
+        if (block.type === "list") {
+          const ListTag = block.ordered ? "ol" : "ul";
+          return (
+            <ListTag
+              key={index}
+              className={`space-y-1 pl-5 ${block.ordered ? "list-decimal" : "list-disc"}`}
+            >
+              {block.items.map((item, itemIndex) => (
+                <li key={itemIndex}>{renderInline(item)}</li>
+              ))}
+            </ListTag>
+          );
+        }
+        return <p key={index}>{renderInline(block.content)}</p>;
+      })}
+    </div>
+  );
+}
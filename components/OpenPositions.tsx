@@ -0,0 +1,109 @@
+import { Edit3 } from "lucide-react";
+import { getQuoteAsset } from "@/lib/currency";
+import { formatCurrency, formatPnL } from "@/lib/format";
+import { MarkPrices, getMarkPrice } from "@/lib/markPrices";
+import {
+  Trade,
+  calculateUnrealizedPnL,
+  getAverageEntryPrice,
+  getOpenQuantity,
+  normalizePairKey,
+} from "@/lib/trades";
+
+type OpenPositionsProps = {
+  positions: Trade[];
+  markPrices: MarkPrices;
+  onMarkPriceChange: (pair: string, value: string) => void;
+  onEdit: (trade: Trade) => void;
+};
+
+export default function OpenPositions({
+  positions,
+  markPrices,
+  onMarkPriceChange,
+  onEdit,
+}: OpenPositionsProps) {
+  if (positions.length === 0) {
+    return null;
+  }
+
+  return (
+    <section className="rounded-2xl border border-white/5 bg-slate-900/60 p-5 backdrop-blur sm:p-6">
+      <div>
+        <h2 className="text-lg font-semibold text-white">Open Positions</h2>
+        <p className="text-sm text-slate-400">
+          Unrealized PnL is marked against the prices you enter below. Marks
+          are saved on this device only.
+        </p>
+      </div>
+      <div className="mt-4 overflow-x-auto">
+        <table className="w-full min-w-[640px] divide-y divide-white/5 text-sm">
+          <thead className="text-left text-xs uppercase tracking-[0.2em] text-slate-500">
+            <tr>
+              <th className="px-3 py-2 font-medium">Pair</th>
+              <th className="px-3 py-2 font-medium">Direction</th>
+              <th className="px-3 py-2 font-medium text-right">Open Size</th>
+              <th className="px-3 py-2 font-medium text-right">Avg Entry</th>
+              <th className="px-3 py-2 font-medium">Mark Price</th>
+              <th className="px-3 py-2 font-medium text-right">Unrealized</th>
+              <th className="px-3 py-2 font-medium text-right">Actions</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-white/5 text-slate-300">
+            {positions.map((trade) => {
+              const markPrice = getMarkPrice(markPrices, trade.pair);
+              const quoteAsset = getQuoteAsset(trade.pair);
+              const unrealized =
+                markPrice === null ? null : calculateUnrealizedPnL(trade, markPrice);
+
+              return (
+                <tr key={trade.id}>
+                  <td className="px-3 py-3 font-semibold text-white">{trade.pair}</td>
+                  <td className="px-3 py-3">{trade.direction}</td>
+                  <td className="px-3 py-3 text-right">{getOpenQuantity(trade)}</td>
+                  <td className="px-3 py-3 text-right">
+                    {formatCurrency(getAverageEntryPrice(trade), quoteAsset)}
+                  </td>
+                  <td className="px-3 py-3">
+                    <input
+                      type="number"
+                      step="any"
+                      value={markPrices[normalizePairKey(trade.pair)] ?? ""}
+                      onChange={(event) =>
+                        onMarkPriceChange(trade.pair, event.target.value)
+                      }
+                      placeholder="Mark"
+                      aria-label={`Mark price for ${trade.pair}`}
+                      className="w-32 rounded-lg border border-white/10 bg-slate-900/60 px-3 py-1.5 text-sm text-white focus:border-emerald-500 focus:outline-none focus:ring-2 focus:ring-emerald-500/40"
+                    />
+                  </td>
+                  <td
+                    className={`px-3 py-3 text-right font-semibold ${
+                      unrealized === null
+                        ? "text-slate-500"
+                        : unrealized >= 0
+                          ? "text-emerald-300"
+                          : "text-rose-300"
+                    }`}
+                  >
+                    {unrealized === null ? "—" : formatPnL(unrealized, quoteAsset)}
+                  </td>
+                  <td className="px-3 py-3 text-right">
+                    <button
+                      type="button"
+                      onClick={() => onEdit(trade)}
+                      className="inline-flex items-center justify-center rounded-full border border-white/10 bg-white/5 p-2 text-slate-200 transition hover:bg-white/15"
+                      aria-label="Edit position"
+                    >
+                      <Edit3 className="h-4 w-4" />
+                    </button>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </section>
+  );
+}
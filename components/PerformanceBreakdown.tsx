@@ -0,0 +1,154 @@
+"use client";
+
+import { formatPnL, formatR } from "@/lib/format";
+import { GroupPerformance } from "@/lib/stats";
+import { useMemo, useState } from "react";
+import { ArrowDown, ArrowUp } from "lucide-react";
+
+type BreakdownSortKey = Exclude<keyof GroupPerformance, "closedCount">;
+
+type PerformanceBreakdownProps = {
+  title: string;
+  groups: GroupPerformance[];
+  currency: string;
+  activeKeys: string[];
+  onSelect: (key: string) => void;
+};
+
+const columns: { key: BreakdownSortKey; label: string }[] = [
+  { key: "key", label: "Group" },
+  { key: "tradeCount", label: "Trades" },
+  { key: "winRate", label: "Win Rate" },
+  { key: "netPnl", label: "Net PnL" },
+  { key: "profitFactor", label: "PF" },
+  { key: "averageR", label: "Avg R" },
+];
+
+const compareGroups = (
+  a: GroupPerformance,
+  b: GroupPerformance,
+  key: BreakdownSortKey,
+) => {
+  if (key === "key") {
+    return a.key.localeCompare(b.key);
+  }
+  // Groups without a value (no losses, no stop loss) always sink to the end.
+  const left = a[key] ?? -Infinity;
+  const right = b[key] ?? -Infinity;
+  return left - right;
+};
+
+export default function PerformanceBreakdown({
+  title,
+  groups,
+  currency,
+  activeKeys,
+  onSelect,
+}: PerformanceBreakdownProps) {
+  const [sortKey, setSortKey] = useState<BreakdownSortKey>("netPnl");
+  const [isAscending, setIsAscending] = useState(false);
+
+  const sortedGroups = useMemo(() => {
+    const entries = [...groups];
+    entries.sort((a, b) => {
+      const result = compareGroups(a, b, sortKey);
+      return isAscending ? result : -result;
+    });
+    return entries;
+  }, [groups, isAscending, sortKey]);
+
+  const handleSort = (key: BreakdownSortKey) => {
+    if (key === sortKey) {
+      setIsAscending((prev) => !prev);
+      return;
+    }
+    setSortKey(key);
+    setIsAscending(key === "key");
+  };
+
+  return (
+    <section className="rounded-2xl border border-white/5 bg-slate-900/60 p-5 backdrop-blur sm:p-6">
+      <h2 className="text-lg font-semibold text-white">{title}</h2>
+      <p className="text-sm text-slate-400">
+        Click a row to filter the journal to that group.
+      </p>
+      {sortedGroups.length === 0 ? (
+        <p className="mt-4 text-sm text-slate-500">No trades to group yet.</p>
+      ) : (
+        <div className="mt-4 overflow-x-auto">
+          <table className="min-w-full divide-y divide-white/5 text-sm">
+            <thead className="text-left text-xs uppercase tracking-[0.2em] text-slate-500">
+              <tr>
+                {columns.map((column) => (
+                  <th key={column.key} className="px-3 py-2 font-medium">
+                    <button
+                      type="button"
+                      onClick={() => handleSort(column.key)}
+                      className="inline-flex items-center gap-1 uppercase tracking-[0.2em] transition hover:text-slate-200"
+                    >
+                      {column.label}
+                      {sortKey === column.key ? (
+                        isAscending ? (
+                          <ArrowUp className="h-3 w-3" />
+                        ) : (
+                          <ArrowDown className="h-3 w-3" />
+                        )
+                      ) : null}
+                    </button>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-white/5 text-slate-300">
+              {sortedGroups.map((group) => (
+                <tr
+                  key={group.key}
+                  onClick={group.key ? () => onSelect(group.key) : undefined}
+                  className={`transition ${
+                    group.key ? "cursor-pointer hover:bg-white/5" : ""
+                  } ${
+                    group.key &&
+                    activeKeys.some(
+                      (key) => key.trim().toLowerCase() === group.key.toLowerCase(),
+                    )
+                      ? "bg-emerald-500/10"
+                      : ""
+                  }`}
+                >
+                  <td className="px-3 py-2 font-semibold text-white">
+                    {group.key || (
+                      <span className="font-normal text-slate-500">Unspecified</span>
+                    )}
+                  </td>
+                  <td className="px-3 py-2">
+                    {group.tradeCount}
+                    {group.closedCount !== group.tradeCount ? (
+                      <span className="text-xs text-slate-500">
+                        {" "}
+                        ({group.closedCount} closed)
+                      </span>
+                    ) : null}
+                  </td>
+                  <td className="px-3 py-2">{Math.round(group.winRate * 100)}%</td>
+                  <td
+                    className={`px-3 py-2 ${
+                      group.netPnl >= 0 ? "text-emerald-300" : "text-rose-300"
+                    }`}
+                  >
+                    {formatPnL(group.netPnl, currency)}
+                  </td>
+                  <td className="px-3 py-2">
+                    {group.profitFactor === null ? "—" : group.profitFactor.toFixed(2)}
+                  </td>
+                  <td className="px-3 py-2">
+                    {group.averageR === null ? "—" : formatR(group.averageR)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,149 @@
+import { formatCurrency, formatPnL } from "@/lib/format";
+import { OutcomeStats, PerformanceStats as Stats } from "@/lib/stats";
+import { TradeDirection } from "@/lib/trades";
+
+type PerformanceStatsProps = {
+  stats: Stats;
+  currency: string;
+};
+
+const formatRatio = (value: number | null) =>
+  value === null ? "—" : value.toFixed(2);
+
+const formatPercent = (value: number) => `${Math.round(value * 100)}%`;
+
+const getOutcomeRows = (stats: OutcomeStats, currency: string) => [
+  { label: "Trades", value: `${stats.tradeCount}` },
+  { label: "Win Rate", value: formatPercent(stats.winRate) },
+  {
+    label: "Net PnL",
+    value: formatPnL(stats.netPnl, currency),
+    tone: stats.netPnl,
+  },
+  { label: "Profit Factor", value: formatRatio(stats.profitFactor) },
+  {
+    label: "Expectancy",
+    value: formatPnL(stats.expectancy, currency),
+    tone: stats.expectancy,
+  },
+  {
+    label: "Avg Win",
+    value: formatCurrency(stats.averageWin, currency),
+    tone: 1,
+  },
+  {
+    label: "Avg Loss",
+    value: formatCurrency(-stats.averageLoss, currency),
+    tone: -1,
+  },
+];
+
+export default function PerformanceStats({
+  stats,
+  currency,
+}: PerformanceStatsProps) {
+  const metrics = [
+    { label: "Profit Factor", value: formatRatio(stats.profitFactor) },
+    {
+      label: "Expectancy",
+      value: formatPnL(stats.expectancy, currency),
+      tone: stats.expectancy,
+    },
+    {
+      label: "Avg Win",
+      value: formatCurrency(stats.averageWin, currency),
+      tone: 1,
+    },
+    {
+      label: "Avg Loss",
+      value: formatCurrency(-stats.averageLoss, currency),
+      tone: -1,
+    },
+    { label: "Win / Loss Size", value: formatRatio(stats.winLossRatio) },
+    {
+      label: "Largest Win",
+      value: formatPnL(stats.largestWin, currency),
+      tone: 1,
+    },
+    {
+      label: "Largest Loss",
+      value: formatPnL(stats.largestLoss, currency),
+      tone: -1,
+    },
+    {
+      label: "Streaks",
+      value: `${stats.longestWinStreak}W / ${stats.longestLossStreak}L`,
+    },
+    { label: "Sharpe (annualised)", value: formatRatio(stats.sharpeRatio) },
+    { label: "Sortino (annualised)", value: formatRatio(stats.sortinoRatio) },
+  ];
+  const directions: TradeDirection[] = ["Long", "Short"];
+
+  return (
+    <section className="rounded-2xl border border-white/5 bg-slate-900/60 p-5 backdrop-blur sm:p-6">
+      <h2 className="text-lg font-semibold text-white">Performance Statistics</h2>
+      <p className="text-sm text-slate-400">
+        {stats.tradeCount > 0
+          ? `Net of costs across ${stats.tradeCount} closed trade${
+              stats.tradeCount === 1 ? "" : "s"
+            }. Sharpe and Sortino are annualised from daily returns on the accounts' starting balances and transfers, counting days without trades as flat, and blank without an account balance.`
+          : "Close a trade to start building statistics."}
+      </p>
+      <dl className="mt-5 grid grid-cols-2 gap-x-6 gap-y-4 text-sm sm:grid-cols-3 lg:grid-cols-5">
+        {metrics.map((item) => (
+          <div key={item.label}>
+            <dt className="text-[11px] uppercase tracking-[0.2em] text-slate-500">
+              {item.label}
+            </dt>
+            <dd
+              className={`mt-1 text-lg font-semibold ${
+                item.tone === undefined
+                  ? "text-white"
+                  : item.tone >= 0
+                    ? "text-emerald-300"
+                    : "text-rose-300"
+              }`}
+            >
+              {item.value}
+            </dd>
+          </div>
+        ))}
+      </dl>
+      <div className="mt-6 overflow-x-auto">
+        <table className="min-w-full divide-y divide-white/5 text-sm">
+          <thead className="text-left text-xs uppercase tracking-[0.2em] text-slate-500">
+            <tr>
+              <th className="px-3 py-2 font-medium">Direction</th>
+              {getOutcomeRows(stats, currency).map((row) => (
+                <th key={row.label} className="px-3 py-2 font-medium">
+                  {row.label}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-white/5 text-slate-300">
+            {directions.map((direction) => (
+              <tr key={direction}>
+                <td className="px-3 py-2 font-semibold text-white">{direction}</td>
+                {getOutcomeRows(stats.byDirection[direction], currency).map((row) => (
+                  <td
+                    key={row.label}
+                    className={`px-3 py-2 ${
+                      row.tone === undefined
+                        ? ""
+                        : row.tone >= 0
+                          ? "text-emerald-300"
+                          : "text-rose-300"
+                    }`}
+                  >
+                    {row.value}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,73 @@
+import { formatR } from "@/lib/format";
+import { RSummary } from "@/lib/risk";
+
+type RDistributionProps = {
+  summary: RSummary;
+};
+
+export default function RDistribution({ summary }: RDistributionProps) {
+  const maxCount = Math.max(...summary.buckets.map((bucket) => bucket.count), 1);
+
+  return (
+    <section className="rounded-2xl border border-white/5 bg-slate-900/60 p-5 backdrop-blur sm:p-6">
+      <div className="flex flex-col gap-3 md:flex-row md:items-end md:justify-between">
+        <div>
+          <h2 className="text-lg font-semibold text-white">R-Multiple Distribution</h2>
+          <p className="text-sm text-slate-400">
+            {summary.tradesWithRisk > 0
+              ? `Based on ${summary.tradesWithRisk} closed trade${
+                  summary.tradesWithRisk === 1 ? "" : "s"
+                } with a stop loss.`
+              : "Add a stop loss to closed trades to measure outcomes in R."}
+          </p>
+        </div>
+        <dl className="grid grid-cols-2 gap-x-6 gap-y-2 text-sm sm:grid-cols-3">
+          {[
+            { label: "Expectancy", value: summary.averageR },
+            { label: "Avg Win", value: summary.averageWinR },
+            { label: "Avg Loss", value: summary.averageLossR },
+          ].map((item) => (
+            <div key={item.label}>
+              <dt className="text-[11px] uppercase tracking-[0.2em] text-slate-500">
+                {item.label}
+              </dt>
+              <dd
+                className={`font-semibold ${
+                  item.value >= 0 ? "text-emerald-300" : "text-rose-300"
+                }`}
+              >
+                {formatR(item.value)}
+              </dd>
+            </div>
+          ))}
+        </dl>
+      </div>
+      <div className="mt-5 flex h-32 items-end gap-2">
+        {summary.buckets.map((bucket) => (
+          <div
+            key={bucket.label}
+            className="flex h-full flex-1 flex-col items-center justify-end gap-1"
+          >
+            <span className="text-xs text-slate-400">{bucket.count}</span>
+            <div
+              className={`w-full rounded-t-md ${
+                bucket.min >= 0 ? "bg-emerald-500/50" : "bg-rose-500/50"
+              }`}
+              style={{ height: `${(bucket.count / maxCount) * 100}%` }}
+            />
+          </div>
+        ))}
+      </div>
+      <div className="mt-2 flex gap-2">
+        {summary.buckets.map((bucket) => (
+          <span
+            key={bucket.label}
+            className="flex-1 text-center text-[10px] uppercase tracking-wide text-slate-500"
+          >
+            {bucket.label}
+          </span>
+        ))}
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,104 @@
+import { CloudOff, RefreshCw } from "lucide-react";
+import { PendingMutation } from "@/lib/offlineSync";
+import { Trade } from "@/lib/trades";
+
+type SyncStatusBannerProps = {
+  isOffline: boolean;
+  isSyncing: boolean;
+  pendingMutations: PendingMutation[];
+  trades: Trade[];
+  onKeepLocal: (mutation: PendingMutation) => void;
+  onDiscard: (mutation: PendingMutation) => void;
+};
+
+const getMutationLabel = (mutation: PendingMutation, trades: Trade[]) =>
+  mutation.patch.pair ??
+  trades.find((trade) => trade.id === mutation.tradeId)?.pair ??
+  mutation.conflict?.serverTrade?.pair ??
+  "Trade";
+
+export default function SyncStatusBanner({
+  isOffline,
+  isSyncing,
+  pendingMutations,
+  trades,
+  onKeepLocal,
+  onDiscard,
+}: SyncStatusBannerProps) {
+  const conflicts = pendingMutations.filter((mutation) => mutation.conflict);
+  const queuedCount = pendingMutations.length - conflicts.length;
+  const queuedLabel = `${queuedCount} ${
+    queuedCount === 1 ? "change is" : "changes are"
+  } saved on this device`;
+
+  if (!isOffline && queuedCount === 0 && conflicts.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-3">
+      {isOffline || queuedCount > 0 ? (
+        <div className="flex items-center gap-3 rounded-xl border border-amber-500/30 bg-amber-500/10 px-4 py-3 text-sm text-amber-200">
+          {isOffline ? (
+            <CloudOff className="h-4 w-4 shrink-0" />
+          ) : (
+            <RefreshCw
+              className={`h-4 w-4 shrink-0 ${isSyncing ? "animate-spin" : ""}`}
+            />
+          )}
+          <p>
+            {isOffline ? "You are offline. " : ""}
+            {queuedCount === 0
+              ? "New changes will be saved on this device."
+              : isOffline
+                ? `${queuedLabel} and will sync when you reconnect.`
+                : `${queuedLabel} and waiting to sync.`}{" "}
+            The stats count synced changes only.
+          </p>
+        </div>
+      ) : null}
+      {conflicts.length > 0 ? (
+        <div className="rounded-xl border border-rose-500/30 bg-rose-500/10 px-4 py-3 text-sm text-rose-200">
+          <p className="font-semibold">
+            {conflicts.length === 1
+              ? "1 offline change could not be synced."
+              : `${conflicts.length} offline changes could not be synced.`}
+          </p>
+          <ul className="mt-2 space-y-2">
+            {conflicts.map((mutation) => (
+              <li
+                key={mutation.tradeId}
+                className="flex flex-wrap items-center justify-between gap-2"
+              >
+                <span>
+                  <span className="font-semibold text-white">
+                    {getMutationLabel(mutation, trades)}
+                  </span>{" "}
+                  ({mutation.kind}): {mutation.conflict?.message}
+                </span>
+                <span className="flex gap-2">
+                  {mutation.conflict?.serverTrade ? (
+                    <button
+                      type="button"
+                      onClick={() => onKeepLocal(mutation)}
+                      className="rounded-full border border-white/10 px-3 py-1 text-xs font-semibold text-slate-200 transition hover:bg-white/10"
+                    >
+                      Keep Mine
+                    </button>
+                  ) : null}
+                  <button
+                    type="button"
+                    onClick={() => onDiscard(mutation)}
+                    className="rounded-full border border-white/10 px-3 py-1 text-xs font-semibold text-slate-200 transition hover:bg-white/10"
+                  >
+                    {mutation.conflict?.serverTrade ? "Keep Theirs" : "Discard Mine"}
+                  </button>
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,88 @@
+import { ChevronDown } from "lucide-react";
+import {
+  Tag,
+  getTagsById,
+  tagCategories,
+  tagCategoryLabels,
+} from "@/lib/tags";
+
+type TagFilterSelectProps = {
+  tags: Tag[];
+  selectedIds: string[];
+  onChange: (tagIds: string[]) => void;
+};
+
+export default function TagFilterSelect({
+  tags,
+  selectedIds,
+  onChange,
+}: TagFilterSelectProps) {
+  const selectedTags = getTagsById(tags, selectedIds);
+
+  const toggleTag = (tagId: string) => {
+    onChange(
+      selectedIds.includes(tagId)
+        ? selectedIds.filter((id) => id !== tagId)
+        : [...selectedIds, tagId],
+    );
+  };
+
+  return (
+    <details className="group relative">
+      <summary className="flex cursor-pointer list-none items-center justify-between gap-2 rounded-lg border border-white/10 bg-slate-900/60 px-3 py-2 text-sm font-normal normal-case tracking-normal text-white">
+        <span className="truncate">
+          {selectedTags.length === 0
+            ? "Any tags"
+            : selectedTags.map((tag) => tag.name).join(", ")}
+        </span>
+        <ChevronDown className="h-4 w-4 shrink-0 text-slate-400 transition group-open:rotate-180" />
+      </summary>
+      <div className="absolute z-20 mt-2 max-h-72 w-64 overflow-y-auto rounded-xl border border-white/10 bg-slate-900 p-3 shadow-2xl shadow-slate-950/60">
+        {tags.length === 0 ? (
+          <p className="text-xs normal-case tracking-normal text-slate-500">
+            No tags yet. Add them to trades from the trade form.
+          </p>
+        ) : (
+          tagCategories.map((category) => {
+            const categoryTags = tags.filter((tag) => tag.category === category);
+            if (categoryTags.length === 0) {
+              return null;
+            }
+            return (
+              <div key={category} className="mb-3 last:mb-0">
+                <p className="text-[10px] uppercase tracking-[0.2em] text-slate-500">
+                  {tagCategoryLabels[category]}
+                </p>
+                <div className="mt-1 space-y-1">
+                  {categoryTags.map((tag) => (
+                    <label
+                      key={tag.id}
+                      className="flex items-center gap-2 text-sm font-normal normal-case tracking-normal text-slate-200"
+                    >
+                      <input
+                        type="checkbox"
+                        checked={selectedIds.includes(tag.id)}
+                        onChange={() => toggleTag(tag.id)}
+                        className="h-4 w-4 rounded border-white/20 bg-slate-900 text-emerald-500 focus:ring-emerald-500/40"
+                      />
+                      {tag.name}
+                    </label>
+                  ))}
+                </div>
+              </div>
+            );
+          })
+        )}
+        {selectedIds.length > 0 ? (
+          <button
+            type="button"
+            onClick={() => onChange([])}
+            className="mt-3 text-xs font-semibold normal-case tracking-normal text-emerald-300 hover:text-emerald-200"
+          >
+            Clear tags
+          </button>
+        ) : null}
+      </div>
+    </details>
+  );
+}
@@ -0,0 +1,203 @@
+"use client";
+
+import { useState } from "react";
+import { Check, GitMerge, Trash2, X } from "lucide-react";
+import { Tag, normalizeTagName, tagCategories, tagCategoryLabels } from "@/lib/tags";
+
+type TagManagerProps = {
+  tags: Tag[];
+  // Trades per tag id, from fetchTagUsage.
+  usage: Record<string, number>;
+  onClose: () => void;
+  onRename: (tagId: string, name: string) => Promise<void>;
+  onMerge: (sourceTagId: string, targetTagId: string) => Promise<void>;
+  onDelete: (tagId: string) => Promise<void>;
+};
+
+type TagManagerRowProps = {
+  tag: Tag;
+  usageCount: number;
+  mergeTargets: Tag[];
+  isBusy: boolean;
+  onRename: (name: string) => void;
+  onMerge: (targetTagId: string) => void;
+  onDelete: () => void;
+};
+
+const inputClassName =
+  "rounded-lg border border-white/10 bg-slate-900/60 px-3 py-2 text-sm text-white focus:border-emerald-500 focus:outline-none focus:ring-2 focus:ring-emerald-500/40";
+
+function TagManagerRow({
+  tag,
+  usageCount,
+  mergeTargets,
+  isBusy,
+  onRename,
+  onMerge,
+  onDelete,
+}: TagManagerRowProps) {
+  const [name, setName] = useState(tag.name);
+  const [mergeTargetId, setMergeTargetId] = useState("");
+  const isRenamed = normalizeTagName(name) !== "" && normalizeTagName(name) !== tag.name;
+
+  return (
+    <li className="grid gap-2 rounded-xl border border-white/10 bg-slate-900/40 p-3 sm:grid-cols-[minmax(0,1fr)_auto_minmax(0,1fr)_auto] sm:items-center">
+      <div className="flex items-center gap-2">
+        <input
+          type="text"
+          value={name}
+          onChange={(event) => setName(event.target.value)}
+          className={`${inputClassName} min-w-0 flex-1`}
+          aria-label={`Rename ${tag.name}`}
+        />
+        <button
+          type="button"
+          onClick={() => onRename(name)}
+          disabled={!isRenamed || isBusy}
+          className="inline-flex items-center justify-center rounded-full border border-white/10 p-2 text-slate-300 transition hover:bg-white/10 disabled:opacity-40"
+          aria-label="Save name"
+        >
+          <Check className="h-4 w-4" />
+        </button>
+      </div>
+      <span className="text-xs text-slate-500">
+        {usageCount} trade{usageCount === 1 ? "" : "s"}
+      </span>
+      <div className="flex items-center gap-2">
+        <select
+          value={mergeTargetId}
+          onChange={(event) => setMergeTargetId(event.target.value)}
+          className={`${inputClassName} min-w-0 flex-1`}
+          aria-label={`Merge ${tag.name} into`}
+        >
+          <option value="">Merge into…</option>
+          {mergeTargets.map((target) => (
+            <option key={target.id} value={target.id}>
+              {target.name}
+            </option>
+          ))}
+        </select>
+        <button
+          type="button"
+          onClick={() => onMerge(mergeTargetId)}
+          disabled={!mergeTargetId || isBusy}
+          className="inline-flex items-center justify-center rounded-full border border-white/10 p-2 text-slate-300 transition hover:bg-white/10 disabled:opacity-40"
+          aria-label="Merge tag"
+        >
+          <GitMerge className="h-4 w-4" />
+        </button>
+      </div>
+      <button
+        type="button"
+        onClick={onDelete}
+        disabled={isBusy}
+        className="inline-flex items-center justify-center justify-self-end rounded-full border border-rose-500/40 p-2 text-rose-300 transition hover:bg-rose-500/10 disabled:opacity-40"
+        aria-label={`Delete ${tag.name}`}
+      >
+        <Trash2 className="h-4 w-4" />
+      </button>
+    </li>
+  );
+}
+
+export default function TagManager({
+  tags,
+  usage,
+  onClose,
+  onRename,
+  onMerge,
+  onDelete,
+}: TagManagerProps) {
+  const [isBusy, setIsBusy] = useState(false);
+
+  const runAction = async (action: () => Promise<void>) => {
+    setIsBusy(true);
+    try {
+      await action();
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleDelete = (tag: Tag) => {
+    const usageCount = usage[tag.id] ?? 0;
+    if (
+      usageCount > 0 &&
+      !confirm(`Remove "${tag.name}" from ${usageCount} trade(s) and delete it?`)
+    ) {
+      return;
+    }
+    void runAction(() => onDelete(tag.id));
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-start justify-center overflow-y-auto bg-black/70 px-4 py-6">
+      <div className="w-full max-w-3xl rounded-2xl border border-white/10 bg-slate-950 p-6 shadow-2xl shadow-black/70 outline-none md:max-h-[92vh] md:overflow-y-auto">
+        <div className="flex items-center justify-between border-b border-white/10 pb-4">
+          <h2 className="text-lg font-semibold text-white">Manage Tags</h2>
+          <button
+            type="button"
+            onClick={onClose}
+            className="inline-flex items-center justify-center rounded-full border border-white/10 p-2 text-slate-300 transition hover:bg-white/10"
+            aria-label="Close tag manager"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+
+        {tags.length === 0 ? (
+          <p className="mt-6 rounded-xl border border-white/10 bg-slate-900/40 p-4 text-sm text-slate-400">
+            No tags yet. Create them while logging a trade.
+          </p>
+        ) : (
+          tagCategories.map((category) => {
+            const categoryTags = tags.filter((tag) => tag.category === category);
+            if (categoryTags.length === 0) {
+              return null;
+            }
+            return (
+              <section key={category} className="mt-6">
+                <h3 className="text-xs uppercase tracking-[0.2em] text-slate-500">
+                  {tagCategoryLabels[category]}
+                </h3>
+                <ul className="mt-3 space-y-2">
+                  {categoryTags.map((tag) => (
+                    <TagManagerRow
+                      key={`${tag.id}-${tag.name}`}
+                      tag={tag}
+                      usageCount={usage[tag.id] ?? 0}
+                      mergeTargets={categoryTags.filter(
+                        (target) => target.id !== tag.id,
+                      )}
+                      isBusy={isBusy}
+                      onRename={(name) =>
+                        void runAction(() => onRename(tag.id, name))
+                      }
+                      onMerge={(targetTagId) =>
+                        void runAction(() => onMerge(tag.id, targetTagId))
+                      }
+                      onDelete={() => handleDelete(tag)}
+                    />
+                  ))}
+                </ul>
+              </section>
+            );
+          })
+        )}
+
+        <div className="mt-6 flex items-center justify-between gap-3 border-t border-white/10 pt-4">
+          <p className="text-xs text-slate-500">
+            Merging moves every trade onto the target tag.
+          </p>
+          <button
+            type="button"
+            onClick={onClose}
+            className="inline-flex items-center gap-2 rounded-full border border-white/15 px-4 py-2 text-sm font-semibold text-slate-200 transition hover:bg-white/10"
+          >
+            Done
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,143 @@
+"use client";
+
+import { KeyboardEvent, useMemo, useState } from "react";
+import { Plus, X } from "lucide-react";
+import TradeTags from "@/components/TradeTags";
+import {
+  Tag,
+  TagCategory,
+  findTagByName,
+  getTagsById,
+  normalizeTagName,
+  searchTags,
+  tagCategories,
+  tagCategoryLabels,
+} from "@/lib/tags";
+
+type TagPickerProps = {
+  tags: Tag[];
+  selectedIds: string[];
+  onChange: (tagIds: string[]) => void;
+  onCreateTag: (name: string, category: TagCategory) => Promise<Tag | null>;
+};
+
+const maxSuggestions = 8;
+
+export default function TagPicker({
+  tags,
+  selectedIds,
+  onChange,
+  onCreateTag,
+}: TagPickerProps) {
+  const [query, setQuery] = useState("");
+  const [category, setCategory] = useState<TagCategory>("Setup");
+  const [isCreating, setIsCreating] = useState(false);
+
+  const selectedTags = getTagsById(tags, selectedIds);
+  const suggestions = useMemo(
+    () => searchTags(tags, query, selectedIds).slice(0, maxSuggestions),
+    [tags, query, selectedIds],
+  );
+  const name = normalizeTagName(query);
+  const canCreate = name !== "" && !findTagByName(tags, name, category);
+
+  const addTag = (tagId: string) => {
+    onChange([...selectedIds, tagId]);
+    setQuery("");
+  };
+
+  const createTag = async () => {
+    if (!canCreate || isCreating) {
+      return;
+    }
+    setIsCreating(true);
+    const tag = await onCreateTag(name, category);
+    setIsCreating(false);
+    if (tag) {
+      addTag(tag.id);
+    }
+  };
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    if (event.key !== "Enter") {
+      return;
+    }
+    event.preventDefault();
+    const existing = findTagByName(tags, name, category);
+    if (existing && !selectedIds.includes(existing.id)) {
+      addTag(existing.id);
+    } else if (suggestions.length === 1) {
+      addTag(suggestions[0].id);
+    } else {
+      void createTag();
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      {selectedTags.length > 0 ? (
+        <div className="flex flex-wrap gap-1.5">
+          {selectedTags.map((tag) => (
+            <button
+              key={tag.id}
+              type="button"
+              onClick={() => onChange(selectedIds.filter((id) => id !== tag.id))}
+              className="group inline-flex items-center"
+              aria-label={`Remove ${tag.name}`}
+            >
+              <TradeTags tags={[tag]} />
+              <X className="-ml-1 h-3.5 w-3.5 text-slate-500 group-hover:text-white" />
+            </button>
+          ))}
+        </div>
+      ) : null}
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={query}
+          onChange={(event) => setQuery(event.target.value)}
+          onKeyDown={handleKeyDown}
+          placeholder="Search or create a tag"
+          className="min-w-0 flex-1 rounded-lg border border-white/10 bg-slate-900/60 px-3 py-2 text-sm text-white focus:border-emerald-500 focus:outline-none focus:ring-2 focus:ring-emerald-500/40"
+        />
+        <select
+          value={category}
+          onChange={(event) => setCategory(event.target.value as TagCategory)}
+          className="rounded-lg border border-white/10 bg-slate-900/60 px-3 py-2 text-sm text-white focus:border-emerald-500 focus:outline-none focus:ring-2 focus:ring-emerald-500/40"
+          aria-label="New tag category"
+        >
+          {tagCategories.map((option) => (
+            <option key={option} value={option}>
+              {tagCategoryLabels[option]}
+            </option>
+          ))}
+        </select>
+      </div>
+      {query.trim() || suggestions.length > 0 ? (
+        <div className="flex flex-wrap gap-1.5">
+          {suggestions.map((tag) => (
+            <button
+              key={tag.id}
+              type="button"
+              onClick={() => addTag(tag.id)}
+              className="transition hover:opacity-80"
+            >
+              <TradeTags tags={[tag]} />
+            </button>
+          ))}
+          {canCreate ? (
+            <button
+              type="button"
+              onClick={() => void createTag()}
+              disabled={isCreating}
+              className="inline-flex items-center gap-1 rounded-full border border-dashed border-white/20 px-2 py-0.5 text-xs text-slate-300 transition hover:border-emerald-400 hover:text-emerald-300 disabled:opacity-60"
+            >
+              <Plus className="h-3 w-3" />
+              Create &ldquo;{name}&rdquo; as {tagCategoryLabels[category]}
+            </button>
+          ) : null}
+        </div>
+      ) : null}
+    </div>
+  );
+}
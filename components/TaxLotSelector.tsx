@@ -0,0 +1,97 @@
+import { formatCurrency, formatDate } from "@/lib/format";
+import { TaxDisposal, TaxLot } from "@/lib/taxLots";
+import { useState } from "react";
+
+type TaxLotSelectorProps = {
+  disposal: TaxDisposal;
+  lots: TaxLot[];
+  selectedLotIds: string[];
+  currency: string;
+  isSaving: boolean;
+  onSave: (lotIds: string[]) => void;
+  onCancel: () => void;
+};
+
+const formatQuantity = (value: number) =>
+  value.toLocaleString("en-US", { maximumFractionDigits: 8 });
+
+// Lots are matched in the order they are ticked; whatever they do not cover
+// is matched first in, first out.
+export default function TaxLotSelector({
+  disposal,
+  lots,
+  selectedLotIds,
+  currency,
+  isSaving,
+  onSave,
+  onCancel,
+}: TaxLotSelectorProps) {
+  const [lotIds, setLotIds] = useState(selectedLotIds);
+
+  const toggleLot = (lotId: string) =>
+    setLotIds((prev) =>
+      prev.includes(lotId) ? prev.filter((id) => id !== lotId) : [...prev, lotId],
+    );
+
+  return (
+    <div className="mt-3 rounded-xl border border-white/10 bg-slate-950/60 p-4">
+      <p className="text-sm text-slate-300">
+        Choose the lots this sale of {formatQuantity(disposal.quantity)}{" "}
+        {disposal.asset} on {formatDate(disposal.disposedAt)} disposes of.
+      </p>
+      {lots.length === 0 ? (
+        <p className="mt-3 text-sm text-slate-400">
+          No {disposal.asset} was bought before this sale.
+        </p>
+      ) : (
+        <ul className="mt-3 divide-y divide-white/5 text-sm">
+          {lots.map((lot) => {
+            const order = lotIds.indexOf(lot.id);
+            return (
+              <li key={lot.id}>
+                <label className="flex cursor-pointer items-center gap-3 py-2 text-slate-300">
+                  <input
+                    type="checkbox"
+                    checked={order !== -1}
+                    onChange={() => toggleLot(lot.id)}
+                    className="h-4 w-4 rounded border-white/20 bg-slate-900 text-emerald-500 focus:ring-emerald-500/40"
+                  />
+                  <span className="w-6 text-xs font-semibold text-emerald-300">
+                    {order !== -1 ? `#${order + 1}` : ""}
+                  </span>
+                  <span className="flex-1">
+                    {formatDate(lot.acquiredAt)} · {formatQuantity(lot.quantity)}{" "}
+                    {lot.asset}{" "}
+                    {lot.priced
+                      ? `at ${formatCurrency(lot.costBasis / lot.quantity, currency)}`
+                      : "unpriced"}
+                  </span>
+                  <span className="text-xs text-slate-500">
+                    {formatQuantity(lot.remainingQuantity)} unsold
+                  </span>
+                </label>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+      <div className="mt-3 flex flex-wrap justify-end gap-2">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="rounded-full border border-white/10 px-4 py-1.5 text-xs font-semibold text-slate-200 transition hover:bg-white/10"
+        >
+          Cancel
+        </button>
+        <button
+          type="button"
+          onClick={() => onSave(lotIds)}
+          disabled={isSaving}
+          className="rounded-full bg-emerald-500 px-4 py-1.5 text-xs font-semibold text-emerald-950 transition hover:bg-emerald-400 disabled:cursor-not-allowed disabled:opacity-60"
+        >
+          {isSaving ? "Saving…" : "Save Lots"}
+        </button>
+      </div>
+    </div>
+  );
+}
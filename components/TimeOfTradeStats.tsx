@@ -0,0 +1,92 @@
+import { TimeBucket } from "@/lib/calendar";
+import { formatPnL } from "@/lib/format";
+
+type TimeOfTradeStatsProps = {
+  weekdays: TimeBucket[];
+  hours: TimeBucket[];
+  currency: string;
+};
+
+type BucketBarsProps = {
+  title: string;
+  buckets: TimeBucket[];
+  currency: string;
+};
+
+const BucketBars = ({ title, buckets, currency }: BucketBarsProps) => {
+  const maxAbsPnl = Math.max(...buckets.map((bucket) => Math.abs(bucket.pnl)), 1);
+
+  return (
+    <div>
+      <h3 className="text-xs font-semibold uppercase tracking-[0.2em] text-slate-400">
+        {title}
+      </h3>
+      <div className="mt-3 flex h-28 items-stretch gap-1">
+        {buckets.map((bucket) => (
+          <div
+            key={bucket.label}
+            title={`${bucket.label}: ${formatPnL(bucket.pnl, currency)} over ${
+              bucket.tradeCount
+            } trade${bucket.tradeCount === 1 ? "" : "s"}${
+              bucket.tradeCount > 0
+                ? `, ${Math.round((bucket.winCount / bucket.tradeCount) * 100)}% wins`
+                : ""
+            }`}
+            className="flex flex-1 flex-col"
+          >
+            <div className="flex flex-1 items-end">
+              {bucket.pnl > 0 ? (
+                <div
+                  className="w-full rounded-t-sm bg-emerald-500/50"
+                  style={{ height: `${(bucket.pnl / maxAbsPnl) * 100}%` }}
+                />
+              ) : null}
+            </div>
+            <div className="h-px bg-white/10" />
+            <div className="flex flex-1 items-start">
+              {bucket.pnl < 0 ? (
+                <div
+                  className="w-full rounded-b-sm bg-rose-500/50"
+                  style={{ height: `${(Math.abs(bucket.pnl) / maxAbsPnl) * 100}%` }}
+                />
+              ) : null}
+            </div>
+          </div>
+        ))}
+      </div>
+      <div className="mt-2 flex gap-1">
+        {buckets.map((bucket, index) => (
+          <span
+            key={bucket.label}
+            className="flex-1 text-center text-[10px] uppercase tracking-wide text-slate-500"
+          >
+            {buckets.length > 12 && index % 3 !== 0 ? "" : bucket.label}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default function TimeOfTradeStats({
+  weekdays,
+  hours,
+  currency,
+}: TimeOfTradeStatsProps) {
+  const hourlyTrades = hours.reduce((acc, bucket) => acc + bucket.tradeCount, 0);
+
+  return (
+    <section className="rounded-2xl border border-white/5 bg-slate-900/60 p-5 backdrop-blur sm:p-6">
+      <h2 className="text-lg font-semibold text-white">When You Trade</h2>
+      <p className="text-sm text-slate-400">
+        Net PnL of closed trades by weekday and by entry hour
+        {hourlyTrades > 0 ? "" : " (hours need entry fills with a time)"}. Hover a
+        bar for details.
+      </p>
+      <div className="mt-5 grid gap-6 lg:grid-cols-2">
+        <BucketBars title="Weekday" buckets={weekdays} currency={currency} />
+        <BucketBars title="Hour of Entry" buckets={hours} currency={currency} />
+      </div>
+    </section>
+  );
+}
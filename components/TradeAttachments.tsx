@@ -0,0 +1,193 @@
+"use client";
+
+import { ChangeEvent, useEffect, useState } from "react";
+import { ImagePlus, Trash2 } from "lucide-react";
+import { attachmentStorage } from "@/lib/attachmentStorage";
+import { TradeAttachment, validateAttachmentFile } from "@/lib/journal";
+import {
+  deleteTradeAttachment,
+  fetchTradeAttachments,
+  uploadTradeAttachment,
+} from "@/lib/journalQueries";
+
+type TradeAttachmentsProps = {
+  userId: string;
+  tradeId: string;
+};
+
+type AttachmentWithUrl = TradeAttachment & { url: string | null };
+
+const withUrl = async (attachment: TradeAttachment): Promise<AttachmentWithUrl> => {
+  try {
+    return { ...attachment, url: await attachmentStorage.getUrl(attachment.storagePath) };
+  } catch (urlErr) {
+    console.error(urlErr);
+    return { ...attachment, url: null };
+  }
+};
+
+const revokeLocalUrls = (attachments: AttachmentWithUrl[]) =>
+  attachments.forEach((attachment) => {
+    if (attachment.url?.startsWith("blob:")) {
+      URL.revokeObjectURL(attachment.url);
+    }
+  });
+
+export default function TradeAttachments({ userId, tradeId }: TradeAttachmentsProps) {
+  const [attachments, setAttachments] = useState<AttachmentWithUrl[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isUploading, setIsUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let isCurrent = true;
+    let loaded: AttachmentWithUrl[] = [];
+
+    const loadAttachments = async () => {
+      try {
+        setIsLoading(true);
+        loaded = await Promise.all(
+          (await fetchTradeAttachments(userId, tradeId)).map(withUrl),
+        );
+        if (isCurrent) {
+          setAttachments(loaded);
+          setError(null);
+        }
+      } catch (fetchErr) {
+        console.error(fetchErr);
+        if (isCurrent) {
+          setError(
+            fetchErr instanceof Error
+              ? fetchErr.message
+              : "Failed to load screenshots.",
+          );
+        }
+      } finally {
+        if (isCurrent) {
+          setIsLoading(false);
+        }
+      }
+    };
+
+    loadAttachments();
+    return () => {
+      isCurrent = false;
+      revokeLocalUrls(loaded);
+    };
+  }, [tradeId, userId]);
+
+  const handleUpload = async (event: ChangeEvent<HTMLInputElement>) => {
+    const files = [...(event.target.files ?? [])];
+    event.target.value = "";
+    const invalid = files.map(validateAttachmentFile).find(Boolean);
+    if (invalid) {
+      alert(invalid);
+      return;
+    }
+
+    setIsUploading(true);
+    try {
+      for (const file of files) {
+        const uploaded = await withUrl(
+          await uploadTradeAttachment(userId, tradeId, file),
+        );
+        setAttachments((prev) => [...prev, uploaded]);
+      }
+    } catch (uploadErr) {
+      console.error(uploadErr);
+      alert(
+        uploadErr instanceof Error
+          ? uploadErr.message
+          : "Failed to upload screenshot. Please try again.",
+      );
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const handleDelete = async (attachment: AttachmentWithUrl) => {
+    if (!window.confirm(`Delete ${attachment.fileName}?`)) {
+      return;
+    }
+
+    try {
+      await deleteTradeAttachment(userId, attachment);
+      revokeLocalUrls([attachment]);
+      setAttachments((prev) => prev.filter((item) => item.id !== attachment.id));
+    } catch (deleteErr) {
+      console.error(deleteErr);
+      alert(
+        deleteErr instanceof Error
+          ? deleteErr.message
+          : "Failed to delete screenshot. Please try again.",
+      );
+    }
+  };
+
+  return (
+    <section className="rounded-xl border border-white/10 bg-slate-900/40 p-4">
+      <div className="flex items-center justify-between gap-3">
+        <h3 className="text-xs uppercase tracking-[0.2em] text-slate-500">
+          Chart Screenshots
+        </h3>
+        <label
+          className={`inline-flex cursor-pointer items-center gap-1 rounded-full border border-white/10 px-3 py-1.5 text-xs font-semibold text-slate-300 transition hover:bg-white/10 ${
+            isUploading ? "pointer-events-none opacity-60" : ""
+          }`}
+        >
+          <ImagePlus className="h-3.5 w-3.5" />
+          {isUploading ? "Uploading..." : "Add Screenshot"}
+          <input
+            type="file"
+            accept="image/*"
+            multiple
+            onChange={handleUpload}
+            className="hidden"
+          />
+        </label>
+      </div>
+      {error ? (
+        <p className="mt-3 text-sm text-rose-300">{error}</p>
+      ) : isLoading ? (
+        <p className="mt-3 text-sm text-slate-500">Loading screenshots...</p>
+      ) : attachments.length === 0 ? (
+        <p className="mt-3 text-sm text-slate-500">No screenshots attached.</p>
+      ) : (
+        <div className="mt-3 grid gap-3 sm:grid-cols-2">
+          {attachments.map((attachment) => (
+            <figure
+              key={attachment.id}
+              className="overflow-hidden rounded-lg border border-white/10 bg-slate-950/60"
+            >
+              {attachment.url ? (
+                <a href={attachment.url} target="_blank" rel="noreferrer">
+                  {/* eslint-disable-next-line @next/next/no-img-element -- signed and blob URLs cannot go through next/image */}
+                  <img
+                    src={attachment.url}
+                    alt={attachment.fileName}
+                    className="h-40 w-full object-cover"
+                  />
+                </a>
+              ) : (
+                <div className="flex h-40 items-center justify-center text-xs text-slate-500">
+                  Preview unavailable
+                </div>
+              )}
+              <figcaption className="flex items-center justify-between gap-2 px-3 py-2 text-xs text-slate-400">
+                <span className="truncate">{attachment.fileName}</span>
+                <button
+                  type="button"
+                  onClick={() => handleDelete(attachment)}
+                  className="inline-flex items-center justify-center rounded-full border border-rose-500/30 bg-rose-500/10 p-1.5 text-rose-300 transition hover:bg-rose-500/20"
+                  aria-label={`Delete ${attachment.fileName}`}
+                >
+                  <Trash2 className="h-3.5 w-3.5" />
+                </button>
+              </figcaption>
+            </figure>
+          ))}
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,235 @@
+import { useState } from "react";
+import { CalendarClock, Download, Trash2, X } from "lucide-react";
+import { Tag, sortTags, tagCategoryLabels } from "@/lib/tags";
+import {
+  TradeBatchOperation,
+  buildSetSetupOperation,
+  maxDateShiftDays,
+} from "@/lib/tradeBatch";
+
+// What the last batch did, with the trades it could not change labelled for
+// display.
+export type TradeBatchSummary = {
+  message: string;
+  failures: { label: string; message: string }[];
+};
+
+type TradeBatchBarProps = {
+  selectedCount: number;
+  filteredCount: number;
+  tags: Tag[];
+  canEdit: boolean;
+  isWorking: boolean;
+  summary: TradeBatchSummary | null;
+  onSelectAllFiltered: () => void;
+  onClearSelection: () => void;
+  onApply: (operation: TradeBatchOperation) => void;
+  onExport: () => void;
+  onDismissSummary: () => void;
+};
+
+const selectClassName =
+  "rounded-lg border border-white/10 bg-slate-900/60 px-3 py-1.5 text-xs text-white focus:border-emerald-500 focus:outline-none focus:ring-2 focus:ring-emerald-500/40 disabled:opacity-50";
+
+export default function TradeBatchBar({
+  selectedCount,
+  filteredCount,
+  tags,
+  canEdit,
+  isWorking,
+  summary,
+  onSelectAllFiltered,
+  onClearSelection,
+  onApply,
+  onExport,
+  onDismissSummary,
+}: TradeBatchBarProps) {
+  const [shiftDays, setShiftDays] = useState("1");
+  const isDisabled = !canEdit || isWorking;
+  const sortedTags = sortTags(tags);
+  const setupTags = sortedTags.filter((tag) => tag.category === "Setup");
+  const parsedShiftDays = Number(shiftDays);
+  const isShiftValid =
+    Number.isInteger(parsedShiftDays) &&
+    parsedShiftDays !== 0 &&
+    Math.abs(parsedShiftDays) <= maxDateShiftDays;
+
+  const applyTagChange = (
+    tagId: string,
+    build: (tagId: string) => TradeBatchOperation,
+  ) => {
+    if (tagId) {
+      onApply(build(tagId));
+    }
+  };
+
+  return (
+    <div className="mt-4 space-y-3">
+      {selectedCount > 0 ? (
+        <div className="flex flex-wrap items-center gap-3 rounded-xl border border-emerald-500/30 bg-emerald-500/5 px-4 py-3 text-sm text-slate-200">
+          <p className="font-semibold">
+            {selectedCount} selected
+            {selectedCount < filteredCount ? (
+              <button
+                type="button"
+                onClick={onSelectAllFiltered}
+                className="ml-2 text-xs font-medium text-emerald-300 underline-offset-2 hover:underline"
+              >
+                Select all {filteredCount} filtered
+              </button>
+            ) : null}
+          </p>
+          <select
+            value=""
+            onChange={(event) =>
+              applyTagChange(event.target.value, (tagId) => ({
+                kind: "tag",
+                addTagIds: [tagId],
+                removeTagIds: [],
+              }))
+            }
+            disabled={isDisabled}
+            className={selectClassName}
+            aria-label="Add tag to selected trades"
+          >
+            <option value="">Add tag…</option>
+            {sortedTags.map((tag) => (
+              <option key={tag.id} value={tag.id}>
+                {tagCategoryLabels[tag.category]}: {tag.name}
+              </option>
+            ))}
+          </select>
+          <select
+            value=""
+            onChange={(event) =>
+              applyTagChange(event.target.value, (tagId) => ({
+                kind: "tag",
+                addTagIds: [],
+                removeTagIds: [tagId],
+              }))
+            }
+            disabled={isDisabled}
+            className={selectClassName}
+            aria-label="Remove tag from selected trades"
+          >
+            <option value="">Remove tag…</option>
+            {sortedTags.map((tag) => (
+              <option key={tag.id} value={tag.id}>
+                {tagCategoryLabels[tag.category]}: {tag.name}
+              </option>
+            ))}
+          </select>
+          <select
+            value=""
+            onChange={(event) =>
+              applyTagChange(event.target.value, (tagId) =>
+                buildSetSetupOperation(tags, tagId),
+              )
+            }
+            disabled={isDisabled || setupTags.length === 0}
+            className={selectClassName}
+            aria-label="Set setup for selected trades"
+          >
+            <option value="">Set setup…</option>
+            {setupTags.map((tag) => (
+              <option key={tag.id} value={tag.id}>
+                {tag.name}
+              </option>
+            ))}
+          </select>
+          <div className="flex items-center gap-2">
+            <input
+              type="number"
+              step="1"
+              value={shiftDays}
+              onChange={(event) => setShiftDays(event.target.value)}
+              disabled={isDisabled}
+              className={`${selectClassName} w-20`}
+              aria-label="Days to shift selected trades by"
+            />
+            <button
+              type="button"
+              onClick={() =>
+                onApply({ kind: "shiftDates", days: parsedShiftDays })
+              }
+              disabled={isDisabled || !isShiftValid}
+              className="inline-flex items-center gap-1.5 rounded-full border border-white/10 px-3 py-1.5 text-xs font-semibold text-slate-200 transition hover:bg-white/10 disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              <CalendarClock className="h-3.5 w-3.5" />
+              Shift days
+            </button>
+          </div>
+          <button
+            type="button"
+            onClick={onExport}
+            disabled={isWorking}
+            className="inline-flex items-center gap-1.5 rounded-full border border-white/10 px-3 py-1.5 text-xs font-semibold text-slate-200 transition hover:bg-white/10 disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            <Download className="h-3.5 w-3.5" />
+            Export CSV
+          </button>
+          <button
+            type="button"
+            onClick={() => onApply({ kind: "delete" })}
+            disabled={isDisabled}
+            className="inline-flex items-center gap-1.5 rounded-full border border-rose-500/30 bg-rose-500/10 px-3 py-1.5 text-xs font-semibold text-rose-300 transition hover:bg-rose-500/20 disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            <Trash2 className="h-3.5 w-3.5" />
+            Delete
+          </button>
+          <button
+            type="button"
+            onClick={onClearSelection}
+            className="ml-auto rounded-full p-1 text-slate-500 transition hover:bg-white/10 hover:text-slate-200"
+            aria-label="Clear selection"
+          >
+            <X className="h-4 w-4" />
+          </button>
+          {!canEdit ? (
+            <p className="w-full text-xs text-amber-300">
+              Batch changes need a connection and no unsynced changes. Export
+              still works.
+            </p>
+          ) : null}
+        </div>
+      ) : null}
+      {summary ? (
+        <div
+          role="status"
+          className={`rounded-xl border px-4 py-3 text-sm ${
+            summary.failures.length > 0
+              ? "border-amber-500/30 bg-amber-500/10 text-amber-200"
+              : "border-emerald-500/30 bg-emerald-500/10 text-emerald-200"
+          }`}
+        >
+          <div className="flex items-start justify-between gap-3">
+            <p>
+              {summary.message}
+              {summary.failures.length > 0
+                ? ` ${summary.failures.length} could not be changed:`
+                : ""}
+            </p>
+            <button
+              type="button"
+              onClick={onDismissSummary}
+              className="rounded-full p-1 text-slate-400 transition hover:bg-white/10 hover:text-slate-200"
+              aria-label="Dismiss"
+            >
+              <X className="h-4 w-4" />
+            </button>
+          </div>
+          {summary.failures.length > 0 ? (
+            <ul className="mt-2 space-y-1 text-xs">
+              {summary.failures.map((failure, index) => (
+                <li key={`${failure.label}-${index}`}>
+                  <span className="font-semibold">{failure.label}</span>:{" "}
+                  {failure.message}
+                </li>
+              ))}
+            </ul>
+          ) : null}
+        </div>
+      ) : null}
+    </div>
+  );
+}
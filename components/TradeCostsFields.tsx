@@ -0,0 +1,180 @@
+import { ChangeEvent } from "react";
+import { FeeUnit, Liquidity, TradeCostInputs } from "@/lib/fees";
+
+export type TradeCostFormData = {
+  feeUnit: FeeUnit;
+  makerFee: string;
+  takerFee: string;
+  entryLiquidity: Liquidity;
+  exitLiquidity: Liquidity;
+  funding: string;
+  rebate: string;
+};
+
+type TradeCostsFieldsProps = {
+  values: TradeCostFormData;
+  onChange: (
+    event: ChangeEvent<HTMLInputElement | HTMLSelectElement>,
+  ) => void;
+};
+
+const inputClassName =
+  "rounded-lg border border-white/10 bg-slate-900/60 px-3 py-2 text-sm text-white focus:border-emerald-500 focus:outline-none focus:ring-2 focus:ring-emerald-500/40";
+
+export const createEmptyCostFormData = (): TradeCostFormData => ({
+  feeUnit: "absolute",
+  makerFee: "",
+  takerFee: "",
+  entryLiquidity: "Taker",
+  exitLiquidity: "Taker",
+  funding: "",
+  rebate: "",
+});
+
+export const mapCostInputsToFormData = (
+  inputs: TradeCostInputs,
+): TradeCostFormData => {
+  const toField = (value: number) => (value === 0 ? "" : value.toString());
+  return {
+    feeUnit: inputs.feeUnit,
+    makerFee: toField(inputs.makerFee),
+    takerFee: toField(inputs.takerFee),
+    entryLiquidity: inputs.entryLiquidity,
+    exitLiquidity: inputs.exitLiquidity,
+    funding: toField(inputs.funding),
+    rebate: toField(inputs.rebate),
+  };
+};
+
+// Blank fields count as zero; anything else must be a number.
+export const parseCostFormData = (
+  values: TradeCostFormData,
+): TradeCostInputs | string => {
+  const parseField = (value: string) =>
+    value.trim() === "" ? 0 : parseFloat(value);
+
+  const makerFee = parseField(values.makerFee);
+  const takerFee = parseField(values.takerFee);
+  const funding = parseField(values.funding);
+  const rebate = parseField(values.rebate);
+
+  if ([makerFee, takerFee, funding, rebate].some((value) => !Number.isFinite(value))) {
+    return "Please enter valid numeric values for fees, funding and rebates.";
+  }
+  if (makerFee < 0 || takerFee < 0 || rebate < 0) {
+    return "Fees and rebates cannot be negative. Record funding received as negative funding.";
+  }
+
+  return {
+    feeUnit: values.feeUnit,
+    makerFee,
+    takerFee,
+    entryLiquidity: values.entryLiquidity,
+    exitLiquidity: values.exitLiquidity,
+    funding,
+    rebate,
+  };
+};
+
+export default function TradeCostsFields({
+  values,
+  onChange,
+}: TradeCostsFieldsProps) {
+  const isBps = values.feeUnit === "bps";
+
+  return (
+    <fieldset className="grid gap-4 rounded-xl border border-white/10 bg-slate-900/40 p-4 sm:grid-cols-2">
+      <legend className="px-1 text-xs uppercase tracking-[0.2em] text-slate-500">
+        Costs
+      </legend>
+      <label className="flex flex-col gap-2 text-sm text-slate-300 sm:col-span-2">
+        Fee Unit
+        <select
+          className={inputClassName}
+          name="feeUnit"
+          value={values.feeUnit}
+          onChange={onChange}
+        >
+          <option value="absolute">Amount paid</option>
+          <option value="bps">Basis points of notional</option>
+        </select>
+      </label>
+      <label className="flex flex-col gap-2 text-sm text-slate-300">
+        Maker Fee {isBps ? "(bps)" : ""}
+        <input
+          type="number"
+          step="any"
+          className={inputClassName}
+          name="makerFee"
+          value={values.makerFee}
+          onChange={onChange}
+          placeholder={isBps ? "e.g. 2" : "0.00"}
+        />
+      </label>
+      <label className="flex flex-col gap-2 text-sm text-slate-300">
+        Taker Fee {isBps ? "(bps)" : ""}
+        <input
+          type="number"
+          step="any"
+          className={inputClassName}
+          name="takerFee"
+          value={values.takerFee}
+          onChange={onChange}
+          placeholder={isBps ? "e.g. 5" : "0.00"}
+        />
+      </label>
+      {isBps ? (
+        <>
+          <label className="flex flex-col gap-2 text-sm text-slate-300">
+            Entry Filled As
+            <select
+              className={inputClassName}
+              name="entryLiquidity"
+              value={values.entryLiquidity}
+              onChange={onChange}
+            >
+              <option value="Maker">Maker</option>
+              <option value="Taker">Taker</option>
+            </select>
+          </label>
+          <label className="flex flex-col gap-2 text-sm text-slate-300">
+            Exit Filled As
+            <select
+              className={inputClassName}
+              name="exitLiquidity"
+              value={values.exitLiquidity}
+              onChange={onChange}
+            >
+              <option value="Maker">Maker</option>
+              <option value="Taker">Taker</option>
+            </select>
+          </label>
+        </>
+      ) : null}
+      <label className="flex flex-col gap-2 text-sm text-slate-300">
+        Funding Paid
+        <input
+          type="number"
+          step="any"
+          className={inputClassName}
+          name="funding"
+          value={values.funding}
+          onChange={onChange}
+          placeholder="Negative if received"
+        />
+      </label>
+      <label className="flex flex-col gap-2 text-sm text-slate-300">
+        Rebates
+        <input
+          type="number"
+          step="any"
+          className={inputClassName}
+          name="rebate"
+          value={values.rebate}
+          onChange={onChange}
+          placeholder="0.00"
+        />
+      </label>
+    </fieldset>
+  );
+}
@@ -0,0 +1,173 @@
+import { getQuoteAsset } from "@/lib/currency";
+import { formatCurrency, formatDate, formatPnL, formatR } from "@/lib/format";
+import { instrumentTypeLabels, isLeveragedInstrument } from "@/lib/margin";
+import {
+  calculatePlannedRewardToRisk,
+  calculateRMultiple,
+  calculateRealizedRewardToRisk,
+  getTradeInitialRisk,
+} from "@/lib/risk";
+import {
+  Trade,
+  getAverageEntryPrice,
+  getOpenQuantity,
+  getTradeCosts,
+  getTradeMarginSummary,
+} from "@/lib/trades";
+
+type TradeDetailMetricsProps = {
+  trade: Trade;
+};
+
+type Metric = {
+  label: string;
+  value: string;
+  tone?: "positive" | "negative";
+};
+
+const toneClassNames = {
+  positive: "text-emerald-400",
+  negative: "text-rose-400",
+};
+
+const signedTone = (value: number | null): Metric["tone"] =>
+  value === null ? undefined : value >= 0 ? "positive" : "negative";
+
+export default function TradeDetailMetrics({ trade }: TradeDetailMetricsProps) {
+  const quoteAsset = getQuoteAsset(trade.pair);
+  const formatPrice = (value: number | null) =>
+    value === null ? "—" : formatCurrency(value, quoteAsset);
+
+  const costs = getTradeCosts(trade, trade.fills);
+  const initialRisk = getTradeInitialRisk(trade);
+  const rMultiple = calculateRMultiple(trade);
+  const planned = calculatePlannedRewardToRisk({
+    direction: trade.direction,
+    entryPrice: getAverageEntryPrice(trade),
+    stopLoss: trade.stopLoss,
+    takeProfit: trade.takeProfit,
+    positionSize: trade.positionSize,
+  });
+  const realized = calculateRealizedRewardToRisk(trade);
+  const margin = getTradeMarginSummary(trade);
+  const { instrumentType, leverage, marginMode } = trade.marginInputs;
+
+  const sections: { title: string; metrics: Metric[] }[] = [
+    {
+      title: "Execution",
+      metrics: [
+        { label: "Logged", value: formatDate(trade.date) },
+        { label: "Status", value: trade.status },
+        { label: "Avg Entry", value: formatPrice(getAverageEntryPrice(trade)) },
+        { label: "Exit", value: formatPrice(trade.exitPrice) },
+        {
+          label: "Size",
+          value:
+            getOpenQuantity(trade) > 0
+              ? `${trade.positionSize} (${getOpenQuantity(trade)} open)`
+              : `${trade.positionSize}`,
+        },
+        {
+          label: "Instrument",
+          value: isLeveragedInstrument(instrumentType)
+            ? `${instrumentTypeLabels[instrumentType]} · ${leverage}x ${marginMode}`
+            : instrumentTypeLabels[instrumentType],
+        },
+      ],
+    },
+    {
+      title: "Result",
+      metrics: [
+        {
+          label: "Gross PnL",
+          value: formatPnL(trade.pnl, quoteAsset),
+          tone: signedTone(trade.pnl),
+        },
+        { label: "Fees", value: formatCurrency(costs.fees, quoteAsset) },
+        {
+          label: "Funding / Rebate",
+          value: `${formatCurrency(costs.funding, quoteAsset)} / ${formatCurrency(
+            costs.rebate,
+            quoteAsset,
+          )}`,
+        },
+        {
+          label: "Net PnL",
+          value: formatPnL(trade.netPnl, quoteAsset),
+          tone: signedTone(trade.netPnl),
+        },
+        {
+          label: "USD Rate",
+          value:
+            trade.quoteUsdRate === null
+              ? "Settings table"
+              : `1 ${quoteAsset} = ${formatCurrency(trade.quoteUsdRate)}`,
+        },
+      ],
+    },
+    {
+      title: "Risk",
+      metrics: [
+        { label: "Stop Loss", value: formatPrice(trade.stopLoss) },
+        { label: "Take Profit", value: formatPrice(trade.takeProfit) },
+        {
+          label: "Initial Risk",
+          value: initialRisk === null ? "—" : formatCurrency(initialRisk, quoteAsset),
+        },
+        {
+          label: "R-Multiple",
+          value: rMultiple === null ? "—" : formatR(rMultiple),
+          tone: signedTone(rMultiple),
+        },
+        {
+          label: "R:R Plan / Real",
+          value: `${planned === null ? "—" : planned.toFixed(2)} / ${
+            realized === null ? "—" : realized.toFixed(2)
+          }`,
+        },
+        {
+          label: "Initial Margin",
+          value: formatCurrency(margin.initialMargin, quoteAsset),
+        },
+        {
+          label: "Return on Margin",
+          value:
+            margin.returnOnMargin === null
+              ? "—"
+              : `${(margin.returnOnMargin * 100).toFixed(1)}%`,
+          tone: signedTone(margin.returnOnMargin),
+        },
+        { label: "Liquidation", value: formatPrice(margin.liquidationPrice) },
+      ],
+    },
+  ];
+
+  return (
+    <div className="grid gap-4 lg:grid-cols-3">
+      {sections.map((section) => (
+        <section
+          key={section.title}
+          className="rounded-2xl border border-white/5 bg-slate-900/60 p-5"
+        >
+          <h2 className="text-xs uppercase tracking-[0.2em] text-slate-500">
+            {section.title}
+          </h2>
+          <dl className="mt-4 space-y-3 text-sm">
+            {section.metrics.map((metric) => (
+              <div key={metric.label} className="flex items-baseline justify-between gap-3">
+                <dt className="text-slate-400">{metric.label}</dt>
+                <dd
+                  className={`text-right font-medium ${
+                    metric.tone ? toneClassNames[metric.tone] : "text-slate-200"
+                  }`}
+                >
+                  {metric.value}
+                </dd>
+              </div>
+            ))}
+          </dl>
+        </section>
+      ))}
+    </div>
+  );
+}
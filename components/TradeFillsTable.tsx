@@ -0,0 +1,71 @@
+import { getQuoteAsset } from "@/lib/currency";
+import { formatCurrency } from "@/lib/format";
+import { Trade, summarizeFills } from "@/lib/trades";
+
+type TradeFillsTableProps = {
+  trade: Trade;
+};
+
+const formatExecutedAt = (value: string) => {
+  const parsed = new Date(value);
+  if (Number.isNaN(parsed.getTime())) {
+    return value;
+  }
+  return parsed.toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+};
+
+export default function TradeFillsTable({ trade }: TradeFillsTableProps) {
+  const summary = summarizeFills(trade.direction, trade.fills);
+  const quoteAsset = getQuoteAsset(trade.pair);
+
+  return (
+    <div className="rounded-xl border border-white/5 bg-slate-950/40 p-3 text-xs text-slate-300">
+      <div className="flex flex-wrap gap-x-4 gap-y-1 text-[11px] uppercase tracking-[0.2em] text-slate-500">
+        <span>Avg entry {formatCurrency(summary.avgEntryPrice, quoteAsset)}</span>
+        <span>
+          Avg exit{" "}
+          {summary.exitQuantity > 0 ? formatCurrency(summary.avgExitPrice, quoteAsset) : "—"}
+        </span>
+        <span>
+          Closed {summary.exitQuantity} / {summary.entryQuantity}
+        </span>
+        {summary.openQuantity > 0 ? (
+          <span className="text-amber-300">Open {summary.openQuantity}</span>
+        ) : null}
+      </div>
+      <table className="mt-2 w-full">
+        <thead className="text-left text-[11px] uppercase tracking-[0.2em] text-slate-500">
+          <tr>
+            <th className="py-1 font-medium">Side</th>
+            <th className="py-1 font-medium text-right">Price</th>
+            <th className="py-1 font-medium text-right">Qty</th>
+            <th className="py-1 font-medium text-right">Time</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-white/5">
+          {trade.fills.map((fill) => (
+            <tr key={fill.id}>
+              <td
+                className={`py-1 font-semibold ${
+                  fill.side === "Entry" ? "text-emerald-300" : "text-sky-300"
+                }`}
+              >
+                {fill.side}
+              </td>
+              <td className="py-1 text-right">{formatCurrency(fill.price, quoteAsset)}</td>
+              <td className="py-1 text-right">{fill.quantity}</td>
+              <td className="py-1 text-right text-slate-400">
+                {formatExecutedAt(fill.executedAt)}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
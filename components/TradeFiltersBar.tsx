@@ -0,0 +1,94 @@
+import { ChangeEvent } from "react";
+import TagFilterSelect from "@/components/TagFilterSelect";
+import { Account, getAccountLabel } from "@/lib/accounts";
+import { Tag } from "@/lib/tags";
+import { TradeFilters } from "@/lib/tradeFilters";
+
+type TradeFiltersBarProps = {
+  filters: TradeFilters;
+  tags: Tag[];
+  accounts: Account[];
+  onChange: (event: ChangeEvent<HTMLInputElement | HTMLSelectElement>) => void;
+  onTagIdsChange: (tagIds: string[]) => void;
+};
+
+export default function TradeFiltersBar({
+  filters,
+  tags,
+  accounts,
+  onChange,
+  onTagIdsChange,
+}: TradeFiltersBarProps) {
+  return (
+    <div className="mt-4 grid gap-3 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-6">
+      <label className="flex flex-col gap-2 text-xs font-semibold uppercase tracking-[0.2em] text-slate-400">
+        Pair
+        <input
+          type="text"
+          name="pair"
+          value={filters.pair}
+          onChange={onChange}
+          placeholder="Search pair"
+          className="rounded-lg border border-white/10 bg-slate-900/60 px-3 py-2 text-sm text-white focus:border-emerald-500 focus:outline-none focus:ring-2 focus:ring-emerald-500/40"
+        />
+      </label>
+      <div className="flex flex-col gap-2 text-xs font-semibold uppercase tracking-[0.2em] text-slate-400">
+        Tags
+        <TagFilterSelect
+          tags={tags}
+          selectedIds={filters.tagIds}
+          onChange={onTagIdsChange}
+        />
+      </div>
+      <label className="flex flex-col gap-2 text-xs font-semibold uppercase tracking-[0.2em] text-slate-400">
+        Direction
+        <select
+          name="direction"
+          value={filters.direction}
+          onChange={onChange}
+          className="rounded-lg border border-white/10 bg-slate-900/60 px-3 py-2 text-sm text-white focus:border-emerald-500 focus:outline-none focus:ring-2 focus:ring-emerald-500/40"
+        >
+          <option value="All">All directions</option>
+          <option value="Long">Long</option>
+          <option value="Short">Short</option>
+        </select>
+      </label>
+      <label className="flex flex-col gap-2 text-xs font-semibold uppercase tracking-[0.2em] text-slate-400">
+        Account
+        <select
+          name="accountId"
+          value={filters.accountId}
+          onChange={onChange}
+          className="rounded-lg border border-white/10 bg-slate-900/60 px-3 py-2 text-sm text-white focus:border-emerald-500 focus:outline-none focus:ring-2 focus:ring-emerald-500/40"
+        >
+          <option value="">All accounts</option>
+          {accounts.map((account) => (
+            <option key={account.id} value={account.id}>
+              {getAccountLabel(account)}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label className="flex flex-col gap-2 text-xs font-semibold uppercase tracking-[0.2em] text-slate-400">
+        Start Date
+        <input
+          type="date"
+          name="startDate"
+          value={filters.startDate}
+          onChange={onChange}
+          className="rounded-lg border border-white/10 bg-slate-900/60 px-3 py-2 text-sm text-white focus:border-emerald-500 focus:outline-none focus:ring-2 focus:ring-emerald-500/40"
+        />
+      </label>
+      <label className="flex flex-col gap-2 text-xs font-semibold uppercase tracking-[0.2em] text-slate-400">
+        End Date
+        <input
+          type="date"
+          name="endDate"
+          value={filters.endDate}
+          onChange={onChange}
+          className="rounded-lg border border-white/10 bg-slate-900/60 px-3 py-2 text-sm text-white focus:border-emerald-500 focus:outline-none focus:ring-2 focus:ring-emerald-500/40"
+        />
+      </label>
+    </div>
+  );
+}
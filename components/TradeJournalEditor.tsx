@@ -0,0 +1,106 @@
+"use client";
+
+import { useState } from "react";
+import { Edit3 } from "lucide-react";
+import MarkdownText from "@/components/MarkdownText";
+import { TradeJournal, journalSections } from "@/lib/journal";
+
+type TradeJournalEditorProps = {
+  journal: TradeJournal;
+  onSave: (journal: TradeJournal) => Promise<void>;
+};
+
+export default function TradeJournalEditor({
+  journal,
+  onSave,
+}: TradeJournalEditorProps) {
+  const [draft, setDraft] = useState<TradeJournal | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSave = async () => {
+    if (!draft) {
+      return;
+    }
+    setIsSaving(true);
+    try {
+      await onSave(draft);
+      setDraft(null);
+    } catch (saveErr) {
+      console.error(saveErr);
+      alert(
+        saveErr instanceof Error
+          ? saveErr.message
+          : "Failed to save journal. Please try again.",
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <section className="rounded-xl border border-white/10 bg-slate-900/40 p-4">
+      <div className="flex items-center justify-between gap-3">
+        <h3 className="text-xs uppercase tracking-[0.2em] text-slate-500">Journal</h3>
+        {draft ? null : (
+          <button
+            type="button"
+            onClick={() => setDraft(journal)}
+            className="inline-flex items-center gap-1 rounded-full border border-white/10 px-3 py-1.5 text-xs font-semibold text-slate-300 transition hover:bg-white/10"
+          >
+            <Edit3 className="h-3.5 w-3.5" />
+            Edit
+          </button>
+        )}
+      </div>
+      <div className="mt-3 space-y-4">
+        {journalSections.map((section) => (
+          <div key={section.key}>
+            <p className="text-sm font-semibold text-slate-200">{section.label}</p>
+            {draft ? (
+              <textarea
+                rows={4}
+                value={draft[section.key]}
+                onChange={(event) =>
+                  setDraft({ ...draft, [section.key]: event.target.value })
+                }
+                placeholder={section.placeholder}
+                className="mt-2 w-full rounded-lg border border-white/10 bg-slate-900/60 px-3 py-2 font-mono text-sm text-white focus:border-emerald-500 focus:outline-none focus:ring-2 focus:ring-emerald-500/40"
+              />
+            ) : journal[section.key].trim() ? (
+              <div className="mt-2">
+                <MarkdownText source={journal[section.key]} />
+              </div>
+            ) : (
+              <p className="mt-2 text-sm text-slate-500">Nothing written yet.</p>
+            )}
+          </div>
+        ))}
+      </div>
+      {draft ? (
+        <div className="mt-4 flex items-center justify-between gap-3">
+          <p className="text-xs text-slate-500">
+            Markdown: # headings, - lists, **bold**, *italic*, `code`, [links](https://…)
+          </p>
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={() => setDraft(null)}
+              disabled={isSaving}
+              className="inline-flex items-center gap-2 rounded-full border border-white/15 px-4 py-2 text-sm font-semibold text-slate-200 transition hover:bg-white/10"
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={handleSave}
+              disabled={isSaving}
+              className="inline-flex items-center gap-2 rounded-full bg-emerald-500 px-5 py-2 text-sm font-semibold text-emerald-950 transition hover:bg-emerald-400 disabled:cursor-not-allowed disabled:opacity-60"
+            >
+              {isSaving ? "Saving..." : "Save Journal"}
+            </button>
+          </div>
+        </div>
+      ) : null}
+    </section>
+  );
+}
@@ -0,0 +1,150 @@
+import { ChangeEvent } from "react";
+import {
+  InstrumentType,
+  MarginMode,
+  TradeMarginInputs,
+  instrumentTypeLabels,
+  isLeveragedInstrument,
+} from "@/lib/margin";
+
+export type TradeMarginFormData = {
+  instrumentType: InstrumentType;
+  leverage: string;
+  marginMode: MarginMode;
+  initialMargin: string;
+};
+
+type TradeMarginFieldsProps = {
+  values: TradeMarginFormData;
+  onChange: (
+    event: ChangeEvent<HTMLInputElement | HTMLSelectElement>,
+  ) => void;
+};
+
+const inputClassName =
+  "rounded-lg border border-white/10 bg-slate-900/60 px-3 py-2 text-sm text-white focus:border-emerald-500 focus:outline-none focus:ring-2 focus:ring-emerald-500/40";
+
+export const createEmptyMarginFormData = (): TradeMarginFormData => ({
+  instrumentType: "Spot",
+  leverage: "",
+  marginMode: "Isolated",
+  initialMargin: "",
+});
+
+export const mapMarginInputsToFormData = (
+  inputs: TradeMarginInputs,
+): TradeMarginFormData => ({
+  instrumentType: inputs.instrumentType,
+  leverage: inputs.leverage === 1 ? "" : inputs.leverage.toString(),
+  marginMode: inputs.marginMode,
+  initialMargin: inputs.initialMargin?.toString() ?? "",
+});
+
+// Blank leverage means 1x and blank margin means "derive from notional".
+// Spot and options are never leveraged, whatever the form still holds.
+export const parseMarginFormData = (
+  values: TradeMarginFormData,
+): TradeMarginInputs | string => {
+  const isLeveraged = isLeveragedInstrument(values.instrumentType);
+  const leverage =
+    isLeveraged && values.leverage.trim() ? parseFloat(values.leverage) : 1;
+  const initialMargin = values.initialMargin.trim()
+    ? parseFloat(values.initialMargin)
+    : null;
+
+  if (!Number.isFinite(leverage) || leverage < 1) {
+    return "Leverage must be a number of at least 1.";
+  }
+  if (
+    initialMargin !== null &&
+    (!Number.isFinite(initialMargin) || initialMargin <= 0)
+  ) {
+    return "Initial margin must be greater than zero.";
+  }
+
+  return {
+    instrumentType: values.instrumentType,
+    leverage,
+    marginMode: values.marginMode,
+    initialMargin,
+  };
+};
+
+export default function TradeMarginFields({
+  values,
+  onChange,
+}: TradeMarginFieldsProps) {
+  const isLeveraged = isLeveragedInstrument(values.instrumentType);
+
+  return (
+    <fieldset className="grid gap-4 rounded-xl border border-white/10 bg-slate-900/40 p-4 sm:grid-cols-2">
+      <legend className="px-1 text-xs uppercase tracking-[0.2em] text-slate-500">
+        Instrument
+      </legend>
+      <label
+        className={`flex flex-col gap-2 text-sm text-slate-300 ${
+          isLeveraged ? "" : "sm:col-span-2"
+        }`}
+      >
+        Type
+        <select
+          className={inputClassName}
+          name="instrumentType"
+          value={values.instrumentType}
+          onChange={onChange}
+        >
+          {(Object.keys(instrumentTypeLabels) as InstrumentType[]).map((type) => (
+            <option key={type} value={type}>
+              {instrumentTypeLabels[type]}
+            </option>
+          ))}
+        </select>
+      </label>
+      {isLeveraged ? (
+        <>
+          <label className="flex flex-col gap-2 text-sm text-slate-300">
+            Margin Mode
+            <select
+              className={inputClassName}
+              name="marginMode"
+              value={values.marginMode}
+              onChange={onChange}
+            >
+              <option value="Isolated">Isolated</option>
+              <option value="Cross">Cross</option>
+            </select>
+          </label>
+          <label className="flex flex-col gap-2 text-sm text-slate-300">
+            Leverage (x)
+            <input
+              type="number"
+              step="any"
+              min="1"
+              className={inputClassName}
+              name="leverage"
+              value={values.leverage}
+              onChange={onChange}
+              placeholder="1"
+            />
+          </label>
+        </>
+      ) : null}
+      <label
+        className={`flex flex-col gap-2 text-sm text-slate-300 ${
+          isLeveraged ? "" : "sm:col-span-2"
+        }`}
+      >
+        {values.instrumentType === "Option" ? "Premium Paid" : "Initial Margin"}
+        <input
+          type="number"
+          step="any"
+          className={inputClassName}
+          name="initialMargin"
+          value={values.initialMargin}
+          onChange={onChange}
+          placeholder={isLeveraged ? "Notional ÷ leverage" : "Entry notional"}
+        />
+      </label>
+    </fieldset>
+  );
+}
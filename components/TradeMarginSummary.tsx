@@ -0,0 +1,34 @@
+import { getQuoteAsset } from "@/lib/currency";
+import { formatCurrency } from "@/lib/format";
+import { instrumentTypeLabels, isLeveragedInstrument } from "@/lib/margin";
+import { Trade, getTradeMarginSummary } from "@/lib/trades";
+
+type TradeMarginSummaryProps = {
+  trade: Trade;
+};
+
+export default function TradeMarginSummary({ trade }: TradeMarginSummaryProps) {
+  const { instrumentType, leverage, marginMode } = trade.marginInputs;
+  if (instrumentType === "Spot" && trade.marginInputs.initialMargin === null) {
+    return null;
+  }
+
+  const { returnOnMargin, liquidationPrice } = getTradeMarginSummary(trade);
+
+  return (
+    <span className="block text-[11px] font-normal text-slate-500">
+      {instrumentTypeLabels[instrumentType]}
+      {isLeveragedInstrument(instrumentType) ? ` · ${leverage}x ${marginMode}` : ""}
+      {liquidationPrice !== null
+        ? ` · Liq ${formatCurrency(liquidationPrice, getQuoteAsset(trade.pair))}`
+        : ""}
+      {returnOnMargin !== null ? (
+        <span className={returnOnMargin >= 0 ? "text-emerald-400" : "text-rose-400"}>
+          {" "}
+          · ROM {returnOnMargin >= 0 ? "+" : "−"}
+          {Math.abs(returnOnMargin * 100).toFixed(1)}%
+        </span>
+      ) : null}
+    </span>
+  );
+}
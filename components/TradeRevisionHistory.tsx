@@ -0,0 +1,62 @@
+import { History } from "lucide-react";
+import {
+  RevisionAction,
+  TradeRevision,
+  formatChangeValue,
+  formatRevisionTime,
+} from "@/lib/revisions";
+
+type TradeRevisionHistoryProps = {
+  revisions: TradeRevision[];
+};
+
+const actionLabels: Record<Exclude<RevisionAction, "updated">, string> = {
+  created: "Logged",
+  deleted: "Moved to the trash",
+  restored: "Restored from the trash",
+};
+
+export default function TradeRevisionHistory({
+  revisions,
+}: TradeRevisionHistoryProps) {
+  return (
+    <section className="rounded-2xl border border-white/5 bg-slate-900/60 p-5">
+      <h2 className="flex items-center gap-2 text-xs uppercase tracking-[0.2em] text-slate-500">
+        <History className="h-4 w-4" />
+        History
+      </h2>
+      {revisions.length === 0 ? (
+        <p className="mt-3 text-sm text-slate-500">
+          No changes recorded for this trade.
+        </p>
+      ) : (
+        <ol className="mt-4 space-y-4">
+          {revisions.map((revision) => (
+            <li key={revision.id} className="border-l border-white/10 pl-4">
+              <p className="text-xs text-slate-500">
+                {formatRevisionTime(revision.changedAt)}
+              </p>
+              {revision.action === "updated" ? (
+                <ul className="mt-1 space-y-1 text-sm text-slate-300">
+                  {revision.changes.map((change) => (
+                    <li key={change.field}>
+                      <span className="font-semibold text-slate-200">{change.field}</span>{" "}
+                      <span className="text-slate-500 line-through">
+                        {formatChangeValue(change, "from")}
+                      </span>{" "}
+                      → <span>{formatChangeValue(change, "to")}</span>
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="mt-1 text-sm font-semibold text-slate-200">
+                  {actionLabels[revision.action]}
+                </p>
+              )}
+            </li>
+          ))}
+        </ol>
+      )}
+    </section>
+  );
+}
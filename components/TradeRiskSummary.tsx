@@ -0,0 +1,43 @@
+import { formatR } from "@/lib/format";
+import {
+  calculatePlannedRewardToRisk,
+  calculateRMultiple,
+  calculateRealizedRewardToRisk,
+} from "@/lib/risk";
+import { Trade, getAverageEntryPrice } from "@/lib/trades";
+
+type TradeRiskSummaryProps = {
+  trade: Trade;
+};
+
+export default function TradeRiskSummary({ trade }: TradeRiskSummaryProps) {
+  const rMultiple = calculateRMultiple(trade);
+  const planned = calculatePlannedRewardToRisk({
+    direction: trade.direction,
+    entryPrice: getAverageEntryPrice(trade),
+    stopLoss: trade.stopLoss,
+    takeProfit: trade.takeProfit,
+    positionSize: trade.positionSize,
+  });
+  const realized = calculateRealizedRewardToRisk(trade);
+
+  if (rMultiple === null && planned === null) {
+    return null;
+  }
+
+  return (
+    <span className="block text-[11px] font-normal text-slate-500">
+      {rMultiple !== null ? (
+        <span className={rMultiple >= 0 ? "text-emerald-400" : "text-rose-400"}>
+          {formatR(rMultiple)}
+        </span>
+      ) : null}
+      {planned !== null ? (
+        <span>
+          {rMultiple !== null ? " · " : ""}R:R plan {planned.toFixed(2)}
+          {realized !== null ? ` / real ${realized.toFixed(2)}` : ""}
+        </span>
+      ) : null}
+    </span>
+  );
+}
@@ -0,0 +1,27 @@
+import { Tag, tagCategoryClassNames, tagCategoryLabels } from "@/lib/tags";
+
+type TradeTagsProps = {
+  tags: Tag[];
+};
+
+export default function TradeTags({ tags }: TradeTagsProps) {
+  if (tags.length === 0) {
+    return <span className="text-slate-500">—</span>;
+  }
+
+  return (
+    <span className="inline-flex flex-wrap gap-1">
+      {tags.map((tag) => (
+        <span
+          key={tag.id}
+          title={tagCategoryLabels[tag.category]}
+          className={`rounded-full px-2 py-0.5 text-xs font-medium ${
+            tagCategoryClassNames[tag.category]
+          }`}
+        >
+          {tag.name}
+        </span>
+      ))}
+    </span>
+  );
+}
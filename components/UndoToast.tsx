@@ -0,0 +1,44 @@
+import { useEffect } from "react";
+import { Undo2, X } from "lucide-react";
+
+type UndoToastProps = {
+  message: string;
+  onUndo: () => void;
+  onDismiss: () => void;
+};
+
+const dismissAfterMs = 8000;
+
+export default function UndoToast({ message, onUndo, onDismiss }: UndoToastProps) {
+  useEffect(() => {
+    const timer = window.setTimeout(onDismiss, dismissAfterMs);
+    return () => window.clearTimeout(timer);
+  }, [message, onDismiss]);
+
+  return (
+    <div
+      role="status"
+      className="fixed inset-x-4 bottom-4 z-50 mx-auto flex max-w-md items-center justify-between gap-3 rounded-2xl border border-white/10 bg-slate-900/95 px-4 py-3 text-sm text-slate-200 shadow-2xl shadow-slate-950/60 backdrop-blur"
+    >
+      <p>{message}</p>
+      <div className="flex items-center gap-2">
+        <button
+          type="button"
+          onClick={onUndo}
+          className="inline-flex items-center gap-1.5 rounded-full border border-emerald-500/60 bg-emerald-500/10 px-3 py-1 text-xs font-semibold text-emerald-300 transition hover:bg-emerald-500/20 hover:text-emerald-100"
+        >
+          <Undo2 className="h-3.5 w-3.5" />
+          Undo
+        </button>
+        <button
+          type="button"
+          onClick={onDismiss}
+          className="rounded-full p-1 text-slate-500 transition hover:bg-white/10 hover:text-slate-200"
+          aria-label="Dismiss"
+        >
+          <X className="h-4 w-4" />
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,49 @@
+import {
+  Account,
+  AccountDraft,
+  AccountTransfer,
+  AccountTransferDraft,
+} from "@/lib/accounts";
+import { requestJson } from "@/lib/apiClient";
+
+// Browser-side wrappers around /api/accounts.
+
+export const fetchAccounts = async () =>
+  requestJson<{ accounts: Account[]; transfers: AccountTransfer[] }>(
+    "/api/accounts",
+  );
+
+export const createAccount = async (draft: AccountDraft) =>
+  (
+    await requestJson<{ account: Account }>("/api/accounts", {
+      method: "POST",
+      body: JSON.stringify(draft),
+    })
+  ).account;
+
+export const updateAccount = async (accountId: string, draft: AccountDraft) =>
+  (
+    await requestJson<{ account: Account }>(`/api/accounts/${accountId}`, {
+      method: "PATCH",
+      body: JSON.stringify(draft),
+    })
+  ).account;
+
+// Transfers go with the account; its trades stay in the journal unassigned.
+export const deleteAccount = async (accountId: string) => {
+  await requestJson<null>(`/api/accounts/${accountId}`, { method: "DELETE" });
+};
+
+export const createTransfer = async (draft: AccountTransferDraft) =>
+  (
+    await requestJson<{ transfer: AccountTransfer }>("/api/accounts/transfers", {
+      method: "POST",
+      body: JSON.stringify(draft),
+    })
+  ).transfer;
+
+export const deleteTransfer = async (transferId: string) => {
+  await requestJson<null>(`/api/accounts/transfers/${transferId}`, {
+    method: "DELETE",
+  });
+};
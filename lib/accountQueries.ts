@@ -0,0 +1,164 @@
+import { SupabaseClient } from "@supabase/supabase-js";
+import {
+  AccountDraft,
+  AccountInsert,
+  AccountRow,
+  AccountTransferDraft,
+  AccountTransferInsert,
+  AccountTransferRow,
+  mapRowToAccount,
+  mapRowToTransfer,
+  normalizeAccountName,
+  sortAccounts,
+} from "@/lib/accounts";
+
+export const fetchAccountsForUser = async (
+  userId: string,
+  client: SupabaseClient,
+) => {
+  const { data, error } = await client
+    .from("accounts")
+    .select("*")
+    .eq("user_id", userId);
+
+  if (error) {
+    throw error;
+  }
+
+  return sortAccounts((data as AccountRow[] | null)?.map(mapRowToAccount) ?? []);
+};
+
+const mapDraftToAccountColumns = (draft: AccountDraft) => ({
+  name: normalizeAccountName(draft.name),
+  exchange: draft.exchange.trim(),
+  base_currency: draft.baseCurrency,
+  starting_balance: draft.startingBalance,
+});
+
+export const createAccount = async (
+  userId: string,
+  draft: AccountDraft,
+  client: SupabaseClient,
+) => {
+  const insert: AccountInsert = {
+    ...mapDraftToAccountColumns(draft),
+    user_id: userId,
+  };
+  const { data, error } = await client
+    .from("accounts")
+    .insert(insert)
+    .select()
+    .single();
+
+  if (error) {
+    throw error;
+  }
+
+  return mapRowToAccount(data as AccountRow);
+};
+
+// Returns null when the user has no such account.
+export const updateAccount = async (
+  userId: string,
+  accountId: string,
+  draft: AccountDraft,
+  client: SupabaseClient,
+) => {
+  const { data, error } = await client
+    .from("accounts")
+    .update(mapDraftToAccountColumns(draft))
+    .eq("id", accountId)
+    .eq("user_id", userId)
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  return data ? mapRowToAccount(data as AccountRow) : null;
+};
+
+// One statement: the foreign keys delete the transfers and leave the trades
+// in the journal unassigned. Returns false when the user has no such account.
+export const deleteAccount = async (
+  userId: string,
+  accountId: string,
+  client: SupabaseClient,
+) => {
+  const { data, error } = await client
+    .from("accounts")
+    .delete()
+    .eq("id", accountId)
+    .eq("user_id", userId)
+    .select("id");
+
+  if (error) {
+    throw error;
+  }
+
+  return (data ?? []).length > 0;
+};
+
+export const fetchTransfersForUser = async (
+  userId: string,
+  client: SupabaseClient,
+) => {
+  const { data, error } = await client
+    .from("account_transfers")
+    .select("*")
+    .eq("user_id", userId)
+    .order("transferred_at", { ascending: true });
+
+  if (error) {
+    throw error;
+  }
+
+  return (data as AccountTransferRow[] | null)?.map(mapRowToTransfer) ?? [];
+};
+
+export const createTransfer = async (
+  userId: string,
+  draft: AccountTransferDraft,
+  client: SupabaseClient,
+) => {
+  const insert: AccountTransferInsert = {
+    account_id: draft.accountId,
+    user_id: userId,
+    kind: draft.kind,
+    amount: draft.amount,
+    transferred_at: draft.date,
+    note: draft.note.trim(),
+  };
+  const { data, error } = await client
+    .from("account_transfers")
+    .insert(insert)
+    .select()
+    .single();
+
+  if (error) {
+    throw error;
+  }
+
+  return mapRowToTransfer(data as AccountTransferRow);
+};
+
+// Returns false when the user has no such transfer.
+export const deleteTransfer = async (
+  userId: string,
+  transferId: string,
+  client: SupabaseClient,
+) => {
+  const { data, error } = await client
+    .from("account_transfers")
+    .delete()
+    .eq("id", transferId)
+    .eq("user_id", userId)
+    .select("id");
+
+  if (error) {
+    throw error;
+  }
+
+  return (data ?? []).length > 0;
+};
@@ -0,0 +1,335 @@
+import {
+  CurrencySettings,
+  convertTradesToReporting,
+  getMissingRateAssets,
+  getQuoteReportingRate,
+} from "@/lib/currency";
+import { Tables, TablesInsert } from "@/lib/database.types";
+import { EquityPoint, buildEquityCurve } from "@/lib/equity";
+import { TradingCapital } from "@/lib/stats";
+import { uuidPattern } from "@/lib/tradeFilters";
+import { SchemaResult } from "@/lib/tradeSchema";
+import { Trade, createRowReader } from "@/lib/trades";
+
+// An exchange or sub-account. Transfers and the starting balance are in the
+// account's base currency, and its trades are converted into it for stats.
+export type Account = {
+  id: string;
+  userId: string;
+  name: string;
+  exchange: string;
+  baseCurrency: string;
+  startingBalance: number;
+  createdAt: string;
+};
+
+export type AccountRow = Tables<"accounts">;
+
+export type AccountInsert = Omit<TablesInsert<"accounts">, "id" | "created_at">;
+
+export type AccountDraft = Pick<
+  Account,
+  "name" | "exchange" | "baseCurrency" | "startingBalance"
+>;
+
+export type TransferKind = "Deposit" | "Withdrawal";
+
+export type AccountTransfer = {
+  id: string;
+  accountId: string;
+  kind: TransferKind;
+  amount: number;
+  date: string;
+  note: string;
+};
+
+export type AccountTransferRow = Tables<"account_transfers">;
+
+export type AccountTransferInsert = Omit<TablesInsert<"account_transfers">, "id">;
+
+export type AccountTransferDraft = Omit<AccountTransfer, "id">;
+
+// A day on the account's balance curve. `equity` is the balance, and the
+// high-water mark moves with deposits and withdrawals, so drawdown only
+// measures trading losses.
+export type AccountCurvePoint = EquityPoint & {
+  netTransfers: number;
+};
+
+export type AccountPerformance = {
+  account: Account;
+  tradeCount: number;
+  deposits: number;
+  withdrawals: number;
+  netPnl: number;
+  balance: number;
+  // Time-weighted: each day's PnL is measured against the balance after that
+  // day's transfers, and the days are compounded. null until the account has
+  // held money on a trading day.
+  timeWeightedReturn: number | null;
+  maxDrawdown: number;
+  curve: AccountCurvePoint[];
+  // Trades without a rate into the base currency, left out of the figures.
+  unconvertedCount: number;
+  missingRates: string[];
+};
+
+export const transferKinds: TransferKind[] = ["Deposit", "Withdrawal"];
+
+export const mapRowToAccount = (row: AccountRow): Account => {
+  const read = createRowReader("accounts", row.id);
+  return {
+    id: row.id,
+    userId: row.user_id,
+    name: row.name,
+    exchange: row.exchange,
+    baseCurrency: row.base_currency,
+    startingBalance: read.number("starting_balance", row.starting_balance),
+    createdAt: row.created_at,
+  };
+};
+
+export const mapRowToTransfer = (row: AccountTransferRow): AccountTransfer => {
+  const read = createRowReader("account_transfers", row.id);
+  return {
+    id: row.id,
+    accountId: row.account_id,
+    kind: read.oneOf("kind", row.kind, transferKinds),
+    amount: read.number("amount", row.amount),
+    date: row.transferred_at,
+    note: row.note,
+  };
+};
+
+export const normalizeAccountName = (name: string) =>
+  name.trim().replace(/\s+/g, " ");
+
+export const sortAccounts = (accounts: Account[]) =>
+  [...accounts].sort((a, b) =>
+    a.name.localeCompare(b.name, undefined, { sensitivity: "base" }),
+  );
+
+export const getAccountLabel = (account: Account) =>
+  account.exchange ? `${account.name} (${account.exchange})` : account.name;
+
+// Returns a message for the first invalid field, or null.
+export const validateAccountDraft = (
+  draft: AccountDraft,
+  accounts: Account[],
+  accountId: string | null = null,
+) => {
+  const name = normalizeAccountName(draft.name);
+  if (!name) {
+    return "Account name is required.";
+  }
+  if (
+    accounts.some(
+      (account) =>
+        account.id !== accountId &&
+        account.name.toLowerCase() === name.toLowerCase(),
+    )
+  ) {
+    return `An account named ${name} already exists.`;
+  }
+  if (!/^[A-Z0-9]{2,10}$/.test(draft.baseCurrency)) {
+    return "Base currency must be an asset code such as USD or USDT.";
+  }
+  if (!Number.isFinite(draft.startingBalance) || draft.startingBalance < 0) {
+    return "Starting balance must be a number ≥ 0.";
+  }
+  return null;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value);
+
+// The body of POST and PATCH /api/accounts. Only the shape is checked here;
+// the route runs validateAccountDraft against the user's other accounts.
+export const parseAccountDraft = (input: unknown): SchemaResult<AccountDraft> => {
+  if (!isRecord(input)) {
+    return { ok: false, errors: ["Body must be a JSON object."] };
+  }
+
+  const errors: string[] = [];
+  if (typeof input.name !== "string") {
+    errors.push("name must be a string.");
+  }
+  if (input.exchange !== undefined && typeof input.exchange !== "string") {
+    errors.push("exchange must be a string.");
+  }
+  if (typeof input.baseCurrency !== "string") {
+    errors.push("baseCurrency must be a string.");
+  }
+  if (!isFiniteNumber(input.startingBalance)) {
+    errors.push("startingBalance must be a number.");
+  }
+
+  return errors.length > 0
+    ? { ok: false, errors }
+    : {
+        ok: true,
+        value: {
+          name: input.name as string,
+          exchange: (input.exchange as string | undefined) ?? "",
+          baseCurrency: input.baseCurrency as string,
+          startingBalance: input.startingBalance as number,
+        },
+      };
+};
+
+// The body of POST /api/accounts/transfers.
+export const parseTransferDraft = (
+  input: unknown,
+): SchemaResult<AccountTransferDraft> => {
+  if (!isRecord(input)) {
+    return { ok: false, errors: ["Body must be a JSON object."] };
+  }
+
+  const errors: string[] = [];
+  const kind = transferKinds.find((option) => option === input.kind);
+  if (typeof input.accountId !== "string" || !uuidPattern.test(input.accountId)) {
+    errors.push("accountId must be an account id.");
+  }
+  if (!kind) {
+    errors.push(`kind must be one of ${transferKinds.join(", ")}.`);
+  }
+  if (!isFiniteNumber(input.amount) || input.amount <= 0) {
+    errors.push("amount must be a number greater than 0.");
+  }
+  if (
+    typeof input.date !== "string" ||
+    !/^\d{4}-\d{2}-\d{2}$/.test(input.date) ||
+    Number.isNaN(new Date(input.date).getTime())
+  ) {
+    errors.push("date must be formatted YYYY-MM-DD.");
+  }
+  if (input.note !== undefined && typeof input.note !== "string") {
+    errors.push("note must be a string.");
+  }
+
+  return errors.length > 0 || !kind
+    ? { ok: false, errors }
+    : {
+        ok: true,
+        value: {
+          accountId: input.accountId as string,
+          kind,
+          amount: input.amount as number,
+          date: input.date as string,
+          note: (input.note as string | undefined) ?? "",
+        },
+      };
+};
+
+const getSignedAmount = (transfer: AccountTransfer) =>
+  transfer.kind === "Deposit" ? transfer.amount : -transfer.amount;
+
+export const calculateAccountPerformance = (
+  account: Account,
+  trades: Trade[],
+  transfers: AccountTransfer[],
+  settings: CurrencySettings,
+): AccountPerformance => {
+  const accountSettings = { ...settings, reportingCurrency: account.baseCurrency };
+  const accountTrades = trades.filter((trade) => trade.accountId === account.id);
+  const accountTransfers = transfers.filter(
+    (transfer) => transfer.accountId === account.id,
+  );
+  const reporting = convertTradesToReporting(accountTrades, accountSettings);
+  const dailyPnl = new Map(
+    buildEquityCurve(reporting.trades).map((point) => [point.date, point]),
+  );
+  const dailyTransfers = new Map<string, number>();
+  accountTransfers.forEach((transfer) => {
+    const day = transfer.date.slice(0, 10);
+    dailyTransfers.set(day, (dailyTransfers.get(day) ?? 0) + getSignedAmount(transfer));
+  });
+
+  let balance = account.startingBalance;
+  let highWaterMark = balance;
+  let growth = 1;
+  let hasReturn = false;
+  let maxDrawdown = 0;
+
+  const curve = [...new Set([...dailyPnl.keys(), ...dailyTransfers.keys()])]
+    .sort()
+    .map((date): AccountCurvePoint => {
+      const netTransfers = dailyTransfers.get(date) ?? 0;
+      const day = dailyPnl.get(date);
+      const pnl = day?.pnl ?? 0;
+      const invested = balance + netTransfers;
+      if (day && invested > 0) {
+        growth *= 1 + pnl / invested;
+        hasReturn = true;
+      }
+      balance = invested + pnl;
+      highWaterMark = Math.max(highWaterMark + netTransfers, balance);
+      maxDrawdown = Math.max(maxDrawdown, highWaterMark - balance);
+      return {
+        date,
+        pnl,
+        tradeCount: day?.tradeCount ?? 0,
+        equity: balance,
+        highWaterMark,
+        drawdown: highWaterMark - balance,
+        netTransfers,
+      };
+    });
+
+  const sumTransfers = (kind: TransferKind) =>
+    accountTransfers
+      .filter((transfer) => transfer.kind === kind)
+      .reduce((total, transfer) => total + transfer.amount, 0);
+
+  return {
+    account,
+    tradeCount: accountTrades.length,
+    deposits: sumTransfers("Deposit"),
+    withdrawals: sumTransfers("Withdrawal"),
+    netPnl: curve.reduce((total, point) => total + point.pnl, 0),
+    balance,
+    timeWeightedReturn: hasReturn ? growth - 1 : null,
+    maxDrawdown,
+    curve,
+    unconvertedCount: reporting.unconvertedCount,
+    missingRates: getMissingRateAssets(accountTrades, accountSettings),
+  };
+};
+
+// The capital behind the journal's stats, in the reporting currency: every
+// account's starting balance and transfers, or only accountId's. null without
+// an account, or when one has no rate into the reporting currency.
+export const getTradingCapital = (
+  accounts: Account[],
+  transfers: AccountTransfer[],
+  settings: CurrencySettings,
+  accountId = "",
+): TradingCapital | null => {
+  const scoped = accounts.filter((account) => !accountId || account.id === accountId);
+  const rates = new Map(
+    scoped.map((account) => [
+      account.id,
+      getQuoteReportingRate(account.baseCurrency, null, settings),
+    ]),
+  );
+  if (scoped.length === 0 || [...rates.values()].some((rate) => rate === null)) {
+    return null;
+  }
+  const getRate = (id: string) => rates.get(id) ?? 0;
+
+  return {
+    startingBalance: scoped.reduce(
+      (total, account) => total + account.startingBalance * getRate(account.id),
+      0,
+    ),
+    transfers: transfers
+      .filter((transfer) => rates.has(transfer.accountId))
+      .map((transfer) => ({
+        date: transfer.date.slice(0, 10),
+        amount: getSignedAmount(transfer) * getRate(transfer.accountId),
+      })),
+  };
+};
@@ -0,0 +1,73 @@
+import { Trade } from "@/lib/trades";
+
+// fetch for the app's own API routes (lib/tradeApi.ts, lib/tagApi.ts,
+// lib/accountApi.ts): JSON in and out, with failures turned into the errors
+// below.
+
+type ApiErrorBody = {
+  error?: string;
+  details?: string[];
+  trade?: Trade;
+};
+
+// Thrown for any non-2xx response. `trade` is the server's current copy when
+// the request lost a conflict (409).
+export type ApiError = Error & {
+  status: number;
+  trade: Trade | null;
+};
+
+export const isApiError = (value: unknown): value is ApiError =>
+  value instanceof Error && "status" in value;
+
+// Thrown when the request never reached the server. A bug elsewhere in the
+// request code stays an ordinary error, so a change the server may already
+// have applied is never queued and replayed.
+export type NetworkError = Error & {
+  isNetworkError: true;
+};
+
+export const isNetworkError = (value: unknown): value is NetworkError =>
+  value instanceof Error && "isNetworkError" in value;
+
+export const requestJson = async <T>(
+  path: string,
+  { ifMatch, ...init }: RequestInit & { ifMatch?: string } = {},
+): Promise<T> => {
+  const headers: Record<string, string> = {};
+  if (init.body) {
+    headers["Content-Type"] = "application/json";
+  }
+  if (ifMatch) {
+    headers["If-Match"] = ifMatch;
+  }
+  let response: Response;
+  try {
+    response = await fetch(path, { ...init, headers });
+  } catch (fetchErr) {
+    // fetch rejects with a TypeError when the network is unreachable; an
+    // aborted request is not a connectivity problem.
+    if (!(fetchErr instanceof TypeError)) {
+      throw fetchErr;
+    }
+    const networkError: NetworkError = Object.assign(
+      new Error("Could not reach the server."),
+      { isNetworkError: true as const },
+    );
+    throw networkError;
+  }
+
+  if (!response.ok) {
+    const body = (await response.json().catch(() => ({}))) as ApiErrorBody;
+    const message = body.error ?? `Request failed with status ${response.status}.`;
+    const apiError: ApiError = Object.assign(
+      new Error(
+        body.details?.length ? `${message}\n${body.details.join("\n")}` : message,
+      ),
+      { status: response.status, trade: body.trade ?? null },
+    );
+    throw apiError;
+  }
+
+  return (response.status === 204 ? null : await response.json()) as T;
+};
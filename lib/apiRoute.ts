@@ -0,0 +1,22 @@
+import { NextResponse } from "next/server";
+
+export const jsonError = (status: number, error: string, details?: string[]) =>
+  NextResponse.json(details ? { error, details } : { error }, { status });
+
+export const unauthorized = () => jsonError(401, "You must be signed in.");
+
+export const readJsonBody = async (request: Request) => {
+  try {
+    return { ok: true as const, value: (await request.json()) as unknown };
+  } catch {
+    return { ok: false as const };
+  }
+};
+
+export const handleRouteError = (routeError: unknown) => {
+  console.error(routeError);
+  return jsonError(
+    500,
+    routeError instanceof Error ? routeError.message : "Unexpected server error.",
+  );
+};
@@ -0,0 +1,73 @@
+import { attachmentBucket } from "@/lib/journal";
+import { withLocalStore } from "@/lib/localDatabase";
+import { supabase } from "@/lib/supabaseClient";
+
+export type AttachmentStorage = {
+  upload: (path: string, file: File) => Promise<void>;
+  getUrl: (path: string) => Promise<string>;
+  remove: (paths: string[]) => Promise<void>;
+};
+
+const signedUrlSeconds = 60 * 60;
+
+const supabaseAttachmentStorage: AttachmentStorage = {
+  upload: async (path, file) => {
+    const { error } = await supabase.storage
+      .from(attachmentBucket)
+      .upload(path, file, { contentType: file.type, upsert: false });
+    if (error) {
+      throw error;
+    }
+  },
+  getUrl: async (path) => {
+    const { data, error } = await supabase.storage
+      .from(attachmentBucket)
+      .createSignedUrl(path, signedUrlSeconds);
+    if (error) {
+      throw error;
+    }
+    return data.signedUrl;
+  },
+  remove: async (paths) => {
+    if (paths.length === 0) {
+      return;
+    }
+    const { error } = await supabase.storage.from(attachmentBucket).remove(paths);
+    if (error) {
+      throw error;
+    }
+  },
+};
+
+// Dev stand-in that keeps screenshots in the browser, so attachments work
+// without a storage bucket. Files never leave the device.
+const localAttachmentStorage: AttachmentStorage = {
+  upload: async (path, file) => {
+    await withLocalStore("attachments", "readwrite", (store) =>
+      store.put(file, path),
+    );
+  },
+  getUrl: async (path) => {
+    const file = await withLocalStore<Blob | undefined>(
+      "attachments",
+      "readonly",
+      (store) => store.get(path),
+    );
+    if (!file) {
+      throw new Error("Attachment is not available on this device.");
+    }
+    return URL.createObjectURL(file);
+  },
+  remove: async (paths) => {
+    for (const path of paths) {
+      await withLocalStore("attachments", "readwrite", (store) =>
+        store.delete(path),
+      );
+    }
+  },
+};
+
+export const attachmentStorage =
+  process.env.NEXT_PUBLIC_ATTACHMENT_STORAGE === "local"
+    ? localAttachmentStorage
+    : supabaseAttachmentStorage;
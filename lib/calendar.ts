@@ -0,0 +1,135 @@
+import { buildEquityCurve } from "@/lib/equity";
+import { Trade } from "@/lib/trades";
+
+export type DailyPnl = {
+  date: string;
+  pnl: number;
+  tradeCount: number;
+};
+
+export type CalendarWeek = {
+  days: (DailyPnl | null)[];
+  pnl: number;
+  tradeCount: number;
+};
+
+export type CalendarMonth = {
+  year: number;
+  month: number;
+  weeks: CalendarWeek[];
+  pnl: number;
+  tradeCount: number;
+};
+
+export type TimeBucket = {
+  label: string;
+  pnl: number;
+  tradeCount: number;
+  winCount: number;
+};
+
+export const weekdayLabels = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
+
+const toDateKey = (year: number, month: number, day: number) =>
+  `${year}-${String(month + 1).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+
+// Trade dates are calendar days without a timezone, so weekday maths runs
+// in UTC to keep a day from sliding into its neighbour.
+const getWeekdayIndex = (date: string) =>
+  (new Date(`${date.slice(0, 10)}T00:00:00Z`).getUTCDay() + 6) % 7;
+
+export const getDailyPnl = (trades: Trade[]) =>
+  new Map<string, DailyPnl>(
+    buildEquityCurve(trades).map((point) => [
+      point.date,
+      { date: point.date, pnl: point.pnl, tradeCount: point.tradeCount },
+    ]),
+  );
+
+export const buildCalendarMonth = (
+  year: number,
+  month: number,
+  dailyPnl: Map<string, DailyPnl>,
+): CalendarMonth => {
+  const daysInMonth = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  const leadingBlanks = getWeekdayIndex(toDateKey(year, month, 1));
+  const cells: (DailyPnl | null)[] = Array.from(
+    { length: leadingBlanks },
+    () => null,
+  );
+
+  for (let day = 1; day <= daysInMonth; day += 1) {
+    const date = toDateKey(year, month, day);
+    cells.push(dailyPnl.get(date) ?? { date, pnl: 0, tradeCount: 0 });
+  }
+  while (cells.length % 7 !== 0) {
+    cells.push(null);
+  }
+
+  const weeks = Array.from({ length: cells.length / 7 }, (_, index) => {
+    const days = cells.slice(index * 7, index * 7 + 7);
+    return {
+      days,
+      pnl: days.reduce((acc, day) => acc + (day?.pnl ?? 0), 0),
+      tradeCount: days.reduce((acc, day) => acc + (day?.tradeCount ?? 0), 0),
+    };
+  });
+
+  return {
+    year,
+    month,
+    weeks,
+    pnl: weeks.reduce((acc, week) => acc + week.pnl, 0),
+    tradeCount: weeks.reduce((acc, week) => acc + week.tradeCount, 0),
+  };
+};
+
+const addToBucket = (bucket: TimeBucket, trade: Trade) => {
+  bucket.pnl += trade.netPnl;
+  bucket.tradeCount += 1;
+  bucket.winCount += trade.netPnl > 0 ? 1 : 0;
+};
+
+const getClosedTrades = (trades: Trade[]) =>
+  trades.filter((trade) => trade.status === "Closed");
+
+export const createWeekdayBuckets = (): TimeBucket[] =>
+  weekdayLabels.map((label) => ({ label, pnl: 0, tradeCount: 0, winCount: 0 }));
+
+export const createHourBuckets = (): TimeBucket[] =>
+  Array.from({ length: 24 }, (_, hour) => ({
+    label: `${String(hour).padStart(2, "0")}:00`,
+    pnl: 0,
+    tradeCount: 0,
+    winCount: 0,
+  }));
+
+export const aggregateByWeekday = (trades: Trade[]): TimeBucket[] => {
+  const buckets = createWeekdayBuckets();
+  getClosedTrades(trades).forEach((trade) =>
+    addToBucket(buckets[getWeekdayIndex(trade.date)], trade),
+  );
+  return buckets;
+};
+
+// Trade dates have no time of day, so the hour comes from the first entry
+// fill. Trades logged without fills are left out of this view.
+export const getTradeEntryHour = (trade: Trade) => {
+  const entry = trade.fills.find((fill) => fill.side === "Entry");
+  if (!entry) {
+    return null;
+  }
+  const executedAt = new Date(entry.executedAt);
+  return Number.isNaN(executedAt.getTime()) ? null : executedAt.getHours();
+};
+
+export const aggregateByHour = (trades: Trade[]): TimeBucket[] => {
+  const buckets = createHourBuckets();
+  getClosedTrades(trades).forEach((trade) => {
+    const hour = getTradeEntryHour(trade);
+    if (hour !== null) {
+      addToBucket(buckets[hour], trade);
+    }
+  });
+  return buckets;
+};
@@ -0,0 +1,106 @@
+export type CsvTable = {
+  headers: string[];
+  rows: string[][];
+  // The file line each row starts on, for error messages. Blank lines are
+  // skipped, so this is not always the row index plus two.
+  lineNumbers: number[];
+};
+
+type CsvRecord = {
+  fields: string[];
+  lineNumber: number;
+};
+
+const detectDelimiter = (text: string) => {
+  const firstLine = text.split(/\r?\n/, 1)[0] ?? "";
+  const candidates = [",", ";", "\t"];
+  return candidates.reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length
+      ? candidate
+      : best,
+  );
+};
+
+const readCsvRecords = (text: string, delimiter: string): CsvRecord[] => {
+  const records: CsvRecord[] = [];
+  let record: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  let lineNumber = 1;
+  let recordLineNumber = 1;
+
+  const endRecord = () => {
+    record.push(field);
+    records.push({ fields: record, lineNumber: recordLineNumber });
+    record = [];
+    field = "";
+  };
+
+  for (let index = 0; index < text.length; index += 1) {
+    const char = text[index];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (text[index + 1] === '"') {
+          field += '"';
+          index += 1;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        if (char === "\n") {
+          lineNumber += 1;
+        }
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      record.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[index + 1] === "\n") {
+        index += 1;
+      }
+      endRecord();
+      lineNumber += 1;
+      recordLineNumber = lineNumber;
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || record.length > 0) {
+    endRecord();
+  }
+
+  return records.filter((entry) =>
+    entry.fields.some((value) => value.trim() !== ""),
+  );
+};
+
+export const parseCsv = (input: string): string[][] => {
+  const text = input.replace(/^\uFEFF/, "");
+  return readCsvRecords(text, detectDelimiter(text)).map(
+    (record) => record.fields,
+  );
+};
+
+export const parseCsvTable = (input: string): CsvTable => {
+  const text = input.replace(/^\uFEFF/, "");
+  const [header, ...records] = readCsvRecords(text, detectDelimiter(text));
+  return {
+    headers: (header?.fields ?? []).map((value) => value.trim()),
+    rows: records.map((record) => record.fields),
+    lineNumbers: records.map((record) => record.lineNumber),
+  };
+};
+
+const escapeCsvField = (value: string) =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+export const serializeCsv = (records: string[][]) =>
+  records.map((record) => record.map(escapeCsvField).join(",")).join("\r\n");
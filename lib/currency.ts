@@ -0,0 +1,211 @@
+import { Trade } from "@/lib/trades";
+
+export type PairAssets = {
+  base: string;
+  quote: string;
+};
+
+export type UsdRates = Record<string, string>;
+
+export type CurrencySettings = {
+  reportingCurrency: string;
+  usdRates: UsdRates;
+};
+
+export const knownQuoteAssets = [
+  "USDT",
+  "USDC",
+  "BUSD",
+  "FDUSD",
+  "USD",
+  "EUR",
+  "BTC",
+  "ETH",
+];
+
+// Stablecoins are worth a dollar until the rate table says otherwise.
+const usdPeggedAssets = ["USD", "USDT", "USDC", "BUSD", "FDUSD", "DAI", "TUSD"];
+
+export const reportingCurrencyOptions = ["USD", "USDT", "EUR", "GBP", "BTC", "ETH"];
+
+const storageKey = "crypto-trading-journal:currency-settings";
+
+export const splitPair = (pair: string): PairAssets | null => {
+  const cleaned = pair.trim().toUpperCase().replace(/\s+/g, "");
+  const parts = cleaned.split(/[-/_]/).filter(Boolean);
+
+  if (parts.length >= 2) {
+    return { base: parts[0], quote: parts[1] };
+  }
+
+  const quote = knownQuoteAssets.find(
+    (asset) => cleaned.endsWith(asset) && cleaned.length > asset.length,
+  );
+  return quote ? { base: cleaned.slice(0, -quote.length), quote } : null;
+};
+
+// Pairs logged before quote assets were tracked (e.g. "BTC") are read as
+// USD-quoted, which is what every PnL figure assumed until now.
+export const getPairAssets = (pair: string): PairAssets =>
+  splitPair(pair) ?? {
+    base: pair.trim().toUpperCase(),
+    quote: "USD",
+  };
+
+export const getQuoteAsset = (pair: string) => getPairAssets(pair).quote;
+
+export const createDefaultCurrencySettings = (): CurrencySettings => ({
+  reportingCurrency: "USD",
+  usdRates: {},
+});
+
+export const loadCurrencySettings = (): CurrencySettings => {
+  if (typeof window === "undefined") {
+    return createDefaultCurrencySettings();
+  }
+  try {
+    const stored = window.localStorage.getItem(storageKey);
+    return stored
+      ? {
+          ...createDefaultCurrencySettings(),
+          ...(JSON.parse(stored) as Partial<CurrencySettings>),
+        }
+      : createDefaultCurrencySettings();
+  } catch {
+    return createDefaultCurrencySettings();
+  }
+};
+
+export const saveCurrencySettings = (settings: CurrencySettings) => {
+  try {
+    window.localStorage.setItem(storageKey, JSON.stringify(settings));
+  } catch (storageErr) {
+    console.error(storageErr);
+  }
+};
+
+export const isUsdPegged = (asset: string) =>
+  usdPeggedAssets.includes(asset.toUpperCase());
+
+export const getUsdRate = (settings: CurrencySettings, asset: string) => {
+  const key = asset.toUpperCase();
+  if (key === "USD") {
+    return 1;
+  }
+  const parsed = parseFloat(settings.usdRates[key] ?? "");
+  if (Number.isFinite(parsed) && parsed > 0) {
+    return parsed;
+  }
+  return isUsdPegged(key) ? 1 : null;
+};
+
+// A rate entered on the trade wins over the table, so closed trades keep
+// the conversion that applied when they were booked.
+export const getTradeQuoteUsdRate = (
+  trade: Pick<Trade, "pair" | "quoteUsdRate">,
+  settings: CurrencySettings,
+) => trade.quoteUsdRate ?? getUsdRate(settings, getQuoteAsset(trade.pair));
+
+// Totals grouped by quote asset convert with the same rules as one trade.
+export const getQuoteReportingRate = (
+  quoteAsset: string,
+  tradeUsdRate: number | null,
+  settings: CurrencySettings,
+) => {
+  const quoteUsdRate = tradeUsdRate ?? getUsdRate(settings, quoteAsset);
+  const reportingUsdRate = getUsdRate(settings, settings.reportingCurrency);
+  return quoteUsdRate === null || reportingUsdRate === null
+    ? null
+    : quoteUsdRate / reportingUsdRate;
+};
+
+export const getReportingRate = (
+  trade: Pick<Trade, "pair" | "quoteUsdRate">,
+  settings: CurrencySettings,
+) =>
+  getQuoteReportingRate(getQuoteAsset(trade.pair), trade.quoteUsdRate, settings);
+
+// The rate table with blank or invalid entries dropped, for server queries.
+export const getValidUsdRates = (settings: CurrencySettings) => {
+  const rates: Record<string, number> = {};
+  Object.entries(settings.usdRates).forEach(([asset, value]) => {
+    const rate = parseFloat(value);
+    if (Number.isFinite(rate) && rate > 0) {
+      rates[asset.toUpperCase()] = rate;
+    }
+  });
+  return rates;
+};
+
+// Every asset with a known USD value, for server queries that convert into
+// the reporting currency: the valid rate table entries plus the stablecoin
+// pegs and USD itself, as getUsdRate reads them.
+export const getKnownUsdRates = (settings: CurrencySettings) => {
+  const rates: Record<string, number> = {};
+  usdPeggedAssets.forEach((asset) => {
+    rates[asset] = 1;
+  });
+  return { ...rates, ...getValidUsdRates(settings), USD: 1 };
+};
+
+export const getMissingRateAssets = (
+  trades: Trade[],
+  settings: CurrencySettings,
+) => {
+  const missing = new Set<string>();
+  if (getUsdRate(settings, settings.reportingCurrency) === null) {
+    missing.add(settings.reportingCurrency);
+  }
+  trades.forEach((trade) => {
+    if (getTradeQuoteUsdRate(trade, settings) === null) {
+      missing.add(getQuoteAsset(trade.pair));
+    }
+  });
+  return [...missing].sort();
+};
+
+// Converts the money fields of a trade into the reporting currency. Prices
+// and sizes stay in the quote asset, so R-multiples must be taken from the
+// unconverted trade. A trade without a usable rate cannot be added to a
+// reporting total, so this returns null for it; getMissingRateAssets lists
+// the assets to set rates for.
+export const convertTradeToReporting = (
+  trade: Trade,
+  settings: CurrencySettings,
+): Trade | null => {
+  const rate = getReportingRate(trade, settings);
+  if (rate === null) {
+    return null;
+  }
+  if (rate === 1) {
+    return trade;
+  }
+  return {
+    ...trade,
+    pnl: trade.pnl * rate,
+    totalCosts: trade.totalCosts * rate,
+    netPnl: trade.netPnl * rate,
+  };
+};
+
+export type ReportingTrades = {
+  trades: Trade[];
+  // Trades left out for want of a rate, shown as unconverted.
+  unconvertedCount: number;
+};
+
+export const convertTradesToReporting = (
+  trades: Trade[],
+  settings: CurrencySettings,
+): ReportingTrades => {
+  const converted = trades.flatMap(
+    (trade) => convertTradeToReporting(trade, settings) ?? [],
+  );
+  return {
+    trades: converted,
+    unconvertedCount: trades.length - converted.length,
+  };
+};
+
+export const getQuoteAssets = (trades: Trade[]) =>
+  [...new Set(trades.map((trade) => getQuoteAsset(trade.pair)))].sort();
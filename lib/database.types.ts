@@ -0,0 +1,713 @@
+export type Json =
+  | string
+  | number
+  | boolean
+  | null
+  | { [key: string]: Json | undefined }
+  | Json[]
+
+export type Database = {
+  public: {
+    Tables: {
+      account_transfers: {
+        Row: {
+          account_id: string
+          amount: number
+          id: string
+          kind: string
+          note: string
+          transferred_at: string
+          user_id: string
+        }
+        Insert: {
+          account_id: string
+          amount: number
+          id?: string
+          kind: string
+          note?: string
+          transferred_at: string
+          user_id?: string
+        }
+        Update: {
+          account_id?: string
+          amount?: number
+          id?: string
+          kind?: string
+          note?: string
+          transferred_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "account_transfers_account_id_user_id_fkey"
+            columns: ["account_id", "user_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id", "user_id"]
+          },
+        ]
+      }
+      accounts: {
+        Row: {
+          base_currency: string
+          created_at: string
+          exchange: string
+          id: string
+          name: string
+          starting_balance: number
+          user_id: string
+        }
+        Insert: {
+          base_currency?: string
+          created_at?: string
+          exchange?: string
+          id?: string
+          name: string
+          starting_balance?: number
+          user_id?: string
+        }
+        Update: {
+          base_currency?: string
+          created_at?: string
+          exchange?: string
+          id?: string
+          name?: string
+          starting_balance?: number
+          user_id?: string
+        }
+        Relationships: []
+      }
+      tags: {
+        Row: {
+          category: string
+          id: string
+          name: string
+          user_id: string
+        }
+        Insert: {
+          category: string
+          id?: string
+          name: string
+          user_id?: string
+        }
+        Update: {
+          category?: string
+          id?: string
+          name?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      tax_lot_selections: {
+        Row: {
+          disposal_id: string
+          lot_ids: string[]
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          disposal_id: string
+          lot_ids: string[]
+          updated_at?: string
+          user_id?: string
+        }
+        Update: {
+          disposal_id?: string
+          lot_ids?: string[]
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      trade_attachments: {
+        Row: {
+          content_type: string | null
+          created_at: string
+          file_name: string
+          id: string
+          size_bytes: number | null
+          storage_path: string
+          trade_id: string
+          user_id: string
+        }
+        Insert: {
+          content_type?: string | null
+          created_at?: string
+          file_name: string
+          id?: string
+          size_bytes?: number | null
+          storage_path: string
+          trade_id: string
+          user_id?: string
+        }
+        Update: {
+          content_type?: string | null
+          created_at?: string
+          file_name?: string
+          id?: string
+          size_bytes?: number | null
+          storage_path?: string
+          trade_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "trade_attachments_trade_id_user_id_fkey"
+            columns: ["trade_id", "user_id"]
+            isOneToOne: false
+            referencedRelation: "trades"
+            referencedColumns: ["id", "user_id"]
+          },
+        ]
+      }
+      trade_fills: {
+        Row: {
+          executed_at: string
+          id: string
+          price: number
+          quantity: number
+          side: string
+          trade_id: string
+          user_id: string
+        }
+        Insert: {
+          executed_at: string
+          id?: string
+          price: number
+          quantity: number
+          side: string
+          trade_id: string
+          user_id?: string
+        }
+        Update: {
+          executed_at?: string
+          id?: string
+          price?: number
+          quantity?: number
+          side?: string
+          trade_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "trade_fills_trade_id_user_id_fkey"
+            columns: ["trade_id", "user_id"]
+            isOneToOne: false
+            referencedRelation: "trades"
+            referencedColumns: ["id", "user_id"]
+          },
+        ]
+      }
+      trade_revisions: {
+        Row: {
+          action: string
+          changed_at: string
+          changes: Json
+          id: string
+          trade_id: string
+          transaction_id: unknown
+          user_id: string
+        }
+        Insert: {
+          action?: string
+          changed_at?: string
+          changes?: Json
+          id?: string
+          trade_id: string
+          transaction_id?: unknown
+          user_id?: string
+        }
+        Update: {
+          action?: string
+          changed_at?: string
+          changes?: Json
+          id?: string
+          trade_id?: string
+          transaction_id?: unknown
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "trade_revisions_trade_id_user_id_fkey"
+            columns: ["trade_id", "user_id"]
+            isOneToOne: false
+            referencedRelation: "trades"
+            referencedColumns: ["id", "user_id"]
+          },
+        ]
+      }
+      trade_tags: {
+        Row: {
+          tag_id: string
+          trade_id: string
+          user_id: string
+        }
+        Insert: {
+          tag_id: string
+          trade_id: string
+          user_id?: string
+        }
+        Update: {
+          tag_id?: string
+          trade_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "trade_tags_tag_id_user_id_fkey"
+            columns: ["tag_id", "user_id"]
+            isOneToOne: false
+            referencedRelation: "tags"
+            referencedColumns: ["id", "user_id"]
+          },
+          {
+            foreignKeyName: "trade_tags_trade_id_user_id_fkey"
+            columns: ["trade_id", "user_id"]
+            isOneToOne: false
+            referencedRelation: "trades"
+            referencedColumns: ["id", "user_id"]
+          },
+        ]
+      }
+      trades: {
+        Row: {
+          account_id: string | null
+          created_at: string
+          deleted_at: string | null
+          direction: string
+          entry_liquidity: string
+          entry_price: number
+          exit_liquidity: string
+          exit_price: number | null
+          fee_unit: string
+          funding: number
+          id: string
+          initial_margin: number | null
+          instrument_type: string
+          lessons: string | null
+          leverage: number
+          maker_fee: number
+          margin_mode: string
+          pair: string
+          pnl: number
+          position_size: number
+          quote_usd_rate: number | null
+          rebate: number
+          review: string | null
+          sentiment: string | null
+          status: string
+          stop_loss: number | null
+          strategy: string
+          take_profit: number | null
+          taker_fee: number
+          thesis: string | null
+          trade_date: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          account_id?: string | null
+          created_at?: string
+          deleted_at?: string | null
+          direction: string
+          entry_liquidity?: string
+          entry_price: number
+          exit_liquidity?: string
+          exit_price?: number | null
+          fee_unit?: string
+          funding?: number
+          id?: string
+          initial_margin?: number | null
+          instrument_type?: string
+          lessons?: string | null
+          leverage?: number
+          maker_fee?: number
+          margin_mode?: string
+          pair: string
+          pnl: number
+          position_size?: number
+          quote_usd_rate?: number | null
+          rebate?: number
+          review?: string | null
+          sentiment?: string | null
+          status?: string
+          stop_loss?: number | null
+          strategy?: string
+          take_profit?: number | null
+          taker_fee?: number
+          thesis?: string | null
+          trade_date: string
+          updated_at?: string
+          user_id?: string
+        }
+        Update: {
+          account_id?: string | null
+          created_at?: string
+          deleted_at?: string | null
+          direction?: string
+          entry_liquidity?: string
+          entry_price?: number
+          exit_liquidity?: string
+          exit_price?: number | null
+          fee_unit?: string
+          funding?: number
+          id?: string
+          initial_margin?: number | null
+          instrument_type?: string
+          lessons?: string | null
+          leverage?: number
+          maker_fee?: number
+          margin_mode?: string
+          pair?: string
+          pnl?: number
+          position_size?: number
+          quote_usd_rate?: number | null
+          rebate?: number
+          review?: string | null
+          sentiment?: string | null
+          status?: string
+          stop_loss?: number | null
+          strategy?: string
+          take_profit?: number | null
+          taker_fee?: number
+          thesis?: string | null
+          trade_date?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "trades_account_id_user_id_fkey"
+            columns: ["account_id", "user_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id", "user_id"]
+          },
+        ]
+      }
+    }
+    Views: {
+      [_ in never]: never
+    }
+    Functions: {
+      apply_trade_batch: {
+        Args: {
+          add_tag_ids?: string[]
+          day_offset?: number
+          operation: string
+          remove_tag_ids?: string[]
+          trade_ids: string[]
+        }
+        Returns: {
+          error: string | null
+          trade_id: string
+        }[]
+      }
+      create_trades: { Args: { items: Json }; Returns: string[] }
+      delete_tag: { Args: { target_tag_id: string }; Returns: boolean }
+      filter_trades: {
+        Args: {
+          account_filter?: string
+          direction_filter?: string
+          end_date?: string
+          pair_filter?: string
+          start_date?: string
+          tag_ids?: string[]
+        }
+        Returns: Database["public"]["Tables"]["trades"]["Row"][]
+      }
+      format_revision_note: { Args: { note: string }; Returns: string }
+      format_revision_tags: { Args: { tag_ids: string[] }; Returns: string }
+      log_trade_revision: {
+        Args: {
+          field_changes?: Json
+          revision_action: string
+          target_trade_id: string
+          target_user_id: string
+        }
+        Returns: undefined
+      }
+      merge_tags: {
+        Args: { source_tag_id: string; target_tag_id: string }
+        Returns: undefined
+      }
+      move_strategies_to_tags: {
+        Args: { trade_ids?: string[] }
+        Returns: undefined
+      }
+      pair_key: { Args: { pair: string }; Returns: string }
+      pair_quote_asset: { Args: { pair: string }; Returns: string }
+      record_trade_fill_revision: { Args: never; Returns: unknown }
+      record_trade_revision: { Args: never; Returns: unknown }
+      record_trade_tag_revision: { Args: never; Returns: unknown }
+      requesting_user_id: { Args: never; Returns: string }
+      save_trade: {
+        Args: {
+          expected_updated_at?: string
+          fills?: Json
+          tag_ids?: string[]
+          target_id?: string
+          trade: Json
+        }
+        Returns: string
+      }
+      search_trades: {
+        Args: {
+          account_filter?: string
+          cursor_id?: string
+          direction_filter?: string
+          end_date?: string
+          page_size?: number
+          pair_filter?: string
+          sort_key?: string
+          start_date?: string
+          tag_ids?: string[]
+          usd_rates?: Json
+        }
+        Returns: {
+          id: string
+          remaining_count: number
+        }[]
+      }
+      set_updated_at: { Args: never; Returns: unknown }
+      strategy_tag_names: {
+        Args: { strategy: string }
+        Returns: {
+          name: string
+        }[]
+      }
+      summarize_open_positions: {
+        Args: {
+          account_filter?: string
+          direction_filter?: string
+          end_date?: string
+          mark_prices?: Json
+          pair_filter?: string
+          reporting_usd_rate?: number
+          start_date?: string
+          tag_ids?: string[]
+          usd_rates?: Json
+        }
+        Returns: {
+          id: string
+          unrealized_pnl: number | null
+        }[]
+      }
+      summarize_r_multiples: {
+        Args: {
+          account_filter?: string
+          direction_filter?: string
+          end_date?: string
+          pair_filter?: string
+          start_date?: string
+          tag_ids?: string[]
+        }
+        Returns: {
+          average_loss_r: number
+          average_r: number
+          average_win_r: number
+          bucket_counts: number[]
+          trades_with_risk: number
+          win_rate: number
+        }[]
+      }
+      summarize_tag_usage: {
+        Args: never
+        Returns: { tag_id: string; trade_count: number }[]
+      }
+      summarize_trade_days: {
+        Args: {
+          account_filter?: string
+          direction_filter?: string
+          end_date?: string
+          pair_filter?: string
+          reporting_usd_rate?: number
+          start_date?: string
+          tag_ids?: string[]
+          usd_rates?: Json
+        }
+        Returns: {
+          pnl: number
+          trade_count: number
+          trade_date: string
+        }[]
+      }
+      summarize_trade_groups: {
+        Args: {
+          account_filter?: string
+          direction_filter?: string
+          end_date?: string
+          group_by: string
+          pair_filter?: string
+          reporting_usd_rate?: number
+          start_date?: string
+          tag_ids?: string[]
+          usd_rates?: Json
+        }
+        Returns: {
+          average_r: number | null
+          closed_count: number
+          key: string
+          net_pnl: number
+          profit_factor: number | null
+          trade_count: number
+          win_rate: number
+        }[]
+      }
+      summarize_trade_performance: {
+        Args: {
+          account_filter?: string
+          direction_filter?: string
+          end_date?: string
+          pair_filter?: string
+          reporting_usd_rate?: number
+          start_date?: string
+          tag_ids?: string[]
+          usd_rates?: Json
+        }
+        Returns: {
+          average_loss: number
+          average_win: number
+          expectancy: number
+          gross_loss: number
+          gross_profit: number
+          largest_loss: number
+          largest_win: number
+          longest_loss_streak: number
+          longest_win_streak: number
+          loss_count: number
+          net_pnl: number
+          profit_factor: number | null
+          scope: string
+          sharpe_ratio: number | null
+          sortino_ratio: number | null
+          trade_count: number
+          win_count: number
+          win_loss_ratio: number | null
+          win_rate: number
+        }[]
+      }
+      summarize_trade_times: {
+        Args: {
+          account_filter?: string
+          direction_filter?: string
+          end_date?: string
+          pair_filter?: string
+          reporting_usd_rate?: number
+          start_date?: string
+          tag_ids?: string[]
+          time_zone?: string
+          usd_rates?: Json
+        }
+        Returns: {
+          bucket: number
+          bucket_kind: string
+          pnl: number
+          trade_count: number
+          win_count: number
+        }[]
+      }
+      summarize_trades: {
+        Args: {
+          account_filter?: string
+          direction_filter?: string
+          end_date?: string
+          pair_filter?: string
+          start_date?: string
+          tag_ids?: string[]
+        }
+        Returns: {
+          closed_count: number
+          closed_net_pnl: number
+          gross_pnl: number
+          long_count: number
+          quote_asset: string
+          quote_usd_rate: number | null
+          total_costs: number
+          trade_count: number
+          winning_count: number
+        }[]
+      }
+      trade_average_entry_price: {
+        Args: { trade: Database["public"]["Tables"]["trades"]["Row"] }
+        Returns: number
+      }
+      trade_open_quantity: {
+        Args: { trade: Database["public"]["Tables"]["trades"]["Row"] }
+        Returns: number
+      }
+      trade_outcomes: {
+        Args: {
+          account_filter?: string
+          direction_filter?: string
+          end_date?: string
+          pair_filter?: string
+          reporting_usd_rate?: number
+          start_date?: string
+          tag_ids?: string[]
+          usd_rates?: Json
+        }
+        Returns: {
+          direction: string
+          entry_at: string | null
+          id: string
+          net_pnl: number
+          pair: string
+          r_multiple: number | null
+          status: string
+          trade_date: string
+        }[]
+      }
+      trade_r_multiple: {
+        Args: { trade: Database["public"]["Tables"]["trades"]["Row"] }
+        Returns: number | null
+      }
+      trade_reporting_rate: {
+        Args: {
+          reporting_usd_rate: number
+          trade: Database["public"]["Tables"]["trades"]["Row"]
+          usd_rates: Json
+        }
+        Returns: number
+      }
+      trade_revision_fields: {
+        Args: { trade: Database["public"]["Tables"]["trades"]["Row"] }
+        Returns: {
+          asset: string
+          field: string
+          sort_order: number
+          value: string
+        }[]
+      }
+      trade_sort_value: {
+        Args: {
+          sort_key: string
+          trade: Database["public"]["Tables"]["trades"]["Row"]
+          usd_rates: Json
+        }
+        Returns: number
+      }
+      trade_total_costs: {
+        Args: { trade: Database["public"]["Tables"]["trades"]["Row"] }
+        Returns: number
+      }
+    }
+    Enums: {
+      [_ in never]: never
+    }
+    CompositeTypes: {
+      [_ in never]: never
+    }
+  }
+}
+
+type PublicSchema = Database["public"]
+
+export type Tables<TableName extends keyof PublicSchema["Tables"]> =
+  PublicSchema["Tables"][TableName]["Row"]
+
+export type TablesInsert<TableName extends keyof PublicSchema["Tables"]> =
+  PublicSchema["Tables"][TableName]["Insert"]
+
+export type TablesUpdate<TableName extends keyof PublicSchema["Tables"]> =
+  PublicSchema["Tables"][TableName]["Update"]
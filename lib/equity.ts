@@ -0,0 +1,132 @@
+import { Trade } from "@/lib/trades";
+
+export type EquityPoint = {
+  date: string;
+  pnl: number;
+  tradeCount: number;
+  equity: number;
+  highWaterMark: number;
+  drawdown: number;
+};
+
+export type DrawdownPeriod = {
+  peakDate: string;
+  troughDate: string;
+  recoveryDate: string | null;
+  depth: number;
+  durationDays: number;
+  recoveryDays: number | null;
+};
+
+export type DrawdownStats = {
+  maxDrawdown: number;
+  maxDrawdownPercent: number | null;
+  currentDrawdown: number;
+  longestDrawdownDays: number;
+  maxDrawdownPeriod: DrawdownPeriod | null;
+  periods: DrawdownPeriod[];
+};
+
+const dayMs = 24 * 60 * 60 * 1000;
+
+const daysBetween = (from: string, to: string) =>
+  Math.round((new Date(to).getTime() - new Date(from).getTime()) / dayMs);
+
+// One point per trading day. Equity starts from zero, so the curve is
+// cumulative net PnL rather than an account balance.
+export const buildEquityCurve = (trades: Trade[]): EquityPoint[] => {
+  const dailyPnl = new Map<string, { pnl: number; tradeCount: number }>();
+
+  trades
+    .filter((trade) => trade.status !== "Cancelled")
+    .forEach((trade) => {
+      const day = trade.date.slice(0, 10);
+      const current = dailyPnl.get(day) ?? { pnl: 0, tradeCount: 0 };
+      dailyPnl.set(day, {
+        pnl: current.pnl + trade.netPnl,
+        tradeCount: current.tradeCount + 1,
+      });
+    });
+
+  let equity = 0;
+  let highWaterMark = 0;
+
+  return [...dailyPnl.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([date, { pnl, tradeCount }]) => {
+      equity += pnl;
+      highWaterMark = Math.max(highWaterMark, equity);
+      return {
+        date,
+        pnl,
+        tradeCount,
+        equity,
+        highWaterMark,
+        drawdown: highWaterMark - equity,
+      };
+    });
+};
+
+export const calculateDrawdownStats = (curve: EquityPoint[]): DrawdownStats => {
+  const periods: DrawdownPeriod[] = [];
+  let peakDate = curve.length > 0 ? curve[0].date : "";
+  let current: DrawdownPeriod | null = null;
+
+  for (const point of curve) {
+    if (point.drawdown > 0) {
+      if (!current) {
+        current = {
+          peakDate,
+          troughDate: point.date,
+          recoveryDate: null,
+          depth: point.drawdown,
+          durationDays: 0,
+          recoveryDays: null,
+        };
+      }
+      if (point.drawdown > current.depth) {
+        current.depth = point.drawdown;
+        current.troughDate = point.date;
+      }
+      current.durationDays = daysBetween(current.peakDate, point.date);
+      continue;
+    }
+
+    if (current) {
+      current.recoveryDate = point.date;
+      current.durationDays = daysBetween(current.peakDate, point.date);
+      current.recoveryDays = daysBetween(current.troughDate, point.date);
+      periods.push(current);
+      current = null;
+    }
+    peakDate = point.date;
+  }
+
+  if (current) {
+    periods.push(current);
+  }
+
+  const maxDrawdownPeriod = periods.reduce<DrawdownPeriod | null>(
+    (worst, period) => (!worst || period.depth > worst.depth ? period : worst),
+    null,
+  );
+  const peakEquity = maxDrawdownPeriod
+    ? curve.find((point) => point.date === maxDrawdownPeriod.troughDate)
+        ?.highWaterMark ?? 0
+    : 0;
+
+  return {
+    maxDrawdown: maxDrawdownPeriod?.depth ?? 0,
+    maxDrawdownPercent:
+      maxDrawdownPeriod && peakEquity > 0
+        ? (maxDrawdownPeriod.depth / peakEquity) * 100
+        : null,
+    currentDrawdown: curve.length > 0 ? curve[curve.length - 1].drawdown : 0,
+    longestDrawdownDays: periods.reduce(
+      (longest, period) => Math.max(longest, period.durationDays),
+      0,
+    ),
+    maxDrawdownPeriod,
+    periods,
+  };
+};
@@ -0,0 +1,55 @@
+export type FeeUnit = "absolute" | "bps";
+
+export type Liquidity = "Maker" | "Taker";
+
+export type TradeCostInputs = {
+  feeUnit: FeeUnit;
+  makerFee: number;
+  takerFee: number;
+  entryLiquidity: Liquidity;
+  exitLiquidity: Liquidity;
+  funding: number;
+  rebate: number;
+};
+
+export type TradeCosts = {
+  fees: number;
+  funding: number;
+  rebate: number;
+  total: number;
+};
+
+export const createDefaultCostInputs = (): TradeCostInputs => ({
+  feeUnit: "absolute",
+  makerFee: 0,
+  takerFee: 0,
+  entryLiquidity: "Taker",
+  exitLiquidity: "Taker",
+  funding: 0,
+  rebate: 0,
+});
+
+// In "absolute" mode the maker and taker fields are the amounts paid. In
+// "bps" mode they are rates, charged on each leg's notional according to
+// whether that leg added (maker) or removed (taker) liquidity.
+export const calculateTradeCosts = (
+  inputs: TradeCostInputs,
+  entryNotional: number,
+  exitNotional: number,
+): TradeCosts => {
+  const rateFor = (liquidity: Liquidity) =>
+    (liquidity === "Maker" ? inputs.makerFee : inputs.takerFee) / 10_000;
+
+  const fees =
+    inputs.feeUnit === "bps"
+      ? Math.abs(entryNotional) * rateFor(inputs.entryLiquidity) +
+        Math.abs(exitNotional) * rateFor(inputs.exitLiquidity)
+      : inputs.makerFee + inputs.takerFee;
+
+  return {
+    fees,
+    funding: inputs.funding,
+    rebate: inputs.rebate,
+    total: fees + inputs.funding - inputs.rebate,
+  };
+};
@@ -0,0 +1,52 @@
+const fiatCurrencies = new Set(["USD", "EUR", "GBP", "JPY", "AUD", "CAD", "CHF"]);
+
+export const isFiatCurrency = (currency: string) => fiatCurrencies.has(currency);
+
+const currencyFormatters = new Map<string, Intl.NumberFormat>();
+
+// Fiat goes through Intl's currency style; crypto assets are not ISO 4217
+// codes, so they get a plain number with the ticker appended.
+const getCurrencyFormatter = (currency: string) => {
+  const cached = currencyFormatters.get(currency);
+  if (cached) {
+    return cached;
+  }
+  const formatter = fiatCurrencies.has(currency)
+    ? new Intl.NumberFormat("en-US", {
+        style: "currency",
+        currency,
+        minimumFractionDigits: 2,
+        maximumFractionDigits: 2,
+      })
+    : new Intl.NumberFormat("en-US", {
+        minimumFractionDigits: 2,
+        maximumFractionDigits: currency.includes("USD") ? 2 : 8,
+      });
+  currencyFormatters.set(currency, formatter);
+  return formatter;
+};
+
+export const formatCurrency = (value: number, currency = "USD") => {
+  const formatted = getCurrencyFormatter(currency).format(value);
+  return fiatCurrencies.has(currency) ? formatted : `${formatted} ${currency}`;
+};
+
+export const formatPnL = (value: number, currency = "USD") => {
+  const prefix = value >= 0 ? "+" : "-";
+  return `${prefix}${formatCurrency(Math.abs(value), currency)}`;
+};
+
+export const formatR = (value: number) =>
+  `${value >= 0 ? "+" : "−"}${Math.abs(value).toFixed(2)}R`;
+
+export const formatDate = (value: string) => {
+  const parsed = new Date(value);
+  if (Number.isNaN(parsed.getTime())) {
+    return value;
+  }
+  return parsed.toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+};
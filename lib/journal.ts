@@ -0,0 +1,101 @@
+export type TradeJournal = {
+  thesis: string;
+  review: string;
+  lessons: string;
+};
+
+export type JournalSection = keyof TradeJournal;
+
+export type TradeAttachment = {
+  id: string;
+  tradeId: string;
+  userId: string;
+  storagePath: string;
+  fileName: string;
+  contentType: string;
+  size: number;
+  createdAt: string;
+};
+
+export type TradeAttachmentRow = {
+  id: string;
+  trade_id: string;
+  user_id: string;
+  storage_path: string;
+  file_name: string;
+  content_type: string | null;
+  size_bytes: number | null;
+  created_at: string;
+};
+
+export type TradeAttachmentInsert = Omit<TradeAttachmentRow, "id" | "created_at">;
+
+export const journalSections: { key: JournalSection; label: string; placeholder: string }[] = [
+  {
+    key: "thesis",
+    label: "Pre-Trade Thesis",
+    placeholder: "Why this trade, what has to happen, where you are wrong.",
+  },
+  {
+    key: "review",
+    label: "Post-Trade Review",
+    placeholder: "How the trade played out against the plan.",
+  },
+  {
+    key: "lessons",
+    label: "Lessons Learned",
+    placeholder: "What to repeat or avoid next time.",
+  },
+];
+
+export const attachmentBucket = "trade-screenshots";
+
+export const maxAttachmentBytes = 5 * 1024 * 1024;
+
+export const createEmptyJournal = (): TradeJournal => ({
+  thesis: "",
+  review: "",
+  lessons: "",
+});
+
+export const hasJournalContent = (journal: TradeJournal) =>
+  journalSections.some(({ key }) => journal[key].trim() !== "");
+
+// Blank sections are stored as null so "no notes" is easy to query for.
+export const mapJournalToColumns = (journal: TradeJournal) => ({
+  thesis: journal.thesis.trim() ? journal.thesis : null,
+  review: journal.review.trim() ? journal.review : null,
+  lessons: journal.lessons.trim() ? journal.lessons : null,
+});
+
+export const mapRowToAttachment = (row: TradeAttachmentRow): TradeAttachment => ({
+  id: row.id,
+  tradeId: row.trade_id,
+  userId: row.user_id,
+  storagePath: row.storage_path,
+  fileName: row.file_name,
+  contentType: row.content_type ?? "application/octet-stream",
+  size: Number(row.size_bytes ?? 0),
+  createdAt: row.created_at,
+});
+
+// Paths are scoped by user and trade so storage policies can match on the
+// first folder and a trade's files can be listed or removed together.
+export const buildAttachmentPath = (
+  userId: string,
+  tradeId: string,
+  fileName: string,
+) => {
+  const safeName = fileName.toLowerCase().replace(/[^a-z0-9.]+/g, "-");
+  return `${userId}/${tradeId}/${Date.now()}-${safeName}`;
+};
+
+export const validateAttachmentFile = (file: File) => {
+  if (!file.type.startsWith("image/")) {
+    return `${file.name} is not an image.`;
+  }
+  if (file.size > maxAttachmentBytes) {
+    return `${file.name} is larger than ${maxAttachmentBytes / 1024 / 1024} MB.`;
+  }
+  return null;
+};
@@ -0,0 +1,97 @@
+import { attachmentStorage } from "@/lib/attachmentStorage";
+import {
+  TradeAttachment,
+  TradeAttachmentInsert,
+  TradeAttachmentRow,
+  buildAttachmentPath,
+  mapRowToAttachment,
+} from "@/lib/journal";
+import { supabase } from "@/lib/supabaseClient";
+
+export const fetchTradeAttachments = async (userId: string, tradeId: string) => {
+  const { data, error } = await supabase
+    .from("trade_attachments")
+    .select("*")
+    .eq("trade_id", tradeId)
+    .eq("user_id", userId)
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    throw error;
+  }
+
+  return (data as TradeAttachmentRow[] | null)?.map(mapRowToAttachment) ?? [];
+};
+
+export const uploadTradeAttachment = async (
+  userId: string,
+  tradeId: string,
+  file: File,
+) => {
+  const storagePath = buildAttachmentPath(userId, tradeId, file.name);
+  await attachmentStorage.upload(storagePath, file);
+
+  const insert: TradeAttachmentInsert = {
+    trade_id: tradeId,
+    user_id: userId,
+    storage_path: storagePath,
+    file_name: file.name,
+    content_type: file.type || null,
+    size_bytes: file.size,
+  };
+  const { data, error } = await supabase
+    .from("trade_attachments")
+    .insert(insert)
+    .select()
+    .single();
+
+  if (error) {
+    await attachmentStorage.remove([storagePath]);
+    throw error;
+  }
+
+  return mapRowToAttachment(data as TradeAttachmentRow);
+};
+
+// Files are removed before their rows so a failed storage call leaves the
+// rows in place to retry, rather than orphaning files nothing points at.
+export const deleteTradeAttachment = async (
+  userId: string,
+  attachment: TradeAttachment,
+) => {
+  await attachmentStorage.remove([attachment.storagePath]);
+
+  const { error } = await supabase
+    .from("trade_attachments")
+    .delete()
+    .eq("id", attachment.id)
+    .eq("user_id", userId);
+
+  if (error) {
+    throw error;
+  }
+};
+
+export const deleteAttachmentsForTrade = async (
+  userId: string,
+  tradeId: string,
+) => {
+  const attachments = await fetchTradeAttachments(userId, tradeId);
+  if (attachments.length === 0) {
+    return;
+  }
+
+  await attachmentStorage.remove(
+    attachments.map((attachment) => attachment.storagePath),
+  );
+
+  const { error } = await supabase
+    .from("trade_attachments")
+    .delete()
+    .eq("trade_id", tradeId)
+    .eq("user_id", userId);
+
+  if (error) {
+    throw error;
+  }
+};
@@ -0,0 +1,50 @@
+// One IndexedDB database for everything the app keeps on the device. Bump
+// the version and add the store to `localStores` when a new one is needed.
+
+export type LocalStoreName =
+  | "attachments"
+  | "pendingTradeMutations"
+  | "cachedJournals";
+
+const localDatabaseName = "crypto-trading-journal";
+const localDatabaseVersion = 2;
+
+const localStores: Record<LocalStoreName, IDBObjectStoreParameters | undefined> = {
+  attachments: undefined,
+  pendingTradeMutations: { keyPath: "tradeId" },
+  cachedJournals: undefined,
+};
+
+export const requestToPromise = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const openLocalDatabase = () => {
+  const request = indexedDB.open(localDatabaseName, localDatabaseVersion);
+  request.onupgradeneeded = () => {
+    const database = request.result;
+    (Object.keys(localStores) as LocalStoreName[]).forEach((storeName) => {
+      if (!database.objectStoreNames.contains(storeName)) {
+        database.createObjectStore(storeName, localStores[storeName]);
+      }
+    });
+  };
+  return requestToPromise(request);
+};
+
+export const withLocalStore = async <T>(
+  storeName: LocalStoreName,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>,
+) => {
+  const database = await openLocalDatabase();
+  try {
+    return await requestToPromise(
+      run(database.transaction(storeName, mode).objectStore(storeName)),
+    );
+  } finally {
+    database.close();
+  }
+};
@@ -0,0 +1,85 @@
+import { TradeDirection } from "@/lib/trades";
+
+export type InstrumentType = "Spot" | "Perpetual" | "Future" | "Option";
+
+export type MarginMode = "Isolated" | "Cross";
+
+export type TradeMarginInputs = {
+  instrumentType: InstrumentType;
+  leverage: number;
+  marginMode: MarginMode;
+  initialMargin: number | null;
+};
+
+export const instrumentTypeLabels: Record<InstrumentType, string> = {
+  Spot: "Spot",
+  Perpetual: "Perpetual",
+  Future: "Dated future",
+  Option: "Option",
+};
+
+// Exchanges tier this by position size; 0.5% is the common first tier for
+// majors and is close enough for an estimate.
+export const defaultMaintenanceMarginRate = 0.005;
+
+export const createDefaultMarginInputs = (): TradeMarginInputs => ({
+  instrumentType: "Spot",
+  leverage: 1,
+  marginMode: "Isolated",
+  initialMargin: null,
+});
+
+export const isLeveragedInstrument = (instrumentType: InstrumentType) =>
+  instrumentType === "Perpetual" || instrumentType === "Future";
+
+// Spot and long options tie up the full notional (the premium for an
+// option); futures post notional / leverage unless a figure was entered.
+export const getInitialMargin = (
+  inputs: TradeMarginInputs,
+  entryNotional: number,
+) => {
+  if (inputs.initialMargin !== null) {
+    return inputs.initialMargin;
+  }
+  const notional = Math.abs(entryNotional);
+  return isLeveragedInstrument(inputs.instrumentType)
+    ? notional / Math.max(inputs.leverage, 1)
+    : notional;
+};
+
+export const calculateReturnOnMargin = (netPnl: number, initialMargin: number) =>
+  initialMargin > 0 ? netPnl / initialMargin : null;
+
+// Isolated liquidation is where the loss uses up the posted margin down to
+// the maintenance requirement. Cross margin draws on the whole account, so
+// it cannot be estimated from the trade alone.
+export const estimateLiquidationPrice = ({
+  direction,
+  entryPrice,
+  quantity,
+  inputs,
+  initialMargin,
+  maintenanceMarginRate = defaultMaintenanceMarginRate,
+}: {
+  direction: TradeDirection;
+  entryPrice: number;
+  quantity: number;
+  inputs: TradeMarginInputs;
+  initialMargin: number;
+  maintenanceMarginRate?: number;
+}) => {
+  if (
+    !isLeveragedInstrument(inputs.instrumentType) ||
+    inputs.marginMode !== "Isolated" ||
+    quantity <= 0 ||
+    entryPrice <= 0
+  ) {
+    return null;
+  }
+  const marginPerUnit = initialMargin / quantity;
+  const price =
+    direction === "Long"
+      ? (entryPrice - marginPerUnit) / (1 - maintenanceMarginRate)
+      : (entryPrice + marginPerUnit) / (1 + maintenanceMarginRate);
+  return price > 0 ? price : null;
+};
@@ -0,0 +1,54 @@
+import { normalizePairKey } from "@/lib/trades";
+
+export type MarkPrices = Record<string, string>;
+
+const storageKey = "crypto-trading-journal:mark-prices";
+
+export const loadMarkPrices = (): MarkPrices => {
+  if (typeof window === "undefined") {
+    return {};
+  }
+  try {
+    const stored = window.localStorage.getItem(storageKey);
+    return stored ? (JSON.parse(stored) as MarkPrices) : {};
+  } catch {
+    return {};
+  }
+};
+
+export const saveMarkPrices = (markPrices: MarkPrices) => {
+  try {
+    window.localStorage.setItem(storageKey, JSON.stringify(markPrices));
+  } catch (storageErr) {
+    console.error(storageErr);
+  }
+};
+
+export const setMarkPrice = (
+  markPrices: MarkPrices,
+  pair: string,
+  value: string,
+): MarkPrices => ({
+  ...markPrices,
+  [normalizePairKey(pair)]: value,
+});
+
+const parseMarkPrice = (value: string | undefined) => {
+  const parsed = parseFloat(value ?? "");
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+};
+
+export const getMarkPrice = (markPrices: MarkPrices, pair: string) =>
+  parseMarkPrice(markPrices[normalizePairKey(pair)]);
+
+// The marks with blank or invalid entries dropped, for server queries.
+export const getValidMarkPrices = (markPrices: MarkPrices) => {
+  const prices: Record<string, number> = {};
+  Object.entries(markPrices).forEach(([pairKey, value]) => {
+    const price = parseMarkPrice(value);
+    if (price !== null) {
+      prices[pairKey] = price;
+    }
+  });
+  return prices;
+};
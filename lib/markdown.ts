@@ -0,0 +1,101 @@
+// A deliberately small Markdown subset for journal notes: headings, lists,
+// paragraphs and inline bold/italic/code/links. Output is plain data so the
+// renderer never has to inject HTML.
+export type MarkdownInline =
+  | { type: "text"; text: string }
+  | { type: "strong"; text: string }
+  | { type: "em"; text: string }
+  | { type: "code"; text: string }
+  | { type: "link"; text: string; href: string };
+
+export type MarkdownBlock =
+  | { type: "heading"; level: 1 | 2 | 3; content: MarkdownInline[] }
+  | { type: "paragraph"; content: MarkdownInline[] }
+  | { type: "list"; ordered: boolean; items: MarkdownInline[][] };
+
+const inlinePattern =
+  /(\*\*([^*]+)\*\*)|(\*([^*]+)\*|_([^_]+)_)|(`([^`]+)`)|(\[([^\]]+)\]\(([^)\s]+)\))/g;
+
+const isSafeHref = (href: string) => /^(https?:|mailto:)/i.test(href);
+
+export const parseMarkdownInline = (text: string): MarkdownInline[] => {
+  const tokens: MarkdownInline[] = [];
+  let lastIndex = 0;
+
+  for (const match of text.matchAll(inlinePattern)) {
+    const index = match.index ?? 0;
+    if (index > lastIndex) {
+      tokens.push({ type: "text", text: text.slice(lastIndex, index) });
+    }
+    if (match[2] !== undefined) {
+      tokens.push({ type: "strong", text: match[2] });
+    } else if (match[4] !== undefined || match[5] !== undefined) {
+      tokens.push({ type: "em", text: match[4] ?? match[5] });
+    } else if (match[7] !== undefined) {
+      tokens.push({ type: "code", text: match[7] });
+    } else if (isSafeHref(match[10])) {
+      tokens.push({ type: "link", text: match[9], href: match[10] });
+    } else {
+      tokens.push({ type: "text", text: match[9] });
+    }
+    lastIndex = index + match[0].length;
+  }
+
+  if (lastIndex < text.length) {
+    tokens.push({ type: "text", text: text.slice(lastIndex) });
+  }
+  return tokens;
+};
+
+const headingPattern = /^(#{1,3})\s+(.*)$/;
+const unorderedItemPattern = /^[-*+]\s+(.*)$/;
+const orderedItemPattern = /^\d+[.)]\s+(.*)$/;
+
+export const parseMarkdown = (source: string): MarkdownBlock[] => {
+  const blocks: MarkdownBlock[] = [];
+  let paragraph: string[] = [];
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) {
+      blocks.push({
+        type: "paragraph",
+        content: parseMarkdownInline(paragraph.join(" ")),
+      });
+      paragraph = [];
+    }
+  };
+
+  source.split(/\r?\n/).forEach((rawLine) => {
+    const line = rawLine.trim();
+    const heading = line.match(headingPattern);
+    const unordered = line.match(unorderedItemPattern);
+    const ordered = line.match(orderedItemPattern);
+    const item = unordered ?? ordered;
+
+    if (!line) {
+      flushParagraph();
+    } else if (heading) {
+      flushParagraph();
+      blocks.push({
+        type: "heading",
+        level: heading[1].length as 1 | 2 | 3,
+        content: parseMarkdownInline(heading[2]),
+      });
+    } else if (item) {
+      flushParagraph();
+      const isOrdered = ordered !== null;
+      const previous = blocks[blocks.length - 1];
+      const content = parseMarkdownInline(item[1]);
+      if (previous?.type === "list" && previous.ordered === isOrdered) {
+        previous.items.push(content);
+      } else {
+        blocks.push({ type: "list", ordered: isOrdered, items: [content] });
+      }
+    } else {
+      paragraph.push(line);
+    }
+  });
+
+  flushParagraph();
+  return blocks;
+};
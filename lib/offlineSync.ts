@@ -0,0 +1,361 @@
+import { fetchAccounts } from "@/lib/accountApi";
+import { Account, AccountTransfer } from "@/lib/accounts";
+import { ApiError, isApiError, isNetworkError } from "@/lib/apiClient";
+import { withLocalStore } from "@/lib/localDatabase";
+import { fetchTags } from "@/lib/tagApi";
+import { Tag } from "@/lib/tags";
+import {
+  createTrades,
+  deleteTrade,
+  fetchTrades,
+  updateTrade,
+} from "@/lib/tradeApi";
+import {
+  TradePatch,
+  TradePayload,
+  deriveTradeDraft,
+  mapTradeToPayload,
+} from "@/lib/tradeSchema";
+import { Trade, sortTradesByDateDesc, withTradeCosts } from "@/lib/trades";
+
+export type PendingMutationKind = "create" | "update" | "delete";
+
+export type SyncConflict = {
+  message: string;
+  serverTrade: Trade | null;
+};
+
+// Changes made while offline, one entry per trade. A later change to the same
+// trade is folded into the queued one, so replay never has to order several
+// writes to one trade and an offline create followed by a delete never syncs.
+export type PendingMutation = {
+  tradeId: string;
+  userId: string;
+  kind: PendingMutationKind;
+  // The full TradePayload for creates, the changed fields for updates.
+  patch: TradePatch;
+  // The version the change was made against. null overwrites whatever the
+  // server has.
+  baseUpdatedAt: string | null;
+  queuedAt: string;
+  conflict: SyncConflict | null;
+};
+
+export type TradeChange = Pick<
+  PendingMutation,
+  "tradeId" | "kind" | "patch" | "baseUpdatedAt"
+>;
+
+// Everything but the trades, which the trade log reads a page at a time.
+export type OfflineJournal = {
+  tags: Tag[];
+  accounts: Account[];
+  transfers: AccountTransfer[];
+  pendingMutations: PendingMutation[];
+  isOffline: boolean;
+};
+
+export type OfflineTradeJournal = OfflineJournal & {
+  trades: Trade[];
+};
+
+// Journals cached before accounts existed have no accounts or transfers.
+// `trades` is the whole journal, cached by loadOfflineTrades; `logTrades` is
+// the trade log's last first page, cached by cacheTradeLog.
+type CachedJournal = {
+  tags: Tag[];
+  accounts?: Account[];
+  transfers?: AccountTransfer[];
+  trades?: Trade[];
+  logTrades?: Trade[];
+};
+
+const localTradeIdPrefix = "local-";
+
+export const createLocalTradeId = () =>
+  `${localTradeIdPrefix}${crypto.randomUUID()}`;
+
+export const isLocalTradeId = (tradeId: string) =>
+  tradeId.startsWith(localTradeIdPrefix);
+
+export const isOfflineError = (error: unknown) =>
+  !navigator.onLine || isNetworkError(error);
+
+export const loadPendingMutations = async (userId: string) => {
+  const mutations = await withLocalStore<PendingMutation[]>(
+    "pendingTradeMutations",
+    "readonly",
+    (store) => store.getAll(),
+  );
+  return mutations
+    .filter((mutation) => mutation.userId === userId)
+    .sort((a, b) => a.queuedAt.localeCompare(b.queuedAt));
+};
+
+const putPendingMutation = (mutation: PendingMutation) =>
+  withLocalStore("pendingTradeMutations", "readwrite", (store) =>
+    store.put(mutation),
+  );
+
+const removePendingMutation = (tradeId: string) =>
+  withLocalStore("pendingTradeMutations", "readwrite", (store) =>
+    store.delete(tradeId),
+  );
+
+const mergeMutations = (
+  existing: PendingMutation | undefined,
+  next: PendingMutation,
+): PendingMutation | null => {
+  if (!existing) {
+    return next;
+  }
+  if (existing.kind === "create") {
+    return next.kind === "delete"
+      ? null
+      : { ...existing, patch: { ...existing.patch, ...next.patch }, conflict: null };
+  }
+  return {
+    ...next,
+    patch: next.kind === "delete" ? {} : { ...existing.patch, ...next.patch },
+    baseUpdatedAt: existing.baseUpdatedAt,
+    queuedAt: existing.queuedAt,
+  };
+};
+
+// Returns every pending mutation for the user after queueing this one.
+export const queueTradeMutation = async (
+  userId: string,
+  change: TradeChange,
+) => {
+  const existing = await withLocalStore<PendingMutation | undefined>(
+    "pendingTradeMutations",
+    "readonly",
+    (store) => store.get(change.tradeId),
+  );
+  const merged = mergeMutations(existing, {
+    ...change,
+    userId,
+    queuedAt: new Date().toISOString(),
+    conflict: null,
+  });
+
+  if (merged) {
+    await putPendingMutation(merged);
+  } else {
+    await removePendingMutation(change.tradeId);
+  }
+  return loadPendingMutations(userId);
+};
+
+export const buildLocalTrade = (
+  tradeId: string,
+  userId: string,
+  payload: TradePayload,
+  updatedAt: string,
+) => {
+  const { fills, tagIds, journal, ...draft } = payload;
+  return withTradeCosts(deriveTradeDraft(draft, fills), {
+    id: tradeId,
+    userId,
+    fills: fills.map((fill, index) => ({
+      ...fill,
+      id: `${tradeId}-fill-${index}`,
+      tradeId,
+    })),
+    tagIds,
+    journal,
+    updatedAt,
+  });
+};
+
+// Shows queued changes on top of the last known server state.
+export const applyPendingMutations = (
+  trades: Trade[],
+  mutations: PendingMutation[],
+) => {
+  let result = [...trades];
+  mutations.forEach((mutation) => {
+    const current = result.find((trade) => trade.id === mutation.tradeId);
+    const others = result.filter((trade) => trade.id !== mutation.tradeId);
+    if (mutation.kind === "delete") {
+      result = others;
+    } else if (mutation.kind === "create") {
+      result = [
+        buildLocalTrade(
+          mutation.tradeId,
+          mutation.userId,
+          mutation.patch as TradePayload,
+          mutation.queuedAt,
+        ),
+        ...others,
+      ];
+    } else if (current) {
+      result = [
+        buildLocalTrade(
+          current.id,
+          current.userId,
+          { ...mapTradeToPayload(current), ...mutation.patch },
+          current.updatedAt,
+        ),
+        ...others,
+      ];
+    }
+  });
+  return sortTradesByDateDesc(result);
+};
+
+const describeConflict = (
+  mutation: PendingMutation,
+  syncErr: ApiError,
+): SyncConflict => {
+  if (syncErr.status === 409) {
+    return {
+      message:
+        mutation.kind === "delete"
+          ? "Changed on another device after you deleted it offline."
+          : "Changed on another device after your offline edit.",
+      serverTrade: syncErr.trade,
+    };
+  }
+  if (syncErr.status === 404) {
+    return { message: "Deleted on another device.", serverTrade: null };
+  }
+  return { message: syncErr.message, serverTrade: null };
+};
+
+const replayMutation = async (mutation: PendingMutation) => {
+  const expectedUpdatedAt = mutation.baseUpdatedAt ?? undefined;
+  if (mutation.kind === "create") {
+    await createTrades([mutation.patch as TradePayload]);
+  } else if (mutation.kind === "update") {
+    await updateTrade(mutation.tradeId, mutation.patch, expectedUpdatedAt);
+  } else {
+    await deleteTrade(mutation.tradeId, expectedUpdatedAt);
+  }
+};
+
+// Sends queued changes oldest first. Stops quietly at the first network
+// failure; rejected changes stay queued with a conflict for the user.
+export const replayPendingMutations = async (userId: string) => {
+  for (const mutation of await loadPendingMutations(userId)) {
+    if (mutation.conflict) {
+      continue;
+    }
+
+    try {
+      await replayMutation(mutation);
+      await removePendingMutation(mutation.tradeId);
+    } catch (syncErr) {
+      if (isOfflineError(syncErr)) {
+        return;
+      }
+      if (!isApiError(syncErr) || syncErr.status >= 500) {
+        throw syncErr;
+      }
+      if (mutation.kind === "delete" && syncErr.status === 404) {
+        await removePendingMutation(mutation.tradeId);
+      } else {
+        await putPendingMutation({
+          ...mutation,
+          conflict: describeConflict(mutation, syncErr),
+        });
+      }
+    }
+  }
+};
+
+// "Keep mine": retry without a version check so the offline change wins.
+export const keepLocalChange = (mutation: PendingMutation) =>
+  putPendingMutation({ ...mutation, baseUpdatedAt: null, conflict: null });
+
+// "Keep theirs": drop the offline change.
+export const discardLocalChange = (mutation: PendingMutation) =>
+  removePendingMutation(mutation.tradeId);
+
+const readCachedJournal = (userId: string) =>
+  withLocalStore<CachedJournal | undefined>("cachedJournals", "readonly", (store) =>
+    store.get(userId),
+  );
+
+const updateCachedJournal = async (
+  userId: string,
+  update: Partial<CachedJournal>,
+) => {
+  const cached = await readCachedJournal(userId);
+  await withLocalStore("cachedJournals", "readwrite", (store) =>
+    store.put({ tags: [], ...cached, ...update } satisfies CachedJournal, userId),
+  );
+};
+
+// Syncs what it can, then returns the server's tags and accounts (or the last
+// cached copy when offline) with the changes still pending.
+export const loadOfflineJournal = async (userId: string): Promise<OfflineJournal> => {
+  if (navigator.onLine) {
+    try {
+      await replayPendingMutations(userId);
+    } catch (syncErr) {
+      console.error(syncErr);
+    }
+  }
+  const pendingMutations = await loadPendingMutations(userId);
+
+  try {
+    const [tags, { accounts, transfers }] = await Promise.all([
+      fetchTags(),
+      fetchAccounts(),
+    ]);
+    await updateCachedJournal(userId, { tags, accounts, transfers });
+    return { tags, accounts, transfers, pendingMutations, isOffline: false };
+  } catch (loadErr) {
+    if (!isOfflineError(loadErr)) {
+      throw loadErr;
+    }
+    const cached = await readCachedJournal(userId);
+    return {
+      tags: cached?.tags ?? [],
+      accounts: cached?.accounts ?? [],
+      transfers: cached?.transfers ?? [],
+      pendingMutations,
+      isOffline: true,
+    };
+  }
+};
+
+// loadOfflineJournal plus every trade, with anything still pending applied
+// on top, for the pages that work through the whole journal.
+export const loadOfflineTrades = async (
+  userId: string,
+): Promise<OfflineTradeJournal> => {
+  const journal = await loadOfflineJournal(userId);
+  if (!journal.isOffline) {
+    try {
+      const trades = await fetchTrades();
+      await updateCachedJournal(userId, { trades });
+      return {
+        ...journal,
+        trades: applyPendingMutations(trades, journal.pendingMutations),
+      };
+    } catch (loadErr) {
+      if (!isOfflineError(loadErr)) {
+        throw loadErr;
+      }
+    }
+  }
+  const cached = await readCachedJournal(userId);
+  return {
+    ...journal,
+    trades: applyPendingMutations(cached?.trades ?? [], journal.pendingMutations),
+    isOffline: true,
+  };
+};
+
+// The trade log keeps its first page on the device to show while offline.
+export const cacheTradeLog = (userId: string, trades: Trade[]) =>
+  updateCachedJournal(userId, { logTrades: trades });
+
+// The last cached log page, without pending changes. Journals cached before
+// the log was paged fall back to the whole journal.
+export const loadCachedTradeLog = async (userId: string) => {
+  const cached = await readCachedJournal(userId);
+  return cached?.logTrades ?? cached?.trades ?? [];
+};
@@ -0,0 +1,254 @@
+// A small PDF writer for server-rendered reports: A4 pages, the built-in
+// Helvetica fonts, text, lines, rectangles and polylines. It needs no fonts
+// or services at runtime. Text outside Windows-1252 is printed as "?".
+//
+// Coordinates are PDF points from the bottom-left corner of the page.
+
+export type PdfColor = [number, number, number];
+
+export type PdfPage = string[];
+
+export type PdfDocument = {
+  title: string;
+  pages: PdfPage[];
+};
+
+export type PdfTextOptions = {
+  size?: number;
+  bold?: boolean;
+  color?: PdfColor;
+  align?: "left" | "right";
+};
+
+export const pdfPageWidth = 595.28;
+export const pdfPageHeight = 841.89;
+
+export const black: PdfColor = [0.1, 0.12, 0.16];
+
+// Helvetica advance widths for ASCII 32-126, in thousandths of the font size.
+const helveticaWidths = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278,
+  278, 556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584,
+  584, 556, 1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556,
+  833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278,
+  278, 278, 469, 556, 333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222,
+  500, 222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500,
+  500, 334, 260, 334, 584,
+];
+
+// Helvetica-Bold is close enough to a uniformly wider Helvetica for layout.
+const boldWidthFactor = 1.06;
+
+// Characters above 0xFF that Windows-1252 has a slot for.
+const winAnsiExtras: Record<string, number> = {
+  "€": 0x80,
+  "‚": 0x82,
+  "„": 0x84,
+  "…": 0x85,
+  "‘": 0x91,
+  "’": 0x92,
+  "“": 0x93,
+  "”": 0x94,
+  "•": 0x95,
+  "–": 0x96,
+  "—": 0x97,
+  "™": 0x99,
+  "−": 0x2d,
+  "→": 0x3e,
+};
+
+const toWinAnsiCode = (char: string) => {
+  const code = char.codePointAt(0) ?? 0x3f;
+  if (code >= 0x20 && code <= 0x7e) {
+    return code;
+  }
+  if (code >= 0xa0 && code <= 0xff) {
+    return code;
+  }
+  return winAnsiExtras[char] ?? 0x3f;
+};
+
+const encodeText = (text: string) =>
+  [...text]
+    .map((char) => {
+      const code = toWinAnsiCode(char);
+      if (char === "(" || char === ")" || char === "\\") {
+        return `\\${char}`;
+      }
+      return code >= 0x20 && code <= 0x7e
+        ? String.fromCharCode(code)
+        : `\\${code.toString(8).padStart(3, "0")}`;
+    })
+    .join("");
+
+export const measureText = (text: string, size: number, bold = false) =>
+  ([...text].reduce((width, char) => {
+    const code = toWinAnsiCode(char);
+    return width + (code >= 0x20 && code <= 0x7e ? helveticaWidths[code - 0x20] : 556);
+  }, 0) *
+    size *
+    (bold ? boldWidthFactor : 1)) /
+  1000;
+
+// Breaks on spaces; a single word wider than the line is cut to fit.
+export const wrapText = (
+  text: string,
+  maxWidth: number,
+  size: number,
+  bold = false,
+) => {
+  const lines: string[] = [];
+  text.split(/\r?\n/).forEach((paragraph) => {
+    let line = "";
+    paragraph
+      .split(/\s+/)
+      .filter(Boolean)
+      .forEach((word) => {
+        const candidate = line ? `${line} ${word}` : word;
+        if (measureText(candidate, size, bold) <= maxWidth) {
+          line = candidate;
+          return;
+        }
+        if (line) {
+          lines.push(line);
+        }
+        line = word;
+        while (measureText(line, size, bold) > maxWidth && line.length > 1) {
+          let cut = line.length - 1;
+          while (cut > 1 && measureText(line.slice(0, cut), size, bold) > maxWidth) {
+            cut -= 1;
+          }
+          lines.push(line.slice(0, cut));
+          line = line.slice(cut);
+        }
+      });
+    lines.push(line);
+  });
+  return lines;
+};
+
+const formatNumber = (value: number) => `${Math.round(value * 100) / 100}`;
+
+const formatColor = ([red, green, blue]: PdfColor) =>
+  [red, green, blue].map(formatNumber).join(" ");
+
+export const createPdfDocument = (title: string): PdfDocument => ({
+  title,
+  pages: [],
+});
+
+export const addPdfPage = (document: PdfDocument) => {
+  const page: PdfPage = [];
+  document.pages.push(page);
+  return page;
+};
+
+export const drawText = (
+  page: PdfPage,
+  text: string,
+  x: number,
+  y: number,
+  { size = 10, bold = false, color = black, align = "left" }: PdfTextOptions = {},
+) => {
+  const left = align === "right" ? x - measureText(text, size, bold) : x;
+  page.push(
+    `BT /${bold ? "F2" : "F1"} ${formatNumber(size)} Tf ${formatColor(color)} rg ${formatNumber(left)} ${formatNumber(y)} Td (${encodeText(text)}) Tj ET`,
+  );
+};
+
+export const drawLine = (
+  page: PdfPage,
+  from: [number, number],
+  to: [number, number],
+  color: PdfColor = black,
+  width = 0.5,
+) => {
+  page.push(
+    `${formatColor(color)} RG ${formatNumber(width)} w ${formatNumber(from[0])} ${formatNumber(from[1])} m ${formatNumber(to[0])} ${formatNumber(to[1])} l S`,
+  );
+};
+
+export const drawPolyline = (
+  page: PdfPage,
+  points: [number, number][],
+  color: PdfColor = black,
+  width = 1,
+) => {
+  if (points.length < 2) {
+    return;
+  }
+  const [first, ...rest] = points;
+  page.push(
+    [
+      `${formatColor(color)} RG ${formatNumber(width)} w 1 j`,
+      `${formatNumber(first[0])} ${formatNumber(first[1])} m`,
+      ...rest.map(([x, y]) => `${formatNumber(x)} ${formatNumber(y)} l`),
+      "S",
+    ].join(" "),
+  );
+};
+
+export const fillRect = (
+  page: PdfPage,
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  color: PdfColor,
+) => {
+  page.push(
+    `${formatColor(color)} rg ${formatNumber(x)} ${formatNumber(y)} ${formatNumber(width)} ${formatNumber(height)} re f`,
+  );
+};
+
+// Everything written is ASCII, so string length is byte length and the xref
+// offsets can be counted in characters.
+export const renderPdf = (document: PdfDocument) => {
+  const objects: string[] = [];
+  const addObject = (body: string) => {
+    objects.push(body);
+    return objects.length;
+  };
+
+  const catalogId = addObject("");
+  const pagesId = addObject("");
+  const regularFontId = addObject(
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>",
+  );
+  const boldFontId = addObject(
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>",
+  );
+  const infoId = addObject(
+    `<< /Title (${encodeText(document.title)}) /Producer (Crypto Trading Journal) >>`,
+  );
+
+  const pageIds = document.pages.map((page) => {
+    const content = page.join("\n");
+    const contentId = addObject(
+      `<< /Length ${content.length} >>\nstream\n${content}\nendstream`,
+    );
+    return addObject(
+      `<< /Type /Page /Parent ${pagesId} 0 R /MediaBox [0 0 ${pdfPageWidth} ${pdfPageHeight}] /Resources << /Font << /F1 ${regularFontId} 0 R /F2 ${boldFontId} 0 R >> >> /Contents ${contentId} 0 R >>`,
+    );
+  });
+
+  objects[catalogId - 1] = `<< /Type /Catalog /Pages ${pagesId} 0 R >>`;
+  objects[pagesId - 1] = `<< /Type /Pages /Kids [${pageIds
+    .map((id) => `${id} 0 R`)
+    .join(" ")}] /Count ${pageIds.length} >>`;
+
+  let output = "%PDF-1.4\n";
+  const offsets = objects.map((body, index) => {
+    const offset = output.length;
+    output += `${index + 1} 0 obj\n${body}\nendobj\n`;
+    return offset;
+  });
+  const xrefOffset = output.length;
+  output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  output += offsets
+    .map((offset) => `${String(offset).padStart(10, "0")} 00000 n \n`)
+    .join("");
+  output += `trailer\n<< /Size ${objects.length + 1} /Root ${catalogId} 0 R /Info ${infoId} 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return new TextEncoder().encode(output);
+};
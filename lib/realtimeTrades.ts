@@ -0,0 +1,121 @@
+import { isApiError } from "@/lib/apiClient";
+import { supabase } from "@/lib/supabaseClient";
+import { fetchTrade } from "@/lib/tradeApi";
+import { Trade, sortTradesByDateDesc } from "@/lib/trades";
+
+export type TradeChanges = {
+  updated: Trade[];
+  removedIds: string[];
+};
+
+export type TradeChangeEvent = {
+  changedIds: string[];
+  deletedIds: string[];
+};
+
+// save_trade writes a trade with its fills and tags in one transaction, and
+// always touches the trade row, so that row's events cover the whole save.
+// A batch change or tag merge sends many events at once; they are collected
+// for a moment so each trade loads once.
+const changeBatchMs = 100;
+
+// Calls `onChange` with the trades that another session (or this one)
+// inserted, updated or deleted. Returns a function that unsubscribes.
+export const subscribeToTradeChanges = (
+  userId: string,
+  onChange: (event: TradeChangeEvent) => void,
+) => {
+  const changedIds = new Set<string>();
+  const deletedIds = new Set<string>();
+  let flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const flush = () => {
+    flushTimer = null;
+    const event = { changedIds: [...changedIds], deletedIds: [...deletedIds] };
+    changedIds.clear();
+    deletedIds.clear();
+    onChange(event);
+  };
+
+  const queueChange = (tradeIds: Set<string>, tradeId: unknown) => {
+    if (typeof tradeId !== "string") {
+      return;
+    }
+    tradeIds.add(tradeId);
+    if (!flushTimer) {
+      flushTimer = setTimeout(flush, changeBatchMs);
+    }
+  };
+
+  const userFilter = `user_id=eq.${userId}`;
+  // Delete events cannot be filtered and only carry the primary key, so they
+  // arrive for every user. They are applied without a fetch and do nothing
+  // unless the trade is in this log.
+  const channel = supabase
+    .channel(`trades:${userId}`)
+    .on(
+      "postgres_changes",
+      { event: "INSERT", schema: "public", table: "trades", filter: userFilter },
+      (payload) => queueChange(changedIds, payload.new.id),
+    )
+    .on(
+      "postgres_changes",
+      { event: "UPDATE", schema: "public", table: "trades", filter: userFilter },
+      (payload) => queueChange(changedIds, payload.new.id),
+    )
+    .on(
+      "postgres_changes",
+      { event: "DELETE", schema: "public", table: "trades" },
+      (payload) => queueChange(deletedIds, payload.old.id),
+    )
+    // Tag merges and the strategy-to-tag move write trade_tags rows without
+    // touching the trades.
+    .on(
+      "postgres_changes",
+      { event: "INSERT", schema: "public", table: "trade_tags", filter: userFilter },
+      (payload) => queueChange(changedIds, payload.new.trade_id),
+    )
+    .subscribe();
+
+  return () => {
+    if (flushTimer) {
+      clearTimeout(flushTimer);
+    }
+    supabase.removeChannel(channel);
+  };
+};
+
+// Refetches each changed trade through the API. A 404 means it has been
+// deleted since the event was sent.
+export const loadTradeChanges = async ({
+  changedIds,
+  deletedIds,
+}: TradeChangeEvent) => {
+  const changes: TradeChanges = { updated: [], removedIds: [...deletedIds] };
+  for (const tradeId of changedIds.filter((id) => !deletedIds.includes(id))) {
+    try {
+      changes.updated.push(await fetchTrade(tradeId));
+    } catch (fetchErr) {
+      if (!isApiError(fetchErr) || fetchErr.status !== 404) {
+        throw fetchErr;
+      }
+      changes.removedIds.push(tradeId);
+    }
+  }
+  return changes;
+};
+
+// Replaces the changed trades among those loaded and drops the removed ones.
+// Changed trades that were not loaded are added, for the caller to filter
+// and sort with the rest; offline changes still waiting to sync are applied
+// on top by the caller too.
+export const mergeTradeChanges = (trades: Trade[], changes: TradeChanges) => {
+  const changedIds = new Set([
+    ...changes.removedIds,
+    ...changes.updated.map((trade) => trade.id),
+  ]);
+  return sortTradesByDateDesc([
+    ...trades.filter((trade) => !changedIds.has(trade.id)),
+    ...changes.updated,
+  ]);
+};
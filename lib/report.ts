@@ -0,0 +1,208 @@
+import {
+  CurrencySettings,
+  convertTradeToReporting,
+  convertTradesToReporting,
+  getMissingRateAssets,
+} from "@/lib/currency";
+import {
+  DrawdownStats,
+  EquityPoint,
+  buildEquityCurve,
+  calculateDrawdownStats,
+} from "@/lib/equity";
+import {
+  GroupPerformance,
+  PerformanceStats,
+  TradingCapital,
+  calculateGroupPerformance,
+  calculatePerformanceStats,
+} from "@/lib/stats";
+import { Tag, getTagNamesInCategory } from "@/lib/tags";
+import {
+  TradeFilters,
+  currencySettingsToSearchParams,
+  filterTrades,
+  filtersToSearchParams,
+  parseCurrencySettingsParams,
+  parseTradeFilterParams,
+} from "@/lib/tradeFilters";
+import { SchemaResult } from "@/lib/tradeSchema";
+import { Trade } from "@/lib/trades";
+
+export type ReportPeriod = "month" | "quarter";
+
+export type ReportRange = {
+  period: ReportPeriod;
+  startDate: string;
+  endDate: string;
+  label: string;
+};
+
+// The journal's filters apply within the period; their own date range is
+// replaced by the period's.
+export type ReportRequest = {
+  range: ReportRange;
+  filters: TradeFilters;
+  settings: CurrencySettings;
+};
+
+// Money figures are in the reporting currency. Trades without a usable rate
+// are left out of them, counted in unconvertedCount, and their quote assets
+// listed in missingRates.
+export type PerformanceReport = {
+  range: ReportRange;
+  currency: string;
+  generatedAt: string;
+  tradeCount: number;
+  stats: PerformanceStats;
+  equityCurve: EquityPoint[];
+  drawdown: DrawdownStats;
+  bySetup: GroupPerformance[];
+  byPair: GroupPerformance[];
+  bestTrades: Trade[];
+  worstTrades: Trade[];
+  unconvertedCount: number;
+  missingRates: string[];
+};
+
+export const reportPeriodOptions: { value: ReportPeriod; label: string }[] = [
+  { value: "month", label: "Monthly" },
+  { value: "quarter", label: "Quarterly" },
+];
+
+const reportTopTradeCount = 5;
+
+const toIsoDate = (date: Date) => date.toISOString().slice(0, 10);
+
+// `date` is any day inside the period.
+export const getReportRange = (period: ReportPeriod, date: string): ReportRange => {
+  const [year, month] = date.split("-").map(Number);
+  const startMonth = period === "month" ? month - 1 : Math.floor((month - 1) / 3) * 3;
+  const monthCount = period === "month" ? 1 : 3;
+  const start = new Date(Date.UTC(year, startMonth, 1));
+  const end = new Date(Date.UTC(year, startMonth + monthCount, 0));
+  return {
+    period,
+    startDate: toIsoDate(start),
+    endDate: toIsoDate(end),
+    label:
+      period === "month"
+        ? start.toLocaleDateString("en-US", {
+            month: "long",
+            year: "numeric",
+            timeZone: "UTC",
+          })
+        : `Q${startMonth / 3 + 1} ${year}`,
+  };
+};
+
+// trading-report-2026-09.pdf or trading-report-2026-q3.pdf
+export const getReportFileName = (range: ReportRange) =>
+  `trading-report-${
+    range.period === "month"
+      ? range.startDate.slice(0, 7)
+      : `${range.startDate.slice(0, 4)}-q${(Number(range.startDate.slice(5, 7)) - 1) / 3 + 1}`
+  }.pdf`;
+
+export const reportRequestToSearchParams = (
+  period: ReportPeriod,
+  date: string,
+  filters: TradeFilters,
+  settings: CurrencySettings,
+) => {
+  const params = filtersToSearchParams({ ...filters, startDate: "", endDate: "" });
+  params.set("period", period);
+  params.set("date", date);
+  currencySettingsToSearchParams(params, settings);
+  return params;
+};
+
+export const parseReportParams = (
+  params: URLSearchParams,
+): SchemaResult<ReportRequest> => {
+  const filters = parseTradeFilterParams(params);
+  const errors = filters.ok ? [] : [...filters.errors];
+
+  const period = reportPeriodOptions.find(
+    (option) => option.value === params.get("period"),
+  )?.value;
+  if (!period) {
+    errors.push("period must be month or quarter.");
+  }
+
+  const date = params.get("date") ?? "";
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || Number.isNaN(new Date(date).getTime())) {
+    errors.push("date must be formatted YYYY-MM-DD.");
+  }
+
+  const settings = parseCurrencySettingsParams(params, errors);
+
+  if (!filters.ok || !period || errors.length > 0) {
+    return { ok: false, errors };
+  }
+
+  const range = getReportRange(period, date);
+  return {
+    ok: true,
+    value: {
+      range,
+      filters: {
+        ...filters.value,
+        startDate: range.startDate,
+        endDate: range.endDate,
+      },
+      settings,
+    },
+  };
+};
+
+const sortGroups = (groups: GroupPerformance[]) =>
+  [...groups].sort((a, b) => b.netPnl - a.netPnl);
+
+export const buildPerformanceReport = (
+  trades: Trade[],
+  tags: Tag[],
+  { range, filters, settings }: ReportRequest,
+  capital: TradingCapital | null,
+  generatedAt = new Date().toISOString(),
+): PerformanceReport => {
+  const periodTrades = filterTrades(trades, filters);
+  const toReporting = (trade: Trade) => convertTradeToReporting(trade, settings);
+  const { trades: reportingTrades, unconvertedCount } = convertTradesToReporting(
+    periodTrades,
+    settings,
+  );
+  const equityCurve = buildEquityCurve(reportingTrades);
+  const closedTrades = reportingTrades
+    .filter((trade) => trade.status === "Closed")
+    .sort((a, b) => b.netPnl - a.netPnl);
+
+  return {
+    range,
+    currency: settings.reportingCurrency,
+    generatedAt,
+    tradeCount: periodTrades.length,
+    stats: calculatePerformanceStats(reportingTrades, capital),
+    equityCurve,
+    drawdown: calculateDrawdownStats(equityCurve),
+    bySetup: sortGroups(
+      calculateGroupPerformance(
+        periodTrades,
+        (trade) => getTagNamesInCategory(tags, trade.tagIds, "Setup"),
+        toReporting,
+      ),
+    ),
+    byPair: sortGroups(
+      calculateGroupPerformance(periodTrades, (trade) => [trade.pair], toReporting),
+    ),
+    bestTrades: closedTrades
+      .filter((trade) => trade.netPnl > 0)
+      .slice(0, reportTopTradeCount),
+    worstTrades: closedTrades
+      .filter((trade) => trade.netPnl < 0)
+      .reverse()
+      .slice(0, reportTopTradeCount),
+    unconvertedCount,
+    missingRates: getMissingRateAssets(periodTrades, settings),
+  };
+};
@@ -0,0 +1,349 @@
+import { formatCurrency, formatDate, formatPnL, formatR } from "@/lib/format";
+import { journalSections } from "@/lib/journal";
+import {
+  PdfColor,
+  PdfDocument,
+  PdfPage,
+  addPdfPage,
+  black,
+  createPdfDocument,
+  drawLine,
+  drawPolyline,
+  drawText,
+  fillRect,
+  measureText,
+  pdfPageHeight,
+  pdfPageWidth,
+  renderPdf,
+  wrapText,
+} from "@/lib/pdf";
+import { PerformanceReport } from "@/lib/report";
+import { GroupPerformance } from "@/lib/stats";
+import { Trade } from "@/lib/trades";
+
+const margin = 48;
+const contentWidth = pdfPageWidth - margin * 2;
+
+const grey: PdfColor = [0.42, 0.45, 0.5];
+const rule: PdfColor = [0.85, 0.87, 0.9];
+const panel: PdfColor = [0.96, 0.97, 0.98];
+const green: PdfColor = [0.02, 0.55, 0.36];
+const red: PdfColor = [0.8, 0.15, 0.2];
+const amber: PdfColor = [0.7, 0.45, 0.05];
+
+const pnlColor = (value: number) => (value > 0 ? green : value < 0 ? red : black);
+
+const formatPercent = (value: number) => `${Math.round(value * 100)}%`;
+
+// The page being written and how far down it the layout has reached.
+type ReportCursor = {
+  document: PdfDocument;
+  page: PdfPage;
+  y: number;
+};
+
+const startPage = (cursor: ReportCursor) => {
+  cursor.page = addPdfPage(cursor.document);
+  cursor.y = pdfPageHeight - margin;
+};
+
+const ensureSpace = (cursor: ReportCursor, height: number) => {
+  if (cursor.y - height < margin) {
+    startPage(cursor);
+  }
+};
+
+const drawHeading = (cursor: ReportCursor, title: string) => {
+  ensureSpace(cursor, 48);
+  cursor.y -= 22;
+  drawText(cursor.page, title, margin, cursor.y, { size: 13, bold: true });
+  cursor.y -= 8;
+  drawLine(cursor.page, [margin, cursor.y], [margin + contentWidth, cursor.y], rule);
+  cursor.y -= 16;
+};
+
+const drawParagraph = (
+  cursor: ReportCursor,
+  text: string,
+  x: number,
+  size = 9,
+  color = grey,
+) => {
+  wrapText(text, margin + contentWidth - x, size).forEach((line) => {
+    ensureSpace(cursor, size + 4);
+    drawText(cursor.page, line, x, cursor.y, { size, color });
+    cursor.y -= size + 4;
+  });
+};
+
+const drawSummary = (cursor: ReportCursor, report: PerformanceReport) => {
+  const { stats, drawdown, currency } = report;
+  const cells: { label: string; value: string; color?: PdfColor }[] = [
+    {
+      label: "Net PnL",
+      value: formatPnL(stats.netPnl, currency),
+      color: pnlColor(stats.netPnl),
+    },
+    { label: "Win Rate", value: formatPercent(stats.winRate) },
+    {
+      label: "Profit Factor",
+      value: stats.profitFactor === null ? "—" : stats.profitFactor.toFixed(2),
+    },
+    {
+      label: "Expectancy",
+      value: formatPnL(stats.expectancy, currency),
+      color: pnlColor(stats.expectancy),
+    },
+    { label: "Trades", value: `${stats.tradeCount} closed / ${report.tradeCount}` },
+    {
+      label: "Max Drawdown",
+      value: formatCurrency(drawdown.maxDrawdown, currency),
+      color: drawdown.maxDrawdown > 0 ? red : black,
+    },
+    { label: "Largest Win", value: formatPnL(stats.largestWin, currency) },
+    { label: "Largest Loss", value: formatPnL(stats.largestLoss, currency) },
+  ];
+  const columns = 4;
+  const cellWidth = contentWidth / columns;
+  const cellHeight = 40;
+
+  drawHeading(cursor, "Summary");
+  ensureSpace(cursor, cellHeight * 2);
+  cells.forEach((cell, index) => {
+    const x = margin + (index % columns) * cellWidth;
+    const top = cursor.y - Math.floor(index / columns) * cellHeight;
+    fillRect(cursor.page, x + 2, top - cellHeight + 8, cellWidth - 4, cellHeight - 4, panel);
+    drawText(cursor.page, cell.label, x + 10, top - 6, { size: 8, color: grey });
+    drawText(cursor.page, cell.value, x + 10, top - 22, {
+      size: 12,
+      bold: true,
+      color: cell.color,
+    });
+  });
+  cursor.y -= cellHeight * 2;
+};
+
+const drawEquityChart = (cursor: ReportCursor, report: PerformanceReport) => {
+  const curve = report.equityCurve;
+  const height = 160;
+
+  drawHeading(cursor, "Equity Curve");
+  if (curve.length < 2) {
+    drawParagraph(cursor, "Not enough trading days in this period to chart.", margin);
+    return;
+  }
+
+  ensureSpace(cursor, height + 24);
+  const values = curve.map((point) => point.equity);
+  const low = Math.min(0, ...values);
+  const high = Math.max(0, ...values);
+  const span = high - low || 1;
+  const labelWidth = 72;
+  const left = margin + labelWidth;
+  const width = contentWidth - labelWidth;
+  const bottom = cursor.y - height;
+  const toY = (value: number) => bottom + ((value - low) / span) * height;
+
+  fillRect(cursor.page, left, bottom, width, height, panel);
+  drawLine(cursor.page, [left, toY(0)], [left + width, toY(0)], grey);
+  drawText(cursor.page, formatCurrency(high, report.currency), left - 6, toY(high) - 3, {
+    size: 7,
+    color: grey,
+    align: "right",
+  });
+  drawText(cursor.page, formatCurrency(low, report.currency), left - 6, toY(low) - 3, {
+    size: 7,
+    color: grey,
+    align: "right",
+  });
+  drawPolyline(
+    cursor.page,
+    curve.map((point, index) => [
+      left + (index / (curve.length - 1)) * width,
+      toY(point.equity),
+    ]),
+    pnlColor(values[values.length - 1]),
+    1.5,
+  );
+  drawText(cursor.page, formatDate(curve[0].date), left, bottom - 12, {
+    size: 7,
+    color: grey,
+  });
+  drawText(
+    cursor.page,
+    formatDate(curve[curve.length - 1].date),
+    left + width,
+    bottom - 12,
+    { size: 7, color: grey, align: "right" },
+  );
+  cursor.y = bottom - 24;
+};
+
+const breakdownColumns: {
+  label: string;
+  x: number;
+  align?: "right";
+  write: (group: GroupPerformance, currency: string) => string;
+}[] = [
+  { label: "Group", x: 0, write: (group) => group.key || "Unspecified" },
+  {
+    label: "Trades",
+    x: 250,
+    align: "right",
+    write: (group) => `${group.tradeCount}`,
+  },
+  {
+    label: "Win Rate",
+    x: 310,
+    align: "right",
+    write: (group) => formatPercent(group.winRate),
+  },
+  {
+    label: "Net PnL",
+    x: 420,
+    align: "right",
+    write: (group, currency) => formatPnL(group.netPnl, currency),
+  },
+  {
+    label: "Avg R",
+    x: contentWidth,
+    align: "right",
+    write: (group) => (group.averageR === null ? "—" : formatR(group.averageR)),
+  },
+];
+
+const drawBreakdown = (
+  cursor: ReportCursor,
+  title: string,
+  groups: GroupPerformance[],
+  currency: string,
+) => {
+  drawHeading(cursor, title);
+  if (groups.length === 0) {
+    drawParagraph(cursor, "No trades in this period.", margin);
+    return;
+  }
+
+  const drawRow = (cells: string[], bold: boolean, color?: PdfColor) => {
+    ensureSpace(cursor, 16);
+    breakdownColumns.forEach((column, index) => {
+      drawText(cursor.page, cells[index], margin + column.x, cursor.y, {
+        size: 9,
+        bold,
+        color: index === 3 ? color : bold ? grey : black,
+        align: column.align,
+      });
+    });
+    cursor.y -= 16;
+  };
+
+  drawRow(
+    breakdownColumns.map((column) => column.label),
+    true,
+    grey,
+  );
+  groups.forEach((group) =>
+    drawRow(
+      breakdownColumns.map((column) => column.write(group, currency)),
+      false,
+      pnlColor(group.netPnl),
+    ),
+  );
+};
+
+const drawTopTrades = (
+  cursor: ReportCursor,
+  title: string,
+  trades: Trade[],
+  currency: string,
+) => {
+  drawHeading(cursor, title);
+  if (trades.length === 0) {
+    drawParagraph(cursor, "None in this period.", margin);
+    return;
+  }
+
+  trades.forEach((trade) => {
+    ensureSpace(cursor, 36);
+    drawText(
+      cursor.page,
+      `${formatDate(trade.date)}  ${trade.pair}  ${trade.direction}`,
+      margin,
+      cursor.y,
+      { size: 10, bold: true },
+    );
+    drawText(
+      cursor.page,
+      formatPnL(trade.netPnl, currency),
+      margin + contentWidth,
+      cursor.y,
+      { size: 10, bold: true, color: pnlColor(trade.netPnl), align: "right" },
+    );
+    cursor.y -= 14;
+
+    const notes = [
+      { label: "Notes", text: trade.sentiment },
+      ...journalSections.map((section) => ({
+        label: section.label,
+        text: trade.journal[section.key],
+      })),
+    ].filter((note) => note.text.trim());
+    if (notes.length === 0) {
+      drawParagraph(cursor, "No notes.", margin + 12);
+    }
+    notes.forEach((note) => {
+      ensureSpace(cursor, 13);
+      drawText(cursor.page, `${note.label}:`, margin + 12, cursor.y, {
+        size: 9,
+        bold: true,
+        color: grey,
+      });
+      const indent = margin + 20 + measureText(`${note.label}:`, 9, true);
+      const [first, ...rest] = wrapText(note.text, margin + contentWidth - indent, 9);
+      drawText(cursor.page, first, indent, cursor.y, { size: 9, color: grey });
+      cursor.y -= 13;
+      if (rest.length > 0) {
+        drawParagraph(cursor, rest.join(" "), indent);
+      }
+    });
+    cursor.y -= 8;
+  });
+};
+
+export const renderPerformanceReportPdf = (report: PerformanceReport) => {
+  const title = `Performance Report — ${report.range.label}`;
+  const document = createPdfDocument(title);
+  const cursor: ReportCursor = { document, page: [], y: 0 };
+  startPage(cursor);
+
+  drawText(cursor.page, title, margin, cursor.y - 16, { size: 20, bold: true });
+  cursor.y -= 36;
+  drawText(
+    cursor.page,
+    `${formatDate(report.range.startDate)} to ${formatDate(report.range.endDate)} · Figures in ${report.currency} · Generated ${formatDate(report.generatedAt)}`,
+    margin,
+    cursor.y,
+    { size: 9, color: grey },
+  );
+  cursor.y -= 14;
+  if (report.missingRates.length > 0) {
+    drawParagraph(
+      cursor,
+      `No USD rate for ${report.missingRates.join(", ")}: ${report.unconvertedCount} ${
+        report.unconvertedCount === 1 ? "trade is" : "trades are"
+      } unconverted and left out of these figures.`,
+      margin,
+      9,
+      amber,
+    );
+  }
+
+  drawSummary(cursor, report);
+  drawEquityChart(cursor, report);
+  drawBreakdown(cursor, "By Setup", report.bySetup, report.currency);
+  drawBreakdown(cursor, "By Pair", report.byPair, report.currency);
+  drawTopTrades(cursor, "Best Trades", report.bestTrades, report.currency);
+  drawTopTrades(cursor, "Worst Trades", report.worstTrades, report.currency);
+
+  return renderPdf(document);
+};
@@ -0,0 +1,17 @@
+import { TradeRevisionRow, mapRowToRevision } from "@/lib/revisions";
+import { supabase } from "@/lib/supabaseClient";
+
+export const fetchTradeRevisions = async (userId: string, tradeId: string) => {
+  const { data, error } = await supabase
+    .from("trade_revisions")
+    .select("*")
+    .eq("trade_id", tradeId)
+    .eq("user_id", userId)
+    .order("changed_at", { ascending: false });
+
+  if (error) {
+    throw error;
+  }
+
+  return (data as TradeRevisionRow[] | null)?.map(mapRowToRevision) ?? [];
+};
@@ -0,0 +1,73 @@
+import { formatCurrency } from "@/lib/format";
+
+// Values are stored raw, as text or null. "amount" values are in the quote
+// asset of their side, which can differ if the pair changed; revisions
+// written before values were stored raw have no format and were formatted
+// when they were recorded.
+export type FieldChange = {
+  field: string;
+  from: string | null;
+  to: string | null;
+  format?: "amount" | "timestamp";
+  fromAsset?: string;
+  toAsset?: string;
+};
+
+export type RevisionAction = "created" | "updated" | "deleted" | "restored";
+
+// Only edits carry field changes; the other actions record when a trade was
+// logged, moved to the trash or restored from it. Revisions are written by
+// triggers in supabase/migrations.
+export type TradeRevision = {
+  id: string;
+  tradeId: string;
+  userId: string;
+  action: RevisionAction;
+  changedAt: string;
+  changes: FieldChange[];
+};
+
+export type TradeRevisionRow = {
+  id: string;
+  trade_id: string;
+  user_id: string;
+  action: RevisionAction;
+  changed_at: string;
+  changes: FieldChange[] | null;
+};
+
+export const mapRowToRevision = (row: TradeRevisionRow): TradeRevision => ({
+  id: row.id,
+  tradeId: row.trade_id,
+  userId: row.user_id,
+  action: row.action,
+  changedAt: row.changed_at,
+  changes: row.changes ?? [],
+});
+
+export const formatRevisionTime = (value: string) => {
+  const parsed = new Date(value);
+  if (Number.isNaN(parsed.getTime())) {
+    return value;
+  }
+  return parsed.toLocaleString("en-US", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+};
+
+export const formatChangeValue = (change: FieldChange, side: "from" | "to") => {
+  const value = change[side];
+  if (value === null) {
+    return "—";
+  }
+  if (change.format === "amount") {
+    const amount = Number(value);
+    const asset = side === "from" ? change.fromAsset : change.toAsset;
+    return Number.isFinite(amount) ? formatCurrency(amount, asset) : value;
+  }
+  return change.format === "timestamp" ? formatRevisionTime(value) : value;
+};
@@ -0,0 +1,162 @@
+import { Trade, TradeDirection, getAverageEntryPrice } from "@/lib/trades";
+
+export type RiskPlan = {
+  direction: TradeDirection;
+  entryPrice: number;
+  stopLoss: number | null;
+  takeProfit: number | null;
+  positionSize: number;
+};
+
+export type RBucket = {
+  label: string;
+  min: number;
+  max: number;
+  count: number;
+};
+
+export type RSummary = {
+  tradesWithRisk: number;
+  // The expectancy per trade in R.
+  averageR: number;
+  averageWinR: number;
+  averageLossR: number;
+  winRate: number;
+  buckets: RBucket[];
+};
+
+const getRiskDistance = (plan: RiskPlan) => {
+  if (plan.stopLoss === null) {
+    return null;
+  }
+  const distance =
+    plan.direction === "Long"
+      ? plan.entryPrice - plan.stopLoss
+      : plan.stopLoss - plan.entryPrice;
+  return distance > 0 ? distance : null;
+};
+
+export const validateRiskPlan = (plan: RiskPlan) => {
+  if (plan.stopLoss !== null && getRiskDistance(plan) === null) {
+    return plan.direction === "Long"
+      ? "Stop loss must be below the entry price for a long."
+      : "Stop loss must be above the entry price for a short.";
+  }
+  if (plan.takeProfit !== null) {
+    const reward =
+      plan.direction === "Long"
+        ? plan.takeProfit - plan.entryPrice
+        : plan.entryPrice - plan.takeProfit;
+    if (reward <= 0) {
+      return plan.direction === "Long"
+        ? "Take profit must be above the entry price for a long."
+        : "Take profit must be below the entry price for a short.";
+    }
+  }
+  return null;
+};
+
+export const calculateInitialRisk = (plan: RiskPlan) => {
+  const distance = getRiskDistance(plan);
+  return distance === null ? null : distance * plan.positionSize;
+};
+
+export const calculatePlannedRewardToRisk = (plan: RiskPlan) => {
+  const distance = getRiskDistance(plan);
+  if (distance === null || plan.takeProfit === null) {
+    return null;
+  }
+  return Math.abs(plan.takeProfit - plan.entryPrice) / distance;
+};
+
+const getTradeRiskPlan = (trade: Trade): RiskPlan => ({
+  direction: trade.direction,
+  entryPrice: getAverageEntryPrice(trade),
+  stopLoss: trade.stopLoss,
+  takeProfit: trade.takeProfit,
+  positionSize: trade.positionSize,
+});
+
+export const getTradeInitialRisk = (trade: Trade) =>
+  calculateInitialRisk(getTradeRiskPlan(trade));
+
+// R-multiple of the outcome: net PnL (after costs) measured in units of the
+// money put at risk between entry and stop.
+export const calculateRMultiple = (trade: Trade) => {
+  if (trade.status !== "Closed") {
+    return null;
+  }
+  const risk = getTradeInitialRisk(trade);
+  return risk ? trade.netPnl / risk : null;
+};
+
+// Realized reward-to-risk compares the price move captured with the stop
+// distance, so it can be set side by side with the planned R:R.
+export const calculateRealizedRewardToRisk = (trade: Trade) => {
+  if (trade.status !== "Closed" || trade.exitPrice === null) {
+    return null;
+  }
+  const plan = getTradeRiskPlan(trade);
+  const distance = getRiskDistance(plan);
+  if (distance === null) {
+    return null;
+  }
+  const move =
+    trade.direction === "Long"
+      ? trade.exitPrice - plan.entryPrice
+      : plan.entryPrice - trade.exitPrice;
+  return move / distance;
+};
+
+const bucketEdges = [-Infinity, -2, -1, 0, 1, 2, 3, Infinity];
+
+const formatBucketLabel = (min: number, max: number) => {
+  if (min === -Infinity) {
+    return `< ${max}R`;
+  }
+  if (max === Infinity) {
+    return `≥ ${min}R`;
+  }
+  return `${min}R to ${max}R`;
+};
+
+// The buckets from the number of multiples in each, in bucketEdges order.
+export const buildRBuckets = (counts: number[]): RBucket[] =>
+  bucketEdges.slice(0, -1).map((min, index) => {
+    const max = bucketEdges[index + 1];
+    return { label: formatBucketLabel(min, max), min, max, count: counts[index] ?? 0 };
+  });
+
+export const summarizeRMultiples = (trades: Trade[]): RSummary => {
+  const multiples = trades
+    .map(calculateRMultiple)
+    .filter((value): value is number => value !== null);
+
+  const wins = multiples.filter((value) => value > 0);
+  const losses = multiples.filter((value) => value <= 0);
+  const average = (values: number[]) =>
+    values.length > 0
+      ? values.reduce((acc, value) => acc + value, 0) / values.length
+      : 0;
+
+  const averageWinR = average(wins);
+  const averageLossR = average(losses);
+  const winRate = multiples.length > 0 ? wins.length / multiples.length : 0;
+
+  return {
+    tradesWithRisk: multiples.length,
+    averageR: average(multiples),
+    averageWinR,
+    averageLossR,
+    winRate,
+    buckets: buildRBuckets(
+      bucketEdges
+        .slice(0, -1)
+        .map(
+          (min, index) =>
+            multiples.filter((value) => value >= min && value < bucketEdges[index + 1])
+              .length,
+        ),
+    ),
+  };
+};
@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+import {
+  TradingCapital,
+  calculatePerformanceStats,
+  calculateSharpeRatio,
+  calculateSortinoRatio,
+  getDailyReturns,
+} from "@/lib/stats";
+import { Trade } from "@/lib/trades";
+
+// The stats read the status, date and net PnL of a trade.
+const closedTrade = (date: string, netPnl: number, direction: Trade["direction"] = "Long") =>
+  ({ id: `${date}:${netPnl}`, status: "Closed", direction, date, netPnl }) as Trade;
+
+const capital: TradingCapital = {
+  startingBalance: 1000,
+  transfers: [{ date: "2026-03-03", amount: 500 }],
+};
+
+describe("getDailyReturns", () => {
+  it("divides each day's PnL by the equity it was made with", () => {
+    const returns = getDailyReturns(
+      [
+        closedTrade("2026-03-01", 100),
+        closedTrade("2026-03-03", -160),
+        closedTrade("2026-03-04", 72),
+      ],
+      capital,
+    );
+    // Equity: 1000, 1100, 1100 + 500 deposited, 1440.
+    expect(returns.map((value) => Number(value.toFixed(6)))).toEqual([0.1, 0, -0.1, 0.05]);
+  });
+
+  it("has no returns without capital", () => {
+    expect(getDailyReturns([closedTrade("2026-03-01", 100)], null)).toEqual([]);
+  });
+
+  it("skips days with no equity left", () => {
+    expect(
+      getDailyReturns(
+        [closedTrade("2026-03-01", -100), closedTrade("2026-03-02", 50)],
+        { startingBalance: 100, transfers: [] },
+      ),
+    ).toEqual([-1]);
+  });
+});
+
+describe("return ratios", () => {
+  it("annualises the mean daily return over its deviation", () => {
+    const returns = [0.02, -0.01, 0.03, 0];
+    const mean = 0.01;
+    const deviation = Math.sqrt((0.01 ** 2 + 0.02 ** 2 + 0.02 ** 2 + 0.01 ** 2) / 3);
+    const downside = Math.sqrt(0.01 ** 2 / 4);
+    expect(calculateSharpeRatio(returns)).toBeCloseTo((mean / deviation) * Math.sqrt(365));
+    expect(calculateSortinoRatio(returns)).toBeCloseTo((mean / downside) * Math.sqrt(365));
+  });
+
+  it("is null without spread or downside", () => {
+    expect(calculateSharpeRatio([0.01, 0.01])).toBeNull();
+    expect(calculateSortinoRatio([0.01, 0.02])).toBeNull();
+    expect(calculateSortinoRatio([-0.01])).toBeNull();
+  });
+
+  it("does not change with position size when capital scales with it", () => {
+    const trades = [
+      closedTrade("2026-03-01", 40),
+      closedTrade("2026-03-02", -25),
+      closedTrade("2026-03-04", 60, "Short"),
+    ];
+    const scaled = trades.map((trade) => ({ ...trade, netPnl: trade.netPnl * 10 }));
+    const stats = calculatePerformanceStats(trades, capital);
+    const scaledStats = calculatePerformanceStats(scaled, {
+      startingBalance: capital.startingBalance * 10,
+      transfers: capital.transfers.map((transfer) => ({
+        ...transfer,
+        amount: transfer.amount * 10,
+      })),
+    });
+
+    expect(stats.sharpeRatio).not.toBeNull();
+    expect(scaledStats.sharpeRatio).toBeCloseTo(stats.sharpeRatio ?? 0);
+    expect(scaledStats.sortinoRatio).toBeCloseTo(stats.sortinoRatio ?? 0);
+    expect(calculatePerformanceStats(trades, null).sharpeRatio).toBeNull();
+  });
+});
@@ -0,0 +1,244 @@
+import { buildEquityCurve } from "@/lib/equity";
+import { calculateRMultiple } from "@/lib/risk";
+import { Trade, TradeDirection } from "@/lib/trades";
+
+export type StreakStats = {
+  longestWinStreak: number;
+  longestLossStreak: number;
+};
+
+export type OutcomeStats = StreakStats & {
+  tradeCount: number;
+  winCount: number;
+  lossCount: number;
+  winRate: number;
+  netPnl: number;
+  grossProfit: number;
+  grossLoss: number;
+  profitFactor: number | null;
+  expectancy: number;
+  averageWin: number;
+  averageLoss: number;
+  winLossRatio: number | null;
+  largestWin: number;
+  largestLoss: number;
+};
+
+// Sharpe and Sortino are annualised from daily returns on trading capital,
+// and null without it.
+export type PerformanceStats = OutcomeStats & {
+  sharpeRatio: number | null;
+  sortinoRatio: number | null;
+  byDirection: Record<TradeDirection, OutcomeStats>;
+};
+
+// The money the trades were made with, in the reporting currency: the
+// accounts' starting balances, then deposits (positive) and withdrawals
+// (negative) by day. getTradingCapital in lib/accounts.ts builds it.
+export type TradingCapital = {
+  startingBalance: number;
+  transfers: { date: string; amount: number }[];
+};
+
+// Crypto trades every day of the year, so daily ratios are annualised
+// with 365 rather than 252 sessions.
+const periodsPerYear = 365;
+
+const sum = (values: number[]) => values.reduce((acc, value) => acc + value, 0);
+
+const mean = (values: number[]) =>
+  values.length > 0 ? sum(values) / values.length : 0;
+
+const getClosedTrades = (trades: Trade[]) =>
+  trades
+    .filter((trade) => trade.status === "Closed")
+    .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+
+export const calculateStreaks = (outcomes: number[]): StreakStats => {
+  let longestWinStreak = 0;
+  let longestLossStreak = 0;
+  let wins = 0;
+  let losses = 0;
+
+  for (const value of outcomes) {
+    wins = value > 0 ? wins + 1 : 0;
+    losses = value < 0 ? losses + 1 : 0;
+    longestWinStreak = Math.max(longestWinStreak, wins);
+    longestLossStreak = Math.max(longestLossStreak, losses);
+  }
+
+  return { longestWinStreak, longestLossStreak };
+};
+
+export const calculateOutcomeStats = (outcomes: number[]): OutcomeStats => {
+  const wins = outcomes.filter((value) => value > 0);
+  const losses = outcomes.filter((value) => value < 0);
+  const grossProfit = sum(wins);
+  const grossLoss = Math.abs(sum(losses));
+  const averageWin = mean(wins);
+  const averageLoss = losses.length > 0 ? grossLoss / losses.length : 0;
+
+  return {
+    tradeCount: outcomes.length,
+    winCount: wins.length,
+    lossCount: losses.length,
+    winRate: outcomes.length > 0 ? wins.length / outcomes.length : 0,
+    netPnl: sum(outcomes),
+    grossProfit,
+    grossLoss,
+    profitFactor: grossLoss > 0 ? grossProfit / grossLoss : null,
+    expectancy: mean(outcomes),
+    averageWin,
+    averageLoss,
+    winLossRatio: averageLoss > 0 ? averageWin / averageLoss : null,
+    largestWin: wins.length > 0 ? Math.max(...wins) : 0,
+    largestLoss: losses.length > 0 ? Math.min(...losses) : 0,
+    ...calculateStreaks(outcomes),
+  };
+};
+
+const standardDeviation = (values: number[]) => {
+  if (values.length < 2) {
+    return 0;
+  }
+  const average = mean(values);
+  return Math.sqrt(
+    sum(values.map((value) => (value - average) ** 2)) / (values.length - 1),
+  );
+};
+
+export const calculateSharpeRatio = (dailyReturns: number[]) => {
+  const deviation = standardDeviation(dailyReturns);
+  return deviation > 0
+    ? (mean(dailyReturns) / deviation) * Math.sqrt(periodsPerYear)
+    : null;
+};
+
+export const calculateSortinoRatio = (dailyReturns: number[]) => {
+  if (dailyReturns.length < 2) {
+    return null;
+  }
+  const downside = Math.sqrt(
+    sum(dailyReturns.map((value) => Math.min(value, 0) ** 2)) /
+      dailyReturns.length,
+  );
+  return downside > 0
+    ? (mean(dailyReturns) / downside) * Math.sqrt(periodsPerYear)
+    : null;
+};
+
+const dayInMs = 24 * 60 * 60 * 1000;
+
+// Daily returns are each calendar day's net PnL over the equity it was made
+// with: the starting capital plus transfers to that day and the PnL of the
+// days before. They run from the first closed trade to the last, with 0 for
+// days without one: the ratios are annualised over 365 days, so leaving flat
+// days out would overstate them. Days with no equity left are skipped, and
+// there are no returns without capital, since PnL alone depends on position
+// size.
+export const getDailyReturns = (trades: Trade[], capital: TradingCapital | null) => {
+  const curve = buildEquityCurve(getClosedTrades(trades));
+  if (curve.length === 0 || !capital) {
+    return [];
+  }
+  const pnlByDay = new Map(curve.map((point) => [point.date, point.pnl]));
+  const start = Date.parse(curve[0].date);
+  const dayCount =
+    Math.round((Date.parse(curve[curve.length - 1].date) - start) / dayInMs) + 1;
+  const returns: number[] = [];
+  let earlierPnl = 0;
+  for (let index = 0; index < dayCount; index += 1) {
+    const day = new Date(start + index * dayInMs).toISOString().slice(0, 10);
+    const pnl = pnlByDay.get(day) ?? 0;
+    const equity =
+      capital.startingBalance +
+      sum(
+        capital.transfers
+          .filter((transfer) => transfer.date <= day)
+          .map((transfer) => transfer.amount),
+      ) +
+      earlierPnl;
+    if (equity > 0) {
+      returns.push(pnl / equity);
+    }
+    earlierPnl += pnl;
+  }
+  return returns;
+};
+
+export const calculatePerformanceStats = (
+  trades: Trade[],
+  capital: TradingCapital | null,
+): PerformanceStats => {
+  const closedTrades = getClosedTrades(trades);
+  const dailyReturns = getDailyReturns(closedTrades, capital);
+  const outcomesFor = (direction: TradeDirection) =>
+    closedTrades
+      .filter((trade) => trade.direction === direction)
+      .map((trade) => trade.netPnl);
+
+  return {
+    ...calculateOutcomeStats(closedTrades.map((trade) => trade.netPnl)),
+    sharpeRatio: calculateSharpeRatio(dailyReturns),
+    sortinoRatio: calculateSortinoRatio(dailyReturns),
+    byDirection: {
+      Long: calculateOutcomeStats(outcomesFor("Long")),
+      Short: calculateOutcomeStats(outcomesFor("Short")),
+    },
+  };
+};
+
+export type GroupPerformance = {
+  key: string;
+  tradeCount: number;
+  closedCount: number;
+  winRate: number;
+  netPnl: number;
+  profitFactor: number | null;
+  averageR: number | null;
+};
+
+// A trade lands in every group getGroupKeys returns (a trade can carry several
+// setup tags), or in the "" group when it returns none.
+// PnL figures go through toReporting, and a trade it cannot convert is left
+// out; R-multiples are read from the trade as logged because they compare
+// quote-asset PnL with quote-asset risk.
+export const calculateGroupPerformance = (
+  trades: Trade[],
+  getGroupKeys: (trade: Trade) => string[],
+  toReporting: (trade: Trade) => Trade | null = (trade) => trade,
+): GroupPerformance[] => {
+  const groups = new Map<string, { trade: Trade; reporting: Trade }[]>();
+  trades
+    .filter((trade) => trade.status !== "Cancelled")
+    .forEach((trade) => {
+      const reporting = toReporting(trade);
+      if (!reporting) {
+        return;
+      }
+      const keys = getGroupKeys(trade).map((key) => key.trim());
+      (keys.length > 0 ? keys : [""]).forEach((key) =>
+        groups.set(key, [...(groups.get(key) ?? []), { trade, reporting }]),
+      );
+    });
+
+  return [...groups.entries()].map(([key, entries]) => {
+    const closedEntries = entries.filter(({ trade }) => trade.status === "Closed");
+    const outcomes = calculateOutcomeStats(
+      closedEntries.map(({ reporting }) => reporting.netPnl),
+    );
+    const multiples = closedEntries
+      .map(({ trade }) => calculateRMultiple(trade))
+      .filter((value): value is number => value !== null);
+
+    return {
+      key,
+      tradeCount: entries.length,
+      closedCount: closedEntries.length,
+      winRate: outcomes.winRate,
+      netPnl: outcomes.netPnl,
+      profitFactor: outcomes.profitFactor,
+      averageR: multiples.length > 0 ? mean(multiples) : null,
+    };
+  });
+};
@@ -1,4 +1,5 @@
 import { createClient } from "@supabase/supabase-js";
+import { Database } from "@/lib/database.types";
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
 const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
@@ -9,4 +10,23 @@ if (!supabaseUrl || !supabaseAnonKey) {
   );
 }
 
-export const supabase = createClient(supabaseUrl, supabaseAnonKey);
+type ClerkWindow = Window & {
+  Clerk?: { session?: { getToken: () => Promise<string | null> } | null };
+};
+
+// Every request carries the current Clerk session token, so the row-level
+// security policies in supabase/migrations decide what each user can see.
+export const createClerkSupabaseClient = (
+  getToken: () => Promise<string | null>,
+) =>
+  createClient<Database>(supabaseUrl, supabaseAnonKey, {
+    accessToken: getToken,
+    auth: { persistSession: false },
+  });
+
+const getBrowserSessionToken = async () =>
+  typeof window === "undefined"
+    ? null
+    : ((await (window as ClerkWindow).Clerk?.session?.getToken()) ?? null);
+
+export const supabase = createClerkSupabaseClient(getBrowserSessionToken);
@@ -0,0 +1,14 @@
+import { auth } from "@clerk/nextjs/server";
+import { createClerkSupabaseClient } from "@/lib/supabaseClient";
+
+// Builds a client for the current request only. Queries run as the signed-in
+// Clerk user, so RLS still applies even if a filter is forgotten. Returns null
+// without a verified session so handlers can answer 401 before any query.
+export const getRequestSupabase = async () => {
+  const { userId, getToken } = await auth();
+  if (!userId) {
+    return null;
+  }
+
+  return { userId, client: createClerkSupabaseClient(() => getToken()) };
+};
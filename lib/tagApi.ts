@@ -0,0 +1,41 @@
+import { requestJson } from "@/lib/apiClient";
+import { Tag, TagDraft } from "@/lib/tags";
+
+// Browser-side wrappers around /api/tags.
+
+export const fetchTags = async () =>
+  (await requestJson<{ tags: Tag[] }>("/api/tags")).tags;
+
+// Trades per tag id; tags on no trade are left out.
+export const fetchTagUsage = async () =>
+  (await requestJson<{ usage: Record<string, number> }>("/api/tags/usage")).usage;
+
+export const createTags = async (entries: TagDraft[]) =>
+  entries.length === 0
+    ? []
+    : (
+        await requestJson<{ tags: Tag[] }>("/api/tags", {
+          method: "POST",
+          body: JSON.stringify({ tags: entries }),
+        })
+      ).tags;
+
+export const renameTag = async (tagId: string, name: string) =>
+  (
+    await requestJson<{ tag: Tag }>(`/api/tags/${tagId}`, {
+      method: "PATCH",
+      body: JSON.stringify({ name }),
+    })
+  ).tag;
+
+// Removes the tag from every trade as well.
+export const deleteTag = async (tagId: string) => {
+  await requestJson<null>(`/api/tags/${tagId}`, { method: "DELETE" });
+};
+
+export const mergeTags = async (sourceTagId: string, targetTagId: string) => {
+  await requestJson<null>(`/api/tags/${sourceTagId}/merge`, {
+    method: "POST",
+    body: JSON.stringify({ targetTagId }),
+  });
+};
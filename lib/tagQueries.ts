@@ -0,0 +1,120 @@
+import { SupabaseClient } from "@supabase/supabase-js";
+import {
+  TagDraft,
+  TagInsert,
+  TagRow,
+  mapRowToTag,
+  normalizeTagName,
+  sortTags,
+} from "@/lib/tags";
+
+export const fetchTagsForUser = async (userId: string, client: SupabaseClient) => {
+  const { data, error } = await client
+    .from("tags")
+    .select("*")
+    .eq("user_id", userId);
+
+  if (error) {
+    throw error;
+  }
+
+  return sortTags((data as TagRow[] | null)?.map(mapRowToTag) ?? []);
+};
+
+export const createTags = async (
+  userId: string,
+  entries: TagDraft[],
+  client: SupabaseClient,
+) => {
+  if (entries.length === 0) {
+    return [];
+  }
+
+  const { data, error } = await client
+    .from("tags")
+    .insert(
+      entries.map(
+        (entry): TagInsert => ({
+          user_id: userId,
+          name: normalizeTagName(entry.name),
+          category: entry.category,
+        }),
+      ),
+    )
+    .select();
+
+  if (error) {
+    throw error;
+  }
+
+  return (data as TagRow[] | null)?.map(mapRowToTag) ?? [];
+};
+
+// Returns null when the user has no such tag.
+export const renameTag = async (
+  userId: string,
+  tagId: string,
+  name: string,
+  client: SupabaseClient,
+) => {
+  const { data, error } = await client
+    .from("tags")
+    .update({ name: normalizeTagName(name) })
+    .eq("id", tagId)
+    .eq("user_id", userId)
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  return data ? mapRowToTag(data as TagRow) : null;
+};
+
+// Trades per tag id, leaving out trades in the trash and unused tags.
+export const fetchTagUsage = async (client: SupabaseClient) => {
+  const { data, error } = await client.rpc("summarize_tag_usage");
+
+  if (error) {
+    throw error;
+  }
+
+  const usage: Record<string, number> = {};
+  ((data as { tag_id: string; trade_count: number }[] | null) ?? []).forEach(
+    (row) => {
+      usage[row.tag_id] = Number(row.trade_count);
+    },
+  );
+  return usage;
+};
+
+// delete_tag removes the tag and its assignments in one transaction. Returns
+// false when the user has no such tag.
+export const deleteTag = async (tagId: string, client: SupabaseClient) => {
+  const { data, error } = await client.rpc("delete_tag", { target_tag_id: tagId });
+
+  if (error) {
+    throw error;
+  }
+
+  return data === true;
+};
+
+// Moves every assignment of the source tag onto the target, skipping trades
+// that already carry the target, then removes the source tag. merge_tags does
+// both in one transaction.
+export const mergeTags = async (
+  sourceTagId: string,
+  targetTagId: string,
+  client: SupabaseClient,
+) => {
+  const { error } = await client.rpc("merge_tags", {
+    source_tag_id: sourceTagId,
+    target_tag_id: targetTagId,
+  });
+
+  if (error) {
+    throw error;
+  }
+};
@@ -0,0 +1,165 @@
+import { SchemaResult } from "@/lib/tradeSchema";
+
+export type TagCategory = "Setup" | "Mistake" | "Market" | "Timeframe";
+
+export type Tag = {
+  id: string;
+  userId: string;
+  name: string;
+  category: TagCategory;
+};
+
+export type TagRow = {
+  id: string;
+  user_id: string;
+  name: string;
+  category: TagCategory;
+};
+
+export type TagInsert = Omit<TagRow, "id">;
+
+export type TagDraft = Pick<Tag, "name" | "category">;
+
+export type TradeTagRow = {
+  trade_id: string;
+  tag_id: string;
+  user_id: string;
+};
+
+export const tagCategories: TagCategory[] = [
+  "Setup",
+  "Mistake",
+  "Market",
+  "Timeframe",
+];
+
+export const tagCategoryLabels: Record<TagCategory, string> = {
+  Setup: "Setup",
+  Mistake: "Mistake",
+  Market: "Market condition",
+  Timeframe: "Timeframe",
+};
+
+export const tagCategoryClassNames: Record<TagCategory, string> = {
+  Setup: "bg-emerald-500/10 text-emerald-300",
+  Mistake: "bg-rose-500/10 text-rose-300",
+  Market: "bg-sky-500/10 text-sky-300",
+  Timeframe: "bg-amber-500/10 text-amber-300",
+};
+
+export const mapRowToTag = (row: TagRow): Tag => ({
+  id: row.id,
+  userId: row.user_id,
+  name: row.name,
+  category: row.category,
+});
+
+// Collapsing whitespace is what stops "Breakout" and "breakout " from
+// becoming two tags; comparisons are then case-insensitive.
+export const normalizeTagName = (name: string) =>
+  name.trim().replace(/\s+/g, " ");
+
+const toTagKey = (name: string) => normalizeTagName(name).toLowerCase();
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// Names are stored normalized, and must not be empty once they are.
+const parseTagName = (value: unknown) =>
+  typeof value === "string" && normalizeTagName(value)
+    ? normalizeTagName(value)
+    : undefined;
+
+// The body of POST /api/tags: { tags: [{ name, category }] }.
+export const parseTagDrafts = (input: unknown): SchemaResult<TagDraft[]> => {
+  const items = isRecord(input) ? input.tags : undefined;
+  if (!Array.isArray(items) || items.length === 0) {
+    return {
+      ok: false,
+      errors: ["Body must be { tags: [...] } with at least one tag."],
+    };
+  }
+
+  const drafts: TagDraft[] = [];
+  const errors: string[] = [];
+  items.forEach((item, index) => {
+    const entry = isRecord(item) ? item : {};
+    const name = parseTagName(entry.name);
+    const category = tagCategories.find((option) => option === entry.category);
+    if (!name) {
+      errors.push(`tags[${index}].name must be a non-empty string.`);
+    }
+    if (!category) {
+      errors.push(
+        `tags[${index}].category must be one of ${tagCategories.join(", ")}.`,
+      );
+    }
+    if (name && category) {
+      drafts.push({ name, category });
+    }
+  });
+
+  return errors.length > 0 ? { ok: false, errors } : { ok: true, value: drafts };
+};
+
+// The body of PATCH /api/tags/[id]: { name }.
+export const parseTagRename = (input: unknown): SchemaResult<string> => {
+  const name = parseTagName(isRecord(input) ? input.name : undefined);
+  return name
+    ? { ok: true, value: name }
+    : { ok: false, errors: ["name must be a non-empty string."] };
+};
+
+export const findTagByName = (
+  tags: Tag[],
+  name: string,
+  category: TagCategory,
+) =>
+  tags.find(
+    (tag) => tag.category === category && toTagKey(tag.name) === toTagKey(name),
+  ) ?? null;
+
+// Named tags that `tags` does not have yet, each listed once.
+export const findMissingTags = (tags: Tag[], entries: TagDraft[]) => [
+  ...new Map(
+    entries
+      .filter((entry) => !findTagByName(tags, entry.name, entry.category))
+      .map((entry) => [`${entry.category}:${toTagKey(entry.name)}`, entry]),
+  ).values(),
+];
+
+export const sortTags = (tags: Tag[]) =>
+  [...tags].sort(
+    (a, b) =>
+      tagCategories.indexOf(a.category) - tagCategories.indexOf(b.category) ||
+      a.name.localeCompare(b.name),
+  );
+
+export const getTagsById = (tags: Tag[], tagIds: string[]) => {
+  const byId = new Map(tags.map((tag) => [tag.id, tag]));
+  return sortTags(
+    tagIds
+      .map((tagId) => byId.get(tagId))
+      .filter((tag): tag is Tag => tag !== undefined),
+  );
+};
+
+export const getTagNamesInCategory = (
+  tags: Tag[],
+  tagIds: string[],
+  category: TagCategory,
+) =>
+  getTagsById(tags, tagIds)
+    .filter((tag) => tag.category === category)
+    .map((tag) => tag.name);
+
+export const searchTags = (tags: Tag[], query: string, excludeIds: string[]) => {
+  const key = toTagKey(query);
+  return sortTags(
+    tags.filter(
+      (tag) =>
+        !excludeIds.includes(tag.id) &&
+        (!key || tag.name.toLowerCase().includes(key)),
+    ),
+  );
+};
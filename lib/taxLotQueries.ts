@@ -0,0 +1,47 @@
+import { supabase } from "@/lib/supabaseClient";
+import { TaxLotSelectionRow, TaxLotSelections } from "@/lib/taxLots";
+
+export const fetchTaxLotSelections = async (
+  userId: string,
+): Promise<TaxLotSelections> => {
+  const { data, error } = await supabase
+    .from("tax_lot_selections")
+    .select("*")
+    .eq("user_id", userId);
+
+  if (error) {
+    throw error;
+  }
+
+  return Object.fromEntries(
+    ((data as TaxLotSelectionRow[] | null) ?? []).map((row) => [
+      row.disposal_id,
+      row.lot_ids,
+    ]),
+  );
+};
+
+// An empty list clears the choice, so the disposal goes back to FIFO.
+export const saveTaxLotSelection = async (
+  userId: string,
+  disposalId: string,
+  lotIds: string[],
+) => {
+  const { error } =
+    lotIds.length === 0
+      ? await supabase
+          .from("tax_lot_selections")
+          .delete()
+          .eq("user_id", userId)
+          .eq("disposal_id", disposalId)
+      : await supabase.from("tax_lot_selections").upsert({
+          user_id: userId,
+          disposal_id: disposalId,
+          lot_ids: lotIds,
+          updated_at: new Date().toISOString(),
+        });
+
+  if (error) {
+    throw error;
+  }
+};
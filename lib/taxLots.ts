@@ -0,0 +1,543 @@
+import { serializeCsv } from "@/lib/csv";
+import {
+  CurrencySettings,
+  getPairAssets,
+  getQuoteAsset,
+  isUsdPegged,
+} from "@/lib/currency";
+import { Tables } from "@/lib/database.types";
+import { isFiatCurrency } from "@/lib/format";
+import { FillSide, Trade, getTradeNotionals } from "@/lib/trades";
+
+// Realized gains for tax filings, worked out by matching sales against the
+// lots they dispose of rather than from each trade's own PnL.
+//
+// Spot longs are lot-tracked: every entry fill acquires a lot of the base
+// asset and every exit fill disposes of whichever lots the cost basis method
+// picks, across trades. Shorts and derivatives hold no asset, so each closed
+// one is reported as a single position with its net PnL as the gain.
+// Trades logged without fills count as one entry and one exit at the trade
+// date; that is the only date they have, so their holding term is reported as
+// unknown. A trade's costs reduce the proceeds of its exits, or are added to
+// its lots while nothing has been sold.
+//
+// When a spot pair is quoted in a crypto asset (ETH/BTC), paying for the base
+// disposes of the quote and selling the base acquires it, so those legs also
+// add a disposal or a lot of the quote asset at the same value.
+//
+// Gains are valued at the rate of the trade's day, never today's: the
+// trade's own quote_usd_rate, or 1 where the quote and the reporting
+// currency cannot move against each other. The journal's rate table holds
+// current rates only, so a trade with neither is unpriced: its quantities and
+// dates are reported, its amounts are left out of the totals.
+
+export type CostBasisMethod = "FIFO" | "LIFO" | "HIFO" | "SpecificId";
+
+export type HoldingTerm = "Short" | "Long" | "Unknown";
+
+export const costBasisMethodOptions: { value: CostBasisMethod; label: string }[] = [
+  { value: "FIFO", label: "FIFO (first in, first out)" },
+  { value: "LIFO", label: "LIFO (last in, first out)" },
+  { value: "HIFO", label: "HIFO (highest cost first)" },
+  { value: "SpecificId", label: "Specific identification" },
+];
+
+// Disposal id to the lot ids chosen for it, matched in order. Any quantity
+// the chosen lots do not cover falls back to FIFO.
+export type TaxLotSelections = Record<string, string[]>;
+
+export type TaxLotSelectionRow = Tables<"tax_lot_selections">;
+
+// Money is in the reporting currency, and zero when `priced` is false; the
+// quote assets of unpriced trades are listed in TaxLotReport.missingRates.
+// `dated` is false when the date is the trade's own rather than a fill's.
+export type TaxLot = {
+  id: string;
+  tradeId: string;
+  asset: string;
+  acquiredAt: string;
+  dated: boolean;
+  priced: boolean;
+  quantity: number;
+  remainingQuantity: number;
+  costBasis: number;
+};
+
+export type TaxDisposal = {
+  id: string;
+  tradeId: string;
+  asset: string;
+  disposedAt: string;
+  dated: boolean;
+  priced: boolean;
+  quantity: number;
+  proceeds: number;
+};
+
+// One disposal matched against one lot. A sale with no lot left to match is
+// reported with no acquisition date and a zero cost basis. Either way the term
+// is unknown unless both dates come from fills, and the gain is unpriced when
+// the sale or its lot is.
+export type RealizedGain = {
+  disposalId: string;
+  tradeId: string;
+  lotId: string | null;
+  source: "Lot" | "Position";
+  asset: string;
+  acquiredAt: string | null;
+  disposedAt: string;
+  quantity: number;
+  proceeds: number;
+  costBasis: number;
+  gain: number;
+  term: HoldingTerm;
+  priced: boolean;
+};
+
+export type TaxLotReport = {
+  method: CostBasisMethod;
+  currency: string;
+  lots: TaxLot[];
+  disposals: TaxDisposal[];
+  gains: RealizedGain[];
+  missingRates: string[];
+};
+
+export type TaxAssetSummary = {
+  asset: string;
+  quantity: number;
+  proceeds: number;
+  costBasis: number;
+  shortTermGain: number;
+  longTermGain: number;
+  unknownTermGain: number;
+};
+
+export type TaxYearSummary = {
+  year: number;
+  proceeds: number;
+  costBasis: number;
+  shortTermGain: number;
+  longTermGain: number;
+  unknownTermGain: number;
+  totalGain: number;
+  unpricedCount: number;
+  byAsset: TaxAssetSummary[];
+};
+
+// Quantities below this are rounding left over from splitting lots.
+const quantityEpsilon = 1e-9;
+
+const toTime = (value: string) => new Date(value).getTime();
+
+// Long-term means held for more than a year: sold after the first
+// anniversary of the purchase.
+export const getHoldingTerm = (acquiredAt: string, disposedAt: string): HoldingTerm => {
+  const anniversary = new Date(acquiredAt);
+  anniversary.setUTCFullYear(anniversary.getUTCFullYear() + 1);
+  return toTime(disposedAt) > anniversary.getTime() ? "Long" : "Short";
+};
+
+const termKeys: Record<HoldingTerm, "shortTermGain" | "longTermGain" | "unknownTermGain"> = {
+  Short: "shortTermGain",
+  Long: "longTermGain",
+  Unknown: "unknownTermGain",
+};
+
+export const holdingTermLabels: Record<HoldingTerm, string> = {
+  Short: "Short-term",
+  Long: "Long-term",
+  Unknown: "Unknown",
+};
+
+export const getTaxYear = (disposedAt: string) => new Date(disposedAt).getUTCFullYear();
+
+// Quote to reporting currency at the trade's own rate, or null when only the
+// rate table has one.
+const getDatedReportingRate = (trade: Trade, reportingCurrency: string) => {
+  const quote = getQuoteAsset(trade.pair);
+  if (quote === reportingCurrency.toUpperCase()) {
+    return 1;
+  }
+  const quoteUsdRate = trade.quoteUsdRate ?? (isUsdPegged(quote) ? 1 : null);
+  return quoteUsdRate !== null && isUsdPegged(reportingCurrency) ? quoteUsdRate : null;
+};
+
+const isLotTracked = (trade: Trade) =>
+  trade.direction === "Long" && trade.marginInputs.instrumentType === "Spot";
+
+// Fiat and stablecoin quotes are money; any other quote is an asset held.
+const isLotTrackedAsset = (asset: string) =>
+  !isFiatCurrency(asset) && !isUsdPegged(asset);
+
+type TradeLeg = {
+  id: string;
+  price: number;
+  quantity: number;
+  executedAt: string;
+  dated: boolean;
+};
+
+const getTradeLegs = (trade: Trade, side: FillSide): TradeLeg[] => {
+  if (trade.fills.length > 0) {
+    return trade.fills
+      .filter((fill) => fill.side === side)
+      .map(({ id, price, quantity, executedAt }) => ({
+        id,
+        price,
+        quantity,
+        executedAt,
+        dated: true,
+      }));
+  }
+  if (side === "Entry") {
+    return [
+      {
+        id: `${trade.id}:entry`,
+        price: trade.entryPrice,
+        quantity: trade.positionSize,
+        executedAt: trade.date,
+        dated: false,
+      },
+    ];
+  }
+  return trade.status === "Closed" && trade.exitPrice !== null
+    ? [
+        {
+          id: `${trade.id}:exit`,
+          price: trade.exitPrice,
+          quantity: trade.positionSize,
+          executedAt: trade.date,
+          dated: false,
+        },
+      ]
+    : [];
+};
+
+const sumQuantity = (legs: TradeLeg[]) =>
+  legs.reduce((total, leg) => total + leg.quantity, 0);
+
+const buildLotsAndDisposals = (trade: Trade, datedRate: number | null) => {
+  const { base: asset, quote } = getPairAssets(trade.pair);
+  const priced = datedRate !== null;
+  const rate = datedRate ?? 0;
+  const entries = getTradeLegs(trade, "Entry").filter((leg) => leg.quantity > 0);
+  const exits = getTradeLegs(trade, "Exit").filter((leg) => leg.quantity > 0);
+  const costs = trade.totalCosts * rate;
+  const entryQuantity = sumQuantity(entries);
+  const exitQuantity = sumQuantity(exits);
+
+  const lots: TaxLot[] = entries.map((leg) => ({
+    id: leg.id,
+    tradeId: trade.id,
+    asset,
+    acquiredAt: leg.executedAt,
+    dated: leg.dated,
+    priced,
+    quantity: leg.quantity,
+    remainingQuantity: leg.quantity,
+    costBasis:
+      leg.price * leg.quantity * rate +
+      (exits.length === 0 && entryQuantity > 0
+        ? (costs * leg.quantity) / entryQuantity
+        : 0),
+  }));
+  const disposals: TaxDisposal[] = exits.map((leg) => ({
+    id: leg.id,
+    tradeId: trade.id,
+    asset,
+    disposedAt: leg.executedAt,
+    dated: leg.dated,
+    priced,
+    quantity: leg.quantity,
+    proceeds: leg.price * leg.quantity * rate - (costs * leg.quantity) / exitQuantity,
+  }));
+
+  if (isLotTrackedAsset(quote)) {
+    entries.forEach((leg) =>
+      disposals.push({
+        id: `${leg.id}:quote`,
+        tradeId: trade.id,
+        asset: quote,
+        disposedAt: leg.executedAt,
+        dated: leg.dated,
+        priced,
+        quantity: leg.price * leg.quantity,
+        proceeds: leg.price * leg.quantity * rate,
+      }),
+    );
+    exits.forEach((leg) =>
+      lots.push({
+        id: `${leg.id}:quote`,
+        tradeId: trade.id,
+        asset: quote,
+        acquiredAt: leg.executedAt,
+        dated: leg.dated,
+        priced,
+        quantity: leg.price * leg.quantity,
+        remainingQuantity: leg.price * leg.quantity,
+        costBasis: leg.price * leg.quantity * rate,
+      }),
+    );
+  }
+  return { lots, disposals };
+};
+
+const buildPositionGain = (trade: Trade, datedRate: number | null): RealizedGain => {
+  const rate = datedRate ?? 0;
+  const entries = getTradeLegs(trade, "Entry");
+  const exits = getTradeLegs(trade, "Exit");
+  const acquiredAt = entries[0]?.executedAt ?? trade.date;
+  const disposedAt = exits[exits.length - 1]?.executedAt ?? trade.date;
+  const { entryNotional, exitNotional } = getTradeNotionals(trade, trade.fills);
+  const costBasis = (trade.direction === "Long" ? entryNotional : exitNotional) * rate;
+  const gain = trade.netPnl * rate;
+  return {
+    disposalId: exits[exits.length - 1]?.id ?? `${trade.id}:exit`,
+    tradeId: trade.id,
+    lotId: null,
+    source: "Position",
+    asset: trade.pair,
+    acquiredAt,
+    disposedAt,
+    quantity: exits.length > 0 ? sumQuantity(exits) : trade.positionSize,
+    proceeds: costBasis + gain,
+    costBasis,
+    gain,
+    term: trade.fills.length > 0 ? getHoldingTerm(acquiredAt, disposedAt) : "Unknown",
+    priced: datedRate !== null,
+  };
+};
+
+const orderLots = (
+  lots: TaxLot[],
+  method: CostBasisMethod,
+  selectedLotIds: string[],
+) => {
+  const byAcquired = [...lots].sort(
+    (a, b) => toTime(a.acquiredAt) - toTime(b.acquiredAt) || a.id.localeCompare(b.id),
+  );
+  if (method === "LIFO") {
+    return byAcquired.reverse();
+  }
+  if (method === "HIFO") {
+    return byAcquired.sort(
+      (a, b) => b.costBasis / b.quantity - a.costBasis / a.quantity,
+    );
+  }
+  if (method === "SpecificId") {
+    const selected = selectedLotIds
+      .map((lotId) => byAcquired.find((lot) => lot.id === lotId))
+      .filter((lot): lot is TaxLot => Boolean(lot));
+    return [...selected, ...byAcquired.filter((lot) => !selected.includes(lot))];
+  }
+  return byAcquired;
+};
+
+const matchDisposal = (
+  disposal: TaxDisposal,
+  lots: TaxLot[],
+  method: CostBasisMethod,
+  selections: TaxLotSelections,
+): RealizedGain[] => {
+  const available = lots.filter(
+    (lot) =>
+      lot.asset === disposal.asset &&
+      lot.remainingQuantity > quantityEpsilon &&
+      toTime(lot.acquiredAt) <= toTime(disposal.disposedAt),
+  );
+  const gains: RealizedGain[] = [];
+  let remaining = disposal.quantity;
+
+  const addGain = (lot: TaxLot | null, quantity: number) => {
+    const proceeds = (disposal.proceeds * quantity) / disposal.quantity;
+    const costBasis = lot ? (lot.costBasis * quantity) / lot.quantity : 0;
+    gains.push({
+      disposalId: disposal.id,
+      tradeId: disposal.tradeId,
+      lotId: lot?.id ?? null,
+      source: "Lot",
+      asset: disposal.asset,
+      acquiredAt: lot?.acquiredAt ?? null,
+      disposedAt: disposal.disposedAt,
+      quantity,
+      proceeds,
+      costBasis,
+      gain: proceeds - costBasis,
+      term:
+        lot && lot.dated && disposal.dated
+          ? getHoldingTerm(lot.acquiredAt, disposal.disposedAt)
+          : "Unknown",
+      priced: disposal.priced && (lot?.priced ?? true),
+    });
+  };
+
+  for (const lot of orderLots(available, method, selections[disposal.id] ?? [])) {
+    if (remaining <= quantityEpsilon) {
+      break;
+    }
+    const quantity = Math.min(lot.remainingQuantity, remaining);
+    addGain(lot, quantity);
+    lot.remainingQuantity -= quantity;
+    remaining -= quantity;
+  }
+  if (remaining > quantityEpsilon) {
+    addGain(null, remaining);
+  }
+  return gains;
+};
+
+export const calculateTaxLots = (
+  trades: Trade[],
+  method: CostBasisMethod,
+  settings: CurrencySettings,
+  selections: TaxLotSelections = {},
+): TaxLotReport => {
+  const activeTrades = trades.filter((trade) => trade.status !== "Cancelled");
+  const lots: TaxLot[] = [];
+  const disposals: TaxDisposal[] = [];
+  const gains: RealizedGain[] = [];
+
+  activeTrades.forEach((trade) => {
+    const rate = getDatedReportingRate(trade, settings.reportingCurrency);
+    if (isLotTracked(trade)) {
+      const legs = buildLotsAndDisposals(trade, rate);
+      lots.push(...legs.lots);
+      disposals.push(...legs.disposals);
+    } else if (trade.status === "Closed") {
+      gains.push(buildPositionGain(trade, rate));
+    }
+  });
+
+  // Earlier sales claim lots first, so a later choice cannot take a lot an
+  // earlier sale already used.
+  [...disposals]
+    .sort(
+      (a, b) => toTime(a.disposedAt) - toTime(b.disposedAt) || a.id.localeCompare(b.id),
+    )
+    .forEach((disposal) => gains.push(...matchDisposal(disposal, lots, method, selections)));
+
+  return {
+    method,
+    currency: settings.reportingCurrency,
+    lots,
+    disposals,
+    gains: gains.sort((a, b) => toTime(a.disposedAt) - toTime(b.disposedAt)),
+    missingRates: [
+      ...new Set(
+        activeTrades
+          .filter(
+            (trade) => getDatedReportingRate(trade, settings.reportingCurrency) === null,
+          )
+          .map((trade) => getQuoteAsset(trade.pair)),
+      ),
+    ].sort(),
+  };
+};
+
+// Lots a disposal may be matched against under specific identification.
+export const getSelectableLots = (report: TaxLotReport, disposal: TaxDisposal) =>
+  report.lots
+    .filter(
+      (lot) =>
+        lot.asset === disposal.asset &&
+        toTime(lot.acquiredAt) <= toTime(disposal.disposedAt),
+    )
+    .sort((a, b) => toTime(a.acquiredAt) - toTime(b.acquiredAt));
+
+export const getTaxYears = (gains: RealizedGain[]) =>
+  [...new Set(gains.map((gain) => getTaxYear(gain.disposedAt)))].sort((a, b) => b - a);
+
+export const getGainsForTaxYear = (gains: RealizedGain[], year: number) =>
+  gains.filter((gain) => getTaxYear(gain.disposedAt) === year);
+
+export const summarizeTaxYear = (
+  gains: RealizedGain[],
+  year: number,
+): TaxYearSummary => {
+  const byAsset = new Map<string, TaxAssetSummary>();
+  const summary: TaxYearSummary = {
+    year,
+    proceeds: 0,
+    costBasis: 0,
+    shortTermGain: 0,
+    longTermGain: 0,
+    unknownTermGain: 0,
+    totalGain: 0,
+    unpricedCount: 0,
+    byAsset: [],
+  };
+
+  getGainsForTaxYear(gains, year).forEach((gain) => {
+    if (!gain.priced) {
+      summary.unpricedCount += 1;
+      return;
+    }
+    const asset = byAsset.get(gain.asset) ?? {
+      asset: gain.asset,
+      quantity: 0,
+      proceeds: 0,
+      costBasis: 0,
+      shortTermGain: 0,
+      longTermGain: 0,
+      unknownTermGain: 0,
+    };
+    const termKey = termKeys[gain.term];
+    asset.quantity += gain.quantity;
+    asset.proceeds += gain.proceeds;
+    asset.costBasis += gain.costBasis;
+    asset[termKey] += gain.gain;
+    byAsset.set(gain.asset, asset);
+
+    summary.proceeds += gain.proceeds;
+    summary.costBasis += gain.costBasis;
+    summary[termKey] += gain.gain;
+    summary.totalGain += gain.gain;
+  });
+
+  return {
+    ...summary,
+    byAsset: [...byAsset.values()].sort((a, b) => a.asset.localeCompare(b.asset)),
+  };
+};
+
+const formatCsvDate = (value: string | null) => (value ? value.slice(0, 10) : "");
+
+// Eight places keeps crypto reporting currencies exact without float noise.
+const formatCsvAmount = (value: number) => `${Math.round(value * 1e8) / 1e8}`;
+
+// One row per matched lot, in the layout of a capital gains schedule. An
+// unpriced gain has its amounts left blank.
+export const buildTaxYearCsv = (report: TaxLotReport, year: number) =>
+  serializeCsv([
+    [
+      "asset",
+      "quantity",
+      "date_acquired",
+      "date_sold",
+      "term",
+      `proceeds_${report.currency}`,
+      `cost_basis_${report.currency}`,
+      `gain_${report.currency}`,
+      "source",
+      "method",
+      "trade_id",
+      "lot_id",
+      "disposal_id",
+    ],
+    ...getGainsForTaxYear(report.gains, year).map((gain) => [
+      gain.asset,
+      formatCsvAmount(gain.quantity),
+      formatCsvDate(gain.acquiredAt),
+      formatCsvDate(gain.disposedAt),
+      holdingTermLabels[gain.term],
+      gain.priced ? formatCsvAmount(gain.proceeds) : "",
+      gain.priced ? formatCsvAmount(gain.costBasis) : "",
+      gain.priced ? formatCsvAmount(gain.gain) : "",
+      gain.source,
+      gain.source === "Lot" ? report.method : "",
+      gain.tradeId,
+      gain.lotId ?? "",
+      gain.disposalId,
+    ]),
+  ]);
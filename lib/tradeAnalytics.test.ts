@@ -0,0 +1,349 @@
+import { PGlite, types } from "@electric-sql/pglite";
+import { readFileSync, readdirSync } from "node:fs";
+import { join } from "node:path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import {
+  Account,
+  AccountRow,
+  AccountTransfer,
+  AccountTransferRow,
+  getTradingCapital,
+  mapRowToAccount,
+  mapRowToTransfer,
+} from "@/lib/accounts";
+import { aggregateByHour, aggregateByWeekday, getDailyPnl } from "@/lib/calendar";
+import {
+  CurrencySettings,
+  convertTradeToReporting,
+  convertTradesToReporting,
+  getKnownUsdRates,
+  getReportingRate,
+  getUsdRate,
+} from "@/lib/currency";
+import { summarizeRMultiples } from "@/lib/risk";
+import { calculateGroupPerformance, calculatePerformanceStats } from "@/lib/stats";
+import {
+  DailyPnlRow,
+  GroupPerformanceRow,
+  OpenPositionRow,
+  PerformanceRow,
+  RSummaryRow,
+  TimeBucketRow,
+  mapResponseToAnalytics,
+  mapRowToDailyPnl,
+  mapRowToGroupPerformance,
+  mapRowToRSummary,
+  mapRowsToOpenPositions,
+  mapRowsToPerformanceStats,
+  mapRowsToTimeBuckets,
+} from "@/lib/tradeAnalytics";
+import {
+  Trade,
+  TradeRow,
+  calculateUnrealizedPnL,
+  mapRowToTrade,
+  normalizePairKey,
+} from "@/lib/trades";
+
+// The stats panels are worked out in SQL (*_trade_analytics.sql) and the
+// reports, accounts and analytics pages work the same figures out in
+// lib/stats.ts, lib/calendar.ts and lib/risk.ts. This runs both over one
+// fixture journal so the two cannot drift apart.
+
+const supabaseDir = join(process.cwd(), "supabase");
+
+const settings: CurrencySettings = {
+  reportingCurrency: "EUR",
+  usdRates: { EUR: "1.08", BTC: "64000" },
+};
+
+// SOL has no rate, so the SOL-quoted trades are left out of the money figures.
+const markPrices: Record<string, number> = {
+  BTCUSDT: 63000,
+  ETHUSDT: 3100,
+  ARBSOL: 0.006,
+};
+
+const fixtureJournal = `
+insert into public.accounts (id, name, base_currency, starting_balance) values
+  ('00000000-0000-0000-0000-0000000000a1', 'Spot', 'USDT', 8000),
+  ('00000000-0000-0000-0000-0000000000a2', 'Futures', 'EUR', 2500);
+
+insert into public.account_transfers (account_id, kind, amount, transferred_at) values
+  ('00000000-0000-0000-0000-0000000000a1', 'Deposit', 1500, '2026-03-05'),
+  ('00000000-0000-0000-0000-0000000000a2', 'Withdrawal', 400, '2026-03-09');
+
+insert into public.tags (id, name, category) values
+  ('00000000-0000-0000-0000-0000000000b1', 'Breakout', 'Setup'),
+  ('00000000-0000-0000-0000-0000000000b2', 'Pullback', 'Setup'),
+  ('00000000-0000-0000-0000-0000000000b3', 'Tired', 'Mistake');
+
+insert into public.trades (
+  id, pair, direction, status, entry_price, exit_price, stop_loss,
+  position_size, pnl, trade_date, fee_unit, maker_fee, taker_fee,
+  entry_liquidity, exit_liquidity, funding, rebate, quote_usd_rate
+) values
+  ('00000000-0000-0000-0000-000000000001', 'BTC/USDT', 'Long', 'Closed', 60000, 61500, 59000,
+   0.5, 750, '2026-03-02', 'bps', 2, 5, 'Maker', 'Taker', 1.5, 0, null),
+  ('00000000-0000-0000-0000-000000000002', 'ETH/USDT', 'Short', 'Closed', 3200, 3300, 3250,
+   4, -400, '2026-03-02', 'absolute', 0, 0, 'Taker', 'Taker', 0, 0, null),
+  ('00000000-0000-0000-0000-000000000003', 'SOL/USDT', 'Long', 'Closed', 140, 151, null,
+   20, 220, '2026-03-05', 'absolute', 1, 1, 'Maker', 'Maker', 0, 0.5, null),
+  ('00000000-0000-0000-0000-000000000004', 'ETH/BTC', 'Long', 'Closed', 0.05, 0.048, 0.049,
+   10, -0.02, '2026-03-09', 'absolute', 0, 0, 'Taker', 'Taker', 0, 0, 62000),
+  ('00000000-0000-0000-0000-000000000005', 'BTC/USDT', 'Short', 'Closed', 62000, 61000, 62500,
+   0.2, 200, '2026-03-10', 'bps', 1, 4, 'Taker', 'Maker', 0, 0, null),
+  ('00000000-0000-0000-0000-000000000006', 'ETH/USDT', 'Long', 'Cancelled', 3000, null, null,
+   1, 0, '2026-03-10', 'absolute', 0, 0, 'Taker', 'Taker', 0, 0, null),
+  ('00000000-0000-0000-0000-000000000007', 'BTC/USDT', 'Long', 'Open', 61000, null, 60000,
+   0.3, 0, '2026-03-11', 'absolute', 0, 0, 'Taker', 'Taker', 0, 0, null),
+  ('00000000-0000-0000-0000-000000000008', 'ETH/USDT', 'Short', 'Open', 3150, null, null,
+   2, 0, '2026-03-12', 'absolute', 0, 0, 'Taker', 'Taker', 0, 0, null),
+  ('00000000-0000-0000-0000-000000000009', 'DOGE/USDT', 'Long', 'Open', 0.2, null, null,
+   1000, 0, '2026-03-12', 'absolute', 0, 0, 'Taker', 'Taker', 0, 0, null),
+  ('00000000-0000-0000-0000-000000000010', 'JUP/SOL', 'Short', 'Closed', 0.008, 0.007, 0.0085,
+   5000, 4, '2026-03-05', 'absolute', 0, 0, 'Taker', 'Taker', 0, 0, null),
+  ('00000000-0000-0000-0000-000000000011', 'ARB/SOL', 'Long', 'Open', 0.005, null, null,
+   2000, 0, '2026-03-12', 'absolute', 0, 0, 'Taker', 'Taker', 0, 0, null);
+
+update public.trades set account_id = '00000000-0000-0000-0000-0000000000a2'
+where id in (
+  '00000000-0000-0000-0000-000000000002',
+  '00000000-0000-0000-0000-000000000004',
+  '00000000-0000-0000-0000-000000000005'
+);
+
+insert into public.trade_fills (trade_id, side, price, quantity, executed_at) values
+  ('00000000-0000-0000-0000-000000000001', 'Entry', 59800, 0.2, '2026-03-02T08:15:00Z'),
+  ('00000000-0000-0000-0000-000000000001', 'Entry', 60133.33, 0.3, '2026-03-02T09:40:00Z'),
+  ('00000000-0000-0000-0000-000000000001', 'Exit', 61500, 0.5, '2026-03-02T17:05:00Z'),
+  ('00000000-0000-0000-0000-000000000005', 'Entry', 62000, 0.2, '2026-03-10T22:30:00Z'),
+  ('00000000-0000-0000-0000-000000000005', 'Exit', 61000, 0.2, '2026-03-11T01:00:00Z'),
+  ('00000000-0000-0000-0000-000000000007', 'Entry', 60800, 0.2, '2026-03-11T13:00:00Z'),
+  ('00000000-0000-0000-0000-000000000007', 'Entry', 61400, 0.1, '2026-03-11T15:00:00Z'),
+  ('00000000-0000-0000-0000-000000000007', 'Exit', 62000, 0.1, '2026-03-11T19:00:00Z');
+
+insert into public.trade_tags (trade_id, tag_id) values
+  ('00000000-0000-0000-0000-000000000001', '00000000-0000-0000-0000-0000000000b1'),
+  ('00000000-0000-0000-0000-000000000001', '00000000-0000-0000-0000-0000000000b2'),
+  ('00000000-0000-0000-0000-000000000002', '00000000-0000-0000-0000-0000000000b2'),
+  ('00000000-0000-0000-0000-000000000003', '00000000-0000-0000-0000-0000000000b3'),
+  ('00000000-0000-0000-0000-000000000005', '00000000-0000-0000-0000-0000000000b1'),
+  ('00000000-0000-0000-0000-000000000010', '00000000-0000-0000-0000-0000000000b1');
+`;
+
+const setupNames: Record<string, string> = {
+  "00000000-0000-0000-0000-0000000000b1": "Breakout",
+  "00000000-0000-0000-0000-0000000000b2": "Pullback",
+};
+
+// Rounds every number so float and numeric arithmetic compare equal, and
+// turns -0 into 0.
+const roundNumbers = (value: unknown): unknown => {
+  if (typeof value === "number") {
+    return Number.isFinite(value) ? Number(value.toFixed(6)) || 0 : value;
+  }
+  if (Array.isArray(value)) {
+    return value.map(roundNumbers);
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, entry]) => [key, roundNumbers(entry)]),
+    );
+  }
+  return value;
+};
+
+const byKey = <T extends { key: string }>(groups: T[]) =>
+  [...groups].sort((a, b) => a.key.localeCompare(b.key));
+
+let db: PGlite;
+let trades: Trade[];
+let accounts: Account[];
+let transfers: AccountTransfer[];
+
+// Calls a function in supabase/migrations with named arguments.
+const callFunction = async <T,>(name: string, args: Record<string, unknown>) => {
+  const names = Object.keys(args);
+  const { rows } = await db.query<T>(
+    `select * from public.${name}(${names
+      .map((arg, index) => `${arg} => $${index + 1}`)
+      .join(", ")})`,
+    names.map((arg) => args[arg]),
+  );
+  return rows;
+};
+
+const currencyArgs = {
+  usd_rates: JSON.stringify(getKnownUsdRates(settings)),
+  reporting_usd_rate: getUsdRate(settings, settings.reportingCurrency),
+};
+
+const toReporting = (trade: Trade) => convertTradeToReporting(trade, settings);
+const getReportingTrades = () => convertTradesToReporting(trades, settings).trades;
+
+beforeAll(async () => {
+  // PostgREST sends dates as YYYY-MM-DD strings.
+  db = new PGlite({ parsers: { [types.DATE]: (value) => value } });
+  const migrationsDir = join(supabaseDir, "migrations");
+  await db.exec(readFileSync(join(supabaseDir, "tests", "bootstrap.sql"), "utf8"));
+  for (const file of readdirSync(migrationsDir).sort()) {
+    await db.exec(readFileSync(join(migrationsDir, file), "utf8"));
+  }
+  await db.exec(`
+    select set_config('request.jwt.claims', '{"sub": "user_a", "role": "authenticated"}', false);
+    set role authenticated;
+    ${fixtureJournal}
+  `);
+
+  const { rows } = await db.query<{ row: TradeRow }>(`
+    select to_jsonb(trades) || jsonb_build_object(
+      'trade_fills',
+      (select coalesce(jsonb_agg(to_jsonb(trade_fills)), '[]') from public.trade_fills
+        where trade_fills.trade_id = trades.id),
+      'trade_tags',
+      (select coalesce(jsonb_agg(jsonb_build_object('tag_id', trade_tags.tag_id)), '[]')
+        from public.trade_tags where trade_tags.trade_id = trades.id)
+    ) as row
+    from public.trades
+  `);
+  trades = rows.map(({ row }) => mapRowToTrade(row));
+  // Through JSON, as PostgREST sends numerics as numbers.
+  accounts = (
+    await db.query<{ row: AccountRow }>("select to_jsonb(accounts) as row from public.accounts")
+  ).rows.map(({ row }) => mapRowToAccount(row));
+  transfers = (
+    await db.query<{ row: AccountTransferRow }>(
+      "select to_jsonb(account_transfers) as row from public.account_transfers",
+    )
+  ).rows.map(({ row }) => mapRowToTransfer(row));
+}, 60_000);
+
+afterAll(async () => {
+  await db?.close();
+});
+
+describe("trade analytics SQL", () => {
+  it("matches calculatePerformanceStats", async () => {
+    const rows = await callFunction<PerformanceRow>(
+      "summarize_trade_performance",
+      currencyArgs,
+    );
+    const stats = calculatePerformanceStats(
+      getReportingTrades(),
+      getTradingCapital(accounts, transfers, settings),
+    );
+    expect(stats.sharpeRatio).not.toBeNull();
+    expect(roundNumbers(mapRowsToPerformanceStats(rows))).toEqual(roundNumbers(stats));
+  });
+
+  it("takes the ratios over the filtered account's capital", async () => {
+    const accountId = "00000000-0000-0000-0000-0000000000a2";
+    const rows = await callFunction<PerformanceRow>("summarize_trade_performance", {
+      ...currencyArgs,
+      account_filter: accountId,
+    });
+    const stats = calculatePerformanceStats(
+      getReportingTrades().filter((trade) => trade.accountId === accountId),
+      getTradingCapital(accounts, transfers, settings, accountId),
+    );
+    expect(stats.tradeCount).toBe(3);
+    expect(stats.sharpeRatio).not.toBeNull();
+    expect(roundNumbers(mapRowsToPerformanceStats(rows))).toEqual(roundNumbers(stats));
+  });
+
+  it("matches calculateGroupPerformance by setup and by pair", async () => {
+    const setupRows = await callFunction<GroupPerformanceRow>(
+      "summarize_trade_groups",
+      { group_by: "setup", ...currencyArgs },
+    );
+    expect(roundNumbers(byKey(setupRows.map(mapRowToGroupPerformance)))).toEqual(
+      roundNumbers(
+        byKey(
+          calculateGroupPerformance(
+            trades,
+            (trade) => trade.tagIds.flatMap((tagId) => setupNames[tagId] ?? []),
+            toReporting,
+          ),
+        ),
+      ),
+    );
+
+    const pairRows = await callFunction<GroupPerformanceRow>(
+      "summarize_trade_groups",
+      { group_by: "pair", ...currencyArgs },
+    );
+    expect(roundNumbers(byKey(pairRows.map(mapRowToGroupPerformance)))).toEqual(
+      roundNumbers(
+        byKey(calculateGroupPerformance(trades, (trade) => [trade.pair], toReporting)),
+      ),
+    );
+  });
+
+  it("matches the calendar's daily PnL and time buckets", async () => {
+    const dayRows = await callFunction<DailyPnlRow>("summarize_trade_days", currencyArgs);
+    expect(roundNumbers(dayRows.map(mapRowToDailyPnl))).toEqual(
+      roundNumbers([...getDailyPnl(getReportingTrades()).values()]),
+    );
+
+    // aggregateByHour reads hours in the local time zone.
+    const timeRows = await callFunction<TimeBucketRow>("summarize_trade_times", {
+      ...currencyArgs,
+      time_zone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+    });
+    expect(roundNumbers(mapRowsToTimeBuckets(timeRows))).toEqual(
+      roundNumbers({
+        weekdays: aggregateByWeekday(getReportingTrades()),
+        hours: aggregateByHour(getReportingTrades()),
+      }),
+    );
+  });
+
+  it("matches summarizeRMultiples", async () => {
+    const [row] = await callFunction<RSummaryRow>("summarize_r_multiples", {});
+    const { rSummary } = mapResponseToAnalytics({
+      performance: calculatePerformanceStats([], null),
+      setupGroups: [],
+      pairGroups: [],
+      dailyPnl: [],
+      weekdays: [],
+      hours: [],
+      rSummary: mapRowToRSummary(row),
+    });
+    expect(roundNumbers(rSummary)).toEqual(
+      roundNumbers(summarizeRMultiples(trades)),
+    );
+  });
+
+  it("matches calculateUnrealizedPnL for open positions", async () => {
+    const rows = await callFunction<OpenPositionRow>("summarize_open_positions", {
+      ...currencyArgs,
+      mark_prices: JSON.stringify(markPrices),
+    });
+    const positions = mapRowsToOpenPositions(rows, trades, markPrices);
+    const valued = positions.positions.filter(
+      (trade) =>
+        markPrices[normalizePairKey(trade.pair)] !== undefined &&
+        getReportingRate(trade, settings) !== null,
+    );
+
+    expect(positions.positions.map((trade) => trade.id).sort()).toEqual(
+      trades
+        .filter((trade) => trade.status === "Open")
+        .map((trade) => trade.id)
+        .sort(),
+    );
+    expect(positions.unmarkedCount).toBe(1);
+    expect(positions.unconvertedCount).toBe(1);
+    expect(positions.unrealizedPnl).toBeCloseTo(
+      valued.reduce(
+        (acc, trade) =>
+          acc +
+          calculateUnrealizedPnL(trade, markPrices[normalizePairKey(trade.pair)]) *
+            Number(getReportingRate(trade, settings)),
+        0,
+      ),
+      6,
+    );
+  });
+});
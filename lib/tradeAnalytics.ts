@@ -0,0 +1,270 @@
+import {
+  DailyPnl,
+  TimeBucket,
+  createHourBuckets,
+  createWeekdayBuckets,
+} from "@/lib/calendar";
+import { CurrencySettings } from "@/lib/currency";
+import { Database } from "@/lib/database.types";
+import { RSummary, buildRBuckets } from "@/lib/risk";
+import {
+  GroupPerformance,
+  OutcomeStats,
+  PerformanceStats,
+  calculateOutcomeStats,
+} from "@/lib/stats";
+import {
+  TradeFilters,
+  currencySettingsToSearchParams,
+  filtersToSearchParams,
+  formatMarkPricesParam,
+  parseCurrencySettingsParams,
+  parseMarkPricesParam,
+  parseTradeFilterParams,
+} from "@/lib/tradeFilters";
+import { SchemaResult } from "@/lib/tradeSchema";
+import { Trade, normalizePairKey } from "@/lib/trades";
+
+// The journal's stats panels for every trade matching the filters. The server
+// works them out in SQL (supabase/migrations, *_trade_analytics.sql) so the
+// browser never loads the whole journal. Money is in the reporting currency.
+export type TradeAnalytics = {
+  performance: PerformanceStats;
+  setupGroups: GroupPerformance[];
+  pairGroups: GroupPerformance[];
+  // The calendar ignores the date range so a day can be picked from any month.
+  dailyPnl: DailyPnl[];
+  weekdays: TimeBucket[];
+  hours: TimeBucket[];
+  rSummary: RSummary;
+};
+
+// JSON has no Infinity for the outer R bucket edges, so the buckets travel as
+// counts and mapResponseToAnalytics rebuilds them.
+export type TradeAnalyticsResponse = Omit<TradeAnalytics, "rSummary"> & {
+  rSummary: Omit<RSummary, "buckets"> & { bucketCounts: number[] };
+};
+
+export type TradeAnalyticsRequest = {
+  filters: TradeFilters;
+  settings: CurrencySettings;
+  // The hour-of-day buckets are in this IANA time zone, the browser's own.
+  timeZone: string;
+};
+
+export type OpenPositionsSummary = {
+  positions: Trade[];
+  unrealizedPnl: number;
+  // Positions without a mark price, and marked positions without a rate into
+  // the reporting currency, both left out of unrealizedPnl.
+  unmarkedCount: number;
+  unconvertedCount: number;
+};
+
+export type OpenPositionsRequest = {
+  filters: TradeFilters;
+  settings: CurrencySettings;
+  // Keyed by normalizePairKey, as getValidMarkPrices returns them.
+  markPrices: Record<string, number>;
+};
+
+type Functions = Database["public"]["Functions"];
+
+export type PerformanceRow =
+  Functions["summarize_trade_performance"]["Returns"][number];
+export type GroupPerformanceRow =
+  Functions["summarize_trade_groups"]["Returns"][number];
+export type DailyPnlRow = Functions["summarize_trade_days"]["Returns"][number];
+export type TimeBucketRow = Functions["summarize_trade_times"]["Returns"][number];
+export type RSummaryRow = Functions["summarize_r_multiples"]["Returns"][number];
+export type OpenPositionRow =
+  Functions["summarize_open_positions"]["Returns"][number];
+
+export const tradeAnalyticsToSearchParams = (
+  filters: TradeFilters,
+  settings: CurrencySettings,
+  timeZone: string,
+) => {
+  const params = filtersToSearchParams(filters);
+  currencySettingsToSearchParams(params, settings);
+  params.set("tz", timeZone);
+  return params;
+};
+
+export const openPositionsToSearchParams = (
+  filters: TradeFilters,
+  settings: CurrencySettings,
+  markPrices: Record<string, number>,
+) => {
+  const params = filtersToSearchParams(filters);
+  currencySettingsToSearchParams(params, settings);
+  const marks = formatMarkPricesParam(markPrices);
+  if (marks) {
+    params.set("marks", marks);
+  }
+  return params;
+};
+
+const isTimeZone = (value: string) => {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const parseTradeAnalyticsParams = (
+  params: URLSearchParams,
+): SchemaResult<TradeAnalyticsRequest> => {
+  const filters = parseTradeFilterParams(params);
+  const errors = filters.ok ? [] : [...filters.errors];
+  const settings = parseCurrencySettingsParams(params, errors);
+
+  const timeZone = params.get("tz") ?? "UTC";
+  if (!isTimeZone(timeZone)) {
+    errors.push("tz must be a time zone such as Europe/Berlin.");
+  }
+
+  if (!filters.ok || errors.length > 0) {
+    return { ok: false, errors };
+  }
+
+  return { ok: true, value: { filters: filters.value, settings, timeZone } };
+};
+
+export const parseOpenPositionsParams = (
+  params: URLSearchParams,
+): SchemaResult<OpenPositionsRequest> => {
+  const filters = parseTradeFilterParams(params);
+  const errors = filters.ok ? [] : [...filters.errors];
+  const settings = parseCurrencySettingsParams(params, errors);
+  const markPrices = parseMarkPricesParam(params.get("marks"), errors);
+
+  if (!filters.ok || errors.length > 0) {
+    return { ok: false, errors };
+  }
+
+  return { ok: true, value: { filters: filters.value, settings, markPrices } };
+};
+
+const toNumberOrNull = (value: number | null) =>
+  value === null ? null : Number(value);
+
+const mapRowToOutcomeStats = (row: PerformanceRow | undefined): OutcomeStats =>
+  row
+    ? {
+        tradeCount: Number(row.trade_count),
+        winCount: Number(row.win_count),
+        lossCount: Number(row.loss_count),
+        winRate: Number(row.win_rate),
+        netPnl: Number(row.net_pnl),
+        grossProfit: Number(row.gross_profit),
+        grossLoss: Number(row.gross_loss),
+        profitFactor: toNumberOrNull(row.profit_factor),
+        expectancy: Number(row.expectancy),
+        averageWin: Number(row.average_win),
+        averageLoss: Number(row.average_loss),
+        winLossRatio: toNumberOrNull(row.win_loss_ratio),
+        largestWin: Number(row.largest_win),
+        largestLoss: Number(row.largest_loss),
+        longestWinStreak: Number(row.longest_win_streak),
+        longestLossStreak: Number(row.longest_loss_streak),
+      }
+    : calculateOutcomeStats([]);
+
+// One row per scope: 'All', 'Long' and 'Short'.
+export const mapRowsToPerformanceStats = (
+  rows: PerformanceRow[],
+): PerformanceStats => {
+  const findScope = (scope: string) => rows.find((row) => row.scope === scope);
+  const all = findScope("All");
+  return {
+    ...mapRowToOutcomeStats(all),
+    sharpeRatio: toNumberOrNull(all?.sharpe_ratio ?? null),
+    sortinoRatio: toNumberOrNull(all?.sortino_ratio ?? null),
+    byDirection: {
+      Long: mapRowToOutcomeStats(findScope("Long")),
+      Short: mapRowToOutcomeStats(findScope("Short")),
+    },
+  };
+};
+
+export const mapRowToGroupPerformance = (
+  row: GroupPerformanceRow,
+): GroupPerformance => ({
+  key: row.key,
+  tradeCount: Number(row.trade_count),
+  closedCount: Number(row.closed_count),
+  winRate: Number(row.win_rate),
+  netPnl: Number(row.net_pnl),
+  profitFactor: toNumberOrNull(row.profit_factor),
+  averageR: toNumberOrNull(row.average_r),
+});
+
+export const mapRowToDailyPnl = (row: DailyPnlRow): DailyPnl => ({
+  date: row.trade_date,
+  pnl: Number(row.pnl),
+  tradeCount: Number(row.trade_count),
+});
+
+// The function leaves out empty buckets; these fill every weekday and hour.
+export const mapRowsToTimeBuckets = (rows: TimeBucketRow[]) => {
+  const weekdays = createWeekdayBuckets();
+  const hours = createHourBuckets();
+  rows.forEach((row) => {
+    const bucket = (row.bucket_kind === "weekday" ? weekdays : hours)[row.bucket];
+    if (bucket) {
+      bucket.pnl = Number(row.pnl);
+      bucket.tradeCount = Number(row.trade_count);
+      bucket.winCount = Number(row.win_count);
+    }
+  });
+  return { weekdays, hours };
+};
+
+export const mapRowToRSummary = (
+  row: RSummaryRow | undefined,
+): TradeAnalyticsResponse["rSummary"] => ({
+  tradesWithRisk: Number(row?.trades_with_risk ?? 0),
+  averageR: Number(row?.average_r ?? 0),
+  averageWinR: Number(row?.average_win_r ?? 0),
+  averageLossR: Number(row?.average_loss_r ?? 0),
+  winRate: Number(row?.win_rate ?? 0),
+  bucketCounts: (row?.bucket_counts ?? []).map(Number),
+});
+
+export const mapResponseToAnalytics = ({
+  rSummary: { bucketCounts, ...rSummary },
+  ...analytics
+}: TradeAnalyticsResponse): TradeAnalytics => ({
+  ...analytics,
+  rSummary: { ...rSummary, buckets: buildRBuckets(bucketCounts) },
+});
+
+// `trades` are the open positions, loaded by id, in any order. The function
+// returns no value for a position without a mark or without a rate, told
+// apart here by markPrices.
+export const mapRowsToOpenPositions = (
+  rows: OpenPositionRow[],
+  trades: Trade[],
+  markPrices: Record<string, number>,
+): OpenPositionsSummary => {
+  const tradesById = new Map(trades.map((trade) => [trade.id, trade]));
+  const positions = rows.flatMap((row) => tradesById.get(row.id) ?? []);
+  const unvalued = rows.flatMap((row) =>
+    row.unrealized_pnl === null ? (tradesById.get(row.id) ?? []) : [],
+  );
+  const unmarkedCount = unvalued.filter(
+    (trade) => markPrices[normalizePairKey(trade.pair)] === undefined,
+  ).length;
+  return {
+    positions,
+    unrealizedPnl: rows.reduce(
+      (acc, row) => acc + Number(row.unrealized_pnl ?? 0),
+      0,
+    ),
+    unmarkedCount,
+    unconvertedCount: unvalued.length - unmarkedCount,
+  };
+};
@@ -0,0 +1,175 @@
+import { requestJson } from "@/lib/apiClient";
+import { CurrencySettings } from "@/lib/currency";
+import { MarkPrices, getValidMarkPrices } from "@/lib/markPrices";
+import {
+  OpenPositionsSummary,
+  TradeAnalyticsResponse,
+  mapResponseToAnalytics,
+  openPositionsToSearchParams,
+  tradeAnalyticsToSearchParams,
+} from "@/lib/tradeAnalytics";
+import { TradeBatchRequest, TradeBatchResult } from "@/lib/tradeBatch";
+import {
+  TradeFilters,
+  TradePage,
+  TradeSearch,
+  filtersToSearchParams,
+  maxTradePageSize,
+  tradeSearchToSearchParams,
+} from "@/lib/tradeFilters";
+import { TradePatch, TradePayload } from "@/lib/tradeSchema";
+import { TradeSummaryGroup } from "@/lib/tradeSummary";
+import { DeletedTrade, Trade } from "@/lib/trades";
+
+// Browser-side wrappers around /api/trades. The Clerk session cookie travels
+// with each request, so none of these take a user id.
+
+type TradeChunk = {
+  trades: Trade[];
+  nextOffset: number | null;
+};
+
+// Reads the whole journal one chunk per request, for the pages that work
+// through every trade (taxes, accounts, analytics) and their offline cache.
+export const fetchTrades = async () => {
+  const trades: Trade[] = [];
+  let offset: number | null = 0;
+  while (offset !== null) {
+    const chunk: TradeChunk = await requestJson(`/api/trades?offset=${offset}`);
+    trades.push(...chunk.trades);
+    offset = chunk.nextOffset;
+  }
+  return trades;
+};
+
+export const searchTrades = async (search: TradeSearch) =>
+  requestJson<TradePage>(`/api/trades?${tradeSearchToSearchParams(search)}`);
+
+// Every trade matching the filters in the log's order, a page of the largest
+// size per request, for exports.
+export const searchAllTrades = async (
+  search: Omit<TradeSearch, "cursor" | "limit">,
+) => {
+  const trades: Trade[] = [];
+  let cursor: string | null = null;
+  do {
+    const page: TradePage = await searchTrades({
+      ...search,
+      cursor,
+      limit: maxTradePageSize,
+    });
+    trades.push(...page.trades);
+    cursor = page.nextCursor;
+  } while (cursor);
+  return trades;
+};
+
+export const fetchTradeSummary = async (filters: TradeFilters) =>
+  (
+    await requestJson<{ groups: TradeSummaryGroup[] }>(
+      `/api/trades/summary?${filtersToSearchParams(filters)}`,
+    )
+  ).groups;
+
+// Hour-of-day stats use the browser's time zone.
+export const fetchTradeAnalytics = async (
+  filters: TradeFilters,
+  settings: CurrencySettings,
+) =>
+  mapResponseToAnalytics(
+    (
+      await requestJson<{ analytics: TradeAnalyticsResponse }>(
+        `/api/trades/analytics?${tradeAnalyticsToSearchParams(
+          filters,
+          settings,
+          Intl.DateTimeFormat().resolvedOptions().timeZone,
+        )}`,
+      )
+    ).analytics,
+  );
+
+export const fetchOpenPositions = async (
+  filters: TradeFilters,
+  settings: CurrencySettings,
+  markPrices: MarkPrices,
+) =>
+  requestJson<OpenPositionsSummary>(
+    `/api/trades/positions?${openPositionsToSearchParams(
+      filters,
+      settings,
+      getValidMarkPrices(markPrices),
+    )}`,
+  );
+
+// The fingerprints (getTradeFingerprint) among these that the journal
+// already has.
+export const findExistingFingerprints = async (fingerprints: string[]) =>
+  fingerprints.length === 0
+    ? []
+    : (
+        await requestJson<{ fingerprints: string[] }>("/api/trades/duplicates", {
+          method: "POST",
+          body: JSON.stringify({ fingerprints }),
+        })
+      ).fingerprints;
+
+export const fetchTrade = async (tradeId: string) =>
+  (await requestJson<{ trade: Trade }>(`/api/trades/${tradeId}`)).trade;
+
+export const createTrades = async (payloads: TradePayload[]) =>
+  (
+    await requestJson<{ trades: Trade[] }>("/api/trades", {
+      method: "POST",
+      body: JSON.stringify({ trades: payloads }),
+    })
+  ).trades;
+
+// Pass `expectedUpdatedAt` to have the server refuse the write (409) if the
+// trade changed since that version.
+export const updateTrade = async (
+  tradeId: string,
+  patch: TradePatch,
+  expectedUpdatedAt?: string,
+) =>
+  (
+    await requestJson<{ trade: Trade }>(`/api/trades/${tradeId}`, {
+      method: "PATCH",
+      body: JSON.stringify(patch),
+      ifMatch: expectedUpdatedAt,
+    })
+  ).trade;
+
+// Moves the trade to the trash; restoreTrade brings it back.
+export const deleteTrade = async (tradeId: string, expectedUpdatedAt?: string) => {
+  await requestJson<null>(`/api/trades/${tradeId}`, {
+    method: "DELETE",
+    ifMatch: expectedUpdatedAt,
+  });
+};
+
+export const applyTradeBatch = async (batch: TradeBatchRequest) =>
+  requestJson<TradeBatchResult>("/api/trades/batch", {
+    method: "POST",
+    body: JSON.stringify(
+      "filters" in batch
+        ? {
+            filters: filtersToSearchParams(batch.filters).toString(),
+            operation: batch.operation,
+          }
+        : batch,
+    ),
+  });
+
+export const fetchDeletedTrades = async () =>
+  (await requestJson<{ trades: DeletedTrade[] }>("/api/trades/trash")).trades;
+
+export const restoreTrade = async (tradeId: string) =>
+  (
+    await requestJson<{ trade: Trade }>(`/api/trades/${tradeId}/restore`, {
+      method: "POST",
+    })
+  ).trade;
+
+export const purgeTrade = async (tradeId: string) => {
+  await requestJson<null>(`/api/trades/trash/${tradeId}`, { method: "DELETE" });
+};
@@ -0,0 +1,155 @@
+import { Tag } from "@/lib/tags";
+import {
+  TradeFilters,
+  parseTradeFilterParams,
+  uuidPattern,
+} from "@/lib/tradeFilters";
+import { SchemaResult } from "@/lib/tradeSchema";
+import { Trade } from "@/lib/trades";
+
+// One change applied to many trades from the trade log's selection. Setting a
+// setup is a tag change that also removes the trades' other setup tags.
+export type TradeBatchOperation =
+  | { kind: "delete" }
+  | { kind: "tag"; addTagIds: string[]; removeTagIds: string[] }
+  | { kind: "shiftDates"; days: number };
+
+// The trades are listed by id, or picked by the trade log's filters when
+// every filtered trade is selected, loaded in the log or not. The filters
+// travel in the body as their query string (filtersToSearchParams).
+export type TradeBatchRequest = (
+  | { tradeIds: string[] }
+  | { filters: TradeFilters }
+) & {
+  operation: TradeBatchOperation;
+};
+
+export type TradeBatchFailure = {
+  tradeId: string;
+  message: string;
+};
+
+// Deleted trades are listed by id; every other change returns the trades as
+// saved.
+export type TradeBatchResult = {
+  trades: Trade[];
+  deletedIds: string[];
+  failures: TradeBatchFailure[];
+};
+
+export const maxTradeBatchSize = 1000;
+
+export const maxDateShiftDays = 3650;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isIdList = (value: unknown): value is string[] =>
+  Array.isArray(value) &&
+  value.every((item) => typeof item === "string" && uuidPattern.test(item));
+
+const parseOperation = (value: unknown): TradeBatchOperation | string => {
+  if (!isRecord(value)) {
+    return "operation must be an object.";
+  }
+  if (value.kind === "delete") {
+    return { kind: "delete" };
+  }
+  if (value.kind === "tag") {
+    if (!isIdList(value.addTagIds) || !isIdList(value.removeTagIds)) {
+      return "addTagIds and removeTagIds must be lists of tag ids.";
+    }
+    if (value.addTagIds.length + value.removeTagIds.length === 0) {
+      return "A tag change must add or remove at least one tag.";
+    }
+    return {
+      kind: "tag",
+      addTagIds: value.addTagIds,
+      removeTagIds: value.removeTagIds,
+    };
+  }
+  if (value.kind === "shiftDates") {
+    const days = value.days;
+    if (
+      typeof days !== "number" ||
+      !Number.isInteger(days) ||
+      days === 0 ||
+      Math.abs(days) > maxDateShiftDays
+    ) {
+      return `days must be a whole number of days, not 0, up to ${maxDateShiftDays} either way.`;
+    }
+    return { kind: "shiftDates", days };
+  }
+  return "operation.kind must be delete, tag or shiftDates.";
+};
+
+export const parseTradeBatchRequest = (
+  input: unknown,
+): SchemaResult<TradeBatchRequest> => {
+  if (!isRecord(input)) {
+    return { ok: false, errors: ["Body must be a JSON object."] };
+  }
+
+  const errors: string[] = [];
+  const operation = parseOperation(input.operation);
+  if (typeof operation === "string") {
+    errors.push(operation);
+  }
+
+  if (typeof input.filters === "string") {
+    const filters = parseTradeFilterParams(new URLSearchParams(input.filters));
+    if (!filters.ok) {
+      errors.push(...filters.errors);
+    }
+    return !filters.ok || typeof operation === "string"
+      ? { ok: false, errors }
+      : { ok: true, value: { filters: filters.value, operation } };
+  }
+
+  const tradeIds = isIdList(input.tradeIds) ? [...new Set(input.tradeIds)] : [];
+  if (!isIdList(input.tradeIds) || tradeIds.length === 0) {
+    errors.push("tradeIds must be a non-empty list of trade ids, or filters a query string.");
+  } else if (tradeIds.length > maxTradeBatchSize) {
+    errors.push(`A batch can change at most ${maxTradeBatchSize} trades.`);
+  }
+
+  return errors.length > 0 || typeof operation === "string"
+    ? { ok: false, errors }
+    : { ok: true, value: { tradeIds, operation } };
+};
+
+export const getBatchTagIds = (operation: TradeBatchOperation) =>
+  operation.kind === "tag"
+    ? [...operation.addTagIds, ...operation.removeTagIds]
+    : [];
+
+export const buildSetSetupOperation = (
+  tags: Tag[],
+  setupTagId: string,
+): TradeBatchOperation => ({
+  kind: "tag",
+  addTagIds: [setupTagId],
+  removeTagIds: tags
+    .filter((tag) => tag.category === "Setup" && tag.id !== setupTagId)
+    .map((tag) => tag.id),
+});
+
+const pluralizeTrades = (count: number) =>
+  `${count} ${count === 1 ? "trade" : "trades"}`;
+
+export const describeTradeBatch = (
+  operation: TradeBatchOperation,
+  count: number,
+) => {
+  const trades = pluralizeTrades(count);
+  if (operation.kind === "delete") {
+    return `Moved ${trades} to the trash.`;
+  }
+  if (operation.kind === "tag") {
+    return `Updated tags on ${trades}.`;
+  }
+  const days = Math.abs(operation.days);
+  return `Moved ${trades} ${days} ${days === 1 ? "day" : "days"} ${
+    operation.days > 0 ? "later" : "earlier"
+  }.`;
+};
@@ -0,0 +1,364 @@
+import { parseCsvTable, serializeCsv } from "@/lib/csv";
+import {
+  Tag,
+  TagCategory,
+  getTagsById,
+  normalizeTagName,
+  tagCategories,
+} from "@/lib/tags";
+import { TradePayload, mapTradeToPayload, parseTradePayload } from "@/lib/tradeSchema";
+import { Trade } from "@/lib/trades";
+
+// The journal's own export format, written as CSV or JSON and read back by
+// the "This journal" import source. Both carry the same fields, so a file
+// exported and imported again gives the same trades; README.md documents the
+// columns. Bump tradeExportVersion when a change would break older files.
+
+export const tradeExportVersion = 1;
+
+export const tradeExportFormat = "crypto-trading-journal/trades";
+
+// Tags travel by name, since tag ids belong to one user's journal.
+export type TradeExportTag = {
+  name: string;
+  category: TagCategory;
+};
+
+// A trade as it is imported: the API payload with tags named instead of
+// referenced by id. Accounts are left out, so imported trades are unassigned.
+export type ImportedTrade = Omit<TradePayload, "tagIds" | "accountId"> & {
+  tags: TradeExportTag[];
+};
+
+// `id`, `pnl`, `totalCosts` and `netPnl` are written for reference and ignored
+// on import: the server assigns ids and recalculates PnL and costs.
+export type ExportedTrade = ImportedTrade & {
+  id: string;
+  pnl: number;
+  totalCosts: number;
+  netPnl: number;
+};
+
+export type TradeExportDocument = {
+  format: typeof tradeExportFormat;
+  version: number;
+  exportedAt: string;
+  trades: ExportedTrade[];
+};
+
+export type TradeExportRow = {
+  rowNumber: number;
+  trade: ImportedTrade | null;
+  errors: string[];
+};
+
+export const mapTradeToExport = (trade: Trade, tags: Tag[]): ExportedTrade => {
+  const { tagIds, ...payload } = mapTradeToPayload(trade);
+  const exported: ExportedTrade & Partial<TradePayload> = {
+    id: trade.id,
+    ...payload,
+    fills: trade.fills.map(({ side, price, quantity, executedAt }) => ({
+      side,
+      price,
+      quantity,
+      executedAt,
+    })),
+    tags: getTagsById(tags, tagIds).map(({ name, category }) => ({
+      name,
+      category,
+    })),
+    pnl: trade.pnl,
+    totalCosts: trade.totalCosts,
+    netPnl: trade.netPnl,
+  };
+  delete exported.accountId;
+  return exported;
+};
+
+// Tag names may contain ";", so a ";" or "\" in a name is written with a
+// backslash in front and the list splits only on unescaped ";".
+const tagSeparator = "; ";
+
+const escapeTagName = (name: string) => name.replace(/[\\;]/g, "\\$&");
+
+const splitTagList = (value: string) => {
+  const entries: string[] = [];
+  let entry = "";
+  for (let index = 0; index < value.length; index += 1) {
+    const char = value[index];
+    if (char === "\\" && index + 1 < value.length) {
+      entry += value[index + 1];
+      index += 1;
+    } else if (char === ";") {
+      entries.push(entry);
+      entry = "";
+    } else {
+      entry += char;
+    }
+  }
+  return [...entries, entry];
+};
+
+const formatNumber = (value: number | null) => (value === null ? "" : `${value}`);
+
+type ExportColumn = {
+  header: string;
+  write: (trade: ExportedTrade) => string;
+};
+
+// Column order is the order written. Blank cells are nulls.
+export const tradeExportColumns: ExportColumn[] = [
+  { header: "id", write: (trade) => trade.id },
+  { header: "date", write: (trade) => trade.date },
+  { header: "pair", write: (trade) => trade.pair },
+  { header: "direction", write: (trade) => trade.direction },
+  { header: "status", write: (trade) => trade.status },
+  { header: "entry_price", write: (trade) => formatNumber(trade.entryPrice) },
+  { header: "exit_price", write: (trade) => formatNumber(trade.exitPrice) },
+  { header: "stop_loss", write: (trade) => formatNumber(trade.stopLoss) },
+  { header: "take_profit", write: (trade) => formatNumber(trade.takeProfit) },
+  { header: "position_size", write: (trade) => formatNumber(trade.positionSize) },
+  { header: "pnl", write: (trade) => formatNumber(trade.pnl) },
+  { header: "fee_unit", write: (trade) => trade.costInputs.feeUnit },
+  { header: "maker_fee", write: (trade) => formatNumber(trade.costInputs.makerFee) },
+  { header: "taker_fee", write: (trade) => formatNumber(trade.costInputs.takerFee) },
+  { header: "entry_liquidity", write: (trade) => trade.costInputs.entryLiquidity },
+  { header: "exit_liquidity", write: (trade) => trade.costInputs.exitLiquidity },
+  { header: "funding", write: (trade) => formatNumber(trade.costInputs.funding) },
+  { header: "rebate", write: (trade) => formatNumber(trade.costInputs.rebate) },
+  { header: "instrument_type", write: (trade) => trade.marginInputs.instrumentType },
+  { header: "leverage", write: (trade) => formatNumber(trade.marginInputs.leverage) },
+  { header: "margin_mode", write: (trade) => trade.marginInputs.marginMode },
+  {
+    header: "initial_margin",
+    write: (trade) => formatNumber(trade.marginInputs.initialMargin),
+  },
+  { header: "quote_usd_rate", write: (trade) => formatNumber(trade.quoteUsdRate) },
+  { header: "total_costs", write: (trade) => formatNumber(trade.totalCosts) },
+  { header: "net_pnl", write: (trade) => formatNumber(trade.netPnl) },
+  {
+    header: "tags",
+    write: (trade) =>
+      trade.tags
+        .map((tag) => `${tag.category}:${escapeTagName(tag.name)}`)
+        .join(tagSeparator),
+  },
+  { header: "notes", write: (trade) => trade.sentiment },
+  { header: "thesis", write: (trade) => trade.journal.thesis },
+  { header: "review", write: (trade) => trade.journal.review },
+  { header: "lessons", write: (trade) => trade.journal.lessons },
+  { header: "fills", write: (trade) => JSON.stringify(trade.fills) },
+];
+
+export const buildTradesCsv = (trades: Trade[], tags: Tag[]) =>
+  serializeCsv([
+    tradeExportColumns.map((column) => column.header),
+    ...trades.map((trade) => {
+      const exported = mapTradeToExport(trade, tags);
+      return tradeExportColumns.map((column) => column.write(exported));
+    }),
+  ]);
+
+export const buildTradesJson = (
+  trades: Trade[],
+  tags: Tag[],
+  exportedAt = new Date().toISOString(),
+) => {
+  const document: TradeExportDocument = {
+    format: tradeExportFormat,
+    version: tradeExportVersion,
+    exportedAt,
+    trades: trades.map((trade) => mapTradeToExport(trade, tags)),
+  };
+  return JSON.stringify(document, null, 2);
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const parseExportTags = (value: unknown): TradeExportTag[] | undefined => {
+  if (!Array.isArray(value)) {
+    return undefined;
+  }
+  const tags: TradeExportTag[] = [];
+  for (const entry of value) {
+    const category = isRecord(entry)
+      ? tagCategories.find((option) => option === entry.category)
+      : undefined;
+    const name =
+      isRecord(entry) && typeof entry.name === "string"
+        ? normalizeTagName(entry.name)
+        : "";
+    if (!category || !name) {
+      return undefined;
+    }
+    tags.push({ name, category });
+  }
+  return tags;
+};
+
+// Validates through parseTradePayload, the same checks the API applies.
+const parseExportedTrade = (
+  input: unknown,
+  rowNumber: number,
+): TradeExportRow => {
+  if (!isRecord(input)) {
+    return { rowNumber, trade: null, errors: ["Trade must be a JSON object."] };
+  }
+  const fields: Record<string, unknown> = { ...input };
+  ["id", "pnl", "totalCosts", "netPnl", "tags"].forEach((key) => delete fields[key]);
+  const parsedTags = parseExportTags(input.tags ?? []);
+  const payload = parseTradePayload(fields);
+  const errors = [
+    ...(payload.ok ? [] : payload.errors),
+    ...(parsedTags ? [] : ["tags must be a list of { name, category }."]),
+  ];
+  if (!payload.ok || !parsedTags) {
+    return { rowNumber, trade: null, errors };
+  }
+  const trade: ImportedTrade & Partial<TradePayload> = {
+    ...payload.value,
+    tags: parsedTags,
+  };
+  delete trade.tagIds;
+  delete trade.accountId;
+  return { rowNumber, trade, errors: [] };
+};
+
+const parseCsvNumber = (value: string) =>
+  value.trim() ? Number(value.trim()) : null;
+
+const parseCsvTags = (value: string) =>
+  splitTagList(value)
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const separator = entry.indexOf(":");
+      return {
+        category: entry.slice(0, separator).trim(),
+        name: entry.slice(separator + 1),
+      };
+    });
+
+const parseCsvFills = (value: string): unknown => {
+  if (!value.trim()) {
+    return [];
+  }
+  try {
+    return JSON.parse(value);
+  } catch {
+    return null;
+  }
+};
+
+// Rebuilds the JSON shape from a row so both formats share one validator.
+// Invalid numbers become NaN, which the validator then reports by field.
+const mapCsvRecord = (read: (header: string) => string) => ({
+  date: read("date"),
+  pair: read("pair"),
+  direction: read("direction"),
+  status: read("status"),
+  entryPrice: parseCsvNumber(read("entry_price")),
+  exitPrice: parseCsvNumber(read("exit_price")),
+  stopLoss: parseCsvNumber(read("stop_loss")),
+  takeProfit: parseCsvNumber(read("take_profit")),
+  positionSize: parseCsvNumber(read("position_size")),
+  costInputs: {
+    feeUnit: read("fee_unit"),
+    makerFee: parseCsvNumber(read("maker_fee")),
+    takerFee: parseCsvNumber(read("taker_fee")),
+    entryLiquidity: read("entry_liquidity"),
+    exitLiquidity: read("exit_liquidity"),
+    funding: parseCsvNumber(read("funding")),
+    rebate: parseCsvNumber(read("rebate")),
+  },
+  marginInputs: {
+    instrumentType: read("instrument_type"),
+    leverage: parseCsvNumber(read("leverage")),
+    marginMode: read("margin_mode"),
+    initialMargin: parseCsvNumber(read("initial_margin")),
+  },
+  quoteUsdRate: parseCsvNumber(read("quote_usd_rate")),
+  tags: parseCsvTags(read("tags")),
+  sentiment: read("notes"),
+  journal: {
+    thesis: read("thesis"),
+    review: read("review"),
+    lessons: read("lessons"),
+  },
+  fills: parseCsvFills(read("fills")),
+});
+
+const parseTradesJson = (text: string): TradeExportRow[] => {
+  let document: unknown;
+  try {
+    document = JSON.parse(text);
+  } catch {
+    return [{ rowNumber: 1, trade: null, errors: ["The file is not valid JSON."] }];
+  }
+  if (
+    !isRecord(document) ||
+    document.format !== tradeExportFormat ||
+    !Array.isArray(document.trades)
+  ) {
+    return [
+      {
+        rowNumber: 1,
+        trade: null,
+        errors: ["The file is not a trade export from this journal."],
+      },
+    ];
+  }
+  if (typeof document.version !== "number" || document.version > tradeExportVersion) {
+    return [
+      {
+        rowNumber: 1,
+        trade: null,
+        errors: [`Export version ${String(document.version)} is not supported.`],
+      },
+    ];
+  }
+  return document.trades.map((entry, index) => parseExportedTrade(entry, index + 1));
+};
+
+const parseTradesCsv = (text: string): TradeExportRow[] => {
+  const { headers, rows, lineNumbers } = parseCsvTable(text);
+  const missing = tradeExportColumns
+    .map((column) => column.header)
+    .filter((header) => !headers.includes(header));
+  if (missing.length > 0) {
+    return [
+      {
+        rowNumber: 1,
+        trade: null,
+        errors: [`Missing columns: ${missing.join(", ")}.`],
+      },
+    ];
+  }
+  return rows.map((row, index) =>
+    parseExportedTrade(
+      mapCsvRecord((header) => row[headers.indexOf(header)] ?? ""),
+      lineNumbers[index],
+    ),
+  );
+};
+
+// Rows are numbered by CSV line (the header is line 1) or by position in the
+// JSON trades list.
+export const parseTradeExport = (text: string): TradeExportRow[] =>
+  text.trimStart().startsWith("{") ? parseTradesJson(text) : parseTradesCsv(text);
+
+export const downloadTextFile = (
+  fileName: string,
+  content: string,
+  contentType: string,
+) => {
+  const url = URL.createObjectURL(new Blob([content], { type: contentType }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Revoking straight away can cancel the download before the browser reads
+  // the blob.
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
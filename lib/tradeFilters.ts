@@ -0,0 +1,348 @@
+import { CurrencySettings, getValidUsdRates } from "@/lib/currency";
+import { SchemaResult } from "@/lib/tradeSchema";
+import { Trade, TradeDirection } from "@/lib/trades";
+
+export type DirectionFilter = TradeDirection | "All";
+
+export type SortKey =
+  | "date-desc"
+  | "date-asc"
+  | "pnl-desc"
+  | "pnl-asc"
+  | "size-desc"
+  | "size-asc";
+
+export type TradeFilters = {
+  pair: string;
+  direction: DirectionFilter;
+  tagIds: string[];
+  startDate: string;
+  endDate: string;
+  // Empty for every account, assigned or not.
+  accountId: string;
+};
+
+// One page of the journal as the server filters and sorts it. `cursor` is the
+// id of the last trade on the previous page.
+export type TradeSearch = {
+  filters: TradeFilters;
+  sortKey: SortKey;
+  // USD value per quote asset, so PnL sorts in the reporting currency.
+  usdRates: Record<string, number>;
+  cursor: string | null;
+  limit: number;
+};
+
+export type TradePage = {
+  trades: Trade[];
+  nextCursor: string | null;
+  // Matching trades after the cursor, this page included.
+  remainingCount: number;
+};
+
+export const maxTradePageSize = 100;
+
+export const createDefaultFilters = (): TradeFilters => ({
+  pair: "",
+  direction: "All",
+  tagIds: [],
+  startDate: "",
+  endDate: "",
+  accountId: "",
+});
+
+export const defaultSortKey: SortKey = "date-desc";
+
+export const sortOptions: { label: string; value: SortKey }[] = [
+  { label: "Newest first", value: "date-desc" },
+  { label: "Oldest first", value: "date-asc" },
+  { label: "PnL high → low", value: "pnl-desc" },
+  { label: "PnL low → high", value: "pnl-asc" },
+  { label: "Size high → low", value: "size-desc" },
+  { label: "Size low → high", value: "size-asc" },
+];
+
+export const hasActiveFilters = (filters: TradeFilters) =>
+  filters.direction !== "All" ||
+  Boolean(filters.pair.trim()) ||
+  filters.tagIds.length > 0 ||
+  Boolean(filters.startDate) ||
+  Boolean(filters.endDate) ||
+  Boolean(filters.accountId);
+
+export const filterTrades = (trades: Trade[], filters: TradeFilters) =>
+  trades.filter((trade) => {
+    if (
+      filters.pair &&
+      !trade.pair.toLowerCase().includes(filters.pair.trim().toLowerCase())
+    ) {
+      return false;
+    }
+
+    // Every selected tag must be on the trade, so picking a setup and a
+    // mistake narrows to trades where both happened.
+    if (filters.tagIds.some((tagId) => !trade.tagIds.includes(tagId))) {
+      return false;
+    }
+
+    if (filters.direction !== "All" && trade.direction !== filters.direction) {
+      return false;
+    }
+
+    if (filters.accountId && trade.accountId !== filters.accountId) {
+      return false;
+    }
+
+    if (filters.startDate) {
+      const startTime = new Date(filters.startDate).getTime();
+      if (!Number.isNaN(startTime) && new Date(trade.date).getTime() < startTime) {
+        return false;
+      }
+    }
+
+    if (filters.endDate) {
+      const endTime = new Date(filters.endDate).getTime();
+      if (!Number.isNaN(endTime) && new Date(trade.date).getTime() > endTime) {
+        return false;
+      }
+    }
+
+    return true;
+  });
+
+// getNetPnl lets callers sort on PnL converted to the reporting currency.
+export const sortTrades = (
+  trades: Trade[],
+  sortKey: SortKey,
+  getNetPnl: (trade: Trade) => number = (trade) => trade.netPnl,
+) => {
+  const getDate = (value: string) => new Date(value).getTime();
+  return [...trades].sort((a, b) => {
+    switch (sortKey) {
+      case "date-asc":
+        return getDate(a.date) - getDate(b.date);
+      case "pnl-desc":
+        return getNetPnl(b) - getNetPnl(a);
+      case "pnl-asc":
+        return getNetPnl(a) - getNetPnl(b);
+      case "size-desc":
+        return b.positionSize - a.positionSize;
+      case "size-asc":
+        return a.positionSize - b.positionSize;
+      case "date-desc":
+      default:
+        return getDate(b.date) - getDate(a.date);
+    }
+  });
+};
+
+// Filters travel between the journal and the analytics views in the query
+// string, so a filtered view can be bookmarked or shared.
+export const filtersToSearchParams = (filters: TradeFilters) => {
+  const params = new URLSearchParams();
+  if (filters.pair.trim()) {
+    params.set("pair", filters.pair.trim());
+  }
+  if (filters.tagIds.length > 0) {
+    params.set("tags", filters.tagIds.join(","));
+  }
+  if (filters.direction !== "All") {
+    params.set("direction", filters.direction);
+  }
+  if (filters.startDate) {
+    params.set("from", filters.startDate);
+  }
+  if (filters.endDate) {
+    params.set("to", filters.endDate);
+  }
+  if (filters.accountId) {
+    params.set("account", filters.accountId);
+  }
+  return params;
+};
+
+export const filtersFromSearchParams = (
+  params: URLSearchParams,
+): TradeFilters => {
+  const direction = params.get("direction");
+  return {
+    pair: params.get("pair") ?? "",
+    tagIds: (params.get("tags") ?? "").split(",").filter(Boolean),
+    direction: direction === "Long" || direction === "Short" ? direction : "All",
+    startDate: params.get("from") ?? "",
+    endDate: params.get("to") ?? "",
+    accountId: params.get("account") ?? "",
+  };
+};
+
+export const sortKeyFromSearchParams = (params: URLSearchParams): SortKey => {
+  const sort = params.get("sort");
+  return sortOptions.find((option) => option.value === sort)?.value ?? defaultSortKey;
+};
+
+// Walking a list backwards from a trade finds the one before it.
+export const reverseSortKey = (sortKey: SortKey): SortKey => {
+  const [field, direction] = sortKey.split("-");
+  return `${field}-${direction === "asc" ? "desc" : "asc"}` as SortKey;
+};
+
+export const formatUsdRatesParam = (usdRates: Record<string, number>) =>
+  Object.entries(usdRates)
+    .map(([asset, rate]) => `${asset}:${rate}`)
+    .join(",");
+
+// Mark prices keyed by normalizePairKey, in the same format as the rates.
+export const formatMarkPricesParam = (markPrices: Record<string, number>) =>
+  formatUsdRatesParam(markPrices);
+
+export const tradeSearchToSearchParams = (search: TradeSearch) => {
+  const params = filtersToSearchParams(search.filters);
+  params.set("sort", search.sortKey);
+  params.set("limit", `${search.limit}`);
+  if (search.cursor) {
+    params.set("cursor", search.cursor);
+  }
+  const rates = formatUsdRatesParam(search.usdRates);
+  if (rates) {
+    params.set("rates", rates);
+  }
+  return params;
+};
+
+export const uuidPattern =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const isDateParam = (value: string) =>
+  /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(new Date(value).getTime());
+
+export const parseTradeFilterParams = (
+  params: URLSearchParams,
+): SchemaResult<TradeFilters> => {
+  const filters = filtersFromSearchParams(params);
+  const errors: string[] = [];
+  if (filters.tagIds.some((tagId) => !uuidPattern.test(tagId))) {
+    errors.push("tags must be a comma-separated list of tag ids.");
+  }
+  if (filters.startDate && !isDateParam(filters.startDate)) {
+    errors.push("from must be formatted YYYY-MM-DD.");
+  }
+  if (filters.endDate && !isDateParam(filters.endDate)) {
+    errors.push("to must be formatted YYYY-MM-DD.");
+  }
+  if (filters.accountId && !uuidPattern.test(filters.accountId)) {
+    errors.push("account must be an account id.");
+  }
+  return errors.length > 0
+    ? { ok: false, errors }
+    : { ok: true, value: { ...filters, pair: filters.pair.trim() } };
+};
+
+// Reads a "KEY:value,…" list of positive numbers as formatUsdRatesParam
+// writes it, appending a message to `errors` for each invalid entry.
+const parsePositiveValuesParam = (
+  name: string,
+  value: string | null,
+  errors: string[],
+) => {
+  const values: Record<string, number> = {};
+  (value ?? "")
+    .split(",")
+    .filter(Boolean)
+    .forEach((entry) => {
+      const [key, numberValue] = entry.split(":");
+      const parsed = Number(numberValue);
+      if (!key || !Number.isFinite(parsed) || parsed <= 0) {
+        errors.push(`${name} has an invalid entry: ${entry}.`);
+      } else {
+        values[key.toUpperCase()] = parsed;
+      }
+    });
+  return values;
+};
+
+export const parseUsdRatesParam = (value: string | null, errors: string[]) =>
+  parsePositiveValuesParam("rates", value, errors);
+
+export const parseMarkPricesParam = (value: string | null, errors: string[]) =>
+  parsePositiveValuesParam("marks", value, errors);
+
+// Currency settings live in the browser, so routes that convert into the
+// reporting currency take them as `currency` and `rates`.
+export const currencySettingsToSearchParams = (
+  params: URLSearchParams,
+  settings: CurrencySettings,
+) => {
+  params.set("currency", settings.reportingCurrency);
+  const rates = formatUsdRatesParam(getValidUsdRates(settings));
+  if (rates) {
+    params.set("rates", rates);
+  }
+};
+
+export const parseCurrencySettingsParams = (
+  params: URLSearchParams,
+  errors: string[],
+): CurrencySettings => {
+  const currency = (params.get("currency") ?? "USD").toUpperCase();
+  if (!/^[A-Z0-9]{2,10}$/.test(currency)) {
+    errors.push("currency must be an asset code such as USD.");
+  }
+  const usdRates = parseUsdRatesParam(params.get("rates"), errors);
+  return {
+    reportingCurrency: currency,
+    usdRates: Object.fromEntries(
+      Object.entries(usdRates).map(([asset, rate]) => [asset, `${rate}`]),
+    ),
+  };
+};
+
+export const parseTradeSearchParams = (
+  params: URLSearchParams,
+): SchemaResult<TradeSearch> => {
+  const filters = parseTradeFilterParams(params);
+  const errors = filters.ok ? [] : [...filters.errors];
+
+  const sort = params.get("sort");
+  const sortKey = sortOptions.find((option) => option.value === sort)?.value;
+  if (sort !== null && !sortKey) {
+    errors.push("sort is not a sort option.");
+  }
+
+  const limit = Number(params.get("limit"));
+  if (!Number.isInteger(limit) || limit < 1 || limit > maxTradePageSize) {
+    errors.push(`limit must be a whole number from 1 to ${maxTradePageSize}.`);
+  }
+
+  const cursor = params.get("cursor");
+  if (cursor !== null && !uuidPattern.test(cursor)) {
+    errors.push("cursor must be a trade id.");
+  }
+
+  const usdRates = parseUsdRatesParam(params.get("rates"), errors);
+
+  return !filters.ok || errors.length > 0
+    ? { ok: false, errors }
+    : {
+        ok: true,
+        value: {
+          filters: filters.value,
+          sortKey: sortKey ?? defaultSortKey,
+          usdRates,
+          cursor,
+          limit,
+        },
+      };
+};
+
+export const buildFilteredHref = (
+  pathname: string,
+  filters: TradeFilters,
+  sortKey: SortKey = defaultSortKey,
+) => {
+  const params = filtersToSearchParams(filters);
+  if (sortKey !== defaultSortKey) {
+    params.set("sort", sortKey);
+  }
+  const query = params.toString();
+  return query ? `${pathname}?${query}` : pathname;
+};
@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import { buildImportPreview } from "@/lib/tradeImport";
+
+const importPrices = (csvText: string) =>
+  buildImportPreview({
+    csvText,
+    source: "generic",
+    defaultStrategy: "Breakout",
+    existingFingerprints: [],
+  }).rows.map((row) => [
+    row.trade?.entryPrice,
+    row.trade?.exitPrice,
+    row.trade?.positionSize,
+  ]);
+
+describe("buildImportPreview numbers", () => {
+  it("reads dot decimals in comma and semicolon files", () => {
+    expect(
+      importPrices(
+        [
+          "Pair,Direction,Entry Price,Exit Price,Size,Date",
+          'BTC/USDT,Long,"60,000.5",61000,0.5,2026-02-02',
+        ].join("\n"),
+      ),
+    ).toEqual([[60000.5, 61000, 0.5]]);
+    expect(
+      importPrices(
+        [
+          "Pair;Direction;Entry Price;Exit Price;Size;Date",
+          "BTC/USDT;Long;60000.5;61000;0.5;2026-02-02",
+        ].join("\n"),
+      ),
+    ).toEqual([[60000.5, 61000, 0.5]]);
+  });
+
+  it("reads comma decimals in semicolon and comma files", () => {
+    expect(
+      importPrices(
+        [
+          "Pair;Direction;Entry Price;Exit Price;Size;Date",
+          "BTC/USDT;Long;60.000,5;1.061.000;0,5;2026-02-02",
+        ].join("\n"),
+      ),
+    ).toEqual([[60000.5, 1061000, 0.5]]);
+    expect(
+      importPrices(
+        [
+          "Pair,Direction,Entry Price,Exit Price,Size,Date",
+          'BTC/USDT,Long,"60.000,5",61000,"0,5",2026-02-02',
+        ].join("\n"),
+      ),
+    ).toEqual([[60000.5, 61000, 0.5]]);
+  });
+});
+
+describe("buildImportPreview duplicates", () => {
+  it("marks rows already in the journal or earlier in the file", () => {
+    const csvText = [
+      "Pair,Direction,Entry Price,Exit Price,Size,Date",
+      "BTC/USDT,Long,60000,61000,0.5,2026-02-02",
+      "ETH/USDT,Short,3000,2900,2,2026-02-03",
+      "ETH/USDT,Short,3000,2900,2,2026-02-03",
+    ].join("\n");
+    expect(
+      buildImportPreview({
+        csvText,
+        source: "generic",
+        defaultStrategy: "Breakout",
+        existingFingerprints: ["BTCUSDT|2026-02-02|60000|61000|0.5"],
+      }).rows.map((row) => row.isDuplicate),
+    ).toEqual([true, false, true]);
+  });
+});
@@ -0,0 +1,372 @@
+import { parseCsvTable } from "@/lib/csv";
+import { splitPair } from "@/lib/currency";
+import { createDefaultCostInputs } from "@/lib/fees";
+import { createEmptyJournal } from "@/lib/journal";
+import { createDefaultMarginInputs } from "@/lib/margin";
+import { ImportedTrade, parseTradeExport } from "@/lib/tradeExport";
+import {
+  TradeDirection,
+  TradeDraft,
+  getTradeFingerprint,
+} from "@/lib/trades";
+
+// "journal" reads this app's own CSV or JSON export; the others are exchange
+// CSVs mapped column by column.
+export type ImportSource = "binance" | "bybit" | "okx" | "generic" | "journal";
+
+export type ImportField =
+  | "pair"
+  | "direction"
+  | "strategy"
+  | "entryPrice"
+  | "exitPrice"
+  | "positionSize"
+  | "date"
+  | "fees"
+  | "funding"
+  | "sentiment";
+
+export type ColumnMapping = Partial<Record<ImportField, string>>;
+
+export type ImportPreviewRow = {
+  rowNumber: number;
+  trade: ImportedTrade | null;
+  errors: string[];
+  isDuplicate: boolean;
+};
+
+export type ImportPreview = {
+  headers: string[];
+  mapping: ColumnMapping;
+  rows: ImportPreviewRow[];
+};
+
+type SourcePreset = {
+  label: string;
+  columns: Partial<Record<ImportField, string[]>>;
+  // Bybit's closed PnL export reports the side of the closing order, which is
+  // the opposite of the position direction.
+  sideIsClosingOrder?: boolean;
+};
+
+export const importFieldLabels: Record<ImportField, string> = {
+  pair: "Pair",
+  direction: "Direction",
+  strategy: "Setup",
+  entryPrice: "Entry Price",
+  exitPrice: "Exit Price",
+  positionSize: "Position Size",
+  date: "Date",
+  fees: "Fees",
+  funding: "Funding",
+  sentiment: "Notes",
+};
+
+export const requiredImportFields: ImportField[] = [
+  "pair",
+  "direction",
+  "entryPrice",
+  "exitPrice",
+  "positionSize",
+  "date",
+];
+
+const sourcePresets: Record<ImportSource, SourcePreset> = {
+  binance: {
+    label: "Binance",
+    columns: {
+      pair: ["Symbol", "Pair"],
+      direction: ["Position Side", "Direction", "Side"],
+      entryPrice: ["Entry Price", "Avg Entry Price", "Open Price"],
+      exitPrice: ["Close Price", "Avg Close Price", "Exit Price"],
+      positionSize: ["Closed Vol.", "Closed Qty", "Max Open Interest", "Quantity", "Qty"],
+      date: ["Closed", "Close Time", "Opened", "Open Time", "Date(UTC)", "Time"],
+      fees: ["Commission", "Fee", "Fees"],
+      funding: ["Funding Fee", "Funding"],
+    },
+  },
+  bybit: {
+    label: "Bybit",
+    columns: {
+      pair: ["Contracts", "Symbol", "Market"],
+      direction: ["Closing Direction", "Side", "Trade Type"],
+      entryPrice: ["Entry Price", "Avg Entry Price"],
+      exitPrice: ["Exit Price", "Avg Exit Price"],
+      positionSize: ["Qty", "Closed Qty", "Quantity"],
+      date: ["Trade Time(UTC+0)", "Trade Time", "Create Time", "Time"],
+      fees: ["Trading Fee", "Fee", "Fees", "Exec Fee"],
+      funding: ["Funding Fee", "Funding"],
+    },
+    sideIsClosingOrder: true,
+  },
+  okx: {
+    label: "OKX",
+    columns: {
+      pair: ["Instrument", "Instrument ID", "Symbol"],
+      direction: ["Position side", "Direction", "Side"],
+      entryPrice: ["Avg. open price", "Open avg price", "Opening price"],
+      exitPrice: ["Avg. close price", "Close avg price", "Closing price"],
+      positionSize: ["Closed amount", "Close size", "Amount", "Size"],
+      date: ["Close time", "Closed time", "Opened time", "Time"],
+      fees: ["Fee", "Fees", "Trading fee"],
+      funding: ["Funding fee", "Funding"],
+    },
+  },
+  journal: {
+    label: "This journal (CSV or JSON export)",
+    columns: {},
+  },
+  generic: {
+    label: "Generic (map columns)",
+    columns: {
+      pair: ["Pair", "Symbol"],
+      direction: ["Direction", "Side"],
+      strategy: ["Strategy", "Setup"],
+      entryPrice: ["Entry Price", "Entry"],
+      exitPrice: ["Exit Price", "Exit"],
+      positionSize: ["Position Size", "Size", "Quantity", "Qty"],
+      date: ["Date", "Trade Date"],
+      fees: ["Fees", "Fee", "Commission"],
+      funding: ["Funding"],
+      sentiment: ["Sentiment", "Notes"],
+    },
+  },
+};
+
+export const importSourceOptions = (
+  Object.keys(sourcePresets) as ImportSource[]
+).map((value) => ({ value, label: sourcePresets[value].label }));
+
+export const normalizePair = (value: string) => {
+  const assets = splitPair(value);
+  return assets
+    ? `${assets.base} / ${assets.quote}`
+    : value.trim().toUpperCase().replace(/\s+/g, "");
+};
+
+const parseDirection = (value: string, sideIsClosingOrder: boolean) => {
+  const normalized = value.trim().toLowerCase();
+  let direction: TradeDirection | null = null;
+
+  if (["long", "buy", "open long", "close long"].includes(normalized)) {
+    direction = "Long";
+  } else if (["short", "sell", "open short", "close short"].includes(normalized)) {
+    direction = "Short";
+  }
+
+  if (!direction) {
+    return null;
+  }
+
+  const isOrderSide = normalized === "buy" || normalized === "sell";
+  if (sideIsClosingOrder && isOrderSide) {
+    return direction === "Long" ? "Short" : "Long";
+  }
+  return direction;
+};
+
+// Exports write "1,234.5" or "1.234,5" depending on the locale, whichever
+// delimiter the file uses, so the decimal point is read from the value: with
+// both marks it is the last one, and a mark that appears once is a decimal
+// point while one that repeats groups thousands.
+const parseImportNumber = (value: string) => {
+  const compact = value.replace(/\s/g, "");
+  const lastComma = compact.lastIndexOf(",");
+  const lastDot = compact.lastIndexOf(".");
+  const decimalMark =
+    lastComma >= 0 && lastDot >= 0
+      ? lastComma > lastDot
+        ? ","
+        : "."
+      : [",", "."].find((mark) => compact.split(mark).length === 2);
+  const decimalIndex = decimalMark ? compact.lastIndexOf(decimalMark) : -1;
+  const normalized =
+    decimalIndex >= 0
+      ? `${compact.slice(0, decimalIndex).replace(/[.,]/g, "")}.${compact.slice(decimalIndex + 1)}`
+      : compact.replace(/[.,]/g, "");
+  const cleaned = normalized.replace(/[^0-9.eE+-].*$/, "");
+  const parsed = parseFloat(cleaned);
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+const parseImportDate = (value: string) => {
+  const trimmed = value.trim();
+  const isoMatch = trimmed.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})/);
+  if (isoMatch) {
+    const [, year, month, day] = isoMatch;
+    return `${year}-${month.padStart(2, "0")}-${day.padStart(2, "0")}`;
+  }
+
+  const numeric = Number(trimmed);
+  const parsed = Number.isFinite(numeric) && trimmed !== ""
+    ? new Date(numeric < 1e12 ? numeric * 1000 : numeric)
+    : new Date(trimmed);
+
+  if (Number.isNaN(parsed.getTime())) {
+    return null;
+  }
+  return parsed.toISOString().slice(0, 10);
+};
+
+export const detectColumnMapping = (
+  source: ImportSource,
+  headers: string[],
+): ColumnMapping => {
+  const preset = sourcePresets[source];
+  const mapping: ColumnMapping = {};
+
+  (Object.keys(preset.columns) as ImportField[]).forEach((field) => {
+    const candidates = preset.columns[field] ?? [];
+    const match = candidates
+      .map((candidate) =>
+        headers.find(
+          (header) => header.toLowerCase() === candidate.toLowerCase(),
+        ),
+      )
+      .find(Boolean);
+    if (match) {
+      mapping[field] = match;
+    }
+  });
+
+  return mapping;
+};
+
+export const buildImportPreview = ({
+  csvText,
+  source,
+  mapping,
+  defaultStrategy,
+  existingFingerprints,
+}: {
+  csvText: string;
+  source: ImportSource;
+  mapping?: ColumnMapping;
+  defaultStrategy: string;
+  // getTradeFingerprint of the journal's trades that the file may repeat.
+  existingFingerprints: string[];
+}): ImportPreview => {
+  const seenFingerprints = new Set(existingFingerprints);
+  const isDuplicate = (trade: Omit<TradeDraft, "accountId" | "pnl">) => {
+    const fingerprint = getTradeFingerprint(trade);
+    const seen = seenFingerprints.has(fingerprint);
+    seenFingerprints.add(fingerprint);
+    return seen;
+  };
+
+  if (source === "journal") {
+    return {
+      headers: [],
+      mapping: {},
+      rows: parseTradeExport(csvText).map((row) => ({
+        ...row,
+        isDuplicate: row.trade ? isDuplicate(row.trade) : false,
+      })),
+    };
+  }
+
+  const { headers, rows, lineNumbers } = parseCsvTable(csvText);
+  const resolvedMapping = mapping ?? detectColumnMapping(source, headers);
+  const { sideIsClosingOrder = false } = sourcePresets[source];
+
+  const missingFields = requiredImportFields.filter(
+    (field) => !resolvedMapping[field],
+  );
+
+  const previewRows = rows.map((row, index): ImportPreviewRow => {
+    const rowNumber = lineNumbers[index];
+    const readField = (field: ImportField) => {
+      const header = resolvedMapping[field];
+      if (!header) {
+        return "";
+      }
+      return (row[headers.indexOf(header)] ?? "").trim();
+    };
+
+    const errors = missingFields.map(
+      (field) => `No column mapped for ${importFieldLabels[field]}.`,
+    );
+
+    const pair = readField("pair");
+    if (resolvedMapping.pair && !pair) {
+      errors.push("Pair is empty.");
+    }
+
+    const direction = parseDirection(readField("direction"), sideIsClosingOrder);
+    if (resolvedMapping.direction && !direction) {
+      errors.push(`Unrecognised direction "${readField("direction")}".`);
+    }
+
+    const entryPrice = parseImportNumber(readField("entryPrice"));
+    if (resolvedMapping.entryPrice && entryPrice === null) {
+      errors.push("Entry price is not a number.");
+    }
+
+    const exitPrice = parseImportNumber(readField("exitPrice"));
+    if (resolvedMapping.exitPrice && exitPrice === null) {
+      errors.push("Exit price is not a number.");
+    }
+
+    const rawSize = parseImportNumber(readField("positionSize"));
+    const positionSize = rawSize === null ? null : Math.abs(rawSize);
+    if (resolvedMapping.positionSize && !positionSize) {
+      errors.push("Position size must be greater than zero.");
+    }
+
+    const date = parseImportDate(readField("date"));
+    if (resolvedMapping.date && !date) {
+      errors.push(`Unrecognised date "${readField("date")}".`);
+    }
+
+    // Exchanges report fees and funding as negative cash flows; the journal
+    // stores them as positive costs.
+    const fees = Math.abs(parseImportNumber(readField("fees")) ?? 0);
+    const funding = 0 - (parseImportNumber(readField("funding")) ?? 0);
+
+    const strategy = readField("strategy") || defaultStrategy.trim();
+    if (!strategy) {
+      errors.push("Setup is empty; set a default setup tag for this import.");
+    }
+
+    if (
+      errors.length > 0 ||
+      !direction ||
+      entryPrice === null ||
+      exitPrice === null ||
+      !positionSize ||
+      !date
+    ) {
+      return { rowNumber, trade: null, errors, isDuplicate: false };
+    }
+
+    const trade: Omit<TradeDraft, "accountId" | "pnl"> = {
+      pair: normalizePair(pair),
+      direction,
+      strategy,
+      status: "Closed",
+      entryPrice,
+      exitPrice,
+      stopLoss: null,
+      takeProfit: null,
+      positionSize,
+      date,
+      sentiment: readField("sentiment"),
+      costInputs: {
+        ...createDefaultCostInputs(),
+        takerFee: fees,
+        funding,
+      },
+      marginInputs: createDefaultMarginInputs(),
+      quoteUsdRate: null,
+    };
+
+    return {
+      rowNumber,
+      trade: { ...trade, fills: [], journal: createEmptyJournal(), tags: [] },
+      errors,
+      isDuplicate: isDuplicate(trade),
+    };
+  });
+
+  return { headers, mapping: resolvedMapping, rows: previewRows };
+};
@@ -0,0 +1,593 @@
+import { SupabaseClient } from "@supabase/supabase-js";
+import { CurrencySettings, getKnownUsdRates, getUsdRate } from "@/lib/currency";
+import { mapJournalToColumns } from "@/lib/journal";
+import {
+  DailyPnlRow,
+  GroupPerformanceRow,
+  OpenPositionRow,
+  OpenPositionsRequest,
+  OpenPositionsSummary,
+  PerformanceRow,
+  RSummaryRow,
+  TimeBucketRow,
+  TradeAnalyticsRequest,
+  TradeAnalyticsResponse,
+  mapRowToDailyPnl,
+  mapRowToGroupPerformance,
+  mapRowToRSummary,
+  mapRowsToOpenPositions,
+  mapRowsToPerformanceStats,
+  mapRowsToTimeBuckets,
+} from "@/lib/tradeAnalytics";
+import { TradeBatchOperation, TradeBatchResult } from "@/lib/tradeBatch";
+import { TradeFilters, TradePage, TradeSearch } from "@/lib/tradeFilters";
+import {
+  TradePatch,
+  TradePayload,
+  deriveTradeDraft,
+  mapTradeToPayload,
+} from "@/lib/tradeSchema";
+import { TradeSummaryRow, mapRowToSummaryGroup } from "@/lib/tradeSummary";
+import {
+  DeletedTrade,
+  Trade,
+  TradeFillDraft,
+  TradeRow,
+  getFingerprintDate,
+  getTradeFingerprint,
+  mapDraftToInsert,
+  mapFillDraftToInsert,
+  mapRowToTrade,
+  sortTradesByDateDesc,
+  tradeSelectColumns,
+} from "@/lib/trades";
+
+// These run in the /api/trades route handlers. The user id always comes from
+// the verified session, never from the request body. Trades in the trash are
+// left out of everything except the trash queries at the end. The revision
+// log is written by triggers in the database, not here.
+
+// PostgREST returns at most 1000 rows per request, so the journal is read in
+// chunks of that size. Ties on the date are ordered by id so the chunks do
+// not overlap.
+export const tradeChunkSize = 1000;
+
+export const fetchTradeChunk = async (
+  userId: string,
+  offset: number,
+  client: SupabaseClient,
+) => {
+  const { data, error } = await client
+    .from("trades")
+    .select(tradeSelectColumns)
+    .eq("user_id", userId)
+    .is("deleted_at", null)
+    .order("trade_date", { ascending: false })
+    .order("id", { ascending: false })
+    .range(offset, offset + tradeChunkSize - 1);
+
+  if (error) {
+    throw error;
+  }
+
+  return (data as TradeRow[] | null)?.map(mapRowToTrade) ?? [];
+};
+
+export const fetchTradesForUser = async (userId: string, client: SupabaseClient) => {
+  const trades: Trade[] = [];
+  for (let offset = 0; ; offset += tradeChunkSize) {
+    const chunk = await fetchTradeChunk(userId, offset, client);
+    trades.push(...chunk);
+    if (chunk.length < tradeChunkSize) {
+      return sortTradesByDateDesc(trades);
+    }
+  }
+};
+
+// Argument names match filter_trades and the functions built on it in
+// supabase/migrations.
+const mapFiltersToArgs = (filters: TradeFilters) => ({
+  pair_filter: filters.pair,
+  direction_filter: filters.direction,
+  tag_ids: filters.tagIds,
+  start_date: filters.startDate || null,
+  end_date: filters.endDate || null,
+  account_filter: filters.accountId || null,
+});
+
+// Ids go in the query string, so long lists are fetched in chunks.
+const idChunkSize = 200;
+
+const fetchTradesByIds = async (
+  userId: string,
+  tradeIds: string[],
+  client: SupabaseClient,
+) => {
+  const trades: Trade[] = [];
+  for (let start = 0; start < tradeIds.length; start += idChunkSize) {
+    const { data, error } = await client
+      .from("trades")
+      .select(tradeSelectColumns)
+      .eq("user_id", userId)
+      .is("deleted_at", null)
+      .in("id", tradeIds.slice(start, start + idChunkSize));
+
+    if (error) {
+      throw error;
+    }
+
+    trades.push(...((data as TradeRow[] | null) ?? []).map(mapRowToTrade));
+  }
+  return trades;
+};
+
+// The ids of the trades matching the filters, newest first, at most `limit`.
+export const findFilteredTradeIds = async (
+  filters: TradeFilters,
+  limit: number,
+  client: SupabaseClient,
+) => {
+  const { data, error } = await client
+    .rpc("filter_trades", mapFiltersToArgs(filters))
+    .select("id")
+    .order("trade_date", { ascending: false })
+    .order("id", { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    throw error;
+  }
+
+  return ((data as { id: string }[] | null) ?? []).map((row) => row.id);
+};
+
+// Returns the fingerprints (getTradeFingerprint) that match one of the user's
+// trades. Only the days the fingerprints name are read, in chunks of days and
+// then of rows.
+export const findExistingFingerprints = async (
+  userId: string,
+  fingerprints: string[],
+  client: SupabaseClient,
+) => {
+  const wanted = new Set(fingerprints);
+  const dates = [...new Set(fingerprints.map(getFingerprintDate))];
+  const found = new Set<string>();
+  for (let start = 0; start < dates.length; start += idChunkSize) {
+    for (let offset = 0; ; offset += tradeChunkSize) {
+      const { data, error } = await client
+        .from("trades")
+        .select(tradeSelectColumns)
+        .eq("user_id", userId)
+        .is("deleted_at", null)
+        .in("trade_date", dates.slice(start, start + idChunkSize))
+        .order("id")
+        .range(offset, offset + tradeChunkSize - 1);
+
+      if (error) {
+        throw error;
+      }
+
+      const rows = (data as TradeRow[] | null) ?? [];
+      rows.forEach((row) => {
+        const fingerprint = getTradeFingerprint(mapRowToTrade(row));
+        if (wanted.has(fingerprint)) {
+          found.add(fingerprint);
+        }
+      });
+      if (rows.length < tradeChunkSize) {
+        break;
+      }
+    }
+  }
+  return [...found];
+};
+
+// The database picks and orders the page's ids; the trades are then loaded in
+// one query and put back in that order. One extra id is requested to tell
+// whether another page follows.
+export const searchTrades = async (
+  userId: string,
+  search: TradeSearch,
+  client: SupabaseClient,
+): Promise<TradePage> => {
+  const { data, error } = await client.rpc("search_trades", {
+    ...mapFiltersToArgs(search.filters),
+    sort_key: search.sortKey,
+    usd_rates: search.usdRates,
+    cursor_id: search.cursor,
+    page_size: search.limit + 1,
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  const matches = (data as { id: string; remaining_count: number }[] | null) ?? [];
+  const pageIds = matches.slice(0, search.limit).map((match) => match.id);
+  const remainingCount = Number(matches[0]?.remaining_count ?? 0);
+  if (pageIds.length === 0) {
+    return { trades: [], nextCursor: null, remainingCount };
+  }
+
+  const tradesById = new Map(
+    (await fetchTradesByIds(userId, pageIds, client)).map((trade) => [
+      trade.id,
+      trade,
+    ]),
+  );
+  return {
+    trades: pageIds.flatMap((id) => tradesById.get(id) ?? []),
+    nextCursor: matches.length > search.limit ? pageIds[pageIds.length - 1] : null,
+    remainingCount,
+  };
+};
+
+export const fetchTradeSummary = async (
+  filters: TradeFilters,
+  client: SupabaseClient,
+) => {
+  const { data, error } = await client.rpc(
+    "summarize_trades",
+    mapFiltersToArgs(filters),
+  );
+
+  if (error) {
+    throw error;
+  }
+
+  return ((data as TradeSummaryRow[] | null) ?? []).map(mapRowToSummaryGroup);
+};
+
+// The reporting currency as the analytics functions in supabase/migrations
+// take it. An unknown reporting rate leaves every trade out of the money
+// figures.
+const mapCurrencyToArgs = (settings: CurrencySettings) => ({
+  usd_rates: getKnownUsdRates(settings),
+  reporting_usd_rate: getUsdRate(settings, settings.reportingCurrency),
+});
+
+export const fetchTradeAnalytics = async (
+  { filters, settings, timeZone }: TradeAnalyticsRequest,
+  client: SupabaseClient,
+): Promise<TradeAnalyticsResponse> => {
+  const filterArgs = mapFiltersToArgs(filters);
+  const args = { ...filterArgs, ...mapCurrencyToArgs(settings) };
+  const results = await Promise.all([
+    client.rpc("summarize_trade_performance", args),
+    client.rpc("summarize_trade_groups", { ...args, group_by: "setup" }),
+    client.rpc("summarize_trade_groups", { ...args, group_by: "pair" }),
+    client.rpc("summarize_trade_days", { ...args, start_date: null, end_date: null }),
+    client.rpc("summarize_trade_times", { ...args, time_zone: timeZone }),
+    client.rpc("summarize_r_multiples", filterArgs),
+  ]);
+
+  const failed = results.find((result) => result.error);
+  if (failed?.error) {
+    throw failed.error;
+  }
+
+  const [performance, setupGroups, pairGroups, days, times, rMultiples] =
+    results.map((result) => result.data ?? []);
+  return {
+    performance: mapRowsToPerformanceStats(performance as PerformanceRow[]),
+    setupGroups: (setupGroups as GroupPerformanceRow[]).map(mapRowToGroupPerformance),
+    pairGroups: (pairGroups as GroupPerformanceRow[]).map(mapRowToGroupPerformance),
+    dailyPnl: (days as DailyPnlRow[]).map(mapRowToDailyPnl),
+    ...mapRowsToTimeBuckets(times as TimeBucketRow[]),
+    rSummary: mapRowToRSummary((rMultiples as RSummaryRow[])[0]),
+  };
+};
+
+// The database picks the open positions and values them; the trades are then
+// loaded by id, as for a log page.
+export const fetchOpenPositions = async (
+  userId: string,
+  { filters, settings, markPrices }: OpenPositionsRequest,
+  client: SupabaseClient,
+): Promise<OpenPositionsSummary> => {
+  const { data, error } = await client.rpc("summarize_open_positions", {
+    ...mapFiltersToArgs(filters),
+    ...mapCurrencyToArgs(settings),
+    mark_prices: markPrices,
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  const rows = (data as OpenPositionRow[] | null) ?? [];
+  return mapRowsToOpenPositions(
+    rows,
+    await fetchTradesByIds(
+      userId,
+      rows.map((row) => row.id),
+      client,
+    ),
+    markPrices,
+  );
+};
+
+export const fetchTradeById = async (
+  userId: string,
+  tradeId: string,
+  client: SupabaseClient,
+) => {
+  const { data, error } = await client
+    .from("trades")
+    .select(tradeSelectColumns)
+    .eq("id", tradeId)
+    .eq("user_id", userId)
+    .is("deleted_at", null)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  return data ? mapRowToTrade(data as TradeRow) : null;
+};
+
+const mapPayloadToRow = (payload: TradePayload, userId: string) => ({
+  ...mapDraftToInsert(deriveTradeDraft(payload, payload.fills), userId),
+  ...mapJournalToColumns(payload.journal),
+});
+
+type SaveTradeArgs = {
+  trade: ReturnType<typeof mapPayloadToRow>;
+  fills?: TradeFillDraft[];
+  tagIds?: string[];
+  targetId?: string;
+  expectedUpdatedAt?: string | null;
+};
+
+// One save_trade call writes the trade, its fills and its tags together.
+// Returns the trade id, or null when an update matched no row.
+const saveTrade = async (
+  { trade, fills, tagIds, targetId, expectedUpdatedAt }: SaveTradeArgs,
+  client: SupabaseClient,
+) => {
+  const { data, error } = await client.rpc("save_trade", {
+    trade,
+    fills: fills ? fills.map(mapFillDraftToInsert) : null,
+    tag_ids: tagIds ?? null,
+    target_id: targetId ?? null,
+    expected_updated_at: expectedUpdatedAt ?? null,
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  return data as string | null;
+};
+
+// One create_trades call saves every trade with its fills and tags, so they
+// are all created or none are. Imports send free-text strategies, which the
+// same call turns into Setup tags.
+export const createTrades = async (
+  userId: string,
+  payloads: TradePayload[],
+  client: SupabaseClient,
+) => {
+  if (payloads.length === 0) {
+    return [];
+  }
+
+  const { data, error } = await client.rpc("create_trades", {
+    items: payloads.map((payload) => ({
+      trade: mapPayloadToRow(payload, userId),
+      fills: payload.fills.map(mapFillDraftToInsert),
+      tag_ids: payload.tagIds,
+    })),
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  const createdIds = (data ?? []) as string[];
+  const tradesById = new Map(
+    (await fetchTradesByIds(userId, createdIds, client)).map((trade) => [
+      trade.id,
+      trade,
+    ]),
+  );
+  return createdIds.flatMap((id) => tradesById.get(id) ?? []);
+};
+
+// What a conditional write found: the saved trade, the newer version it lost
+// to, or no trade at all.
+export type TradeWriteResult =
+  | { kind: "saved"; trade: Trade }
+  | { kind: "conflict"; trade: Trade }
+  | { kind: "missing" };
+
+// A write that matched no row either lost to a newer version or found the
+// trade gone; refetching tells the two apart.
+const describeMissedWrite = async (
+  userId: string,
+  tradeId: string,
+  client: SupabaseClient,
+): Promise<TradeWriteResult> => {
+  const current = await fetchTradeById(userId, tradeId, client);
+  return current ? { kind: "conflict", trade: current } : { kind: "missing" };
+};
+
+// Expects a patch already checked with applyTradePatch against `previous`.
+// With `expectedUpdatedAt` the row is only written while it still has that
+// version, so a concurrent edit can't slip in between the read and the write.
+export const updateTrade = async (
+  userId: string,
+  previous: Trade,
+  patch: TradePatch,
+  expectedUpdatedAt: string | null,
+  client: SupabaseClient,
+): Promise<TradeWriteResult> => {
+  const tradeId = previous.id;
+  const payload: TradePayload = { ...mapTradeToPayload(previous), ...patch };
+
+  const savedId = await saveTrade(
+    {
+      trade: mapPayloadToRow(payload, userId),
+      fills: patch.fills,
+      tagIds: patch.tagIds,
+      targetId: tradeId,
+      expectedUpdatedAt,
+    },
+    client,
+  );
+  if (!savedId) {
+    return describeMissedWrite(userId, tradeId, client);
+  }
+
+  const updated = await fetchTradeById(userId, tradeId, client);
+  return updated ? { kind: "saved", trade: updated } : { kind: "missing" };
+};
+
+const batchOperationArgs = (operation: TradeBatchOperation) => {
+  if (operation.kind === "delete") {
+    return { operation: "delete" };
+  }
+  if (operation.kind === "tag") {
+    return {
+      operation: "tag",
+      add_tag_ids: operation.addTagIds,
+      remove_tag_ids: operation.removeTagIds,
+    };
+  }
+  return { operation: "shift_dates", day_offset: operation.days };
+};
+
+// The change itself is one apply_trade_batch call, so it lands on every trade
+// or none. Trades that were missing or already in the trash come back as
+// failures.
+export const applyTradeBatch = async (
+  userId: string,
+  tradeIds: string[],
+  operation: TradeBatchOperation,
+  client: SupabaseClient,
+): Promise<TradeBatchResult> => {
+  const { data, error } = await client.rpc("apply_trade_batch", {
+    trade_ids: tradeIds,
+    ...batchOperationArgs(operation),
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  const outcomes = (data as { trade_id: string; error: string | null }[] | null) ?? [];
+  const changedIds = outcomes
+    .filter((outcome) => outcome.error === null)
+    .map((outcome) => outcome.trade_id);
+  const failures = outcomes.flatMap((outcome) =>
+    outcome.error === null
+      ? []
+      : [{ tradeId: outcome.trade_id, message: outcome.error }],
+  );
+
+  if (operation.kind === "delete") {
+    return { trades: [], deletedIds: changedIds, failures };
+  }
+
+  const updated = await fetchTradesByIds(userId, changedIds, client);
+  return { trades: sortTradesByDateDesc(updated), deletedIds: [], failures };
+};
+
+// Moves the trade to the trash. Fills, tags, notes and screenshots stay, so a
+// restore brings everything back. `expectedUpdatedAt` works as in updateTrade.
+export const deleteTrade = async (
+  userId: string,
+  tradeId: string,
+  expectedUpdatedAt: string | null,
+  client: SupabaseClient,
+): Promise<TradeWriteResult> => {
+  let query = client
+    .from("trades")
+    .update({ deleted_at: new Date().toISOString() })
+    .eq("id", tradeId)
+    .eq("user_id", userId)
+    .is("deleted_at", null);
+  if (expectedUpdatedAt !== null) {
+    query = query.eq("updated_at", expectedUpdatedAt);
+  }
+  const { data, error } = await query.select(tradeSelectColumns);
+
+  if (error) {
+    throw error;
+  }
+
+  const [row] = (data as TradeRow[] | null) ?? [];
+  if (!row) {
+    return describeMissedWrite(userId, tradeId, client);
+  }
+
+  return { kind: "saved", trade: mapRowToTrade(row) };
+};
+
+export const fetchDeletedTrades = async (
+  userId: string,
+  client: SupabaseClient,
+): Promise<DeletedTrade[]> => {
+  const { data, error } = await client
+    .from("trades")
+    .select(tradeSelectColumns)
+    .eq("user_id", userId)
+    .not("deleted_at", "is", null)
+    .order("deleted_at", { ascending: false });
+
+  if (error) {
+    throw error;
+  }
+
+  return ((data as TradeRow[] | null) ?? []).map((row) => ({
+    trade: mapRowToTrade(row),
+    deletedAt: row.deleted_at as string,
+  }));
+};
+
+export const restoreTrade = async (
+  userId: string,
+  tradeId: string,
+  client: SupabaseClient,
+) => {
+  const { data, error } = await client
+    .from("trades")
+    .update({ deleted_at: null })
+    .eq("id", tradeId)
+    .eq("user_id", userId)
+    .not("deleted_at", "is", null)
+    .select("id");
+
+  if (error) {
+    throw error;
+  }
+
+  if ((data ?? []).length === 0) {
+    return null;
+  }
+
+  return fetchTradeById(userId, tradeId, client);
+};
+
+// Removes a trashed trade for good, with its fills, tags and revisions.
+// Screenshot files are not rows; the caller deletes those first.
+export const purgeTrade = async (
+  userId: string,
+  tradeId: string,
+  client: SupabaseClient,
+) => {
+  const { data, error } = await client
+    .from("trades")
+    .delete()
+    .eq("id", tradeId)
+    .eq("user_id", userId)
+    .not("deleted_at", "is", null)
+    .select("id");
+
+  if (error) {
+    throw error;
+  }
+
+  return (data ?? []).length > 0;
+};
@@ -0,0 +1,368 @@
+import { FeeUnit, Liquidity, TradeCostInputs } from "@/lib/fees";
+import { TradeJournal, createEmptyJournal } from "@/lib/journal";
+import { InstrumentType, MarginMode, TradeMarginInputs } from "@/lib/margin";
+import { validateRiskPlan } from "@/lib/risk";
+import { uuidPattern } from "@/lib/tradeFilters";
+import {
+  FillSide,
+  Trade,
+  TradeDirection,
+  TradeDraft,
+  TradeFillDraft,
+  TradeStatus,
+  deriveTradeValues,
+} from "@/lib/trades";
+
+// The shape the API accepts for creating or patching a trade. It is shared by
+// the browser (to build requests) and the route handlers (to validate them),
+// and deliberately has no user id or PnL: the server takes the first from the
+// session and derives the second (see deriveTradeDraft).
+export type TradePayload = Omit<TradeDraft, "pnl"> & {
+  fills: TradeFillDraft[];
+  tagIds: string[];
+  journal: TradeJournal;
+};
+
+export type TradePatch = Partial<TradePayload>;
+
+export type SchemaResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; errors: string[] };
+
+type FieldSpec<T> = {
+  parse: (value: unknown) => T | undefined;
+  message: string;
+  fallback?: () => T;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const oneOf =
+  <T extends string>(options: readonly T[]) =>
+  (value: unknown) =>
+    options.find((option) => option === value);
+
+const asString = (value: unknown) =>
+  typeof value === "string" ? value : undefined;
+
+const asNumber = (value: unknown) =>
+  typeof value === "number" && Number.isFinite(value) ? value : undefined;
+
+const asNonNegative = (value: unknown) => {
+  const parsed = asNumber(value);
+  return parsed !== undefined && parsed >= 0 ? parsed : undefined;
+};
+
+const nullable =
+  <T>(parse: (value: unknown) => T | undefined) =>
+  (value: unknown) =>
+    value === null ? null : parse(value);
+
+const asDate = (value: unknown) =>
+  typeof value === "string" &&
+  /^\d{4}-\d{2}-\d{2}$/.test(value) &&
+  !Number.isNaN(new Date(value).getTime())
+    ? value
+    : undefined;
+
+const asDateTime = (value: unknown) =>
+  typeof value === "string" && !Number.isNaN(new Date(value).getTime())
+    ? value
+    : undefined;
+
+const parseCostInputs = (value: unknown): TradeCostInputs | undefined => {
+  if (!isRecord(value)) {
+    return undefined;
+  }
+  const feeUnit = oneOf<FeeUnit>(["absolute", "bps"])(value.feeUnit);
+  const makerFee = asNumber(value.makerFee);
+  const takerFee = asNumber(value.takerFee);
+  const entryLiquidity = oneOf<Liquidity>(["Maker", "Taker"])(value.entryLiquidity);
+  const exitLiquidity = oneOf<Liquidity>(["Maker", "Taker"])(value.exitLiquidity);
+  const funding = asNumber(value.funding);
+  const rebate = asNumber(value.rebate);
+  if (
+    feeUnit === undefined ||
+    makerFee === undefined ||
+    takerFee === undefined ||
+    entryLiquidity === undefined ||
+    exitLiquidity === undefined ||
+    funding === undefined ||
+    rebate === undefined
+  ) {
+    return undefined;
+  }
+  return { feeUnit, makerFee, takerFee, entryLiquidity, exitLiquidity, funding, rebate };
+};
+
+const parseMarginInputs = (value: unknown): TradeMarginInputs | undefined => {
+  if (!isRecord(value)) {
+    return undefined;
+  }
+  const instrumentType = oneOf<InstrumentType>([
+    "Spot",
+    "Perpetual",
+    "Future",
+    "Option",
+  ])(value.instrumentType);
+  const leverage = asNumber(value.leverage);
+  const marginMode = oneOf<MarginMode>(["Isolated", "Cross"])(value.marginMode);
+  const initialMargin = nullable(asNonNegative)(value.initialMargin);
+  if (
+    instrumentType === undefined ||
+    leverage === undefined ||
+    leverage < 1 ||
+    marginMode === undefined ||
+    initialMargin === undefined
+  ) {
+    return undefined;
+  }
+  return { instrumentType, leverage, marginMode, initialMargin };
+};
+
+const parseFills = (value: unknown): TradeFillDraft[] | undefined => {
+  if (!Array.isArray(value)) {
+    return undefined;
+  }
+  const fills: TradeFillDraft[] = [];
+  for (const entry of value) {
+    if (!isRecord(entry)) {
+      return undefined;
+    }
+    const side = oneOf<FillSide>(["Entry", "Exit"])(entry.side);
+    const price = asNumber(entry.price);
+    const quantity = asNumber(entry.quantity);
+    const executedAt = asDateTime(entry.executedAt);
+    if (
+      side === undefined ||
+      price === undefined ||
+      price <= 0 ||
+      quantity === undefined ||
+      quantity <= 0 ||
+      executedAt === undefined
+    ) {
+      return undefined;
+    }
+    fills.push({ side, price, quantity, executedAt });
+  }
+  return fills;
+};
+
+const parseTagIds = (value: unknown) =>
+  Array.isArray(value) && value.every((tagId) => typeof tagId === "string")
+    ? [...new Set(value as string[])]
+    : undefined;
+
+const parseJournal = (value: unknown): TradeJournal | undefined => {
+  if (!isRecord(value)) {
+    return undefined;
+  }
+  const thesis = asString(value.thesis);
+  const review = asString(value.review);
+  const lessons = asString(value.lessons);
+  return thesis === undefined || review === undefined || lessons === undefined
+    ? undefined
+    : { thesis, review, lessons };
+};
+
+const payloadFields: { [K in keyof TradePayload]: FieldSpec<TradePayload[K]> } = {
+  pair: {
+    parse: (value) => {
+      const pair = asString(value)?.trim();
+      return pair ? pair : undefined;
+    },
+    message: "pair must be a non-empty string.",
+  },
+  direction: {
+    parse: oneOf<TradeDirection>(["Long", "Short"]),
+    message: "direction must be Long or Short.",
+  },
+  strategy: {
+    parse: asString,
+    message: "strategy must be a string.",
+    fallback: () => "",
+  },
+  status: {
+    parse: oneOf<TradeStatus>(["Open", "Closed", "Cancelled"]),
+    message: "status must be Open, Closed or Cancelled.",
+  },
+  entryPrice: { parse: asNonNegative, message: "entryPrice must be a number ≥ 0." },
+  exitPrice: {
+    parse: nullable(asNonNegative),
+    message: "exitPrice must be a number ≥ 0 or null.",
+  },
+  stopLoss: {
+    parse: nullable(asNonNegative),
+    message: "stopLoss must be a number ≥ 0 or null.",
+  },
+  takeProfit: {
+    parse: nullable(asNonNegative),
+    message: "takeProfit must be a number ≥ 0 or null.",
+  },
+  date: { parse: asDate, message: "date must be formatted YYYY-MM-DD." },
+  sentiment: {
+    parse: asString,
+    message: "sentiment must be a string.",
+    fallback: () => "",
+  },
+  positionSize: {
+    parse: asNonNegative,
+    message: "positionSize must be a number ≥ 0.",
+  },
+  costInputs: {
+    parse: parseCostInputs,
+    message: "costInputs is missing a field or has an invalid value.",
+  },
+  marginInputs: {
+    parse: parseMarginInputs,
+    message: "marginInputs is missing a field or has an invalid value.",
+  },
+  quoteUsdRate: {
+    parse: nullable((value) => {
+      const rate = asNumber(value);
+      return rate !== undefined && rate > 0 ? rate : undefined;
+    }),
+    message: "quoteUsdRate must be a number > 0 or null.",
+    fallback: () => null,
+  },
+  accountId: {
+    parse: nullable((value) =>
+      typeof value === "string" && uuidPattern.test(value) ? value : undefined,
+    ),
+    message: "accountId must be an account id or null.",
+    fallback: () => null,
+  },
+  fills: {
+    parse: parseFills,
+    message: "fills must be a list of { side, price, quantity, executedAt }.",
+    fallback: () => [],
+  },
+  tagIds: {
+    parse: parseTagIds,
+    message: "tagIds must be a list of tag ids.",
+    fallback: () => [],
+  },
+  journal: {
+    parse: parseJournal,
+    message: "journal must have thesis, review and lessons strings.",
+    fallback: createEmptyJournal,
+  },
+};
+
+const payloadKeys = Object.keys(payloadFields) as (keyof TradePayload)[];
+
+const parseFields = (
+  input: unknown,
+  requireAll: boolean,
+): SchemaResult<TradePatch> => {
+  if (!isRecord(input)) {
+    return { ok: false, errors: ["Trade must be a JSON object."] };
+  }
+
+  const errors = Object.keys(input)
+    .filter((key) => !(key in payloadFields))
+    .map((key) => `${key} is not a trade field.`);
+  const value: Record<string, unknown> = {};
+
+  payloadKeys.forEach((key) => {
+    const spec = payloadFields[key] as FieldSpec<unknown>;
+    if (!(key in input)) {
+      if (requireAll && spec.fallback) {
+        value[key] = spec.fallback();
+      } else if (requireAll) {
+        errors.push(`${key} is required.`);
+      }
+      return;
+    }
+    const parsed = spec.parse(input[key]);
+    if (parsed === undefined) {
+      errors.push(spec.message);
+    } else {
+      value[key] = parsed;
+    }
+  });
+
+  return errors.length > 0
+    ? { ok: false, errors }
+    : { ok: true, value: value as TradePatch };
+};
+
+// The trade as it is saved: what the client sent, with entry, exit, size and
+// PnL replaced by the values derived from its prices and fills.
+export const deriveTradeDraft = (
+  draft: Omit<TradeDraft, "pnl">,
+  fills: TradeFillDraft[],
+): TradeDraft => ({ ...draft, ...deriveTradeValues(draft, fills) });
+
+// Cross-field rules that the form also enforces, re-checked here because the
+// API can be called without the form.
+export const validateTradePayload = (payload: TradePayload) => {
+  const draft = deriveTradeDraft(payload, payload.fills);
+  if (draft.status === "Closed" && draft.exitPrice === null) {
+    return "A closed trade needs an exitPrice.";
+  }
+  return validateRiskPlan({
+    direction: draft.direction,
+    entryPrice: draft.entryPrice,
+    stopLoss: draft.stopLoss,
+    takeProfit: draft.takeProfit,
+    positionSize: draft.positionSize,
+  });
+};
+
+export const parseTradePayload = (input: unknown): SchemaResult<TradePayload> => {
+  const result = parseFields(input, true);
+  if (!result.ok) {
+    return result;
+  }
+  const payload = result.value as TradePayload;
+  const error = validateTradePayload(payload);
+  return error ? { ok: false, errors: [error] } : { ok: true, value: payload };
+};
+
+export const parseTradePatch = (input: unknown): SchemaResult<TradePatch> =>
+  parseFields(input, false);
+
+export const mapTradeToPayload = (trade: Trade): TradePayload => ({
+  pair: trade.pair,
+  direction: trade.direction,
+  strategy: trade.strategy,
+  status: trade.status,
+  entryPrice: trade.entryPrice,
+  exitPrice: trade.exitPrice,
+  stopLoss: trade.stopLoss,
+  takeProfit: trade.takeProfit,
+  date: trade.date,
+  sentiment: trade.sentiment,
+  positionSize: trade.positionSize,
+  costInputs: trade.costInputs,
+  marginInputs: trade.marginInputs,
+  quoteUsdRate: trade.quoteUsdRate,
+  accountId: trade.accountId,
+  fills: trade.fills,
+  tagIds: trade.tagIds,
+  journal: trade.journal,
+});
+
+// The fields the trade form edits. Undoing an edit sends this for the earlier
+// version, which leaves notes written since then alone.
+export const mapTradeToFormPatch = (trade: Trade): TradePatch => {
+  const patch: TradePatch = mapTradeToPayload(trade);
+  delete patch.journal;
+  return patch;
+};
+
+// Patches that only touch notes or tags skip the cross-field rules, so an
+// older trade that predates them can still be annotated.
+export const applyTradePatch = (
+  trade: Trade,
+  patch: TradePatch,
+): SchemaResult<TradePayload> => {
+  const payload = { ...mapTradeToPayload(trade), ...patch };
+  const touchesTradeFields = Object.keys(patch).some(
+    (key) => key !== "journal" && key !== "tagIds",
+  );
+  const error = touchesTradeFields ? validateTradePayload(payload) : null;
+  return error ? { ok: false, errors: [error] } : { ok: true, value: payload };
+};
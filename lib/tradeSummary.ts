@@ -0,0 +1,146 @@
+import {
+  CurrencySettings,
+  getQuoteReportingRate,
+  getUsdRate,
+} from "@/lib/currency";
+import { Database } from "@/lib/database.types";
+
+// Totals for the trades sharing a quote asset and trade-level USD rate. The
+// server aggregates into these so the journal's headline numbers cover every
+// filtered trade without loading them; conversion to the reporting currency
+// happens in the browser, where the rate table lives.
+export type TradeSummaryGroup = {
+  quoteAsset: string;
+  quoteUsdRate: number | null;
+  tradeCount: number;
+  longCount: number;
+  closedCount: number;
+  winningCount: number;
+  // Gross PnL and costs leave out cancelled trades.
+  grossPnl: number;
+  totalCosts: number;
+  closedNetPnl: number;
+};
+
+export type TradeSummaryRow =
+  Database["public"]["Functions"]["summarize_trades"]["Returns"][number];
+
+// Counts cover every trade. The money figures leave out trades without a
+// usable rate, counted in unconvertedCount, and avgNetPnl is over the closed
+// trades they include.
+export type TradeSummary = {
+  tradeCount: number;
+  longCount: number;
+  shortCount: number;
+  closedCount: number;
+  winningCount: number;
+  losingCount: number;
+  grossPnl: number;
+  totalCosts: number;
+  realizedPnl: number;
+  avgNetPnl: number;
+  winRate: number;
+  unconvertedCount: number;
+};
+
+export const mapRowToSummaryGroup = (row: TradeSummaryRow): TradeSummaryGroup => ({
+  quoteAsset: row.quote_asset,
+  quoteUsdRate: row.quote_usd_rate === null ? null : Number(row.quote_usd_rate),
+  tradeCount: Number(row.trade_count),
+  longCount: Number(row.long_count),
+  closedCount: Number(row.closed_count),
+  winningCount: Number(row.winning_count),
+  grossPnl: Number(row.gross_pnl),
+  totalCosts: Number(row.total_costs),
+  closedNetPnl: Number(row.closed_net_pnl),
+});
+
+export const getSummaryQuoteAssets = (groups: TradeSummaryGroup[]) =>
+  [...new Set(groups.map((group) => group.quoteAsset))].sort();
+
+// As getMissingRateAssets, for trades the server has grouped.
+export const getSummaryMissingRateAssets = (
+  groups: TradeSummaryGroup[],
+  settings: CurrencySettings,
+) => {
+  const missing = new Set<string>();
+  if (getUsdRate(settings, settings.reportingCurrency) === null) {
+    missing.add(settings.reportingCurrency);
+  }
+  groups.forEach((group) => {
+    if ((group.quoteUsdRate ?? getUsdRate(settings, group.quoteAsset)) === null) {
+      missing.add(group.quoteAsset);
+    }
+  });
+  return [...missing].sort();
+};
+
+// Groups without a usable rate are left out of the money figures, as
+// convertTradeToReporting leaves out single trades.
+export const combineTradeSummary = (
+  groups: TradeSummaryGroup[],
+  settings: CurrencySettings,
+): TradeSummary => {
+  const totals = groups.reduce(
+    (acc, group) => {
+      const counts = {
+        tradeCount: acc.tradeCount + group.tradeCount,
+        longCount: acc.longCount + group.longCount,
+        closedCount: acc.closedCount + group.closedCount,
+        winningCount: acc.winningCount + group.winningCount,
+      };
+      const rate = getQuoteReportingRate(
+        group.quoteAsset,
+        group.quoteUsdRate,
+        settings,
+      );
+      if (rate === null) {
+        return {
+          ...acc,
+          ...counts,
+          unconvertedCount: acc.unconvertedCount + group.tradeCount,
+        };
+      }
+      return {
+        ...acc,
+        ...counts,
+        convertedClosedCount: acc.convertedClosedCount + group.closedCount,
+        grossPnl: acc.grossPnl + group.grossPnl * rate,
+        totalCosts: acc.totalCosts + group.totalCosts * rate,
+        closedNetPnl: acc.closedNetPnl + group.closedNetPnl * rate,
+      };
+    },
+    {
+      tradeCount: 0,
+      longCount: 0,
+      closedCount: 0,
+      winningCount: 0,
+      unconvertedCount: 0,
+      convertedClosedCount: 0,
+      grossPnl: 0,
+      totalCosts: 0,
+      closedNetPnl: 0,
+    },
+  );
+
+  return {
+    tradeCount: totals.tradeCount,
+    longCount: totals.longCount,
+    shortCount: totals.tradeCount - totals.longCount,
+    closedCount: totals.closedCount,
+    winningCount: totals.winningCount,
+    losingCount: totals.closedCount - totals.winningCount,
+    grossPnl: totals.grossPnl,
+    totalCosts: totals.totalCosts,
+    realizedPnl: totals.grossPnl - totals.totalCosts,
+    avgNetPnl:
+      totals.convertedClosedCount > 0
+        ? totals.closedNetPnl / totals.convertedClosedCount
+        : 0,
+    winRate:
+      totals.closedCount > 0
+        ? Math.round((totals.winningCount / totals.closedCount) * 100)
+        : 0,
+    unconvertedCount: totals.unconvertedCount,
+  };
+};
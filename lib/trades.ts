@@ -0,0 +1,493 @@
+import { Tables, TablesInsert } from "@/lib/database.types";
+import {
+  FeeUnit,
+  Liquidity,
+  TradeCostInputs,
+  calculateTradeCosts,
+} from "@/lib/fees";
+import { TradeJournal } from "@/lib/journal";
+import {
+  InstrumentType,
+  MarginMode,
+  TradeMarginInputs,
+  calculateReturnOnMargin,
+  estimateLiquidationPrice,
+  getInitialMargin,
+} from "@/lib/margin";
+import { TradeTagRow } from "@/lib/tags";
+
+export type TradeDirection = "Long" | "Short";
+
+export type TradeStatus = "Open" | "Closed" | "Cancelled";
+
+export type FillSide = "Entry" | "Exit";
+
+export type TradeFill = {
+  id: string;
+  tradeId: string;
+  side: FillSide;
+  price: number;
+  quantity: number;
+  executedAt: string;
+};
+
+export type TradeFillDraft = Omit<TradeFill, "id" | "tradeId">;
+
+export type Trade = {
+  id: string;
+  userId: string;
+  pair: string;
+  direction: TradeDirection;
+  strategy: string;
+  status: TradeStatus;
+  entryPrice: number;
+  exitPrice: number | null;
+  stopLoss: number | null;
+  takeProfit: number | null;
+  pnl: number;
+  date: string;
+  sentiment: string;
+  positionSize: number;
+  costInputs: TradeCostInputs;
+  marginInputs: TradeMarginInputs;
+  totalCosts: number;
+  netPnl: number;
+  quoteUsdRate: number | null;
+  accountId: string | null;
+  fills: TradeFill[];
+  tagIds: string[];
+  journal: TradeJournal;
+  updatedAt: string;
+};
+
+export type TradeDraft = Omit<
+  Trade,
+  | "id"
+  | "userId"
+  | "fills"
+  | "tagIds"
+  | "journal"
+  | "updatedAt"
+  | "totalCosts"
+  | "netPnl"
+>;
+
+export type TradeFillRow = Tables<"trade_fills">;
+
+export type TradeRow = Tables<"trades"> & {
+  trade_fills?: TradeFillRow[] | null;
+  trade_tags?: Pick<TradeTagRow, "tag_id">[] | null;
+};
+
+// The trade form's columns. The journal columns come from
+// mapJournalToColumns (lib/journal.ts), and save_trade writes both together;
+// an edit keeps the notes because updateTrade starts from the saved trade.
+export type TradeInsert = Omit<
+  TablesInsert<"trades">,
+  | "id"
+  | "thesis"
+  | "review"
+  | "lessons"
+  | "created_at"
+  | "updated_at"
+  | "deleted_at"
+>;
+
+// A trade in the trash, with when it was moved there.
+export type DeletedTrade = {
+  trade: Trade;
+  deletedAt: string;
+};
+
+// save_trade fills in the trade and user ids.
+export type TradeFillInsert = Omit<
+  TablesInsert<"trade_fills">,
+  "id" | "trade_id" | "user_id"
+>;
+
+export const tradeSelectColumns = "*, trade_fills(*), trade_tags(tag_id)";
+
+// The generated types describe what the schema promises, not what a given
+// response contains, so each column the app computes with is checked here. A
+// malformed row throws with its id instead of quietly becoming a zero.
+export const createRowReader = (table: string, id: string) => {
+  const fail = (column: string, value: unknown): never => {
+    throw new Error(
+      `${table} row ${id} has an invalid ${column}: ${JSON.stringify(value)}.`,
+    );
+  };
+
+  const number = (column: string, value: unknown) =>
+    typeof value === "number" && Number.isFinite(value)
+      ? value
+      : fail(column, value);
+
+  return {
+    number,
+    optionalNumber: (column: string, value: unknown) =>
+      value === null || value === undefined ? null : number(column, value),
+    oneOf: <T extends string>(column: string, value: unknown, options: readonly T[]) =>
+      options.find((option) => option === value) ?? fail(column, value),
+  };
+};
+
+export const mapFillRowToFill = (row: TradeFillRow): TradeFill => {
+  const read = createRowReader("trade_fills", row.id);
+  return {
+    id: row.id,
+    tradeId: row.trade_id,
+    side: read.oneOf<FillSide>("side", row.side, ["Entry", "Exit"]),
+    price: read.number("price", row.price),
+    quantity: read.number("quantity", row.quantity),
+    executedAt: row.executed_at,
+  };
+};
+
+const sortFillsByTime = (fills: TradeFill[]) =>
+  [...fills].sort(
+    (a, b) => new Date(a.executedAt).getTime() - new Date(b.executedAt).getTime(),
+  );
+
+export const mapRowToTrade = (row: TradeRow): Trade => {
+  const read = createRowReader("trades", row.id);
+  const liquidityOptions: Liquidity[] = ["Maker", "Taker"];
+  const fills = sortFillsByTime((row.trade_fills ?? []).map(mapFillRowToFill));
+  return withTradeCosts(
+    {
+      pair: row.pair,
+      direction: read.oneOf<TradeDirection>("direction", row.direction, [
+        "Long",
+        "Short",
+      ]),
+      strategy: row.strategy,
+      status: read.oneOf<TradeStatus>("status", row.status, [
+        "Open",
+        "Closed",
+        "Cancelled",
+      ]),
+      entryPrice: read.number("entry_price", row.entry_price),
+      exitPrice: read.optionalNumber("exit_price", row.exit_price),
+      stopLoss: read.optionalNumber("stop_loss", row.stop_loss),
+      takeProfit: read.optionalNumber("take_profit", row.take_profit),
+      pnl: read.number("pnl", row.pnl),
+      date: row.trade_date,
+      sentiment: row.sentiment ?? "",
+      positionSize: read.number("position_size", row.position_size),
+      costInputs: {
+        feeUnit: read.oneOf<FeeUnit>("fee_unit", row.fee_unit, ["absolute", "bps"]),
+        makerFee: read.number("maker_fee", row.maker_fee),
+        takerFee: read.number("taker_fee", row.taker_fee),
+        entryLiquidity: read.oneOf(
+          "entry_liquidity",
+          row.entry_liquidity,
+          liquidityOptions,
+        ),
+        exitLiquidity: read.oneOf(
+          "exit_liquidity",
+          row.exit_liquidity,
+          liquidityOptions,
+        ),
+        funding: read.number("funding", row.funding),
+        rebate: read.number("rebate", row.rebate),
+      },
+      marginInputs: {
+        instrumentType: read.oneOf<InstrumentType>(
+          "instrument_type",
+          row.instrument_type,
+          ["Spot", "Perpetual", "Future", "Option"],
+        ),
+        leverage: read.number("leverage", row.leverage),
+        marginMode: read.oneOf<MarginMode>("margin_mode", row.margin_mode, [
+          "Isolated",
+          "Cross",
+        ]),
+        initialMargin: read.optionalNumber("initial_margin", row.initial_margin),
+      },
+      quoteUsdRate: read.optionalNumber("quote_usd_rate", row.quote_usd_rate),
+      accountId: row.account_id ?? null,
+    },
+    {
+      id: row.id,
+      userId: row.user_id,
+      fills,
+      tagIds: (row.trade_tags ?? []).map((tradeTag) => tradeTag.tag_id),
+      updatedAt: row.updated_at,
+      journal: {
+        thesis: row.thesis ?? "",
+        review: row.review ?? "",
+        lessons: row.lessons ?? "",
+      },
+    },
+  );
+};
+
+export const mapDraftToInsert = (
+  draft: TradeDraft,
+  userId: string,
+): TradeInsert => ({
+  pair: draft.pair,
+  direction: draft.direction,
+  strategy: draft.strategy,
+  status: draft.status,
+  entry_price: draft.entryPrice,
+  exit_price: draft.exitPrice,
+  stop_loss: draft.stopLoss,
+  take_profit: draft.takeProfit,
+  position_size: draft.positionSize,
+  pnl: draft.pnl,
+  sentiment: draft.sentiment.trim() ? draft.sentiment : null,
+  trade_date: draft.date,
+  fee_unit: draft.costInputs.feeUnit,
+  maker_fee: draft.costInputs.makerFee,
+  taker_fee: draft.costInputs.takerFee,
+  entry_liquidity: draft.costInputs.entryLiquidity,
+  exit_liquidity: draft.costInputs.exitLiquidity,
+  funding: draft.costInputs.funding,
+  rebate: draft.costInputs.rebate,
+  quote_usd_rate: draft.quoteUsdRate,
+  account_id: draft.accountId,
+  instrument_type: draft.marginInputs.instrumentType,
+  leverage: draft.marginInputs.leverage,
+  margin_mode: draft.marginInputs.marginMode,
+  initial_margin: draft.marginInputs.initialMargin,
+  user_id: userId,
+});
+
+export const mapFillDraftToInsert = (fill: TradeFillDraft): TradeFillInsert => ({
+  side: fill.side,
+  price: fill.price,
+  quantity: fill.quantity,
+  executed_at: fill.executedAt,
+});
+
+export const sortTradesByDateDesc = (entries: Trade[]) =>
+  [...entries].sort(
+    (a, b) => new Date(b.date).getTime() - new Date(a.date).getTime(),
+  );
+
+// PnL is denominated in the pair's quote asset (BTC for ETH/BTC).
+export const calculatePnL = (
+  direction: TradeDirection,
+  entry: number,
+  exit: number,
+  size: number,
+) => {
+  if (!Number.isFinite(entry) || !Number.isFinite(exit) || !Number.isFinite(size)) {
+    return 0;
+  }
+
+  const difference =
+    direction === "Long" ? exit - entry : entry - exit;
+
+  return difference * size;
+};
+
+export type FillSummary = {
+  avgEntryPrice: number;
+  avgExitPrice: number;
+  entryQuantity: number;
+  exitQuantity: number;
+  openQuantity: number;
+  realizedPnl: number;
+};
+
+const getVolumeWeightedPrice = (fills: TradeFillDraft[]) => {
+  const quantity = fills.reduce((acc, fill) => acc + fill.quantity, 0);
+  if (quantity <= 0) {
+    return 0;
+  }
+  return fills.reduce((acc, fill) => acc + fill.price * fill.quantity, 0) / quantity;
+};
+
+// Realized PnL uses the average cost of all entries, so scaling in after a
+// partial exit re-prices the remaining position rather than tracking lots.
+export const summarizeFills = (
+  direction: TradeDirection,
+  fills: TradeFillDraft[],
+): FillSummary => {
+  const entries = fills.filter((fill) => fill.side === "Entry");
+  const exits = fills.filter((fill) => fill.side === "Exit");
+  const entryQuantity = entries.reduce((acc, fill) => acc + fill.quantity, 0);
+  const exitQuantity = exits.reduce((acc, fill) => acc + fill.quantity, 0);
+  const avgEntryPrice = getVolumeWeightedPrice(entries);
+  const avgExitPrice = getVolumeWeightedPrice(exits);
+
+  return {
+    avgEntryPrice,
+    avgExitPrice,
+    entryQuantity,
+    exitQuantity,
+    openQuantity: Math.max(entryQuantity - exitQuantity, 0),
+    realizedPnl: calculatePnL(direction, avgEntryPrice, avgExitPrice, exitQuantity),
+  };
+};
+
+export type DerivedTradeValues = Pick<
+  TradeDraft,
+  "entryPrice" | "exitPrice" | "positionSize" | "pnl"
+>;
+
+// The values the server stores rather than trusts: with fills, entry, exit
+// and size are their volume-weighted summary; gross PnL always follows from
+// those prices. Cancelled trades made nothing.
+export const deriveTradeValues = (
+  draft: Pick<
+    TradeDraft,
+    "direction" | "status" | "entryPrice" | "exitPrice" | "positionSize"
+  >,
+  fills: TradeFillDraft[] = [],
+): DerivedTradeValues => {
+  if (fills.length > 0) {
+    const summary = summarizeFills(draft.direction, fills);
+    return {
+      entryPrice: summary.avgEntryPrice,
+      exitPrice: summary.exitQuantity > 0 ? summary.avgExitPrice : null,
+      positionSize: summary.entryQuantity,
+      pnl: draft.status === "Cancelled" ? 0 : summary.realizedPnl,
+    };
+  }
+  return {
+    entryPrice: draft.entryPrice,
+    exitPrice: draft.exitPrice,
+    positionSize: draft.positionSize,
+    pnl:
+      draft.status === "Cancelled" || draft.exitPrice === null
+        ? 0
+        : calculatePnL(
+            draft.direction,
+            draft.entryPrice,
+            draft.exitPrice,
+            draft.positionSize,
+          ),
+  };
+};
+
+// Notionals come from the fills when a trade has them, so bps fees are
+// charged on what was actually executed rather than the planned size.
+export const getTradeNotionals = (
+  draft: Pick<
+    TradeDraft,
+    "direction" | "entryPrice" | "exitPrice" | "positionSize"
+  >,
+  fills: TradeFillDraft[] = [],
+) => {
+  if (fills.length > 0) {
+    const summary = summarizeFills(draft.direction, fills);
+    return {
+      entryNotional: summary.avgEntryPrice * summary.entryQuantity,
+      exitNotional: summary.avgExitPrice * summary.exitQuantity,
+    };
+  }
+  return {
+    entryNotional: draft.entryPrice * draft.positionSize,
+    exitNotional: draft.exitPrice === null ? 0 : draft.exitPrice * draft.positionSize,
+  };
+};
+
+export const getTradeCosts = (
+  draft: Pick<
+    TradeDraft,
+    | "status"
+    | "costInputs"
+    | "direction"
+    | "entryPrice"
+    | "exitPrice"
+    | "positionSize"
+  >,
+  fills: TradeFillDraft[] = [],
+) => {
+  if (draft.status === "Cancelled") {
+    return calculateTradeCosts(draft.costInputs, 0, 0);
+  }
+  const { entryNotional, exitNotional } = getTradeNotionals(draft, fills);
+  return calculateTradeCosts(draft.costInputs, entryNotional, exitNotional);
+};
+
+export const withTradeCosts = (
+  draft: TradeDraft,
+  identity: Pick<
+    Trade,
+    "id" | "userId" | "fills" | "tagIds" | "journal" | "updatedAt"
+  >,
+): Trade => {
+  const totalCosts = getTradeCosts(draft, identity.fills).total;
+  return {
+    ...draft,
+    ...identity,
+    totalCosts,
+    netPnl: draft.pnl - totalCosts,
+  };
+};
+
+export const getOpenQuantity = (trade: Trade) => {
+  if (trade.status !== "Open") {
+    return 0;
+  }
+  return trade.fills.length > 0
+    ? summarizeFills(trade.direction, trade.fills).openQuantity
+    : trade.positionSize;
+};
+
+export const getAverageEntryPrice = (trade: Trade) =>
+  trade.fills.length > 0
+    ? summarizeFills(trade.direction, trade.fills).avgEntryPrice
+    : trade.entryPrice;
+
+export const calculateUnrealizedPnL = (trade: Trade, markPrice: number) =>
+  calculatePnL(
+    trade.direction,
+    getAverageEntryPrice(trade),
+    markPrice,
+    getOpenQuantity(trade),
+  );
+
+export const getTradeMarginSummary = (trade: Trade) => {
+  const { entryNotional } = getTradeNotionals(trade, trade.fills);
+  const initialMargin = getInitialMargin(trade.marginInputs, entryNotional);
+  const quantity =
+    trade.fills.length > 0
+      ? summarizeFills(trade.direction, trade.fills).entryQuantity
+      : trade.positionSize;
+  return {
+    initialMargin,
+    returnOnMargin:
+      trade.status === "Cancelled"
+        ? null
+        : calculateReturnOnMargin(trade.netPnl, initialMargin),
+    liquidationPrice:
+      trade.status === "Cancelled"
+        ? null
+        : estimateLiquidationPrice({
+            direction: trade.direction,
+            entryPrice: getAverageEntryPrice(trade),
+            quantity,
+            inputs: trade.marginInputs,
+            initialMargin,
+          }),
+  };
+};
+
+export const normalizePairKey = (pair: string) =>
+  pair.toUpperCase().replace(/[^A-Z0-9]/g, "");
+
+// Two trades are treated as the same execution when they share the pair,
+// day, prices and size; PnL is derived from those so it is not compared.
+export const getTradeFingerprint = (
+  trade: Pick<
+    TradeDraft,
+    "pair" | "date" | "entryPrice" | "exitPrice" | "positionSize"
+  >,
+) =>
+  [
+    normalizePairKey(trade.pair),
+    trade.date.slice(0, 10),
+    trade.entryPrice,
+    trade.exitPrice ?? "",
+    trade.positionSize,
+  ].join("|");
+
+// The YYYY-MM-DD day a fingerprint was taken on, or "" if it is malformed.
+export const getFingerprintDate = (fingerprint: string) => {
+  const date = fingerprint.split("|")[1] ?? "";
+  return /^\d{4}-\d{2}-\d{2}$/.test(date) ? date : "";
+};
@@ -0,0 +1,103 @@
+-- Tables behind lib/trades.ts, lib/tags.ts, lib/revisions.ts and lib/journal.ts.
+-- Column names and types mirror the *Row types there; keep them in sync.
+--
+-- user_id holds the Clerk user id (the `sub` claim of the session token), not a
+-- Supabase auth.users id, so it is text and has no foreign key.
+
+create table public.trades (
+  id uuid primary key default gen_random_uuid(),
+  user_id text not null default (auth.jwt() ->> 'sub'),
+  pair text not null,
+  direction text not null check (direction in ('Long', 'Short')),
+  strategy text not null default '',
+  status text check (status in ('Open', 'Closed', 'Cancelled')),
+  entry_price numeric,
+  exit_price numeric,
+  stop_loss numeric,
+  take_profit numeric,
+  pnl numeric,
+  position_size numeric,
+  sentiment text,
+  trade_date date not null,
+  fee_unit text check (fee_unit in ('absolute', 'bps')),
+  maker_fee numeric,
+  taker_fee numeric,
+  entry_liquidity text check (entry_liquidity in ('Maker', 'Taker')),
+  exit_liquidity text check (exit_liquidity in ('Maker', 'Taker')),
+  funding numeric,
+  rebate numeric,
+  quote_usd_rate numeric check (quote_usd_rate > 0),
+  instrument_type text check (instrument_type in ('Spot', 'Perpetual', 'Future', 'Option')),
+  leverage numeric check (leverage >= 1),
+  margin_mode text check (margin_mode in ('Isolated', 'Cross')),
+  initial_margin numeric,
+  thesis text,
+  review text,
+  lessons text,
+  created_at timestamptz not null default now(),
+  -- Lets child tables reference (id, user_id) so a row can never point at
+  -- another user's trade.
+  unique (id, user_id)
+);
+
+create index trades_user_date_idx on public.trades (user_id, trade_date desc);
+
+create table public.trade_fills (
+  id uuid primary key default gen_random_uuid(),
+  trade_id uuid not null,
+  user_id text not null default (auth.jwt() ->> 'sub'),
+  side text not null check (side in ('Entry', 'Exit')),
+  price numeric check (price > 0),
+  quantity numeric check (quantity > 0),
+  executed_at timestamptz not null,
+  foreign key (trade_id, user_id) references public.trades (id, user_id) on delete cascade
+);
+
+create index trade_fills_trade_idx on public.trade_fills (trade_id);
+
+create table public.tags (
+  id uuid primary key default gen_random_uuid(),
+  user_id text not null default (auth.jwt() ->> 'sub'),
+  name text not null check (length(trim(name)) > 0),
+  category text not null check (category in ('Setup', 'Mistake', 'Market', 'Timeframe')),
+  unique (id, user_id)
+);
+
+create unique index tags_user_category_name_idx
+  on public.tags (user_id, category, lower(name));
+
+create table public.trade_tags (
+  trade_id uuid not null,
+  tag_id uuid not null,
+  user_id text not null default (auth.jwt() ->> 'sub'),
+  primary key (trade_id, tag_id),
+  foreign key (trade_id, user_id) references public.trades (id, user_id) on delete cascade,
+  foreign key (tag_id, user_id) references public.tags (id, user_id) on delete cascade
+);
+
+create index trade_tags_tag_idx on public.trade_tags (tag_id);
+
+create table public.trade_revisions (
+  id uuid primary key default gen_random_uuid(),
+  trade_id uuid not null,
+  user_id text not null default (auth.jwt() ->> 'sub'),
+  changed_at timestamptz not null default now(),
+  changes jsonb not null default '[]'::jsonb,
+  foreign key (trade_id, user_id) references public.trades (id, user_id) on delete cascade
+);
+
+create index trade_revisions_trade_idx on public.trade_revisions (trade_id, changed_at desc);
+
+create table public.trade_attachments (
+  id uuid primary key default gen_random_uuid(),
+  trade_id uuid not null,
+  user_id text not null default (auth.jwt() ->> 'sub'),
+  storage_path text not null unique,
+  file_name text not null,
+  content_type text,
+  size_bytes bigint,
+  created_at timestamptz not null default now(),
+  foreign key (trade_id, user_id) references public.trades (id, user_id) on delete cascade
+);
+
+create index trade_attachments_trade_idx on public.trade_attachments (trade_id);
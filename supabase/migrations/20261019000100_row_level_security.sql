@@ -0,0 +1,82 @@
+-- Every table is readable and writable only by the Clerk user in the `sub`
+-- claim of the request's session token. The app still filters on user_id,
+-- but these policies are what actually enforce isolation.
+--
+-- Supabase must trust Clerk as a third-party auth provider, and Clerk session
+-- tokens must carry `"role": "authenticated"` so requests run as that role.
+
+create function public.requesting_user_id()
+returns text
+language sql
+stable
+as $$
+  select nullif(auth.jwt() ->> 'sub', '')
+$$;
+
+do $$
+declare
+  table_name text;
+begin
+  foreach table_name in array array[
+    'trades',
+    'trade_fills',
+    'tags',
+    'trade_tags',
+    'trade_revisions',
+    'trade_attachments'
+  ] loop
+    execute format('alter table public.%I enable row level security', table_name);
+    execute format(
+      'create policy "Users read their own rows" on public.%I
+         for select to authenticated
+         using (user_id = (select public.requesting_user_id()))',
+      table_name
+    );
+    execute format(
+      'create policy "Users insert their own rows" on public.%I
+         for insert to authenticated
+         with check (user_id = (select public.requesting_user_id()))',
+      table_name
+    );
+    execute format(
+      'create policy "Users update their own rows" on public.%I
+         for update to authenticated
+         using (user_id = (select public.requesting_user_id()))
+         with check (user_id = (select public.requesting_user_id()))',
+      table_name
+    );
+    execute format(
+      'create policy "Users delete their own rows" on public.%I
+         for delete to authenticated
+         using (user_id = (select public.requesting_user_id()))',
+      table_name
+    );
+  end loop;
+end
+$$;
+
+-- Screenshot files live under `<clerk user id>/<trade id>/...` (see
+-- buildAttachmentPath in lib/journal.ts). Plain Postgres has no storage
+-- schema, so this part only runs on Supabase.
+do $$
+begin
+  if to_regclass('storage.objects') is null then
+    return;
+  end if;
+
+  insert into storage.buckets (id, name, public)
+  values ('trade-screenshots', 'trade-screenshots', false)
+  on conflict (id) do nothing;
+
+  create policy "Users manage their own screenshots" on storage.objects
+    for all to authenticated
+    using (
+      bucket_id = 'trade-screenshots'
+      and (storage.foldername(name))[1] = (select public.requesting_user_id())
+    )
+    with check (
+      bucket_id = 'trade-screenshots'
+      and (storage.foldername(name))[1] = (select public.requesting_user_id())
+    );
+end
+$$;
@@ -0,0 +1,78 @@
+-- Columns added over time were nullable, and lib/trades.ts used to read any
+-- missing number as 0. This fills in the values the app already assumed for
+-- cost and margin settings, then makes every column the app cannot do without
+-- NOT NULL so the row mapper can reject anything else.
+--
+-- A trade with no entry price or PnL has no sensible default. The migration
+-- stops and lists those rows instead of guessing; fix or delete them first.
+
+do $$
+declare
+  broken_ids text;
+begin
+  select string_agg(id::text, ', ')
+    into broken_ids
+    from public.trades
+    where entry_price is null or pnl is null;
+
+  if broken_ids is not null then
+    raise exception 'Trades missing entry_price or pnl: %', broken_ids;
+  end if;
+
+  select string_agg(id::text, ', ')
+    into broken_ids
+    from public.trade_fills
+    where price is null or quantity is null;
+
+  if broken_ids is not null then
+    raise exception 'Fills missing price or quantity: %', broken_ids;
+  end if;
+end
+$$;
+
+update public.trades set status = 'Closed' where status is null;
+update public.trades set position_size = 0 where position_size is null;
+update public.trades set fee_unit = 'absolute' where fee_unit is null;
+update public.trades set maker_fee = 0 where maker_fee is null;
+update public.trades set taker_fee = 0 where taker_fee is null;
+update public.trades set entry_liquidity = 'Taker' where entry_liquidity is null;
+update public.trades set exit_liquidity = 'Taker' where exit_liquidity is null;
+update public.trades set funding = 0 where funding is null;
+update public.trades set rebate = 0 where rebate is null;
+update public.trades set instrument_type = 'Spot' where instrument_type is null;
+update public.trades set leverage = 1 where leverage is null;
+update public.trades set margin_mode = 'Isolated' where margin_mode is null;
+
+alter table public.trades
+  alter column status set default 'Closed',
+  alter column status set not null,
+  alter column entry_price set not null,
+  alter column pnl set not null,
+  alter column position_size set default 0,
+  alter column position_size set not null,
+  alter column fee_unit set default 'absolute',
+  alter column fee_unit set not null,
+  alter column maker_fee set default 0,
+  alter column maker_fee set not null,
+  alter column taker_fee set default 0,
+  alter column taker_fee set not null,
+  alter column entry_liquidity set default 'Taker',
+  alter column entry_liquidity set not null,
+  alter column exit_liquidity set default 'Taker',
+  alter column exit_liquidity set not null,
+  alter column funding set default 0,
+  alter column funding set not null,
+  alter column rebate set default 0,
+  alter column rebate set not null,
+  alter column instrument_type set default 'Spot',
+  alter column instrument_type set not null,
+  alter column leverage set default 1,
+  alter column leverage set not null,
+  alter column margin_mode set default 'Isolated',
+  alter column margin_mode set not null,
+  add constraint trades_entry_price_check check (entry_price >= 0),
+  add constraint trades_position_size_check check (position_size >= 0);
+
+alter table public.trade_fills
+  alter column price set not null,
+  alter column quantity set not null;
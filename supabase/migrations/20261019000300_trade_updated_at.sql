@@ -0,0 +1,23 @@
+-- updated_at is the version a client edited against. Offline edits send it
+-- back with If-Match, and the API refuses the write if the trade has changed
+-- since (for example, on another device).
+
+alter table public.trades
+  add column updated_at timestamptz not null default now();
+
+update public.trades set updated_at = created_at;
+
+create function public.set_updated_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_at := now();
+  return new;
+end
+$$;
+
+create trigger trades_set_updated_at
+  before update on public.trades
+  for each row
+  execute function public.set_updated_at();
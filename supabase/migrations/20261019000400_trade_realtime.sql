@@ -0,0 +1,13 @@
+-- Streams trade changes to other open sessions (see lib/realtimeTrades.ts).
+-- Realtime applies the RLS policies to inserts and updates, so a session only
+-- hears about its own user's rows. Fills and tags are included because a
+-- trade's fills and tags are saved after the trade row.
+
+do $$
+begin
+  if exists (select 1 from pg_publication where pubname = 'supabase_realtime') then
+    alter publication supabase_realtime
+      add table public.trades, public.trade_fills, public.trade_tags;
+  end if;
+end
+$$;
@@ -0,0 +1,247 @@
+-- Filtering, sorting and summary stats for the journal run here so large
+-- journals can be paged instead of loaded whole. These mirror filterTrades and
+-- sortTrades in lib/tradeFilters.ts, splitPair in lib/currency.ts and
+-- getTradeCosts in lib/trades.ts; keep them in sync.
+--
+-- Every function is security invoker, so RLS still scopes rows to the caller.
+
+create function public.pair_quote_asset(pair text)
+returns text
+language sql
+immutable
+as $$
+  with cleaned as (
+    select upper(regexp_replace(pair, '\s+', '', 'g')) as value
+  ),
+  parts as (
+    select array_remove(regexp_split_to_array(value, '[-/_]'), '') as value
+    from cleaned
+  )
+  select coalesce(
+    (select parts.value[2] from parts where cardinality(parts.value) >= 2),
+    (
+      select known.asset
+      from cleaned,
+        unnest(array['USDT', 'USDC', 'BUSD', 'FDUSD', 'USD', 'EUR', 'BTC', 'ETH'])
+          with ordinality as known(asset, position)
+      where cleaned.value like '%' || known.asset
+        and length(cleaned.value) > length(known.asset)
+      order by known.position
+      limit 1
+    ),
+    'USD'
+  )
+$$;
+
+-- Fees in bps are charged on the filled notional when a trade has fills, and
+-- on the planned size otherwise.
+create function public.trade_total_costs(trade public.trades)
+returns numeric
+language sql
+stable
+as $$
+  with fills as (
+    select
+      count(*) as fill_count,
+      coalesce(sum(price * quantity) filter (where side = 'Entry'), 0) as entry_notional,
+      coalesce(sum(price * quantity) filter (where side = 'Exit'), 0) as exit_notional
+    from public.trade_fills
+    where trade_fills.trade_id = trade.id
+  ),
+  notionals as (
+    select
+      case
+        when trade.status = 'Cancelled' then 0
+        when fills.fill_count > 0 then fills.entry_notional
+        else trade.entry_price * trade.position_size
+      end as entry_notional,
+      case
+        when trade.status = 'Cancelled' then 0
+        when fills.fill_count > 0 then fills.exit_notional
+        else coalesce(trade.exit_price * trade.position_size, 0)
+      end as exit_notional
+    from fills
+  )
+  select
+    case
+      when trade.fee_unit = 'bps' then
+        (
+          abs(notionals.entry_notional) *
+            case when trade.entry_liquidity = 'Maker' then trade.maker_fee else trade.taker_fee end +
+          abs(notionals.exit_notional) *
+            case when trade.exit_liquidity = 'Maker' then trade.maker_fee else trade.taker_fee end
+        ) / 10000
+      else trade.maker_fee + trade.taker_fee
+    end + trade.funding - trade.rebate
+  from notionals
+$$;
+
+-- Every tag in tag_ids must be on the trade. The pair filter is a
+-- case-insensitive substring match, like the search box.
+create function public.filter_trades(
+  pair_filter text default '',
+  direction_filter text default 'All',
+  tag_ids uuid[] default '{}',
+  start_date date default null,
+  end_date date default null
+)
+returns setof public.trades
+language sql
+stable
+as $$
+  select trade.*
+  from public.trades as trade
+  where trade.user_id = public.requesting_user_id()
+    and (
+      pair_filter = ''
+      or trade.pair ilike '%' || replace(replace(replace(pair_filter, '\', '\\'), '%', '\%'), '_', '\_') || '%'
+    )
+    and (direction_filter = 'All' or trade.direction = direction_filter)
+    and (start_date is null or trade.trade_date >= start_date)
+    and (end_date is null or trade.trade_date <= end_date)
+    and not exists (
+      select 1
+      from unnest(tag_ids) as wanted(tag_id)
+      where not exists (
+        select 1
+        from public.trade_tags
+        where trade_tags.trade_id = trade.id
+          and trade_tags.tag_id = wanted.tag_id
+      )
+    )
+$$;
+
+-- PnL sorts on net PnL in USD so the order matches the reporting currency.
+-- usd_rates maps a quote asset to its USD value; a rate entered on the trade
+-- wins, and assets without one are left unconverted, as in the app.
+create function public.trade_sort_value(
+  trade public.trades,
+  sort_key text,
+  usd_rates jsonb
+)
+returns numeric
+language sql
+stable
+as $$
+  select case split_part(sort_key, '-', 1)
+    when 'pnl' then
+      (trade.pnl - public.trade_total_costs(trade)) * coalesce(
+        trade.quote_usd_rate,
+        (usd_rates ->> public.pair_quote_asset(trade.pair))::numeric,
+        1
+      )
+    when 'size' then trade.position_size
+    else trade.trade_date - date '1970-01-01'
+  end
+$$;
+
+-- Keyset pagination: cursor_id is the last trade of the previous page, and
+-- ties on the sort value are broken by id in the same direction, so reversing
+-- sort_key walks the same list backwards. remaining_count is the number of
+-- matching trades after the cursor, this page included.
+create function public.search_trades(
+  pair_filter text default '',
+  direction_filter text default 'All',
+  tag_ids uuid[] default '{}',
+  start_date date default null,
+  end_date date default null,
+  sort_key text default 'date-desc',
+  usd_rates jsonb default '{}',
+  cursor_id uuid default null,
+  page_size integer default 20
+)
+returns table (id uuid, remaining_count bigint)
+language sql
+stable
+as $$
+  with ranked as (
+    select
+      trade.id,
+      public.trade_sort_value(trade, sort_key, usd_rates) as sort_value
+    from public.filter_trades(
+      pair_filter,
+      direction_filter,
+      tag_ids,
+      start_date,
+      end_date
+    ) as trade
+  ),
+  boundary as (
+    select
+      trade.id,
+      public.trade_sort_value(trade, sort_key, usd_rates) as sort_value
+    from public.trades as trade
+    where trade.id = cursor_id
+  )
+  select ranked.id, count(*) over () as remaining_count
+  from ranked
+  left join boundary on true
+  where cursor_id is null
+    or (
+      sort_key like '%-asc'
+      and (ranked.sort_value, ranked.id) > (boundary.sort_value, boundary.id)
+    )
+    or (
+      sort_key not like '%-asc'
+      and (ranked.sort_value, ranked.id) < (boundary.sort_value, boundary.id)
+    )
+  order by
+    case when sort_key like '%-asc' then ranked.sort_value end asc,
+    case when sort_key like '%-asc' then ranked.id end asc,
+    case when sort_key not like '%-asc' then ranked.sort_value end desc,
+    case when sort_key not like '%-asc' then ranked.id end desc
+  limit page_size
+$$;
+
+-- Totals for the whole filtered set, grouped by quote asset and trade-level
+-- USD rate so the app can convert each group into the reporting currency.
+create function public.summarize_trades(
+  pair_filter text default '',
+  direction_filter text default 'All',
+  tag_ids uuid[] default '{}',
+  start_date date default null,
+  end_date date default null
+)
+returns table (
+  quote_asset text,
+  quote_usd_rate numeric,
+  trade_count bigint,
+  long_count bigint,
+  closed_count bigint,
+  winning_count bigint,
+  gross_pnl numeric,
+  total_costs numeric,
+  closed_net_pnl numeric
+)
+language sql
+stable
+as $$
+  with costed as (
+    select
+      trade.pair,
+      trade.quote_usd_rate,
+      trade.direction,
+      trade.status,
+      trade.pnl,
+      public.trade_total_costs(trade) as costs
+    from public.filter_trades(
+      pair_filter,
+      direction_filter,
+      tag_ids,
+      start_date,
+      end_date
+    ) as trade
+  )
+  select
+    public.pair_quote_asset(costed.pair),
+    costed.quote_usd_rate,
+    count(*),
+    count(*) filter (where costed.direction = 'Long'),
+    count(*) filter (where costed.status = 'Closed'),
+    count(*) filter (where costed.status = 'Closed' and costed.pnl - costed.costs > 0),
+    coalesce(sum(costed.pnl) filter (where costed.status <> 'Cancelled'), 0),
+    coalesce(sum(costed.costs) filter (where costed.status <> 'Cancelled'), 0),
+    coalesce(sum(costed.pnl - costed.costs) filter (where costed.status = 'Closed'), 0)
+  from costed
+  group by 1, 2
+$$;
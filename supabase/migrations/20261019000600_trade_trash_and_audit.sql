@@ -0,0 +1,55 @@
+-- Deleting a trade moves it to the trash instead of removing the row, so it
+-- can be restored. Only trades already in the trash can be removed for good.
+--
+-- The revision log now records creates, deletes and restores as well as
+-- edits, and is append-only: users may insert revisions but no longer update
+-- or delete them. user_id is who made the change, since only a trade's owner
+-- can write to it.
+
+alter table public.trades
+  add column deleted_at timestamptz;
+
+create index trades_user_deleted_idx
+  on public.trades (user_id, deleted_at desc)
+  where deleted_at is not null;
+
+alter table public.trade_revisions
+  add column action text not null default 'updated'
+    check (action in ('created', 'updated', 'deleted', 'restored'));
+
+drop policy "Users update their own rows" on public.trade_revisions;
+drop policy "Users delete their own rows" on public.trade_revisions;
+
+create or replace function public.filter_trades(
+  pair_filter text default '',
+  direction_filter text default 'All',
+  tag_ids uuid[] default '{}',
+  start_date date default null,
+  end_date date default null
+)
+returns setof public.trades
+language sql
+stable
+as $$
+  select trade.*
+  from public.trades as trade
+  where trade.user_id = public.requesting_user_id()
+    and trade.deleted_at is null
+    and (
+      pair_filter = ''
+      or trade.pair ilike '%' || replace(replace(replace(pair_filter, '\', '\\'), '%', '\%'), '_', '\_') || '%'
+    )
+    and (direction_filter = 'All' or trade.direction = direction_filter)
+    and (start_date is null or trade.trade_date >= start_date)
+    and (end_date is null or trade.trade_date <= end_date)
+    and not exists (
+      select 1
+      from unnest(tag_ids) as wanted(tag_id)
+      where not exists (
+        select 1
+        from public.trade_tags
+        where trade_tags.trade_id = trade.id
+          and trade_tags.tag_id = wanted.tag_id
+      )
+    )
+$$;
@@ -0,0 +1,68 @@
+-- Applies one change to many trades in a single transaction, for the trade
+-- log's batch actions. Trades the caller cannot see, or that are already in
+-- the trash, are skipped and reported back with a reason; the rest either all
+-- change or none do.
+--
+-- Security invoker like the search functions, so RLS still scopes every row
+-- to the caller. The revision log is written by the triggers on trades,
+-- trade_fills and trade_tags (*_trade_revision_triggers.sql), one revision
+-- per trade for the whole batch.
+
+create function public.apply_trade_batch(
+  trade_ids uuid[],
+  operation text,
+  add_tag_ids uuid[] default '{}',
+  remove_tag_ids uuid[] default '{}',
+  day_offset integer default 0
+)
+returns table (trade_id uuid, error text)
+language plpgsql
+as $$
+declare
+  found_ids uuid[];
+begin
+  select coalesce(array_agg(trade.id), '{}')
+  into found_ids
+  from public.trades as trade
+  where trade.id = any(trade_ids)
+    and trade.user_id = public.requesting_user_id()
+    and trade.deleted_at is null;
+
+  if operation = 'delete' then
+    update public.trades
+    set deleted_at = now()
+    where trades.id = any(found_ids);
+  elsif operation = 'tag' then
+    delete from public.trade_tags
+    where trade_tags.trade_id = any(found_ids)
+      and trade_tags.tag_id = any(remove_tag_ids);
+
+    insert into public.trade_tags (trade_id, tag_id)
+    select found.id, added.id
+    from unnest(found_ids) as found(id)
+      cross join unnest(add_tag_ids) as added(id)
+    on conflict do nothing;
+
+    -- Bumps updated_at so open sessions refetch the trades.
+    update public.trades
+    set updated_at = now()
+    where trades.id = any(found_ids);
+  elsif operation = 'shift_dates' then
+    update public.trade_fills
+    set executed_at = executed_at + make_interval(days => day_offset)
+    where trade_fills.trade_id = any(found_ids);
+
+    update public.trades
+    set trade_date = trade_date + day_offset
+    where trades.id = any(found_ids);
+  else
+    raise exception 'Unknown batch operation: %', operation;
+  end if;
+
+  return query
+  select
+    requested.id,
+    case when requested.id = any(found_ids) then null else 'Trade not found.' end
+  from unnest(trade_ids) as requested(id);
+end
+$$;
@@ -0,0 +1,32 @@
+-- Lots chosen by hand for the specific-identification cost basis method.
+-- disposal_id and lot_ids refer to exit and entry fills (or
+-- "<trade id>:exit" / "<trade id>:entry" for trades logged without fills; see
+-- lib/taxLots.ts), so selections survive recalculating the report. Lots are
+-- matched in the order listed.
+
+create table public.tax_lot_selections (
+  user_id text not null default (auth.jwt() ->> 'sub'),
+  disposal_id text not null,
+  lot_ids text[] not null check (cardinality(lot_ids) > 0),
+  updated_at timestamptz not null default now(),
+  primary key (user_id, disposal_id)
+);
+
+alter table public.tax_lot_selections enable row level security;
+
+create policy "Users read their own rows" on public.tax_lot_selections
+  for select to authenticated
+  using (user_id = (select public.requesting_user_id()));
+
+create policy "Users insert their own rows" on public.tax_lot_selections
+  for insert to authenticated
+  with check (user_id = (select public.requesting_user_id()));
+
+create policy "Users update their own rows" on public.tax_lot_selections
+  for update to authenticated
+  using (user_id = (select public.requesting_user_id()))
+  with check (user_id = (select public.requesting_user_id()));
+
+create policy "Users delete their own rows" on public.tax_lot_selections
+  for delete to authenticated
+  using (user_id = (select public.requesting_user_id()));
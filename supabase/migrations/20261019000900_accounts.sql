@@ -0,0 +1,228 @@
+-- Trades can belong to an account: an exchange or sub-account with its own
+-- base currency and starting balance. Deposits and withdrawals are recorded
+-- per account so returns can be measured against the money actually in it.
+-- Trades without an account are still valid, and deleting an account leaves
+-- its trades unassigned.
+
+create table public.accounts (
+  id uuid primary key default gen_random_uuid(),
+  user_id text not null default (auth.jwt() ->> 'sub'),
+  name text not null check (length(trim(name)) > 0),
+  exchange text not null default '',
+  base_currency text not null default 'USD' check (base_currency ~ '^[A-Z0-9]{2,10}$'),
+  starting_balance numeric not null default 0 check (starting_balance >= 0),
+  created_at timestamptz not null default now(),
+  unique (id, user_id)
+);
+
+create unique index accounts_user_name_idx
+  on public.accounts (user_id, lower(name));
+
+create table public.account_transfers (
+  id uuid primary key default gen_random_uuid(),
+  account_id uuid not null,
+  user_id text not null default (auth.jwt() ->> 'sub'),
+  kind text not null check (kind in ('Deposit', 'Withdrawal')),
+  amount numeric not null check (amount > 0),
+  transferred_at date not null,
+  note text not null default '',
+  foreign key (account_id, user_id) references public.accounts (id, user_id) on delete cascade
+);
+
+create index account_transfers_account_idx
+  on public.account_transfers (account_id, transferred_at);
+
+alter table public.trades
+  add column account_id uuid,
+  add foreign key (account_id, user_id)
+    references public.accounts (id, user_id) on delete set null (account_id);
+
+create index trades_account_idx on public.trades (account_id);
+
+do $$
+declare
+  table_name text;
+begin
+  foreach table_name in array array['accounts', 'account_transfers'] loop
+    execute format('alter table public.%I enable row level security', table_name);
+    execute format(
+      'create policy "Users read their own rows" on public.%I
+         for select to authenticated
+         using (user_id = (select public.requesting_user_id()))',
+      table_name
+    );
+    execute format(
+      'create policy "Users insert their own rows" on public.%I
+         for insert to authenticated
+         with check (user_id = (select public.requesting_user_id()))',
+      table_name
+    );
+    execute format(
+      'create policy "Users update their own rows" on public.%I
+         for update to authenticated
+         using (user_id = (select public.requesting_user_id()))
+         with check (user_id = (select public.requesting_user_id()))',
+      table_name
+    );
+    execute format(
+      'create policy "Users delete their own rows" on public.%I
+         for delete to authenticated
+         using (user_id = (select public.requesting_user_id()))',
+      table_name
+    );
+  end loop;
+end
+$$;
+
+-- The search functions gain an account filter. Their argument lists change,
+-- so they are dropped and recreated rather than replaced.
+drop function public.summarize_trades(text, text, uuid[], date, date);
+drop function public.search_trades(text, text, uuid[], date, date, text, jsonb, uuid, integer);
+drop function public.filter_trades(text, text, uuid[], date, date);
+
+-- account_filter limits the results to one account; null means every trade,
+-- assigned or not.
+create function public.filter_trades(
+  pair_filter text default '',
+  direction_filter text default 'All',
+  tag_ids uuid[] default '{}',
+  start_date date default null,
+  end_date date default null,
+  account_filter uuid default null
+)
+returns setof public.trades
+language sql
+stable
+as $$
+  select trade.*
+  from public.trades as trade
+  where trade.user_id = public.requesting_user_id()
+    and trade.deleted_at is null
+    and (
+      pair_filter = ''
+      or trade.pair ilike '%' || replace(replace(replace(pair_filter, '\', '\\'), '%', '\%'), '_', '\_') || '%'
+    )
+    and (direction_filter = 'All' or trade.direction = direction_filter)
+    and (start_date is null or trade.trade_date >= start_date)
+    and (end_date is null or trade.trade_date <= end_date)
+    and (account_filter is null or trade.account_id = account_filter)
+    and not exists (
+      select 1
+      from unnest(tag_ids) as wanted(tag_id)
+      where not exists (
+        select 1
+        from public.trade_tags
+        where trade_tags.trade_id = trade.id
+          and trade_tags.tag_id = wanted.tag_id
+      )
+    )
+$$;
+
+create function public.search_trades(
+  pair_filter text default '',
+  direction_filter text default 'All',
+  tag_ids uuid[] default '{}',
+  start_date date default null,
+  end_date date default null,
+  account_filter uuid default null,
+  sort_key text default 'date-desc',
+  usd_rates jsonb default '{}',
+  cursor_id uuid default null,
+  page_size integer default 20
+)
+returns table (id uuid, remaining_count bigint)
+language sql
+stable
+as $$
+  with ranked as (
+    select
+      trade.id,
+      public.trade_sort_value(trade, sort_key, usd_rates) as sort_value
+    from public.filter_trades(
+      pair_filter,
+      direction_filter,
+      tag_ids,
+      start_date,
+      end_date,
+      account_filter
+    ) as trade
+  ),
+  boundary as (
+    select
+      trade.id,
+      public.trade_sort_value(trade, sort_key, usd_rates) as sort_value
+    from public.trades as trade
+    where trade.id = cursor_id
+  )
+  select ranked.id, count(*) over () as remaining_count
+  from ranked
+  left join boundary on true
+  where cursor_id is null
+    or (
+      sort_key like '%-asc'
+      and (ranked.sort_value, ranked.id) > (boundary.sort_value, boundary.id)
+    )
+    or (
+      sort_key not like '%-asc'
+      and (ranked.sort_value, ranked.id) < (boundary.sort_value, boundary.id)
+    )
+  order by
+    case when sort_key like '%-asc' then ranked.sort_value end asc,
+    case when sort_key like '%-asc' then ranked.id end asc,
+    case when sort_key not like '%-asc' then ranked.sort_value end desc,
+    case when sort_key not like '%-asc' then ranked.id end desc
+  limit page_size
+$$;
+
+create function public.summarize_trades(
+  pair_filter text default '',
+  direction_filter text default 'All',
+  tag_ids uuid[] default '{}',
+  start_date date default null,
+  end_date date default null,
+  account_filter uuid default null
+)
+returns table (
+  quote_asset text,
+  quote_usd_rate numeric,
+  trade_count bigint,
+  long_count bigint,
+  closed_count bigint,
+  winning_count bigint,
+  gross_pnl numeric,
+  total_costs numeric,
+  closed_net_pnl numeric
+)
+language sql
+stable
+as $$
+  with costed as (
+    select
+      trade.pair,
+      trade.quote_usd_rate,
+      trade.direction,
+      trade.status,
+      trade.pnl,
+      public.trade_total_costs(trade) as costs
+    from public.filter_trades(
+      pair_filter,
+      direction_filter,
+      tag_ids,
+      start_date,
+      end_date,
+      account_filter
+    ) as trade
+  )
+  select
+    public.pair_quote_asset(costed.pair),
+    costed.quote_usd_rate,
+    count(*),
+    count(*) filter (where costed.direction = 'Long'),
+    count(*) filter (where costed.status = 'Closed'),
+    count(*) filter (where costed.status = 'Closed' and costed.pnl - costed.costs > 0),
+    coalesce(sum(costed.pnl) filter (where costed.status <> 'Cancelled'), 0),
+    coalesce(sum(costed.costs) filter (where costed.status <> 'Cancelled'), 0),
+    coalesce(sum(costed.pnl - costed.costs) filter (where costed.status = 'Closed'), 0)
+  from costed
+  group by 1, 2
+$$;
@@ -0,0 +1,90 @@
+-- Writes one trade with its fills and tags in a single transaction, for the
+-- create and edit routes. Before this the API saved them in separate
+-- requests, so a failure halfway left a trade with some of its fills or tags.
+--
+-- `trade` holds the trade's columns as the API builds them (see
+-- mapPayloadToRow in lib/tradeQueries.ts). With `target_id` the trade is
+-- updated instead of created, and only while it is out of the trash and, when
+-- `expected_updated_at` is given, still at that version; a null result means
+-- nothing matched. Null `fills` or `tag_ids` leave those untouched.
+--
+-- Security invoker like apply_trade_batch, so RLS still scopes every row.
+
+create function public.save_trade(
+  trade jsonb,
+  fills jsonb default null,
+  tag_ids uuid[] default null,
+  target_id uuid default null,
+  expected_updated_at timestamptz default null
+)
+returns uuid
+language plpgsql
+as $$
+declare
+  saved_id uuid;
+begin
+  if target_id is null then
+    insert into public.trades (
+      user_id, pair, direction, strategy, status, entry_price, exit_price,
+      stop_loss, take_profit, position_size, pnl, sentiment, trade_date,
+      fee_unit, maker_fee, taker_fee, entry_liquidity, exit_liquidity,
+      funding, rebate, quote_usd_rate, account_id, instrument_type, leverage,
+      margin_mode, initial_margin, thesis, review, lessons
+    )
+    select
+      public.requesting_user_id(), pair, direction, strategy, status,
+      entry_price, exit_price, stop_loss, take_profit, position_size, pnl,
+      sentiment, trade_date, fee_unit, maker_fee, taker_fee, entry_liquidity,
+      exit_liquidity, funding, rebate, quote_usd_rate, account_id,
+      instrument_type, leverage, margin_mode, initial_margin, thesis, review,
+      lessons
+    from jsonb_populate_record(null::public.trades, trade)
+    returning id into saved_id;
+  else
+    update public.trades
+    set (
+      pair, direction, strategy, status, entry_price, exit_price, stop_loss,
+      take_profit, position_size, pnl, sentiment, trade_date, fee_unit,
+      maker_fee, taker_fee, entry_liquidity, exit_liquidity, funding, rebate,
+      quote_usd_rate, account_id, instrument_type, leverage, margin_mode,
+      initial_margin, thesis, review, lessons
+    ) = (
+      select
+        pair, direction, strategy, status, entry_price, exit_price,
+        stop_loss, take_profit, position_size, pnl, sentiment, trade_date,
+        fee_unit, maker_fee, taker_fee, entry_liquidity, exit_liquidity,
+        funding, rebate, quote_usd_rate, account_id, instrument_type,
+        leverage, margin_mode, initial_margin, thesis, review, lessons
+      from jsonb_populate_record(null::public.trades, trade)
+    )
+    where trades.id = target_id
+      and trades.user_id = public.requesting_user_id()
+      and trades.deleted_at is null
+      and (expected_updated_at is null or trades.updated_at = expected_updated_at)
+    returning id into saved_id;
+
+    if saved_id is null then
+      return null;
+    end if;
+  end if;
+
+  if fills is not null then
+    delete from public.trade_fills where trade_fills.trade_id = saved_id;
+
+    insert into public.trade_fills (trade_id, user_id, side, price, quantity, executed_at)
+    select saved_id, public.requesting_user_id(), side, price, quantity, executed_at
+    from jsonb_populate_recordset(null::public.trade_fills, fills);
+  end if;
+
+  if tag_ids is not null then
+    delete from public.trade_tags where trade_tags.trade_id = saved_id;
+
+    insert into public.trade_tags (trade_id, tag_id, user_id)
+    select saved_id, tag.id, public.requesting_user_id()
+    from unnest(tag_ids) as tag(id)
+    on conflict do nothing;
+  end if;
+
+  return saved_id;
+end
+$$;
@@ -0,0 +1,41 @@
+-- Merges one tag into another in a single transaction: every trade that
+-- carries the source tag gets the target (trades that already have it are
+-- skipped), then the source tag and its assignments are removed.
+--
+-- Security invoker, so RLS scopes both tags and every assignment to the
+-- caller; a tag id the caller cannot see merges nothing.
+
+create function public.merge_tags(source_tag_id uuid, target_tag_id uuid)
+returns void
+language plpgsql
+as $$
+begin
+  if source_tag_id = target_tag_id then
+    return;
+  end if;
+
+  if not exists (
+    select 1
+    from public.tags
+    where tags.id = target_tag_id
+      and tags.user_id = public.requesting_user_id()
+  ) then
+    raise exception 'Tag not found.';
+  end if;
+
+  insert into public.trade_tags (trade_id, tag_id, user_id)
+  select trade_tags.trade_id, target_tag_id, trade_tags.user_id
+  from public.trade_tags
+  where trade_tags.tag_id = source_tag_id
+    and trade_tags.user_id = public.requesting_user_id()
+  on conflict do nothing;
+
+  delete from public.trade_tags
+  where trade_tags.tag_id = source_tag_id
+    and trade_tags.user_id = public.requesting_user_id();
+
+  delete from public.tags
+  where tags.id = source_tag_id
+    and tags.user_id = public.requesting_user_id();
+end
+$$;
@@ -0,0 +1,59 @@
+-- Free-text strategies become Setup tags. Missing tags are created and the
+-- strategy text is cleared once its tags are assigned, so a later rename or
+-- delete of the tag is not undone by converting the same text again.
+--
+-- Legacy rows are converted once below. Imports that still send a strategy
+-- call move_strategies_to_tags for the trades they created. Security invoker,
+-- so a signed-in caller only converts their own trades; the migration itself
+-- runs as the owner and converts every user's.
+
+-- Strategy strings sometimes held several setups ("Breakout, Retest"), so
+-- they are split on "," and ";", with whitespace collapsed like
+-- normalizeTagName in lib/tags.ts and repeats (ignoring case) dropped.
+create function public.strategy_tag_names(strategy text)
+returns table (name text)
+language sql
+immutable
+as $$
+  select distinct on (lower(part.name)) part.name
+  from (
+    select regexp_replace(trim(piece), '\s+', ' ', 'g') as name, position
+    from regexp_split_to_table(strategy, '[,;]') with ordinality as pieces(piece, position)
+  ) as part
+  where part.name <> ''
+  order by lower(part.name), part.position
+$$;
+
+create function public.move_strategies_to_tags(trade_ids uuid[] default null)
+returns void
+language plpgsql
+as $$
+begin
+  insert into public.tags (user_id, name, category)
+  select distinct on (trade.user_id, lower(strategy.name))
+    trade.user_id, strategy.name, 'Setup'
+  from public.trades as trade
+    cross join lateral public.strategy_tag_names(trade.strategy) as strategy
+  where trade_ids is null or trade.id = any(trade_ids)
+  order by trade.user_id, lower(strategy.name)
+  on conflict do nothing;
+
+  insert into public.trade_tags (trade_id, tag_id, user_id)
+  select trade.id, tag.id, trade.user_id
+  from public.trades as trade
+    cross join lateral public.strategy_tag_names(trade.strategy) as strategy
+    join public.tags as tag
+      on tag.user_id = trade.user_id
+      and tag.category = 'Setup'
+      and lower(tag.name) = lower(strategy.name)
+  where trade_ids is null or trade.id = any(trade_ids)
+  on conflict do nothing;
+
+  update public.trades
+  set strategy = ''
+  where trim(trades.strategy) <> ''
+    and (trade_ids is null or trades.id = any(trade_ids));
+end
+$$;
+
+select public.move_strategies_to_tags();
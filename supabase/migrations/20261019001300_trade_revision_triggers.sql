@@ -0,0 +1,387 @@
+-- The revision log is written by triggers instead of the API, so every change
+-- is recorded whichever way it reaches the database, and users can no longer
+-- insert revisions of their own.
+--
+-- Values are stored formatted, the way lib/format.ts shows them: the log
+-- records what the trader saw, and stays readable if the trade's pair or
+-- quote asset changes later. Fills and tags live in their own tables, so
+-- their triggers add "Fills" and "Tags" changes. Everything one transaction
+-- changes on a trade is folded into a single revision, so a save_trade call
+-- or a tag merge shows up as one entry rather than a delete and an insert.
+
+drop policy "Users insert their own rows" on public.trade_revisions;
+
+-- Which transaction wrote the revision, so later changes in it fold in.
+alter table public.trade_revisions
+  add column transaction_id xid8 not null default pg_current_xact_id();
+
+-- formatCurrency: fiat gets its symbol, other assets two decimals (USD
+-- stablecoins) or up to eight, with the ticker appended.
+create function public.format_revision_amount(amount numeric, asset text)
+returns text
+language sql
+immutable
+as $$
+  select case
+    when amount is null then '—'
+    else
+      case when amount < 0 then '-' else '' end ||
+      case asset
+        when 'USD' then '$'
+        when 'EUR' then '€'
+        when 'GBP' then '£'
+        when 'JPY' then '¥'
+        when 'AUD' then 'A$'
+        when 'CAD' then 'CA$'
+        when 'CHF' then 'CHF '
+        else ''
+      end ||
+      to_char(
+        abs(amount),
+        'FM999,999,999,999,990.00' ||
+          case
+            when asset in ('USD', 'EUR', 'GBP', 'JPY', 'AUD', 'CAD', 'CHF')
+              or asset like '%USD%' then ''
+            else '999999'
+          end
+      ) ||
+      case
+        when asset in ('USD', 'EUR', 'GBP', 'JPY', 'AUD', 'CAD', 'CHF') then ''
+        else ' ' || asset
+      end
+  end
+$$;
+
+-- Notes collapse to one line and are cut at 80 characters.
+create function public.format_revision_note(note text)
+returns text
+language sql
+immutable
+as $$
+  select case
+    when cleaned.value = '' then '—'
+    when length(cleaned.value) > 80 then left(cleaned.value, 80) || '…'
+    else cleaned.value
+  end
+  from (
+    select regexp_replace(trim(coalesce(note, '')), '\s+', ' ', 'g') as value
+  ) as cleaned
+$$;
+
+create function public.format_revision_tags(tag_ids uuid[])
+returns text
+language sql
+stable
+as $$
+  select coalesce(string_agg(tags.name, ', ' order by lower(tags.name)), '—')
+  from public.tags
+  where tags.id = any(tag_ids)
+$$;
+
+-- The trade's own columns as the log shows them.
+create function public.trade_revision_fields(trade public.trades)
+returns table (sort_order integer, field text, value text)
+language sql
+stable
+as $$
+  select fields.sort_order, fields.field, fields.value
+  from (
+    select public.pair_quote_asset(trade.pair) as asset
+  ) as quote
+    cross join lateral (
+      values
+        (1, 'Pair', trade.pair),
+        (2, 'Direction', trade.direction),
+        (3, 'Status', trade.status),
+        (4, 'Date', trade.trade_date::text),
+        (5, 'Entry', public.format_revision_amount(trade.entry_price, quote.asset)),
+        (6, 'Exit', public.format_revision_amount(trade.exit_price, quote.asset)),
+        (7, 'Stop Loss', public.format_revision_amount(trade.stop_loss, quote.asset)),
+        (8, 'Take Profit', public.format_revision_amount(trade.take_profit, quote.asset)),
+        (9, 'Size', trim_scale(trade.position_size)::text),
+        (10, 'Gross PnL', public.format_revision_amount(trade.pnl, quote.asset)),
+        (
+          11,
+          'Costs',
+          public.format_revision_amount(public.trade_total_costs(trade), quote.asset)
+        ),
+        (
+          12,
+          'Instrument',
+          trade.instrument_type || ' ' || trim_scale(trade.leverage) || 'x ' || trade.margin_mode
+        ),
+        (13, 'Notes', public.format_revision_note(trade.sentiment)),
+        (14, 'Pre-Trade Thesis', public.format_revision_note(trade.thesis)),
+        (15, 'Post-Trade Review', public.format_revision_note(trade.review)),
+        (16, 'Lessons Learned', public.format_revision_note(trade.lessons))
+    ) as fields(sort_order, field, value)
+$$;
+
+-- Adds a revision, or folds `field_changes` into the one this transaction
+-- already wrote for the trade: a field keeps its first "from" and takes the
+-- latest "to", and fields that end up unchanged are dropped. Changes made in
+-- the transaction that created the trade are part of its creation.
+create function public.log_trade_revision(
+  target_trade_id uuid,
+  target_user_id text,
+  revision_action text,
+  field_changes jsonb default '[]'
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  pending public.trade_revisions;
+  merged jsonb;
+begin
+  if revision_action <> 'updated' then
+    insert into public.trade_revisions (trade_id, user_id, action, changes)
+    values (target_trade_id, target_user_id, revision_action, '[]');
+    return;
+  end if;
+
+  if field_changes = '[]'::jsonb then
+    return;
+  end if;
+
+  select *
+  into pending
+  from public.trade_revisions
+  where trade_revisions.trade_id = target_trade_id
+    and trade_revisions.transaction_id = pg_current_xact_id()
+    and trade_revisions.action in ('created', 'updated')
+  order by trade_revisions.action
+  limit 1;
+
+  if not found then
+    insert into public.trade_revisions (trade_id, user_id, action, changes)
+    values (target_trade_id, target_user_id, 'updated', field_changes);
+    return;
+  end if;
+
+  if pending.action = 'created' then
+    return;
+  end if;
+
+  with existing as (
+    select change, item_order
+    from jsonb_array_elements(pending.changes) with ordinality as items(change, item_order)
+  ),
+  incoming as (
+    select change, item_order
+    from jsonb_array_elements(field_changes) with ordinality as items(change, item_order)
+  ),
+  combined as (
+    select
+      jsonb_build_object(
+        'field', existing.change ->> 'field',
+        'from', existing.change ->> 'from',
+        'to', coalesce(incoming.change ->> 'to', existing.change ->> 'to')
+      ) as change,
+      existing.item_order
+    from existing
+      left join incoming on incoming.change ->> 'field' = existing.change ->> 'field'
+    union all
+    select incoming.change, 1000 + incoming.item_order
+    from incoming
+    where not exists (
+      select 1
+      from existing
+      where existing.change ->> 'field' = incoming.change ->> 'field'
+    )
+  )
+  select coalesce(
+    jsonb_agg(combined.change order by combined.item_order)
+      filter (where combined.change ->> 'from' <> combined.change ->> 'to'),
+    '[]'::jsonb
+  )
+  into merged
+  from combined;
+
+  if merged = '[]'::jsonb then
+    delete from public.trade_revisions where trade_revisions.id = pending.id;
+  else
+    update public.trade_revisions
+    set changes = merged
+    where trade_revisions.id = pending.id;
+  end if;
+end
+$$;
+
+-- Only the triggers below write revisions.
+revoke execute on function public.log_trade_revision(uuid, text, text, jsonb)
+  from public, anon, authenticated;
+
+create function public.record_trade_revision()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'INSERT' then
+    perform public.log_trade_revision(new.id, new.user_id, 'created');
+    return null;
+  end if;
+
+  if old.deleted_at is null and new.deleted_at is not null then
+    perform public.log_trade_revision(new.id, new.user_id, 'deleted');
+  elsif old.deleted_at is not null and new.deleted_at is null then
+    perform public.log_trade_revision(new.id, new.user_id, 'restored');
+  end if;
+
+  perform public.log_trade_revision(
+    new.id,
+    new.user_id,
+    'updated',
+    (
+      select coalesce(
+        jsonb_agg(
+          jsonb_build_object('field', before.field, 'from', before.value, 'to', after.value)
+          order by before.sort_order
+        ),
+        '[]'::jsonb
+      )
+      from public.trade_revision_fields(old) as before
+        join public.trade_revision_fields(new) as after using (sort_order)
+      where before.value is distinct from after.value
+    )
+  );
+  return null;
+end
+$$;
+
+create trigger trades_record_revision
+  after insert or update on public.trades
+  for each row
+  execute function public.record_trade_revision();
+
+-- Statement-level, so a save that replaces a trade's tags compares the whole
+-- set: the tags before are the current ones with this statement undone.
+-- Trades removed in the same statement (a purge cascading here) are skipped.
+create function public.record_trade_tag_revision()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  changed record;
+begin
+  for changed in
+    select
+      trade.id,
+      trade.user_id,
+      coalesce(array_agg(current_tags.tag_id) filter (where current_tags.tag_id is not null), '{}') as tag_ids
+    from public.trades as trade
+      left join public.trade_tags as current_tags on current_tags.trade_id = trade.id
+    where trade.id in (
+      select tag_changes.trade_id
+      from tag_changes
+    )
+    group by trade.id, trade.user_id
+  loop
+    perform public.log_trade_revision(
+      changed.id,
+      changed.user_id,
+      'updated',
+      jsonb_build_array(
+        jsonb_build_object(
+          'field', 'Tags',
+          'from', public.format_revision_tags(
+            case
+              when tg_op = 'INSERT' then array(
+                select tag_id
+                from unnest(changed.tag_ids) as tag_id
+                except
+                select tag_changes.tag_id
+                from tag_changes
+                where tag_changes.trade_id = changed.id
+              )
+              else changed.tag_ids || array(
+                select tag_changes.tag_id
+                from tag_changes
+                where tag_changes.trade_id = changed.id
+              )
+            end
+          ),
+          'to', public.format_revision_tags(changed.tag_ids)
+        )
+      )
+    );
+  end loop;
+  return null;
+end
+$$;
+
+create trigger trade_tags_record_revision_insert
+  after insert on public.trade_tags
+  referencing new table as tag_changes
+  for each statement
+  execute function public.record_trade_tag_revision();
+
+create trigger trade_tags_record_revision_delete
+  after delete on public.trade_tags
+  referencing old table as tag_changes
+  for each statement
+  execute function public.record_trade_tag_revision();
+
+create function public.record_trade_fill_revision()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform public.log_trade_revision(
+    counts.id,
+    counts.user_id,
+    'updated',
+    jsonb_build_array(
+      jsonb_build_object(
+        'field', 'Fills',
+        'from', (
+          counts.fill_count +
+            case when tg_op = 'INSERT' then -counts.changed_count else counts.changed_count end
+        )::text,
+        'to', counts.fill_count::text
+      )
+    )
+  )
+  from (
+    select
+      trade.id,
+      trade.user_id,
+      (
+        select count(*)
+        from public.trade_fills
+        where trade_fills.trade_id = trade.id
+      ) as fill_count,
+      (
+        select count(*)
+        from fill_changes
+        where fill_changes.trade_id = trade.id
+      ) as changed_count
+    from public.trades as trade
+    where trade.id in (
+      select fill_changes.trade_id
+      from fill_changes
+    )
+  ) as counts;
+  return null;
+end
+$$;
+
+create trigger trade_fills_record_revision_insert
+  after insert on public.trade_fills
+  referencing new table as fill_changes
+  for each statement
+  execute function public.record_trade_fill_revision();
+
+create trigger trade_fills_record_revision_delete
+  after delete on public.trade_fills
+  referencing old table as fill_changes
+  for each statement
+  execute function public.record_trade_fill_revision();
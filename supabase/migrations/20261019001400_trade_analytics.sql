@@ -0,0 +1,575 @@
+-- The journal's stats panels, worked out here so they cover every filtered
+-- trade without the browser loading the journal. These mirror
+-- calculatePerformanceStats and calculateGroupPerformance in lib/stats.ts,
+-- getDailyPnl, aggregateByWeekday and aggregateByHour in lib/calendar.ts,
+-- summarizeRMultiples in lib/risk.ts and calculateUnrealizedPnL in
+-- lib/trades.ts; keep them in sync.
+--
+-- Money comes back in the reporting currency. usd_rates maps each asset with
+-- a known USD value to it, stablecoin pegs included, and reporting_usd_rate
+-- is the reporting currency's; as in the app, a trade-level rate wins, and a
+-- trade is left unconverted when either side is unknown.
+--
+-- Every function is security invoker, so RLS still scopes rows to the caller.
+
+-- normalizePairKey, which keys the mark prices.
+create function public.pair_key(pair text)
+returns text
+language sql
+immutable
+as $$
+  select regexp_replace(upper(pair), '[^A-Z0-9]', '', 'g')
+$$;
+
+create function public.trade_reporting_rate(
+  trade public.trades,
+  usd_rates jsonb,
+  reporting_usd_rate numeric
+)
+returns numeric
+language sql
+stable
+as $$
+  select coalesce(
+    coalesce(
+      trade.quote_usd_rate,
+      (usd_rates ->> public.pair_quote_asset(trade.pair))::numeric
+    ) / reporting_usd_rate,
+    1
+  )
+$$;
+
+-- Volume-weighted entry fill price when the trade has fills.
+create function public.trade_average_entry_price(trade public.trades)
+returns numeric
+language sql
+stable
+as $$
+  select case
+    when fills.fill_count = 0 then trade.entry_price
+    when fills.entry_quantity > 0 then fills.entry_notional / fills.entry_quantity
+    else 0
+  end
+  from (
+    select
+      count(*) as fill_count,
+      coalesce(sum(quantity) filter (where side = 'Entry'), 0) as entry_quantity,
+      coalesce(sum(price * quantity) filter (where side = 'Entry'), 0) as entry_notional
+    from public.trade_fills
+    where trade_fills.trade_id = trade.id
+  ) as fills
+$$;
+
+create function public.trade_open_quantity(trade public.trades)
+returns numeric
+language sql
+stable
+as $$
+  select case
+    when trade.status <> 'Open' then 0
+    when fills.fill_count = 0 then trade.position_size
+    else greatest(fills.entry_quantity - fills.exit_quantity, 0)
+  end
+  from (
+    select
+      count(*) as fill_count,
+      coalesce(sum(quantity) filter (where side = 'Entry'), 0) as entry_quantity,
+      coalesce(sum(quantity) filter (where side = 'Exit'), 0) as exit_quantity
+    from public.trade_fills
+    where trade_fills.trade_id = trade.id
+  ) as fills
+$$;
+
+-- Net PnL in units of the money at risk between entry and stop, in the quote
+-- asset. Null unless the trade is closed with a stop on the losing side.
+create function public.trade_r_multiple(trade public.trades)
+returns numeric
+language sql
+stable
+as $$
+  select case
+    when trade.status = 'Closed' and risk.distance > 0 and trade.position_size <> 0 then
+      (trade.pnl - public.trade_total_costs(trade)) / (risk.distance * trade.position_size)
+  end
+  from (
+    select
+      case trade.direction
+        when 'Long' then public.trade_average_entry_price(trade) - trade.stop_loss
+        else trade.stop_loss - public.trade_average_entry_price(trade)
+      end as distance
+  ) as risk
+$$;
+
+-- One row per filtered trade with what the panels aggregate. entry_at is the
+-- first entry fill, null for trades logged without fills.
+create function public.trade_outcomes(
+  pair_filter text default '',
+  direction_filter text default 'All',
+  tag_ids uuid[] default '{}',
+  start_date date default null,
+  end_date date default null,
+  account_filter uuid default null,
+  usd_rates jsonb default '{}',
+  reporting_usd_rate numeric default null
+)
+returns table (
+  id uuid,
+  pair text,
+  direction text,
+  status text,
+  trade_date date,
+  net_pnl numeric,
+  r_multiple numeric,
+  entry_at timestamptz
+)
+language sql
+stable
+as $$
+  select
+    trade.id,
+    trade.pair,
+    trade.direction,
+    trade.status,
+    trade.trade_date,
+    (trade.pnl - public.trade_total_costs(trade)) *
+      public.trade_reporting_rate(trade, usd_rates, reporting_usd_rate),
+    public.trade_r_multiple(trade),
+    (
+      select min(trade_fills.executed_at)
+      from public.trade_fills
+      where trade_fills.trade_id = trade.id
+        and trade_fills.side = 'Entry'
+    )
+  from public.filter_trades(
+    pair_filter,
+    direction_filter,
+    tag_ids,
+    start_date,
+    end_date,
+    account_filter
+  ) as trade
+$$;
+
+-- Outcome stats for closed trades: one row for all of them ('All') and one
+-- per direction. Streaks run in date order. The Sharpe and Sortino ratios are
+-- only on the 'All' row and use net PnL per calendar day, flat days included,
+-- from the first closed trade to the last.
+create function public.summarize_trade_performance(
+  pair_filter text default '',
+  direction_filter text default 'All',
+  tag_ids uuid[] default '{}',
+  start_date date default null,
+  end_date date default null,
+  account_filter uuid default null,
+  usd_rates jsonb default '{}',
+  reporting_usd_rate numeric default null
+)
+returns table (
+  scope text,
+  trade_count bigint,
+  win_count bigint,
+  loss_count bigint,
+  win_rate numeric,
+  net_pnl numeric,
+  gross_profit numeric,
+  gross_loss numeric,
+  profit_factor numeric,
+  expectancy numeric,
+  average_win numeric,
+  average_loss numeric,
+  win_loss_ratio numeric,
+  largest_win numeric,
+  largest_loss numeric,
+  longest_win_streak bigint,
+  longest_loss_streak bigint,
+  sharpe_ratio numeric,
+  sortino_ratio numeric
+)
+language sql
+stable
+as $$
+  with closed as (
+    select outcome.id, outcome.direction, outcome.trade_date, outcome.net_pnl
+    from public.trade_outcomes(
+      pair_filter,
+      direction_filter,
+      tag_ids,
+      start_date,
+      end_date,
+      account_filter,
+      usd_rates,
+      reporting_usd_rate
+    ) as outcome
+    where outcome.status = 'Closed'
+  ),
+  scoped as (
+    select 'All' as scope, closed.*
+    from closed
+    union all
+    select closed.direction, closed.*
+    from closed
+  ),
+  totals as (
+    select
+      scoped.scope,
+      count(*) as trade_count,
+      count(*) filter (where scoped.net_pnl > 0) as win_count,
+      count(*) filter (where scoped.net_pnl < 0) as loss_count,
+      sum(scoped.net_pnl) as net_pnl,
+      coalesce(sum(scoped.net_pnl) filter (where scoped.net_pnl > 0), 0) as gross_profit,
+      coalesce(-sum(scoped.net_pnl) filter (where scoped.net_pnl < 0), 0) as gross_loss,
+      coalesce(max(scoped.net_pnl) filter (where scoped.net_pnl > 0), 0) as largest_win,
+      coalesce(min(scoped.net_pnl) filter (where scoped.net_pnl < 0), 0) as largest_loss
+    from scoped
+    group by scoped.scope
+  ),
+  runs as (
+    select
+      scoped.scope,
+      sign(scoped.net_pnl) as outcome_sign,
+      row_number() over (
+        partition by scoped.scope
+        order by scoped.trade_date, scoped.id
+      ) - row_number() over (
+        partition by scoped.scope, sign(scoped.net_pnl)
+        order by scoped.trade_date, scoped.id
+      ) as run_id
+    from scoped
+  ),
+  streaks as (
+    select
+      run_lengths.scope,
+      coalesce(max(run_lengths.length) filter (where run_lengths.outcome_sign > 0), 0)
+        as longest_win_streak,
+      coalesce(max(run_lengths.length) filter (where run_lengths.outcome_sign < 0), 0)
+        as longest_loss_streak
+    from (
+      select runs.scope, runs.outcome_sign, count(*) as length
+      from runs
+      group by runs.scope, runs.outcome_sign, runs.run_id
+    ) as run_lengths
+    group by run_lengths.scope
+  ),
+  daily as (
+    select coalesce(sum(closed.net_pnl), 0) as pnl
+    from generate_series(
+      (select min(closed.trade_date) from closed),
+      (select max(closed.trade_date) from closed),
+      interval '1 day'
+    ) as days(day)
+      left join closed on closed.trade_date = days.day::date
+    group by days.day
+  ),
+  ratios as (
+    select
+      case
+        when stddev_samp(daily.pnl) > 0 then
+          avg(daily.pnl) / stddev_samp(daily.pnl) * sqrt(365::numeric)
+      end as sharpe_ratio,
+      case
+        when count(*) >= 2 and sum(least(daily.pnl, 0) ^ 2) > 0 then
+          avg(daily.pnl) / sqrt(sum(least(daily.pnl, 0) ^ 2) / count(*)) * sqrt(365::numeric)
+      end as sortino_ratio
+    from daily
+  )
+  select
+    scopes.scope,
+    coalesce(totals.trade_count, 0),
+    coalesce(totals.win_count, 0),
+    coalesce(totals.loss_count, 0),
+    coalesce(totals.win_count::numeric / totals.trade_count, 0),
+    coalesce(totals.net_pnl, 0),
+    coalesce(totals.gross_profit, 0),
+    coalesce(totals.gross_loss, 0),
+    case when totals.gross_loss > 0 then totals.gross_profit / totals.gross_loss end,
+    coalesce(totals.net_pnl / totals.trade_count, 0),
+    coalesce(totals.gross_profit / nullif(totals.win_count, 0), 0),
+    coalesce(totals.gross_loss / nullif(totals.loss_count, 0), 0),
+    case
+      when totals.gross_loss > 0 then
+        coalesce(totals.gross_profit / nullif(totals.win_count, 0), 0) /
+          (totals.gross_loss / totals.loss_count)
+    end,
+    coalesce(totals.largest_win, 0),
+    coalesce(totals.largest_loss, 0),
+    coalesce(streaks.longest_win_streak, 0),
+    coalesce(streaks.longest_loss_streak, 0),
+    ratios.sharpe_ratio,
+    ratios.sortino_ratio
+  from (values ('All'), ('Long'), ('Short')) as scopes(scope)
+    left join totals on totals.scope = scopes.scope
+    left join streaks on streaks.scope = scopes.scope
+    left join ratios on scopes.scope = 'All'
+$$;
+
+-- Performance per setup tag or per pair (group_by 'setup' or 'pair'), leaving
+-- out cancelled trades. A trade counts towards each of its setups, or towards
+-- '' when it has none. Average R is in R, so it needs no conversion.
+create function public.summarize_trade_groups(
+  group_by text,
+  pair_filter text default '',
+  direction_filter text default 'All',
+  tag_ids uuid[] default '{}',
+  start_date date default null,
+  end_date date default null,
+  account_filter uuid default null,
+  usd_rates jsonb default '{}',
+  reporting_usd_rate numeric default null
+)
+returns table (
+  key text,
+  trade_count bigint,
+  closed_count bigint,
+  win_rate numeric,
+  net_pnl numeric,
+  profit_factor numeric,
+  average_r numeric
+)
+language sql
+stable
+as $$
+  with keyed as (
+    select
+      case
+        when group_by = 'pair' then trim(outcome.pair)
+        else coalesce(trim(setup.name), '')
+      end as key,
+      outcome.status,
+      outcome.net_pnl,
+      outcome.r_multiple
+    from public.trade_outcomes(
+      pair_filter,
+      direction_filter,
+      tag_ids,
+      start_date,
+      end_date,
+      account_filter,
+      usd_rates,
+      reporting_usd_rate
+    ) as outcome
+      left join lateral (
+        select tags.name
+        from public.trade_tags
+          join public.tags on tags.id = trade_tags.tag_id
+        where trade_tags.trade_id = outcome.id
+          and tags.category = 'Setup'
+      ) as setup on group_by = 'setup'
+    where outcome.status <> 'Cancelled'
+  ),
+  totals as (
+    select
+      keyed.key,
+      count(*) as trade_count,
+      count(*) filter (where keyed.status = 'Closed') as closed_count,
+      count(*) filter (where keyed.status = 'Closed' and keyed.net_pnl > 0) as win_count,
+      coalesce(sum(keyed.net_pnl) filter (where keyed.status = 'Closed'), 0) as net_pnl,
+      coalesce(
+        sum(keyed.net_pnl) filter (where keyed.status = 'Closed' and keyed.net_pnl > 0),
+        0
+      ) as gross_profit,
+      coalesce(
+        -sum(keyed.net_pnl) filter (where keyed.status = 'Closed' and keyed.net_pnl < 0),
+        0
+      ) as gross_loss,
+      avg(keyed.r_multiple) as average_r
+    from keyed
+    group by keyed.key
+  )
+  select
+    totals.key,
+    totals.trade_count,
+    totals.closed_count,
+    coalesce(totals.win_count::numeric / nullif(totals.closed_count, 0), 0),
+    totals.net_pnl,
+    case when totals.gross_loss > 0 then totals.gross_profit / totals.gross_loss end,
+    totals.average_r
+  from totals
+$$;
+
+-- Net PnL and trade count per trade date, leaving out cancelled trades, for
+-- the calendar.
+create function public.summarize_trade_days(
+  pair_filter text default '',
+  direction_filter text default 'All',
+  tag_ids uuid[] default '{}',
+  start_date date default null,
+  end_date date default null,
+  account_filter uuid default null,
+  usd_rates jsonb default '{}',
+  reporting_usd_rate numeric default null
+)
+returns table (trade_date date, pnl numeric, trade_count bigint)
+language sql
+stable
+as $$
+  select outcome.trade_date, sum(outcome.net_pnl), count(*)
+  from public.trade_outcomes(
+    pair_filter,
+    direction_filter,
+    tag_ids,
+    start_date,
+    end_date,
+    account_filter,
+    usd_rates,
+    reporting_usd_rate
+  ) as outcome
+  where outcome.status <> 'Cancelled'
+  group by outcome.trade_date
+  order by outcome.trade_date
+$$;
+
+-- Closed trades by weekday of the trade date (bucket_kind 'weekday', 0 for
+-- Monday) and by hour of the first entry fill in time_zone (bucket_kind
+-- 'hour'). Trades without fills have no hour. Empty buckets are left out.
+create function public.summarize_trade_times(
+  pair_filter text default '',
+  direction_filter text default 'All',
+  tag_ids uuid[] default '{}',
+  start_date date default null,
+  end_date date default null,
+  account_filter uuid default null,
+  usd_rates jsonb default '{}',
+  reporting_usd_rate numeric default null,
+  time_zone text default 'UTC'
+)
+returns table (
+  bucket_kind text,
+  bucket integer,
+  pnl numeric,
+  trade_count bigint,
+  win_count bigint
+)
+language sql
+stable
+as $$
+  with closed as (
+    select outcome.*
+    from public.trade_outcomes(
+      pair_filter,
+      direction_filter,
+      tag_ids,
+      start_date,
+      end_date,
+      account_filter,
+      usd_rates,
+      reporting_usd_rate
+    ) as outcome
+    where outcome.status = 'Closed'
+  ),
+  bucketed as (
+    select
+      'weekday' as bucket_kind,
+      extract(isodow from closed.trade_date)::integer - 1 as bucket,
+      closed.net_pnl
+    from closed
+    union all
+    select
+      'hour',
+      extract(hour from closed.entry_at at time zone time_zone)::integer,
+      closed.net_pnl
+    from closed
+    where closed.entry_at is not null
+  )
+  select
+    bucketed.bucket_kind,
+    bucketed.bucket,
+    sum(bucketed.net_pnl),
+    count(*),
+    count(*) filter (where bucketed.net_pnl > 0)
+  from bucketed
+  group by bucketed.bucket_kind, bucketed.bucket
+$$;
+
+-- R-multiple summary for closed trades with a stop. bucket_counts follows
+-- bucketEdges in lib/risk.ts: below -2R, then one bucket per R up to 3R,
+-- then 3R and above.
+create function public.summarize_r_multiples(
+  pair_filter text default '',
+  direction_filter text default 'All',
+  tag_ids uuid[] default '{}',
+  start_date date default null,
+  end_date date default null,
+  account_filter uuid default null
+)
+returns table (
+  trades_with_risk bigint,
+  average_r numeric,
+  average_win_r numeric,
+  average_loss_r numeric,
+  win_rate numeric,
+  bucket_counts bigint[]
+)
+language sql
+stable
+as $$
+  with multiples as (
+    select outcome.r_multiple as value
+    from public.trade_outcomes(
+      pair_filter,
+      direction_filter,
+      tag_ids,
+      start_date,
+      end_date,
+      account_filter
+    ) as outcome
+    where outcome.r_multiple is not null
+  )
+  select
+    count(*),
+    coalesce(avg(multiples.value), 0),
+    coalesce(avg(multiples.value) filter (where multiples.value > 0), 0),
+    coalesce(avg(multiples.value) filter (where multiples.value <= 0), 0),
+    coalesce(count(*) filter (where multiples.value > 0)::numeric / nullif(count(*), 0), 0),
+    (
+      select array_agg(
+        (
+          select count(*)
+          from multiples
+          where width_bucket(multiples.value, array[-2, -1, 0, 1, 2, 3]::numeric[]) = buckets.index
+        )
+        order by buckets.index
+      )
+      from generate_series(0, 6) as buckets(index)
+    )
+  from multiples
+$$;
+
+-- Open trades with their unrealized PnL at the mark price in mark_prices,
+-- keyed by pair_key. unrealized_pnl is null for pairs without a mark.
+create function public.summarize_open_positions(
+  pair_filter text default '',
+  direction_filter text default 'All',
+  tag_ids uuid[] default '{}',
+  start_date date default null,
+  end_date date default null,
+  account_filter uuid default null,
+  usd_rates jsonb default '{}',
+  reporting_usd_rate numeric default null,
+  mark_prices jsonb default '{}'
+)
+returns table (id uuid, unrealized_pnl numeric)
+language sql
+stable
+as $$
+  select
+    trade.id,
+    case trade.direction
+      when 'Long' then marked.price - public.trade_average_entry_price(trade)
+      else public.trade_average_entry_price(trade) - marked.price
+    end *
+      public.trade_open_quantity(trade) *
+      public.trade_reporting_rate(trade, usd_rates, reporting_usd_rate)
+  from public.filter_trades(
+    pair_filter,
+    direction_filter,
+    tag_ids,
+    start_date,
+    end_date,
+    account_filter
+  ) as trade
+    cross join lateral (
+      select (mark_prices ->> public.pair_key(trade.pair))::numeric as price
+    ) as marked
+  where trade.status = 'Open'
+  order by trade.trade_date desc, trade.id desc
+$$;
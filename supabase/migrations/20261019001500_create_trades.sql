@@ -0,0 +1,33 @@
+-- Creates many trades in one transaction, for the create route (the trade
+-- form sends one, an import many). Each item is { trade, fills, tag_ids } as
+-- save_trade takes them; free-text strategies then become Setup tags through
+-- move_strategies_to_tags. If any trade fails, none are saved.
+--
+-- Returns the new ids in the order of `items`. Security invoker like
+-- save_trade, so RLS still scopes every row.
+
+create function public.create_trades(items jsonb)
+returns uuid[]
+language plpgsql
+as $$
+declare
+  item jsonb;
+  created_ids uuid[] := '{}';
+begin
+  for item in select value from jsonb_array_elements(items)
+  loop
+    created_ids := created_ids || public.save_trade(
+      item -> 'trade',
+      nullif(item -> 'fills', 'null'::jsonb),
+      case
+        when jsonb_typeof(item -> 'tag_ids') = 'array' then
+          array(select jsonb_array_elements_text(item -> 'tag_ids')::uuid)
+      end
+    );
+  end loop;
+
+  perform public.move_strategies_to_tags(created_ids);
+
+  return created_ids;
+end
+$$;
@@ -0,0 +1,24 @@
+-- Deletes a tag and its assignments in one transaction, for DELETE
+-- /api/tags/[id]. The foreign key would cascade the assignments on its own,
+-- but they are removed first, while the tag still exists, so the revision
+-- triggers can name it in each trade's "Tags" change (as merge_tags does).
+--
+-- Security invoker, so RLS scopes the tag and its assignments to the caller.
+-- Returns false when the caller has no such tag.
+
+create function public.delete_tag(target_tag_id uuid)
+returns boolean
+language plpgsql
+as $$
+begin
+  delete from public.trade_tags
+  where trade_tags.tag_id = target_tag_id
+    and trade_tags.user_id = public.requesting_user_id();
+
+  delete from public.tags
+  where tags.id = target_tag_id
+    and tags.user_id = public.requesting_user_id();
+
+  return found;
+end
+$$;
@@ -0,0 +1,20 @@
+-- This migration and the ones after it, up to *_trade_revisions.sql, restate
+-- the base schema one feature at a time, so each feature's tables and columns
+-- can be read on their own. 20261019000000_trades_schema.sql already created
+-- all of it and has been applied, so it is left as it is, and every statement
+-- here uses `if not exists` and changes nothing on any database.
+--
+-- Partial entries and exits, one row per fill (lib/trades.ts TradeFill).
+
+create table if not exists public.trade_fills (
+  id uuid primary key default gen_random_uuid(),
+  trade_id uuid not null,
+  user_id text not null default (auth.jwt() ->> 'sub'),
+  side text not null check (side in ('Entry', 'Exit')),
+  price numeric check (price > 0),
+  quantity numeric check (quantity > 0),
+  executed_at timestamptz not null,
+  foreign key (trade_id, user_id) references public.trades (id, user_id) on delete cascade
+);
+
+create index if not exists trade_fills_trade_idx on public.trade_fills (trade_id);
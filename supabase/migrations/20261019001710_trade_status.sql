@@ -0,0 +1,4 @@
+-- Open positions have no exit yet.
+
+alter table public.trades
+  add column if not exists status text check (status in ('Open', 'Closed', 'Cancelled'));
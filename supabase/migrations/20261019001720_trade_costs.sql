@@ -0,0 +1,10 @@
+-- Fees, funding and rebates (lib/fees.ts TradeCostInputs).
+
+alter table public.trades
+  add column if not exists fee_unit text check (fee_unit in ('absolute', 'bps')),
+  add column if not exists maker_fee numeric,
+  add column if not exists taker_fee numeric,
+  add column if not exists entry_liquidity text check (entry_liquidity in ('Maker', 'Taker')),
+  add column if not exists exit_liquidity text check (exit_liquidity in ('Maker', 'Taker')),
+  add column if not exists funding numeric,
+  add column if not exists rebate numeric;
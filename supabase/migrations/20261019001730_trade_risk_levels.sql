@@ -0,0 +1,5 @@
+-- Stop loss and take profit, for R-multiples.
+
+alter table public.trades
+  add column if not exists stop_loss numeric,
+  add column if not exists take_profit numeric;
@@ -0,0 +1,4 @@
+-- The quote asset's USD value when the trade was logged (lib/currency.ts).
+
+alter table public.trades
+  add column if not exists quote_usd_rate numeric check (quote_usd_rate > 0);
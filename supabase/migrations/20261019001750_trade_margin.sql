@@ -0,0 +1,8 @@
+-- Instrument, leverage and margin (lib/margin.ts TradeMarginInputs).
+
+alter table public.trades
+  add column if not exists instrument_type text
+    check (instrument_type in ('Spot', 'Perpetual', 'Future', 'Option')),
+  add column if not exists leverage numeric check (leverage >= 1),
+  add column if not exists margin_mode text check (margin_mode in ('Isolated', 'Cross')),
+  add column if not exists initial_margin numeric;
@@ -0,0 +1,23 @@
+-- Structured tags replace the free-text strategy (lib/tags.ts).
+
+create table if not exists public.tags (
+  id uuid primary key default gen_random_uuid(),
+  user_id text not null default (auth.jwt() ->> 'sub'),
+  name text not null check (length(trim(name)) > 0),
+  category text not null check (category in ('Setup', 'Mistake', 'Market', 'Timeframe')),
+  unique (id, user_id)
+);
+
+create unique index if not exists tags_user_category_name_idx
+  on public.tags (user_id, category, lower(name));
+
+create table if not exists public.trade_tags (
+  trade_id uuid not null,
+  tag_id uuid not null,
+  user_id text not null default (auth.jwt() ->> 'sub'),
+  primary key (trade_id, tag_id),
+  foreign key (trade_id, user_id) references public.trades (id, user_id) on delete cascade,
+  foreign key (tag_id, user_id) references public.tags (id, user_id) on delete cascade
+);
+
+create index if not exists trade_tags_tag_idx on public.trade_tags (tag_id);
@@ -0,0 +1,20 @@
+-- Journal notes and screenshot attachments (lib/journal.ts).
+
+alter table public.trades
+  add column if not exists thesis text,
+  add column if not exists review text,
+  add column if not exists lessons text;
+
+create table if not exists public.trade_attachments (
+  id uuid primary key default gen_random_uuid(),
+  trade_id uuid not null,
+  user_id text not null default (auth.jwt() ->> 'sub'),
+  storage_path text not null unique,
+  file_name text not null,
+  content_type text,
+  size_bytes bigint,
+  created_at timestamptz not null default now(),
+  foreign key (trade_id, user_id) references public.trades (id, user_id) on delete cascade
+);
+
+create index if not exists trade_attachments_trade_idx on public.trade_attachments (trade_id);
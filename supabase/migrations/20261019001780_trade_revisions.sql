@@ -0,0 +1,13 @@
+-- Edit history for the trade detail view (lib/revisions.ts).
+
+create table if not exists public.trade_revisions (
+  id uuid primary key default gen_random_uuid(),
+  trade_id uuid not null,
+  user_id text not null default (auth.jwt() ->> 'sub'),
+  changed_at timestamptz not null default now(),
+  changes jsonb not null default '[]'::jsonb,
+  foreign key (trade_id, user_id) references public.trades (id, user_id) on delete cascade
+);
+
+create index if not exists trade_revisions_trade_idx
+  on public.trade_revisions (trade_id, changed_at desc);
@@ -0,0 +1,18 @@
+-- How many of the caller's trades carry each tag, for the tag manager's
+-- "used on N trades" and its delete prompt. Trades in the trash are left
+-- out, as everywhere else in the journal; tags on no trade are not listed.
+--
+-- Security invoker, so RLS scopes the tags and trades to the caller.
+
+create function public.summarize_tag_usage()
+returns table (tag_id uuid, trade_count bigint)
+language sql
+stable
+as $$
+  select trade_tags.tag_id, count(*) as trade_count
+  from public.trade_tags
+  join public.trades on trades.id = trade_tags.trade_id
+  where trade_tags.user_id = public.requesting_user_id()
+    and trades.deleted_at is null
+  group by trade_tags.tag_id
+$$;
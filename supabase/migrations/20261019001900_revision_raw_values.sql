@@ -0,0 +1,266 @@
+-- Revisions store raw values and the app formats them (lib/revisions.ts), so
+-- the log no longer copies lib/format.ts in SQL. A money change carries
+-- "format": "amount" and the quote asset of each side as "fromAsset" and
+-- "toAsset", so it stays readable if the pair changes later; a missing value
+-- is null. Revisions written before this keep their formatted strings, which
+-- have no "format" and are shown as stored.
+--
+-- Moving fills (the batch date shift) is now logged too, as the time of the
+-- trade's first fill with "format": "timestamp".
+
+drop function public.trade_revision_fields(public.trades);
+drop function public.format_revision_amount(numeric, text);
+
+-- The trade's own columns as the log stores them. asset is set on money
+-- fields only.
+create function public.trade_revision_fields(trade public.trades)
+returns table (sort_order integer, field text, value text, asset text)
+language sql
+stable
+as $$
+  select fields.sort_order, fields.field, fields.value, fields.asset
+  from (
+    select public.pair_quote_asset(trade.pair) as asset
+  ) as quote
+    cross join lateral (
+      values
+        (1, 'Pair', trade.pair, null),
+        (2, 'Direction', trade.direction, null),
+        (3, 'Status', trade.status, null),
+        (4, 'Date', trade.trade_date::text, null),
+        (5, 'Entry', trim_scale(trade.entry_price)::text, quote.asset),
+        (6, 'Exit', trim_scale(trade.exit_price)::text, quote.asset),
+        (7, 'Stop Loss', trim_scale(trade.stop_loss)::text, quote.asset),
+        (8, 'Take Profit', trim_scale(trade.take_profit)::text, quote.asset),
+        (9, 'Size', trim_scale(trade.position_size)::text, null),
+        (10, 'Gross PnL', trim_scale(trade.pnl)::text, quote.asset),
+        (11, 'Costs', trim_scale(public.trade_total_costs(trade))::text, quote.asset),
+        (
+          12,
+          'Instrument',
+          trade.instrument_type || ' ' || trim_scale(trade.leverage) || 'x ' || trade.margin_mode,
+          null
+        ),
+        (13, 'Notes', public.format_revision_note(trade.sentiment), null),
+        (14, 'Pre-Trade Thesis', public.format_revision_note(trade.thesis), null),
+        (15, 'Post-Trade Review', public.format_revision_note(trade.review), null),
+        (16, 'Lessons Learned', public.format_revision_note(trade.lessons), null)
+    ) as fields(sort_order, field, value, asset)
+$$;
+
+-- As before, but a folded field keeps its first "from" and "fromAsset" and
+-- takes the latest "to" and "toAsset". A field is unchanged when its value
+-- is, and, for a value that is set, so is its asset.
+create or replace function public.log_trade_revision(
+  target_trade_id uuid,
+  target_user_id text,
+  revision_action text,
+  field_changes jsonb default '[]'
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  pending public.trade_revisions;
+  merged jsonb;
+begin
+  if revision_action <> 'updated' then
+    insert into public.trade_revisions (trade_id, user_id, action, changes)
+    values (target_trade_id, target_user_id, revision_action, '[]');
+    return;
+  end if;
+
+  if field_changes = '[]'::jsonb then
+    return;
+  end if;
+
+  select *
+  into pending
+  from public.trade_revisions
+  where trade_revisions.trade_id = target_trade_id
+    and trade_revisions.transaction_id = pg_current_xact_id()
+    and trade_revisions.action in ('created', 'updated')
+  order by trade_revisions.action
+  limit 1;
+
+  if not found then
+    insert into public.trade_revisions (trade_id, user_id, action, changes)
+    values (target_trade_id, target_user_id, 'updated', field_changes);
+    return;
+  end if;
+
+  if pending.action = 'created' then
+    return;
+  end if;
+
+  with existing as (
+    select change, item_order
+    from jsonb_array_elements(pending.changes) with ordinality as items(change, item_order)
+  ),
+  incoming as (
+    select change, item_order
+    from jsonb_array_elements(field_changes) with ordinality as items(change, item_order)
+  ),
+  combined as (
+    select
+      case
+        when incoming.change is null then existing.change
+        else existing.change ||
+          jsonb_build_object('to', incoming.change -> 'to') ||
+          case
+            when incoming.change ? 'toAsset' then
+              jsonb_build_object('toAsset', incoming.change -> 'toAsset')
+            else '{}'::jsonb
+          end
+      end as change,
+      existing.item_order
+    from existing
+      left join incoming on incoming.change ->> 'field' = existing.change ->> 'field'
+    union all
+    select incoming.change, 1000 + incoming.item_order
+    from incoming
+    where not exists (
+      select 1
+      from existing
+      where existing.change ->> 'field' = incoming.change ->> 'field'
+    )
+  )
+  select coalesce(
+    jsonb_agg(combined.change order by combined.item_order)
+      filter (
+        where combined.change -> 'from' is distinct from combined.change -> 'to'
+          or (
+            combined.change -> 'from' <> 'null'::jsonb
+            and combined.change -> 'fromAsset' is distinct from combined.change -> 'toAsset'
+          )
+      ),
+    '[]'::jsonb
+  )
+  into merged
+  from combined;
+
+  if merged = '[]'::jsonb then
+    delete from public.trade_revisions where trade_revisions.id = pending.id;
+  else
+    update public.trade_revisions
+    set changes = merged
+    where trade_revisions.id = pending.id;
+  end if;
+end
+$$;
+
+create or replace function public.record_trade_revision()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'INSERT' then
+    perform public.log_trade_revision(new.id, new.user_id, 'created');
+    return null;
+  end if;
+
+  if old.deleted_at is null and new.deleted_at is not null then
+    perform public.log_trade_revision(new.id, new.user_id, 'deleted');
+  elsif old.deleted_at is not null and new.deleted_at is null then
+    perform public.log_trade_revision(new.id, new.user_id, 'restored');
+  end if;
+
+  perform public.log_trade_revision(
+    new.id,
+    new.user_id,
+    'updated',
+    (
+      select coalesce(
+        jsonb_agg(
+          jsonb_build_object('field', before.field, 'from', before.value, 'to', after.value) ||
+            case
+              when coalesce(before.asset, after.asset) is null then '{}'::jsonb
+              else jsonb_build_object(
+                'format', 'amount',
+                'fromAsset', before.asset,
+                'toAsset', after.asset
+              )
+            end
+          order by before.sort_order
+        ),
+        '[]'::jsonb
+      )
+      from public.trade_revision_fields(old) as before
+        join public.trade_revision_fields(new) as after using (sort_order)
+      where before.value is distinct from after.value
+        or (before.value is not null and before.asset is distinct from after.asset)
+    )
+  );
+  return null;
+end
+$$;
+
+-- Statement-level like the insert and delete triggers: the first fill before
+-- is taken over the trade's fills with this statement undone. The batch date
+-- shift moves every fill of a trade by the same offset, so the first fill
+-- stands for all of them.
+create function public.record_trade_fill_time_revision()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform public.log_trade_revision(
+    moved.id,
+    moved.user_id,
+    'updated',
+    jsonb_build_array(
+      jsonb_build_object(
+        'field', 'First Fill',
+        'format', 'timestamp',
+        'from', moved.first_before,
+        'to', moved.first_after
+      )
+    )
+  )
+  from (
+    select
+      trade.id,
+      trade.user_id,
+      (
+        select min(fill_times.executed_at)
+        from (
+          select trade_fills.executed_at
+          from public.trade_fills
+          where trade_fills.trade_id = trade.id
+            and trade_fills.id not in (
+              select fill_changes.id
+              from fill_changes
+            )
+          union all
+          select old_fills.executed_at
+          from old_fills
+          where old_fills.trade_id = trade.id
+        ) as fill_times
+      ) as first_before,
+      (
+        select min(trade_fills.executed_at)
+        from public.trade_fills
+        where trade_fills.trade_id = trade.id
+      ) as first_after
+    from public.trades as trade
+    where trade.id in (
+      select fill_changes.trade_id
+      from fill_changes
+    )
+  ) as moved
+  where moved.first_before is distinct from moved.first_after;
+  return null;
+end
+$$;
+
+create trigger trade_fills_record_revision_update
+  after update on public.trade_fills
+  referencing old table as old_fills new table as fill_changes
+  for each statement
+  execute function public.record_trade_fill_time_revision();
@@ -0,0 +1,343 @@
+-- A trade without a usable rate into the reporting currency used to be added
+-- to the stats panels unconverted, mixing currencies. trade_reporting_rate now
+-- returns null for it, so trade_outcomes gives it a null net_pnl, and the
+-- panels leave it out as convertTradeToReporting does in lib/currency.ts.
+-- R-multiples need no rate and still count it. summarize_open_positions
+-- returns a null unrealized_pnl for it, as for a position without a mark.
+
+create or replace function public.trade_reporting_rate(
+  trade public.trades,
+  usd_rates jsonb,
+  reporting_usd_rate numeric
+)
+returns numeric
+language sql
+stable
+as $$
+  select coalesce(
+    trade.quote_usd_rate,
+    (usd_rates ->> public.pair_quote_asset(trade.pair))::numeric
+  ) / reporting_usd_rate
+$$;
+
+create or replace function public.summarize_trade_performance(
+  pair_filter text default '',
+  direction_filter text default 'All',
+  tag_ids uuid[] default '{}',
+  start_date date default null,
+  end_date date default null,
+  account_filter uuid default null,
+  usd_rates jsonb default '{}',
+  reporting_usd_rate numeric default null
+)
+returns table (
+  scope text,
+  trade_count bigint,
+  win_count bigint,
+  loss_count bigint,
+  win_rate numeric,
+  net_pnl numeric,
+  gross_profit numeric,
+  gross_loss numeric,
+  profit_factor numeric,
+  expectancy numeric,
+  average_win numeric,
+  average_loss numeric,
+  win_loss_ratio numeric,
+  largest_win numeric,
+  largest_loss numeric,
+  longest_win_streak bigint,
+  longest_loss_streak bigint,
+  sharpe_ratio numeric,
+  sortino_ratio numeric
+)
+language sql
+stable
+as $$
+  with closed as (
+    select outcome.id, outcome.direction, outcome.trade_date, outcome.net_pnl
+    from public.trade_outcomes(
+      pair_filter,
+      direction_filter,
+      tag_ids,
+      start_date,
+      end_date,
+      account_filter,
+      usd_rates,
+      reporting_usd_rate
+    ) as outcome
+    where outcome.status = 'Closed'
+      and outcome.net_pnl is not null
+  ),
+  scoped as (
+    select 'All' as scope, closed.*
+    from closed
+    union all
+    select closed.direction, closed.*
+    from closed
+  ),
+  totals as (
+    select
+      scoped.scope,
+      count(*) as trade_count,
+      count(*) filter (where scoped.net_pnl > 0) as win_count,
+      count(*) filter (where scoped.net_pnl < 0) as loss_count,
+      sum(scoped.net_pnl) as net_pnl,
+      coalesce(sum(scoped.net_pnl) filter (where scoped.net_pnl > 0), 0) as gross_profit,
+      coalesce(-sum(scoped.net_pnl) filter (where scoped.net_pnl < 0), 0) as gross_loss,
+      coalesce(max(scoped.net_pnl) filter (where scoped.net_pnl > 0), 0) as largest_win,
+      coalesce(min(scoped.net_pnl) filter (where scoped.net_pnl < 0), 0) as largest_loss
+    from scoped
+    group by scoped.scope
+  ),
+  runs as (
+    select
+      scoped.scope,
+      sign(scoped.net_pnl) as outcome_sign,
+      row_number() over (
+        partition by scoped.scope
+        order by scoped.trade_date, scoped.id
+      ) - row_number() over (
+        partition by scoped.scope, sign(scoped.net_pnl)
+        order by scoped.trade_date, scoped.id
+      ) as run_id
+    from scoped
+  ),
+  streaks as (
+    select
+      run_lengths.scope,
+      coalesce(max(run_lengths.length) filter (where run_lengths.outcome_sign > 0), 0)
+        as longest_win_streak,
+      coalesce(max(run_lengths.length) filter (where run_lengths.outcome_sign < 0), 0)
+        as longest_loss_streak
+    from (
+      select runs.scope, runs.outcome_sign, count(*) as length
+      from runs
+      group by runs.scope, runs.outcome_sign, runs.run_id
+    ) as run_lengths
+    group by run_lengths.scope
+  ),
+  daily as (
+    select coalesce(sum(closed.net_pnl), 0) as pnl
+    from generate_series(
+      (select min(closed.trade_date) from closed),
+      (select max(closed.trade_date) from closed),
+      interval '1 day'
+    ) as days(day)
+      left join closed on closed.trade_date = days.day::date
+    group by days.day
+  ),
+  ratios as (
+    select
+      case
+        when stddev_samp(daily.pnl) > 0 then
+          avg(daily.pnl) / stddev_samp(daily.pnl) * sqrt(365::numeric)
+      end as sharpe_ratio,
+      case
+        when count(*) >= 2 and sum(least(daily.pnl, 0) ^ 2) > 0 then
+          avg(daily.pnl) / sqrt(sum(least(daily.pnl, 0) ^ 2) / count(*)) * sqrt(365::numeric)
+      end as sortino_ratio
+    from daily
+  )
+  select
+    scopes.scope,
+    coalesce(totals.trade_count, 0),
+    coalesce(totals.win_count, 0),
+    coalesce(totals.loss_count, 0),
+    coalesce(totals.win_count::numeric / totals.trade_count, 0),
+    coalesce(totals.net_pnl, 0),
+    coalesce(totals.gross_profit, 0),
+    coalesce(totals.gross_loss, 0),
+    case when totals.gross_loss > 0 then totals.gross_profit / totals.gross_loss end,
+    coalesce(totals.net_pnl / totals.trade_count, 0),
+    coalesce(totals.gross_profit / nullif(totals.win_count, 0), 0),
+    coalesce(totals.gross_loss / nullif(totals.loss_count, 0), 0),
+    case
+      when totals.gross_loss > 0 then
+        coalesce(totals.gross_profit / nullif(totals.win_count, 0), 0) /
+          (totals.gross_loss / totals.loss_count)
+    end,
+    coalesce(totals.largest_win, 0),
+    coalesce(totals.largest_loss, 0),
+    coalesce(streaks.longest_win_streak, 0),
+    coalesce(streaks.longest_loss_streak, 0),
+    ratios.sharpe_ratio,
+    ratios.sortino_ratio
+  from (values ('All'), ('Long'), ('Short')) as scopes(scope)
+    left join totals on totals.scope = scopes.scope
+    left join streaks on streaks.scope = scopes.scope
+    left join ratios on scopes.scope = 'All'
+$$;
+
+create or replace function public.summarize_trade_groups(
+  group_by text,
+  pair_filter text default '',
+  direction_filter text default 'All',
+  tag_ids uuid[] default '{}',
+  start_date date default null,
+  end_date date default null,
+  account_filter uuid default null,
+  usd_rates jsonb default '{}',
+  reporting_usd_rate numeric default null
+)
+returns table (
+  key text,
+  trade_count bigint,
+  closed_count bigint,
+  win_rate numeric,
+  net_pnl numeric,
+  profit_factor numeric,
+  average_r numeric
+)
+language sql
+stable
+as $$
+  with keyed as (
+    select
+      case
+        when group_by = 'pair' then trim(outcome.pair)
+        else coalesce(trim(setup.name), '')
+      end as key,
+      outcome.status,
+      outcome.net_pnl,
+      outcome.r_multiple
+    from public.trade_outcomes(
+      pair_filter,
+      direction_filter,
+      tag_ids,
+      start_date,
+      end_date,
+      account_filter,
+      usd_rates,
+      reporting_usd_rate
+    ) as outcome
+      left join lateral (
+        select tags.name
+        from public.trade_tags
+          join public.tags on tags.id = trade_tags.tag_id
+        where trade_tags.trade_id = outcome.id
+          and tags.category = 'Setup'
+      ) as setup on group_by = 'setup'
+    where outcome.status <> 'Cancelled'
+      and outcome.net_pnl is not null
+  ),
+  totals as (
+    select
+      keyed.key,
+      count(*) as trade_count,
+      count(*) filter (where keyed.status = 'Closed') as closed_count,
+      count(*) filter (where keyed.status = 'Closed' and keyed.net_pnl > 0) as win_count,
+      coalesce(sum(keyed.net_pnl) filter (where keyed.status = 'Closed'), 0) as net_pnl,
+      coalesce(
+        sum(keyed.net_pnl) filter (where keyed.status = 'Closed' and keyed.net_pnl > 0),
+        0
+      ) as gross_profit,
+      coalesce(
+        -sum(keyed.net_pnl) filter (where keyed.status = 'Closed' and keyed.net_pnl < 0),
+        0
+      ) as gross_loss,
+      avg(keyed.r_multiple) as average_r
+    from keyed
+    group by keyed.key
+  )
+  select
+    totals.key,
+    totals.trade_count,
+    totals.closed_count,
+    coalesce(totals.win_count::numeric / nullif(totals.closed_count, 0), 0),
+    totals.net_pnl,
+    case when totals.gross_loss > 0 then totals.gross_profit / totals.gross_loss end,
+    totals.average_r
+  from totals
+$$;
+
+create or replace function public.summarize_trade_days(
+  pair_filter text default '',
+  direction_filter text default 'All',
+  tag_ids uuid[] default '{}',
+  start_date date default null,
+  end_date date default null,
+  account_filter uuid default null,
+  usd_rates jsonb default '{}',
+  reporting_usd_rate numeric default null
+)
+returns table (trade_date date, pnl numeric, trade_count bigint)
+language sql
+stable
+as $$
+  select outcome.trade_date, sum(outcome.net_pnl), count(*)
+  from public.trade_outcomes(
+    pair_filter,
+    direction_filter,
+    tag_ids,
+    start_date,
+    end_date,
+    account_filter,
+    usd_rates,
+    reporting_usd_rate
+  ) as outcome
+  where outcome.status <> 'Cancelled'
+    and outcome.net_pnl is not null
+  group by outcome.trade_date
+  order by outcome.trade_date
+$$;
+
+create or replace function public.summarize_trade_times(
+  pair_filter text default '',
+  direction_filter text default 'All',
+  tag_ids uuid[] default '{}',
+  start_date date default null,
+  end_date date default null,
+  account_filter uuid default null,
+  usd_rates jsonb default '{}',
+  reporting_usd_rate numeric default null,
+  time_zone text default 'UTC'
+)
+returns table (
+  bucket_kind text,
+  bucket integer,
+  pnl numeric,
+  trade_count bigint,
+  win_count bigint
+)
+language sql
+stable
+as $$
+  with closed as (
+    select outcome.*
+    from public.trade_outcomes(
+      pair_filter,
+      direction_filter,
+      tag_ids,
+      start_date,
+      end_date,
+      account_filter,
+      usd_rates,
+      reporting_usd_rate
+    ) as outcome
+    where outcome.status = 'Closed'
+      and outcome.net_pnl is not null
+  ),
+  bucketed as (
+    select
+      'weekday' as bucket_kind,
+      extract(isodow from closed.trade_date)::integer - 1 as bucket,
+      closed.net_pnl
+    from closed
+    union all
+    select
+      'hour',
+      extract(hour from closed.entry_at at time zone time_zone)::integer,
+      closed.net_pnl
+    from closed
+    where closed.entry_at is not null
+  )
+  select
+    bucketed.bucket_kind,
+    bucketed.bucket,
+    sum(bucketed.net_pnl),
+    count(*),
+    count(*) filter (where bucketed.net_pnl > 0)
+  from bucketed
+  group by bucketed.bucket_kind, bucketed.bucket
+$$;
@@ -0,0 +1,208 @@
+-- The Sharpe and Sortino ratios were taken over daily PnL amounts, so they
+-- grew with position size and could not be compared across accounts. They
+-- now use daily returns, as getDailyReturns in lib/stats.ts does: each day's
+-- PnL over the equity it was made with, the starting balances and transfers
+-- of the accounts in scope (every account, or account_filter's) converted
+-- into the reporting currency, plus the PnL of the days before. Days with no
+-- equity left are skipped. Without an account, or with one that has no rate,
+-- the ratios are null. Both are annualised over 365 days.
+
+create or replace function public.summarize_trade_performance(
+  pair_filter text default '',
+  direction_filter text default 'All',
+  tag_ids uuid[] default '{}',
+  start_date date default null,
+  end_date date default null,
+  account_filter uuid default null,
+  usd_rates jsonb default '{}',
+  reporting_usd_rate numeric default null
+)
+returns table (
+  scope text,
+  trade_count bigint,
+  win_count bigint,
+  loss_count bigint,
+  win_rate numeric,
+  net_pnl numeric,
+  gross_profit numeric,
+  gross_loss numeric,
+  profit_factor numeric,
+  expectancy numeric,
+  average_win numeric,
+  average_loss numeric,
+  win_loss_ratio numeric,
+  largest_win numeric,
+  largest_loss numeric,
+  longest_win_streak bigint,
+  longest_loss_streak bigint,
+  sharpe_ratio numeric,
+  sortino_ratio numeric
+)
+language sql
+stable
+as $$
+  with closed as (
+    select outcome.id, outcome.direction, outcome.trade_date, outcome.net_pnl
+    from public.trade_outcomes(
+      pair_filter,
+      direction_filter,
+      tag_ids,
+      start_date,
+      end_date,
+      account_filter,
+      usd_rates,
+      reporting_usd_rate
+    ) as outcome
+    where outcome.status = 'Closed'
+      and outcome.net_pnl is not null
+  ),
+  scoped as (
+    select 'All' as scope, closed.*
+    from closed
+    union all
+    select closed.direction, closed.*
+    from closed
+  ),
+  totals as (
+    select
+      scoped.scope,
+      count(*) as trade_count,
+      count(*) filter (where scoped.net_pnl > 0) as win_count,
+      count(*) filter (where scoped.net_pnl < 0) as loss_count,
+      sum(scoped.net_pnl) as net_pnl,
+      coalesce(sum(scoped.net_pnl) filter (where scoped.net_pnl > 0), 0) as gross_profit,
+      coalesce(-sum(scoped.net_pnl) filter (where scoped.net_pnl < 0), 0) as gross_loss,
+      coalesce(max(scoped.net_pnl) filter (where scoped.net_pnl > 0), 0) as largest_win,
+      coalesce(min(scoped.net_pnl) filter (where scoped.net_pnl < 0), 0) as largest_loss
+    from scoped
+    group by scoped.scope
+  ),
+  runs as (
+    select
+      scoped.scope,
+      sign(scoped.net_pnl) as outcome_sign,
+      row_number() over (
+        partition by scoped.scope
+        order by scoped.trade_date, scoped.id
+      ) - row_number() over (
+        partition by scoped.scope, sign(scoped.net_pnl)
+        order by scoped.trade_date, scoped.id
+      ) as run_id
+    from scoped
+  ),
+  streaks as (
+    select
+      run_lengths.scope,
+      coalesce(max(run_lengths.length) filter (where run_lengths.outcome_sign > 0), 0)
+        as longest_win_streak,
+      coalesce(max(run_lengths.length) filter (where run_lengths.outcome_sign < 0), 0)
+        as longest_loss_streak
+    from (
+      select runs.scope, runs.outcome_sign, count(*) as length
+      from runs
+      group by runs.scope, runs.outcome_sign, runs.run_id
+    ) as run_lengths
+    group by run_lengths.scope
+  ),
+  capital_accounts as (
+    select
+      accounts.id,
+      accounts.starting_balance,
+      (usd_rates ->> accounts.base_currency)::numeric / reporting_usd_rate as rate
+    from public.accounts
+    where account_filter is null
+      or accounts.id = account_filter
+  ),
+  capital as (
+    select
+      case
+        when count(*) > 0 and bool_and(capital_accounts.rate is not null) then
+          sum(capital_accounts.starting_balance * capital_accounts.rate)
+      end as starting_balance
+    from capital_accounts
+  ),
+  days as (
+    select
+      days.day::date as day,
+      coalesce(sum(closed.net_pnl), 0) as pnl
+    from generate_series(
+      (select min(closed.trade_date) from closed),
+      (select max(closed.trade_date) from closed),
+      interval '1 day'
+    ) as days(day)
+      left join closed on closed.trade_date = days.day::date
+    group by days.day
+  ),
+  equity as (
+    select
+      days.pnl,
+      capital.starting_balance +
+        coalesce(
+          (
+            select sum(
+              case when account_transfers.kind = 'Deposit' then 1 else -1 end *
+                account_transfers.amount * capital_accounts.rate
+            )
+            from public.account_transfers
+              join capital_accounts on capital_accounts.id = account_transfers.account_id
+            where account_transfers.transferred_at <= days.day
+          ),
+          0
+        ) +
+        coalesce(
+          sum(days.pnl) over (
+            order by days.day
+            rows between unbounded preceding and 1 preceding
+          ),
+          0
+        ) as amount
+    from days
+      cross join capital
+  ),
+  daily as (
+    select equity.pnl / equity.amount as daily_return
+    from equity
+    where equity.amount > 0
+  ),
+  ratios as (
+    select
+      case
+        when stddev_samp(daily.daily_return) > 0 then
+          avg(daily.daily_return) / stddev_samp(daily.daily_return) * sqrt(365::numeric)
+      end as sharpe_ratio,
+      case
+        when count(*) >= 2 and sum(least(daily.daily_return, 0) ^ 2) > 0 then
+          avg(daily.daily_return) /
+            sqrt(sum(least(daily.daily_return, 0) ^ 2) / count(*)) * sqrt(365::numeric)
+      end as sortino_ratio
+    from daily
+  )
+  select
+    scopes.scope,
+    coalesce(totals.trade_count, 0),
+    coalesce(totals.win_count, 0),
+    coalesce(totals.loss_count, 0),
+    coalesce(totals.win_count::numeric / totals.trade_count, 0),
+    coalesce(totals.net_pnl, 0),
+    coalesce(totals.gross_profit, 0),
+    coalesce(totals.gross_loss, 0),
+    case when totals.gross_loss > 0 then totals.gross_profit / totals.gross_loss end,
+    coalesce(totals.net_pnl / totals.trade_count, 0),
+    coalesce(totals.gross_profit / nullif(totals.win_count, 0), 0),
+    coalesce(totals.gross_loss / nullif(totals.loss_count, 0), 0),
+    case
+      when totals.gross_loss > 0 then
+        coalesce(totals.gross_profit / nullif(totals.win_count, 0), 0) /
+          (totals.gross_loss / totals.loss_count)
+    end,
+    coalesce(totals.largest_win, 0),
+    coalesce(totals.largest_loss, 0),
+    coalesce(streaks.longest_win_streak, 0),
+    coalesce(streaks.longest_loss_streak, 0),
+    ratios.sharpe_ratio,
+    ratios.sortino_ratio
+  from (values ('All'), ('Long'), ('Short')) as scopes(scope)
+    left join totals on totals.scope = scopes.scope
+    left join streaks on streaks.scope = scopes.scope
+    left join ratios on scopes.scope = 'All'
+$$;
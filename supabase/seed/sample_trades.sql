@@ -0,0 +1,101 @@
+-- Sample journal for local development: a few weeks of spot and perpetual
+-- trades with fills, tags and notes. Dates are relative to today so the
+-- calendar and equity curve always have recent data.
+--
+-- Rows belong to the Clerk user in the app.seed_user_id setting (see
+-- scripts/seed.sh). Re-running replaces that user's trades and tags.
+
+do $$
+declare
+  seed_user text := nullif(current_setting('app.seed_user_id', true), '');
+  trade record;
+  trade_id uuid;
+  tag_name text;
+begin
+  if seed_user is null then
+    raise exception 'Set app.seed_user_id to the Clerk user id to seed.';
+  end if;
+
+  delete from public.trades where user_id = seed_user;
+  delete from public.tags where user_id = seed_user;
+
+  insert into public.tags (user_id, name, category)
+  values
+    (seed_user, 'Breakout', 'Setup'),
+    (seed_user, 'Range Fade', 'Setup'),
+    (seed_user, 'Trend Pullback', 'Setup'),
+    (seed_user, 'Funding Squeeze', 'Setup'),
+    (seed_user, 'Moved Stop', 'Mistake'),
+    (seed_user, 'Oversized', 'Mistake'),
+    (seed_user, 'Early Exit', 'Mistake'),
+    (seed_user, 'Trending', 'Market'),
+    (seed_user, 'Choppy', 'Market'),
+    (seed_user, '4H', 'Timeframe'),
+    (seed_user, '15m', 'Timeframe');
+
+  for trade in
+    select *
+    from (
+      values
+        ('BTC/USDT', 'Long', 'Closed', 61250, 63480, 60400, 64000, 0.5, 1115, 41, 'Perpetual', 5, 'Clean break of the weekly high.', 'Breakout,Trending,4H', 'Weekly range high broke with volume; invalidation under the retest low.', 'Took 2/3 at the measured move, trailed the rest.', 'Let winners run when the retest holds.'),
+        ('ETH/USDT', 'Short', 'Closed', 3420, 3466, 3480, 3300, 4, -184, 38, 'Perpetual', 10, 'Faded the range top too early.', 'Range Fade,Choppy,15m,Early Exit', 'Range top rejection twice already.', 'Range broke instead; stopped near the high.', 'Wait for a failed breakout, not the first touch.'),
+        ('SOL/USDT', 'Long', 'Closed', 142.5, 151.2, 138, 155, 40, 348, 35, 'Spot', 1, 'Pullback to the 20 EMA in an uptrend.', 'Trend Pullback,Trending,4H', 'Higher lows on 4H, pullback into prior breakout level.', 'Exited before target into resistance.', ''),
+        ('BTC/USDT', 'Short', 'Closed', 64800, 65350, 65600, 62500, 0.3, -165, 31, 'Perpetual', 8, 'Funding very positive, no follow-through.', 'Funding Squeeze,Choppy,15m', 'Longs paying 0.05% per 8h into resistance.', 'Squeeze never came; cut at the stop.', 'Funding alone is not a trigger.'),
+        ('ETH/BTC', 'Long', 'Closed', 0.0521, 0.0538, 0.0512, 0.0545, 20, 0.034, 28, 'Spot', 1, 'Ratio reclaiming range.', 'Breakout,Trending,4H', 'ETH/BTC reclaimed the three-month range low.', 'Worked; closed ahead of the weekend.', ''),
+        ('DOGE/USDT', 'Long', 'Closed', 0.162, 0.149, 0.155, 0.18, 20000, -260, 26, 'Perpetual', 10, 'Chased the move.', 'Breakout,Choppy,15m,Oversized,Moved Stop', '', 'Entered late and widened the stop.', 'Size down on late entries; never move the stop.'),
+        ('BTC/USDT', 'Long', 'Closed', 62900, 64150, 62300, 64500, 0.6, 750, 22, 'Perpetual', 5, 'Retest of broken resistance.', 'Trend Pullback,Trending,4H', 'Old resistance retested as support.', 'Partial at 1R, rest at target minus spread.', ''),
+        ('SOL/USDT', 'Short', 'Cancelled', 158, null, 162, 148, 30, 0, 19, 'Perpetual', 5, 'Order never filled.', 'Range Fade,Choppy,15m', '', '', ''),
+        ('AVAX/USDT', 'Long', 'Closed', 34.8, 36.9, 33.9, 37.5, 150, 315, 16, 'Spot', 1, 'Higher-timeframe breakout.', 'Breakout,Trending,4H', 'Daily close above the descending trendline.', 'Hit target minus fees.', ''),
+        ('ETH/USDT', 'Long', 'Closed', 3310, 3395, 3270, 3420, 5, 425, 12, 'Perpetual', 3, 'Bounce from weekly VWAP.', 'Trend Pullback,Trending,4H', 'Weekly VWAP held twice on the 4H.', 'Closed into the prior high.', ''),
+        ('BTC/USDT', 'Short', 'Closed', 65200, 64980, 65700, 63800, 0.4, 88, 9, 'Perpetual', 5, 'Scalp at range high.', 'Range Fade,Choppy,15m,Early Exit', '', 'Took profit early on a wick.', 'Hold to the first target.'),
+        ('LINK/USDT', 'Long', 'Closed', 14.9, 14.35, 14.4, 16.2, 600, -330, 6, 'Spot', 1, 'Breakout failed.', 'Breakout,Choppy,4H', 'Range breakout with OI rising.', 'Fell back inside the range; stopped.', ''),
+        ('BTC/USDT', 'Long', 'Open', 64100, null, 63200, 66800, 0.4, 0, 3, 'Perpetual', 4, 'Holding into the weekly close.', 'Trend Pullback,Trending,4H', 'Pullback to the daily 20 EMA after a new high.', '', ''),
+        ('ETH/USDT', 'Long', 'Open', 3450, null, 3360, 3650, 3, 0, 1, 'Spot', 1, 'Spot add on dip.', 'Trend Pullback,Trending,4H', 'Spot accumulation on the weekly uptrend.', '', '')
+    ) as sample (
+      pair, direction, status, entry_price, exit_price, stop_loss, take_profit,
+      position_size, pnl, days_ago, instrument_type, leverage, sentiment, tag_names,
+      thesis, review, lessons
+    )
+  loop
+    insert into public.trades (
+      user_id, pair, direction, status, entry_price, exit_price, stop_loss,
+      take_profit, position_size, pnl, trade_date, sentiment, fee_unit,
+      maker_fee, taker_fee, entry_liquidity, exit_liquidity, funding, rebate,
+      instrument_type, leverage, margin_mode, thesis, review, lessons
+    )
+    values (
+      seed_user, trade.pair, trade.direction, trade.status, trade.entry_price,
+      trade.exit_price, trade.stop_loss, trade.take_profit, trade.position_size,
+      trade.pnl, current_date - trade.days_ago, trade.sentiment, 'bps', 2, 5,
+      'Taker', 'Maker',
+      case when trade.instrument_type = 'Perpetual' then -round(trade.position_size * trade.entry_price * 0.0001, 2) else 0 end,
+      0, trade.instrument_type, trade.leverage, 'Isolated',
+      nullif(trade.thesis, ''), nullif(trade.review, ''), nullif(trade.lessons, '')
+    )
+    returning id into trade_id;
+
+    if trade.status <> 'Cancelled' then
+      insert into public.trade_fills (trade_id, user_id, side, price, quantity, executed_at)
+      values (
+        trade_id, seed_user, 'Entry', trade.entry_price, trade.position_size,
+        (current_date - trade.days_ago) + time '09:30'
+      );
+    end if;
+
+    if trade.status = 'Closed' then
+      insert into public.trade_fills (trade_id, user_id, side, price, quantity, executed_at)
+      values (
+        trade_id, seed_user, 'Exit', trade.exit_price, trade.position_size,
+        (current_date - trade.days_ago) + time '16:45'
+      );
+    end if;
+
+    foreach tag_name in array string_to_array(trade.tag_names, ',') loop
+      insert into public.trade_tags (trade_id, tag_id, user_id)
+      select trade_id, tags.id, seed_user
+      from public.tags
+      where tags.user_id = seed_user and tags.name = tag_name;
+    end loop;
+  end loop;
+end
+$$;
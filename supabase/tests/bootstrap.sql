@@ -0,0 +1,29 @@
+-- Recreates the pieces of a Supabase database the migrations rely on, so they
+-- can run against a plain local Postgres. auth.jwt() reads the same
+-- request.jwt.claims setting PostgREST sets for each request.
+
+create schema if not exists auth;
+
+create or replace function auth.jwt()
+returns jsonb
+language sql
+stable
+as $$
+  select coalesce(nullif(current_setting('request.jwt.claims', true), ''), '{}')::jsonb
+$$;
+
+do $$
+begin
+  if not exists (select 1 from pg_roles where rolname = 'anon') then
+    create role anon nologin;
+  end if;
+  if not exists (select 1 from pg_roles where rolname = 'authenticated') then
+    create role authenticated nologin;
+  end if;
+end
+$$;
+
+grant usage on schema public, auth to anon, authenticated;
+grant execute on function auth.jwt() to anon, authenticated;
+alter default privileges in schema public
+  grant select, insert, update, delete on tables to anon, authenticated;
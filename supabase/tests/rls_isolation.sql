@@ -0,0 +1,245 @@
+-- Signs in as two Clerk users and checks that neither can read, change or
+-- attach to the other's rows. Any failed expectation raises and stops psql.
+
+create function pg_temp.sign_in(user_id text)
+returns void
+language sql
+as $$
+  select set_config('request.jwt.claims', json_build_object('sub', user_id, 'role', 'authenticated')::text, true);
+  select set_config('role', 'authenticated', true);
+$$;
+
+create function pg_temp.expect(condition boolean, message text)
+returns void
+language plpgsql
+as $$
+begin
+  if not condition then
+    raise exception 'RLS check failed: %', message;
+  end if;
+end
+$$;
+
+-- user_a logs a trade in an account with a deposit, a fill and a tag, which
+-- the triggers record as revisions.
+select pg_temp.sign_in('user_a');
+
+insert into public.accounts (id, name, exchange, starting_balance)
+values ('00000000-0000-0000-0000-0000000000a2', 'Main', 'Binance', 1000);
+
+insert into public.account_transfers (account_id, kind, amount, transferred_at)
+values ('00000000-0000-0000-0000-0000000000a2', 'Deposit', 500, '2026-01-01');
+
+insert into public.trades (id, pair, direction, status, entry_price, pnl, trade_date, account_id)
+values ('00000000-0000-0000-0000-00000000000a', 'BTC/USDT', 'Long', 'Open', 60000, 0, '2026-01-02', '00000000-0000-0000-0000-0000000000a2');
+
+insert into public.trade_fills (trade_id, side, price, quantity, executed_at)
+values ('00000000-0000-0000-0000-00000000000a', 'Entry', 60000, 1, '2026-01-02T10:00:00Z');
+
+insert into public.tags (id, name, category)
+values ('00000000-0000-0000-0000-0000000000a1', 'Breakout', 'Setup');
+
+insert into public.trade_tags (trade_id, tag_id)
+values ('00000000-0000-0000-0000-00000000000a', '00000000-0000-0000-0000-0000000000a1');
+
+insert into public.tax_lot_selections (disposal_id, lot_ids)
+values ('00000000-0000-0000-0000-00000000000a:exit', array['00000000-0000-0000-0000-00000000000a:entry']);
+
+select pg_temp.expect(
+  (select user_id from public.trades where id = '00000000-0000-0000-0000-00000000000a') = 'user_a',
+  'user_id defaults to the signed-in Clerk user'
+);
+select pg_temp.expect(
+  (select count(*) from public.trade_revisions where action = 'created') = 1,
+  'creating a trade records a revision'
+);
+
+do $$
+begin
+  insert into public.trade_revisions (trade_id, changes)
+  values ('00000000-0000-0000-0000-00000000000a', '[]');
+  raise exception 'RLS check failed: user_a wrote a revision directly';
+exception
+  when insufficient_privilege then null;
+end
+$$;
+
+-- user_b sees none of it.
+select pg_temp.sign_in('user_b');
+
+select pg_temp.expect((select count(*) from public.trades) = 0, 'user_b cannot read trades');
+select pg_temp.expect((select count(*) from public.trade_fills) = 0, 'user_b cannot read fills');
+select pg_temp.expect((select count(*) from public.tags) = 0, 'user_b cannot read tags');
+select pg_temp.expect((select count(*) from public.trade_tags) = 0, 'user_b cannot read trade tags');
+select pg_temp.expect((select count(*) from public.trade_revisions) = 0, 'user_b cannot read revisions');
+select pg_temp.expect((select count(*) from public.tax_lot_selections) = 0, 'user_b cannot read tax lot selections');
+select pg_temp.expect((select count(*) from public.accounts) = 0, 'user_b cannot read accounts');
+select pg_temp.expect((select count(*) from public.account_transfers) = 0, 'user_b cannot read transfers');
+select pg_temp.expect(
+  (select count(*) from public.search_trades(account_filter => '00000000-0000-0000-0000-0000000000a2')) = 0,
+  'user_b cannot search user_a''s account'
+);
+select pg_temp.expect((select count(*) from public.search_trades()) = 0, 'user_b cannot search trades');
+select pg_temp.expect((select count(*) from public.summarize_trades()) = 0, 'user_b cannot summarize trades');
+
+-- Updates and deletes silently match zero rows.
+with changed as (
+  update public.trades set pnl = 999 where id = '00000000-0000-0000-0000-00000000000a' returning id
+)
+select pg_temp.expect((select count(*) from changed) = 0, 'user_b cannot update trades');
+
+with removed as (
+  delete from public.trades where id = '00000000-0000-0000-0000-00000000000a' returning id
+)
+select pg_temp.expect((select count(*) from removed) = 0, 'user_b cannot delete trades');
+
+with removed as (
+  delete from public.trade_fills returning id
+)
+select pg_temp.expect((select count(*) from removed) = 0, 'user_b cannot delete fills');
+
+-- Batch changes skip user_a's trade and report it as not found.
+select pg_temp.expect(
+  (
+    select error
+    from public.apply_trade_batch(array['00000000-0000-0000-0000-00000000000a']::uuid[], 'delete')
+  ) = 'Trade not found.',
+  'user_b cannot batch-delete trades'
+);
+
+-- Writing rows that claim to be user_a's, or that hang off user_a's trade,
+-- is rejected.
+do $$
+begin
+  insert into public.trades (pair, direction, entry_price, pnl, trade_date, user_id)
+  values ('ETH/USDT', 'Short', 3000, 0, '2026-01-03', 'user_a');
+  raise exception 'RLS check failed: user_b inserted a trade as user_a';
+exception
+  when insufficient_privilege then null;
+end
+$$;
+
+do $$
+begin
+  insert into public.tax_lot_selections (disposal_id, lot_ids, user_id)
+  values ('other:exit', array['other:entry'], 'user_a');
+  raise exception 'RLS check failed: user_b inserted a tax lot selection as user_a';
+exception
+  when insufficient_privilege then null;
+end
+$$;
+
+do $$
+begin
+  insert into public.accounts (name, user_id)
+  values ('Stolen', 'user_a');
+  raise exception 'RLS check failed: user_b inserted an account as user_a';
+exception
+  when insufficient_privilege then null;
+end
+$$;
+
+do $$
+begin
+  insert into public.account_transfers (account_id, kind, amount, transferred_at)
+  values ('00000000-0000-0000-0000-0000000000a2', 'Withdrawal', 500, '2026-01-03');
+  raise exception 'RLS check failed: user_b withdrew from user_a''s account';
+exception
+  when foreign_key_violation or insufficient_privilege then null;
+end
+$$;
+
+do $$
+begin
+  insert into public.trades (pair, direction, entry_price, pnl, trade_date, account_id)
+  values ('ETH/USDT', 'Long', 3000, 0, '2026-01-03', '00000000-0000-0000-0000-0000000000a2');
+  raise exception 'RLS check failed: user_b logged a trade in user_a''s account';
+exception
+  when foreign_key_violation or insufficient_privilege then null;
+end
+$$;
+
+do $$
+begin
+  insert into public.trade_fills (trade_id, side, price, quantity, executed_at)
+  values ('00000000-0000-0000-0000-00000000000a', 'Exit', 1, 1, '2026-01-03T10:00:00Z');
+  raise exception 'RLS check failed: user_b added a fill to user_a''s trade';
+exception
+  when foreign_key_violation or insufficient_privilege then null;
+end
+$$;
+
+do $$
+begin
+  insert into public.trade_revisions (trade_id, changes)
+  values ('00000000-0000-0000-0000-00000000000a', '[]');
+  raise exception 'RLS check failed: user_b added a revision to user_a''s trade';
+exception
+  when foreign_key_violation or insufficient_privilege then null;
+end
+$$;
+
+select pg_temp.expect(
+  public.save_trade(
+    '{"pair": "BTC/USDT", "direction": "Short", "status": "Open", "entry_price": 1, "pnl": 0, "trade_date": "2026-01-02"}',
+    '[]',
+    '{}',
+    '00000000-0000-0000-0000-00000000000a'
+  ) is null,
+  'user_b cannot save over user_a''s trade'
+);
+
+do $$
+begin
+  perform public.merge_tags(
+    gen_random_uuid(),
+    '00000000-0000-0000-0000-0000000000a1'
+  );
+  raise exception 'RLS check failed: user_b merged into user_a''s tag';
+exception
+  when raise_exception then
+    if sqlerrm <> 'Tag not found.' then
+      raise;
+    end if;
+end
+$$;
+
+-- user_b can still work with their own trades.
+insert into public.trades (pair, direction, entry_price, pnl, trade_date)
+values ('SOL/USDT', 'Long', 150, 0, '2026-01-04');
+
+select pg_temp.expect((select count(*) from public.trades) = 1, 'user_b reads their own trade');
+
+-- Without a session token nothing is visible.
+select set_config('request.jwt.claims', '', true);
+select set_config('role', 'anon', true);
+
+select pg_temp.expect((select count(*) from public.trades) = 0, 'anonymous requests read nothing');
+
+-- user_a's data is untouched.
+select pg_temp.sign_in('user_a');
+
+select pg_temp.expect(
+  (select pnl from public.trades where id = '00000000-0000-0000-0000-00000000000a') = 0,
+  'user_a trade was not modified'
+);
+select pg_temp.expect((select count(*) from public.trades) = 1, 'user_a sees only their trade');
+select pg_temp.expect(
+  (select deleted_at from public.trades where id = '00000000-0000-0000-0000-00000000000a') is null,
+  'user_a trade was not moved to the trash'
+);
+select pg_temp.expect((select count(*) from public.trade_fills) = 1, 'user_a fills are intact');
+select pg_temp.expect((select count(*) from public.account_transfers) = 1, 'user_a transfers are intact');
+
+-- The revision log is append-only, even for the trade's owner.
+with changed as (
+  update public.trade_revisions set changes = '[]' returning id
+)
+select pg_temp.expect((select count(*) from changed) = 0, 'user_a cannot rewrite revisions');
+
+with removed as (
+  delete from public.trade_revisions returning id
+)
+select pg_temp.expect((select count(*) from removed) = 0, 'user_a cannot delete revisions');
+
+select 'RLS isolation checks passed' as result;